@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { Sidebar } from './components/Sidebar';
+import { Sidebar, ViewType } from './components/Sidebar';
 import { LessonGenerator } from './components/LessonGenerator';
 import { HomeReviewGenerator } from './components/HomeReviewGenerator';
 import { Dashboard } from './components/Dashboard';
-import { GeneratedLessonPlan } from './types';
+import { Settings } from './components/Settings';
+import { PlanLibrary } from './components/PlanLibrary';
+import { UnitPlanner } from './components/UnitPlanner';
+import { ClassCalendar } from './components/ClassCalendar';
+import { TextbookLibrary } from './components/TextbookLibrary';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { AppSettings, ContentType, GeneratedLessonPlan, GenerationQueueState, PlanChangeSource } from './types';
+import { listPlans, savePlan, deletePlan } from './services/storageService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { discardQueuedGeneration, runGenerationQueue, subscribeToQueue } from './services/generationQueue';
 
-// Mock data to pre-populate dashboard if empty
+// Demo data shown next to the teacher's own plans (never persisted, can be turned off in settings)
 const MOCK_PLANS: GeneratedLessonPlan[] = [
     {
         id: 'mock-1',
@@ -23,7 +32,8 @@ const MOCK_PLANS: GeneratedLessonPlan[] = [
         },
         sequence: [],
         evaluation: { qualitative: [], quantitative: [] },
-        resources: []
+        resources: [],
+        contentType: ContentType.CONCEPTUAL
     },
     {
         id: 'mock-2',
@@ -41,56 +51,165 @@ const MOCK_PLANS: GeneratedLessonPlan[] = [
         },
         sequence: [],
         evaluation: { qualitative: [], quantitative: [] },
-        resources: []
+        resources: [],
+        contentType: ContentType.CONCEPTUAL
     }
 ];
 
 export default function App() {
-  const [currentView, setCurrentView] = useState<'dashboard' | 'create' | 'saved' | 'review'>('dashboard');
-  const [plans, setPlans] = useState<GeneratedLessonPlan[]>(MOCK_PLANS);
+  const [currentView, setCurrentView] = useState<ViewType>('dashboard');
+  const [plans, setPlans] = useState<GeneratedLessonPlan[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   // Track the specific plan generated by the user in this session to auto-fill review
   const [lastGeneratedPlan, setLastGeneratedPlan] = useState<GeneratedLessonPlan | null>(null);
+  // Plan reopened from the library into the generator (null = blank form)
+  const [openedPlan, setOpenedPlan] = useState<GeneratedLessonPlan | null>(null);
 
-  const handlePlanGenerated = (newPlan: GeneratedLessonPlan) => {
-    setPlans(prev => [newPlan, ...prev]);
+  // Load the persisted library once on startup
+  useEffect(() => {
+    listPlans()
+      .then(setPlans)
+      .catch(error => console.error("Could not load saved plans:", error));
+  }, []);
+
+  // A demo plan that was edited is saved into the library; show that copy only
+  const visiblePlans = settings.showDemoData
+    ? [...plans, ...MOCK_PLANS.filter(mock => !plans.some(p => p.id === mock.id))]
+    : plans;
+  const isDemoPlan = (plan: GeneratedLessonPlan) =>
+    MOCK_PLANS.some(mock => mock.id === plan.id) && !plans.some(p => p.id === plan.id);
+
+  const handleNavigate = (view: ViewType) => {
+    // "Nuevo Plan" from the sidebar always starts from a blank form
+    if (view === 'create') setOpenedPlan(null);
+    setCurrentView(view);
+  };
+
+  const handleOpenPlan = (plan: GeneratedLessonPlan) => {
+    setOpenedPlan(plan);
+    setLastGeneratedPlan(plan);
+    setCurrentView('create');
+  };
+
+  const handleDeletePlan = async (plan: GeneratedLessonPlan) => {
+    try {
+      await deletePlan(plan.id);
+      setPlans(prev => prev.filter(p => p.id !== plan.id));
+      if (lastGeneratedPlan?.id === plan.id) setLastGeneratedPlan(null);
+    } catch (error) {
+      console.error("Could not delete plan:", error);
+      alert("No se pudo eliminar el plan.");
+    }
+  };
+
+  // Used both for new plans and for edits to an existing one
+  const handlePlanSaved = async (newPlan: GeneratedLessonPlan, source: PlanChangeSource) => {
     setLastGeneratedPlan(newPlan);
-    // Optional: Auto-switch to a detail view or stay to print
+    try {
+      const saved = await savePlan(newPlan, source);
+      setPlans(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+    } catch (error) {
+      console.error("Could not save plan:", error);
+      // Keep it visible for this session even if persistence failed
+      setPlans(prev => [newPlan, ...prev.filter(p => p.id !== newPlan.id)]);
+    }
+  };
+
+  // Offline queue: runs on startup and whenever the connection returns. While jobs wait with a
+  // connection (the API itself may be unreachable) it is retried every minute.
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queue, setQueue] = useState<GenerationQueueState>({ jobs: [], runningId: null });
+  const runQueue = (includeFailed = false) =>
+    runGenerationQueue(plan => handlePlanSaved(plan, 'generated'), { includeFailed });
+
+  useEffect(() => subscribeToQueue(setQueue), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      runQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) runQueue();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const hasWaitingJobs = queue.jobs.some(job => !job.lastErrorKind);
+  useEffect(() => {
+    if (!isOnline || !hasWaitingJobs) return;
+    const timer = window.setInterval(() => runQueue(), 60_000);
+    return () => window.clearInterval(timer);
+  }, [isOnline, hasWaitingJobs]);
+
+  const handleDiscardQueued = (id: string) => {
+    discardQueuedGeneration(id).catch(error => console.error("Could not discard queued generation:", error));
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
   };
 
   const renderContent = () => {
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard savedPlans={plans} />;
+        return <Dashboard savedPlans={visiblePlans} monthlyBudgetUsd={settings.monthlyBudgetUsd} />;
       case 'create':
-        return <LessonGenerator onPlanGenerated={handlePlanGenerated} />;
+        return (
+          <LessonGenerator
+            key={openedPlan?.id || 'new'}
+            initialPlan={openedPlan}
+            onPlanGenerated={(plan) => handlePlanSaved(plan, 'generated')}
+            onPlanUpdated={handlePlanSaved}
+            school={settings.school}
+          />
+        );
+      case 'units':
+        return <UnitPlanner plans={plans} onPlanSaved={handlePlanSaved} onOpenPlan={handleOpenPlan} school={settings.school} />;
+      case 'calendar':
+        return <ClassCalendar plans={plans} onOpenPlan={handleOpenPlan} />;
+      case 'textbooks':
+        return <TextbookLibrary plans={plans} />;
       case 'review':
         return <HomeReviewGenerator linkedPlan={lastGeneratedPlan} />;
       case 'saved':
         return (
-            <div className="bg-white rounded-2xl p-8 shadow-sm text-center">
-                <h2 className="text-2xl font-bold text-slate-800">Mis Planes Guardados</h2>
-                <p className="text-slate-500 mt-2">Funcionalidad completa en desarrollo. Ver Dashboard para resumen.</p>
-                <button onClick={() => setCurrentView('dashboard')} className="mt-4 text-indigo-600 hover:underline">Volver al Dashboard</button>
-            </div>
+          <PlanLibrary
+            plans={visiblePlans}
+            onOpenPlan={handleOpenPlan}
+            onDeletePlan={handleDeletePlan}
+            isDemoPlan={isDemoPlan}
+          />
         );
+      case 'settings':
+        return <Settings settings={settings} onChange={handleSettingsChange} />;
       default:
-        return <Dashboard savedPlans={plans} />;
+        return <Dashboard savedPlans={visiblePlans} monthlyBudgetUsd={settings.monthlyBudgetUsd} />;
     }
   };
 
   const getTitle = () => {
       switch(currentView) {
           case 'create': return 'Crear Nuevo Plan';
+          case 'units': return 'Planificar Unidad';
+          case 'calendar': return 'Calendario de Clases';
+          case 'textbooks': return 'Biblioteca de Libros de Texto';
           case 'review': return 'Repaso para WhatsApp';
           case 'dashboard': return 'Dashboard';
           case 'saved': return 'Mis Planes';
+          case 'settings': return 'Configuración';
           default: return 'Plan Ultra';
       }
   }
 
   return (
     <div className="min-h-screen bg-slate-50 flex font-sans text-slate-900">
-      <Sidebar currentView={currentView} setCurrentView={setCurrentView} />
+      <Sidebar currentView={currentView} setCurrentView={handleNavigate} />
       
       <main className="flex-1 ml-64 p-8 overflow-y-auto h-screen">
         <header className="flex justify-between items-center mb-8">
@@ -103,10 +222,7 @@ export default function App() {
              </p>
           </div>
           <div className="flex items-center space-x-4">
-             <div className="bg-white px-4 py-2 rounded-full border border-slate-200 shadow-sm flex items-center space-x-2">
-                <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-                <span className="text-xs font-medium text-slate-600">Sistema Operativo</span>
-             </div>
+             <ConnectionStatus isOnline={isOnline} queue={queue} onRetry={() => runQueue(true)} onDiscard={handleDiscardQueued} />
              <div className="h-10 w-10 rounded-full bg-indigo-100 flex items-center justify-center text-indigo-700 font-bold border border-indigo-200">
                 P
              </div>
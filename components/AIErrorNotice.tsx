@@ -0,0 +1,70 @@
+import React from 'react';
+import { AIError, AIErrorKind } from '../services/aiErrors';
+import { ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, { title: string; hint: string }> = {
+  quota: {
+    title: 'Límite de uso alcanzado',
+    hint: 'Se agotó la cuota de la clave de API o hay demasiadas solicitudes. Espera unos minutos e intenta de nuevo.',
+  },
+  key: {
+    title: 'Clave de API no válida',
+    hint: 'Revisa que la clave de API esté configurada y tenga permisos para los modelos Gemini, o usa el modo demostración en Configuración.',
+  },
+  safety: {
+    title: 'Contenido bloqueado',
+    hint: 'Los filtros de seguridad del modelo rechazaron la solicitud. Reformula el tema o el enfoque bíblico.',
+  },
+  network: {
+    title: 'Sin conexión',
+    hint: 'No se pudo contactar al servicio de IA. Verifica tu conexión a internet.',
+  },
+  timeout: {
+    title: 'Tiempo de espera agotado',
+    hint: 'El modelo tardó demasiado en responder. Prueba con el modelo FLASH o inténtalo más tarde.',
+  },
+  unavailable: {
+    title: 'Modelos saturados',
+    hint: 'El servicio de IA está ocupado en este momento. Intenta de nuevo en unos minutos.',
+  },
+  invalidResponse: {
+    title: 'Respuesta incompleta',
+    hint: 'El modelo devolvió una respuesta que no se pudo interpretar. Intenta generar de nuevo.',
+  },
+  cancelled: {
+    title: 'Generación cancelada',
+    hint: 'La solicitud se detuvo antes de terminar.',
+  },
+  unknown: {
+    title: 'Error inesperado',
+    hint: 'Algo salió mal al generar el contenido. Revisa la consola para más detalles.',
+  },
+};
+
+interface AIErrorNoticeProps {
+  error: AIError;
+  context?: string; // What was being generated, e.g. "la evaluación"
+  onDismiss: () => void;
+}
+
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, context, onDismiss }) => {
+  const { title, hint } = AI_ERROR_MESSAGES[error.kind];
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-3rem)] max-w-lg bg-white rounded-xl shadow-2xl border border-red-200 p-4 flex items-start gap-3 animate-fade-in-up"
+    >
+      <ExclamationTriangleIcon className="w-6 h-6 text-red-500 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="text-sm font-bold text-slate-800">
+          {title}{context && <span className="font-normal text-slate-500"> · {context}</span>}
+        </p>
+        <p className="text-sm text-slate-600 mt-1">{hint}</p>
+      </div>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600" title="Cerrar">
+        <XMarkIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { AssessmentItemSpec, BloomLevel, QuizItemType } from '../types';
+import { BLOOM_LEVEL_LABELS, ITEM_TYPE_LABELS, MAX_QUIZ_ITEMS, SUGGESTED_ITEM_SPECS, WEBB_LEVELS, WEBB_LEVEL_LABELS } from '../utils/assessmentItems';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface AssessmentBlueprintInputProps {
+  value: AssessmentItemSpec[];
+  onChange: (specs: AssessmentItemSpec[]) => void;
+}
+
+// Table of specifications for a quiz: how many items of each type, what each one is worth and the
+// cognitive level it must reach. One row per item gives every item its own level.
+export const AssessmentBlueprintInput: React.FC<AssessmentBlueprintInputProps> = ({ value, onChange }) => {
+  const itemCount = value.reduce((sum, spec) => sum + spec.count, 0);
+  const points = value.reduce((sum, spec) => sum + spec.count * spec.points, 0);
+
+  const update = (index: number, change: Partial<AssessmentItemSpec>) =>
+    onChange(value.map((spec, i) => i === index ? { ...spec, ...change } : spec));
+
+  const addRow = () => onChange([...value, { type: 'multipleChoice', count: 1, points: 1, bloomLevel: 'understand' }]);
+
+  const removeRow = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  // Empty or invalid input falls back to 1 rather than leaving the row without items
+  const positive = (text: string) => Math.max(1, Math.round(Number(text)) || 1);
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 mb-4">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="pb-1 font-medium">Tipo de ítem</th>
+            <th className="pb-1 font-medium w-12">Cant.</th>
+            <th className="pb-1 font-medium w-12">Pts c/u</th>
+            <th className="pb-1 font-medium">Nivel (Bloom · Webb)</th>
+            <th className="pb-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {value.map((spec, i) => (
+            <tr key={i}>
+              <td className="pr-1 py-0.5">
+                <select
+                  value={spec.type}
+                  onChange={(e) => update(i, { type: e.target.value as QuizItemType })}
+                  className="w-full text-xs border-slate-300 rounded-md py-1"
+                >
+                  {(Object.keys(ITEM_TYPE_LABELS) as QuizItemType[]).map(type => (
+                    <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="pr-1 py-0.5">
+                <input
+                  type="number" min={1} max={MAX_QUIZ_ITEMS}
+                  value={spec.count}
+                  onChange={(e) => update(i, { count: Math.min(MAX_QUIZ_ITEMS, positive(e.target.value)) })}
+                  className="w-full text-xs border-slate-300 rounded-md py-1 px-1"
+                />
+              </td>
+              <td className="pr-1 py-0.5">
+                <input
+                  type="number" min={1}
+                  value={spec.points}
+                  onChange={(e) => update(i, { points: positive(e.target.value) })}
+                  className="w-full text-xs border-slate-300 rounded-md py-1 px-1"
+                />
+              </td>
+              <td className="pr-1 py-0.5">
+                <select
+                  value={spec.bloomLevel}
+                  onChange={(e) => update(i, { bloomLevel: e.target.value as BloomLevel })}
+                  title={`Webb DOK ${WEBB_LEVELS[spec.bloomLevel]}: ${WEBB_LEVEL_LABELS[WEBB_LEVELS[spec.bloomLevel]]}`}
+                  className="w-full text-xs border-slate-300 rounded-md py-1"
+                >
+                  {(Object.keys(BLOOM_LEVEL_LABELS) as BloomLevel[]).map(level => (
+                    <option key={level} value={level}>{BLOOM_LEVEL_LABELS[level]} · DOK {WEBB_LEVELS[level]}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-0.5 text-right">
+                <button onClick={() => removeRow(i)} disabled={value.length === 1} className="text-slate-300 hover:text-red-500 disabled:opacity-30" title="Quitar fila">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <div className="flex items-center gap-3">
+          <button onClick={addRow} className="flex items-center text-indigo-600 hover:underline">
+            <PlusIcon className="w-3 h-3 mr-1" /> Agregar fila
+          </button>
+          <button onClick={() => onChange(SUGGESTED_ITEM_SPECS)} className="text-slate-500 hover:underline">
+            Restablecer
+          </button>
+        </div>
+        <span className={itemCount > MAX_QUIZ_ITEMS ? 'text-red-600 font-semibold' : 'text-slate-500'}>
+          {itemCount} ítems · {points} pts
+        </span>
+      </div>
+    </div>
+  );
+};
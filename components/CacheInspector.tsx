@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CachedResponse } from '../types';
+import { listCachedResponses, deleteCachedResponse, clearResponseCache, pruneExpiredResponses } from '../services/storageService';
+import { taskLabel } from '../utils/aiTaskLabels';
+import { TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('es-NI', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const sizeOf = (entry: CachedResponse) => {
+  const kb = JSON.stringify(entry.value).length / 1024;
+  return kb < 1 ? '<1 KB' : `${Math.round(kb)} KB`;
+};
+
+// Lists stored AI answers so teachers can see what is being reused and free space or force fresh results
+export const CacheInspector: React.FC = () => {
+  const [entries, setEntries] = useState<CachedResponse[] | null>(null);
+
+  const refresh = () => {
+    listCachedResponses()
+      .then(setEntries)
+      .catch(error => {
+        console.error("Could not read response cache:", error);
+        setEntries([]);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (key: string) => {
+    await deleteCachedResponse(key);
+    refresh();
+  };
+
+  const handlePruneExpired = async () => {
+    await pruneExpiredResponses();
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('¿Borrar todas las respuestas guardadas? Las próximas generaciones consumirán cuota de nuevo.')) return;
+    await clearResponseCache();
+    refresh();
+  };
+
+  if (!entries) {
+    return <p className="text-sm text-slate-400 flex items-center"><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Cargando caché...</p>;
+  }
+
+  const now = new Date().toISOString();
+  const expiredCount = entries.filter(e => e.expiresAt <= now).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <p className="text-sm text-slate-600">
+          {entries.length === 0 ? 'No hay respuestas guardadas.' : `${entries.length} respuestas guardadas${expiredCount ? ` (${expiredCount} vencidas)` : ''}.`}
+        </p>
+        {entries.length > 0 && (
+          <div className="flex gap-2">
+            {expiredCount > 0 && (
+              <button onClick={handlePruneExpired} className="text-xs font-medium text-slate-600 hover:text-indigo-600 px-2 py-1 rounded hover:bg-slate-50">
+                Quitar vencidas
+              </button>
+            )}
+            <button onClick={handleClear} className="text-xs font-medium text-red-600 hover:bg-red-50 px-2 py-1 rounded">
+              Vaciar caché
+            </button>
+          </div>
+        )}
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg max-h-80 overflow-y-auto">
+          {entries.map(entry => {
+            const expired = entry.expiresAt <= now;
+            return (
+              <li key={entry.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-800 truncate">
+                    {taskLabel(entry.task)}
+                    {entry.label && <span className="font-normal text-slate-500"> · {entry.label}</span>}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {entry.model} · {formatDate(entry.createdAt)} · {sizeOf(entry)} ·{' '}
+                    <span className={expired ? 'text-amber-600' : ''}>
+                      {expired ? 'vencida' : `vence el ${formatDate(entry.expiresAt)}`}
+                    </span>
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(entry.key)}
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                  title="Eliminar de la caché"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
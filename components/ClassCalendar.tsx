@@ -0,0 +1,311 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClassSchedule, GeneratedLessonPlan, ScheduledLesson } from '../types';
+import { getSchedule, saveSchedule, listScheduledLessons, putScheduledLesson, deleteScheduledLesson, scheduledLessonId, EMPTY_SCHEDULE } from '../services/storageService';
+import { ClassOccurrence, WEEKDAY_LABELS, addDays, classesBetween, classesOn, durationOverflow, fromDateKey, holidayOn, isInTerm, startOfWeek, timeToMinutes, toDateKey } from '../utils/schedule';
+import { downloadScheduleIcs } from '../utils/icsExport';
+import { ScheduleEditor } from './ScheduleEditor';
+import { CalendarDaysIcon, ChevronLeftIcon, ChevronRightIcon, ArrowDownTrayIcon, Cog6ToothIcon, ExclamationTriangleIcon, XMarkIcon, MagnifyingGlassIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface ClassCalendarProps {
+  plans: GeneratedLessonPlan[];
+  onOpenPlan: (plan: GeneratedLessonPlan) => void;
+}
+
+type CalendarTab = 'week' | 'setup';
+
+// Without term dates, the .ics export covers this many weeks from today
+const DEFAULT_EXPORT_WEEKS = 12;
+
+const formatDay = (date: Date) => date.toLocaleDateString('es-NI', { day: 'numeric', month: 'short' });
+
+// Weekly calendar of the teacher's classes. Saved plans are dragged onto a class to schedule them;
+// tapping a plan and then a class does the same without a mouse.
+export const ClassCalendar: React.FC<ClassCalendarProps> = ({ plans, onOpenPlan }) => {
+  const [schedule, setSchedule] = useState<ClassSchedule | null>(null);
+  const [tab, setTab] = useState<CalendarTab>('week');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [lessons, setLessons] = useState<ScheduledLesson[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [planQuery, setPlanQuery] = useState('');
+
+  useEffect(() => {
+    getSchedule()
+      .then(loaded => {
+        setSchedule(loaded);
+        // First visit: nothing to show until the timetable exists
+        if (loaded.slots.length === 0) setTab('setup');
+      })
+      .catch(error => {
+        console.error("Could not load schedule:", error);
+        setSchedule(EMPTY_SCHEDULE);
+      });
+  }, []);
+
+  const weekEnd = addDays(weekStart, 6);
+
+  const refreshLessons = () => {
+    listScheduledLessons(toDateKey(weekStart), toDateKey(weekEnd))
+      .then(setLessons)
+      .catch(error => console.error("Could not load scheduled lessons:", error));
+  };
+
+  useEffect(refreshLessons, [weekStart]);
+
+  const filteredPlans = useMemo(() => {
+    const query = planQuery.trim().toLowerCase();
+    if (!query) return plans;
+    return plans.filter(p =>
+      [p.generalData.contentConceptual, p.generalData.subject, p.generalData.grade, p.generalData.unit]
+        .some(field => field?.toLowerCase().includes(query))
+    );
+  }, [plans, planQuery]);
+
+  if (!schedule) {
+    return <p className="text-sm text-slate-400 flex items-center"><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Cargando horario...</p>;
+  }
+
+  const handleSaveSchedule = async (next: ClassSchedule) => {
+    try {
+      await saveSchedule(next);
+      setSchedule(next);
+      refreshLessons();
+      if (next.slots.length > 0) setTab('week');
+    } catch (error) {
+      console.error("Could not save schedule:", error);
+      alert("No se pudo guardar el horario.");
+    }
+  };
+
+  const assignPlan = async (occurrence: ClassOccurrence, planId: string) => {
+    const lesson: ScheduledLesson = {
+      id: scheduledLessonId(occurrence.slot.id, occurrence.date),
+      slotId: occurrence.slot.id,
+      date: occurrence.date,
+      planId,
+    };
+    try {
+      await putScheduledLesson(lesson);
+      setLessons(prev => [...prev.filter(l => l.id !== lesson.id), lesson]);
+      setSelectedPlanId(null);
+    } catch (error) {
+      console.error("Could not schedule plan:", error);
+      alert("No se pudo asignar el plan a la clase.");
+    }
+  };
+
+  const unassign = async (lesson: ScheduledLesson) => {
+    try {
+      await deleteScheduledLesson(lesson.id);
+      setLessons(prev => prev.filter(l => l.id !== lesson.id));
+    } catch (error) {
+      console.error("Could not unschedule plan:", error);
+    }
+  };
+
+  const handleExport = async () => {
+    const today = new Date();
+    const from = schedule.termStart ? fromDateKey(schedule.termStart) : today;
+    const to = schedule.termEnd ? fromDateKey(schedule.termEnd) : addDays(today, DEFAULT_EXPORT_WEEKS * 7);
+    try {
+      const allLessons = await listScheduledLessons(toDateKey(from), toDateKey(to));
+      downloadScheduleIcs(classesBetween(schedule, from, to), allLessons, plans);
+    } catch (error) {
+      console.error("Could not export schedule:", error);
+      alert("No se pudo exportar el calendario.");
+    }
+  };
+
+  const weekdays = schedule.slots.some(s => s.weekday === 6) ? [1, 2, 3, 4, 5, 6] : [1, 2, 3, 4, 5];
+  const periods = [...schedule.periods].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  const days = weekdays.map(weekday => addDays(weekStart, weekday - 1));
+  const occurrencesByDay = new Map(days.map(day => [toDateKey(day), classesOn(schedule, day)]));
+  const todayKey = toDateKey(new Date());
+
+  const renderCell = (day: Date, periodId: string) => {
+    const dateKey = toDateKey(day);
+    const occurrence = occurrencesByDay.get(dateKey)?.find(o => o.period.id === periodId);
+    if (!occurrence) return null;
+
+    const cellId = scheduledLessonId(occurrence.slot.id, occurrence.date);
+    const lesson = lessons.find(l => l.id === cellId);
+    const plan = lesson ? plans.find(p => p.id === lesson.planId) : undefined;
+    const overflow = plan ? durationOverflow(plan.duration, occurrence.period) : null;
+    const gradeMismatch = plan && plan.generalData.grade !== occurrence.section.grade;
+
+    return (
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDropTarget(cellId); }}
+        onDragLeave={() => setDropTarget(prev => prev === cellId ? null : prev)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDropTarget(null);
+          const planId = e.dataTransfer.getData('text/plain');
+          if (planId) assignPlan(occurrence, planId);
+        }}
+        onClick={() => selectedPlanId && assignPlan(occurrence, selectedPlanId)}
+        className={`rounded-lg p-2 min-h-[4.5rem] text-xs border transition-colors ${
+          dropTarget === cellId ? 'border-indigo-500 bg-indigo-50' :
+          selectedPlanId ? 'border-dashed border-indigo-300 bg-white cursor-pointer hover:bg-indigo-50' :
+          plan ? 'border-indigo-100 bg-indigo-50' : 'border-slate-200 bg-white'
+        }`}
+      >
+        <p className="font-semibold text-slate-700 truncate">{occurrence.slot.subject}</p>
+        <p className="text-slate-400">{occurrence.section.name}</p>
+        {lesson && (
+          <div className="mt-1.5 flex items-start gap-1">
+            {plan ? (
+              <button
+                onClick={(e) => { e.stopPropagation(); onOpenPlan(plan); }}
+                className="flex-1 min-w-0 text-left text-indigo-700 font-medium hover:underline line-clamp-2"
+                title="Abrir plan"
+              >
+                {plan.generalData.contentConceptual}
+              </button>
+            ) : (
+              <span className="flex-1 text-slate-400 italic">Plan no disponible</span>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); unassign(lesson); }}
+              className="text-slate-400 hover:text-red-600"
+              title="Quitar de esta clase"
+            >
+              <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+        {overflow && (
+          <p className="mt-1 text-amber-700 flex items-start" title="La duración del plan supera la del período">
+            <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+            {overflow.planMinutes} min en un período de {overflow.periodMinutes}
+          </p>
+        )}
+        {gradeMismatch && (
+          <p className="mt-1 text-amber-700 flex items-start">
+            <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+            Plan de {plan.generalData.grade}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex bg-white rounded-xl border border-slate-200 p-1 shadow-sm">
+          <button
+            onClick={() => setTab('week')}
+            disabled={schedule.slots.length === 0}
+            className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium ${tab === 'week' ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-50 disabled:text-slate-300'}`}
+          >
+            <CalendarDaysIcon className="w-4 h-4 mr-2" /> Semana
+          </button>
+          <button
+            onClick={() => setTab('setup')}
+            className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium ${tab === 'setup' ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <Cog6ToothIcon className="w-4 h-4 mr-2" /> Horario
+          </button>
+        </div>
+
+        {tab === 'week' && (
+          <div className="flex items-center gap-2">
+            <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-slate-200" title="Semana anterior">
+              <ChevronLeftIcon className="w-5 h-5 text-slate-600" />
+            </button>
+            <button onClick={() => setWeekStart(startOfWeek(new Date()))} className="px-3 py-2 rounded-lg text-sm font-medium text-slate-700 hover:bg-white border border-transparent hover:border-slate-200">
+              {formatDay(weekStart)} – {formatDay(weekEnd)}
+            </button>
+            <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-2 rounded-lg hover:bg-white border border-transparent hover:border-slate-200" title="Semana siguiente">
+              <ChevronRightIcon className="w-5 h-5 text-slate-600" />
+            </button>
+            <button onClick={handleExport} className="ml-2 flex items-center px-3 py-2 rounded-lg bg-white border border-slate-200 text-sm font-medium text-slate-700 hover:border-indigo-300 hover:text-indigo-600 shadow-sm">
+              <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Exportar .ics
+            </button>
+          </div>
+        )}
+      </div>
+
+      {tab === 'setup' ? (
+        <ScheduleEditor schedule={schedule} onSave={handleSaveSchedule} />
+      ) : (
+        <div className="flex flex-col xl:flex-row gap-6">
+          {/* Saved plans to drag onto classes */}
+          <div className="xl:w-72 w-full bg-white rounded-2xl shadow-sm border border-slate-200 p-4 xl:max-h-[calc(100vh-12rem)] flex flex-col">
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-1">Mis Planes</h3>
+            <p className="text-xs text-slate-400 mb-3">Arrastra un plan a una clase, o tócalo y luego toca la clase.</p>
+            <div className="relative mb-3">
+              <MagnifyingGlassIcon className="w-4 h-4 text-slate-400 absolute left-2.5 top-2.5" />
+              <input
+                type="text"
+                value={planQuery}
+                onChange={(e) => setPlanQuery(e.target.value)}
+                placeholder="Buscar..."
+                className="w-full pl-8 pr-3 py-1.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              />
+            </div>
+            <ul className="space-y-2 overflow-y-auto flex-1">
+              {filteredPlans.length === 0 && <li className="text-sm text-slate-400">No hay planes guardados.</li>}
+              {filteredPlans.map(plan => (
+                <li
+                  key={plan.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', plan.id);
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  onClick={() => setSelectedPlanId(selectedPlanId === plan.id ? null : plan.id)}
+                  className={`p-2.5 rounded-lg border text-sm cursor-grab active:cursor-grabbing ${selectedPlanId === plan.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'}`}
+                >
+                  <p className="font-medium text-slate-800 line-clamp-2">{plan.generalData.contentConceptual}</p>
+                  <p className="text-xs text-slate-400">
+                    {plan.generalData.subject} · {plan.generalData.grade}{plan.duration ? ` · ${plan.duration}` : ''}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Week grid */}
+          <div className="flex-1 bg-white rounded-2xl shadow-sm border border-slate-200 p-4 overflow-x-auto">
+            <table className="w-full border-collapse table-fixed">
+              <thead>
+                <tr>
+                  <th className="w-28"></th>
+                  {days.map(day => {
+                    const dateKey = toDateKey(day);
+                    const holiday = holidayOn(dateKey, schedule.holidays);
+                    return (
+                      <th key={dateKey} className="p-2 text-left align-bottom">
+                        <p className={`text-xs font-semibold uppercase ${dateKey === todayKey ? 'text-indigo-600' : 'text-slate-500'}`}>{WEEKDAY_LABELS[day.getDay()]}</p>
+                        <p className={`text-sm font-bold ${dateKey === todayKey ? 'text-indigo-600' : 'text-slate-800'}`}>{formatDay(day)}</p>
+                        {holiday && <p className="text-xs font-medium text-amber-600 truncate">{holiday.name || 'Feriado'}</p>}
+                        {!holiday && !isInTerm(dateKey, schedule) && <p className="text-xs text-slate-400">Fuera del año lectivo</p>}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map(period => (
+                  <tr key={period.id} className="border-t border-slate-100">
+                    <td className="p-2 align-top">
+                      <p className="text-sm font-medium text-slate-700">{period.label}</p>
+                      <p className="text-xs text-slate-400">{period.start} – {period.end}</p>
+                    </td>
+                    {days.map(day => (
+                      <td key={toDateKey(day)} className={`p-1.5 align-top ${holidayOn(toDateKey(day), schedule.holidays) ? 'bg-amber-50/50' : ''}`}>
+                        {renderCell(day, period.id)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { GenerationQueueState } from '../types';
+import { AI_ERROR_MESSAGES } from './AIErrorNotice';
+import { ArrowPathIcon, CloudArrowDownIcon, SignalSlashIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ConnectionStatusProps {
+  isOnline: boolean;
+  queue: GenerationQueueState;
+  onRetry: () => void;    // Run the queue now, including jobs that failed before
+  onDiscard: (id: string) => void;
+}
+
+const formatQueuedAt = (iso: string) =>
+  new Date(iso).toLocaleString('es-NI', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Header pill: connection, generations waiting in the offline queue, and the service worker
+// (ready for offline use, new version available). Opens a menu with the queue.
+export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ isOnline, queue, onRetry, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const {
+    offlineReady: [offlineReady],
+    needRefresh: [needRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+
+  const { jobs, runningId } = queue;
+  const failedCount = jobs.filter(job => job.lastErrorKind).length;
+  const installed = offlineReady || !!navigator.serviceWorker?.controller;
+
+  const [dot, label] =
+    !isOnline ? ['bg-amber-500', jobs.length ? `Sin conexión · ${jobs.length} en cola` : 'Sin conexión']
+    : runningId ? ['bg-indigo-500 animate-pulse', `Generando en cola (${jobs.length})`]
+    : failedCount ? ['bg-red-500', `${failedCount} en cola con error`]
+    : jobs.length ? ['bg-amber-500 animate-pulse', `${jobs.length} en cola`]
+    : ['bg-green-500 animate-pulse', needRefresh ? 'Nueva versión disponible' : 'En línea'];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white px-4 py-2 rounded-full border border-slate-200 shadow-sm flex items-center space-x-2 hover:bg-slate-50"
+      >
+        <div className={`w-2 h-2 rounded-full ${dot}`}></div>
+        <span className="text-xs font-medium text-slate-600">{label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-lg p-4 z-30 text-left">
+          <div className="flex items-start justify-between mb-3">
+            <div className="flex items-start gap-2">
+              {isOnline
+                ? <CloudArrowDownIcon className="w-5 h-5 text-emerald-600 flex-shrink-0" />
+                : <SignalSlashIcon className="w-5 h-5 text-amber-600 flex-shrink-0" />}
+              <div>
+                <p className="text-sm font-bold text-slate-800">{isOnline ? 'Conectado' : 'Sin conexión'}</p>
+                <p className="text-xs text-slate-500">
+                  {isOnline
+                    ? 'Lo que se generó sin conexión se procesa automáticamente.'
+                    : 'Puedes abrir y exportar tus planes guardados. Lo que generes quedará en cola hasta que vuelva el internet.'}
+                </p>
+              </div>
+            </div>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <p className={`text-xs mb-3 ${installed ? 'text-emerald-700' : 'text-slate-400'}`}>
+            {installed ? 'La aplicación está lista para usarse sin conexión.' : 'Preparando el uso sin conexión...'}
+          </p>
+
+          {needRefresh && (
+            <div className="flex items-center justify-between gap-2 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2 mb-3">
+              <span className="text-xs text-indigo-800">Hay una nueva versión de la aplicación.</span>
+              <button onClick={() => updateServiceWorker(true)} className="text-xs font-semibold text-indigo-700 hover:underline whitespace-nowrap">
+                Actualizar
+              </button>
+            </div>
+          )}
+
+          <p className="text-xs font-bold text-slate-500 uppercase mb-2">Cola de generación</p>
+          {jobs.length === 0 ? (
+            <p className="text-xs text-slate-400">No hay solicitudes pendientes.</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {jobs.map(job => (
+                <li key={job.id} className="flex items-start gap-2 text-xs">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-700 truncate">{job.label}</p>
+                    <p className={job.lastErrorKind ? 'text-red-600' : 'text-slate-400'}>
+                      {job.id === runningId ? 'Generando...'
+                        : job.lastErrorKind ? AI_ERROR_MESSAGES[job.lastErrorKind].title
+                        : `En espera desde ${formatQueuedAt(job.createdAt)}`}
+                    </p>
+                  </div>
+                  {job.id === runningId
+                    ? <ArrowPathIcon className="w-4 h-4 text-indigo-500 animate-spin" />
+                    : (
+                      <button onClick={() => onDiscard(job.id)} className="text-slate-300 hover:text-red-500" title="Descartar">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {jobs.length > 0 && isOnline && !runningId && (
+            <button
+              onClick={onRetry}
+              className="mt-3 w-full flex items-center justify-center text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg"
+            >
+              <ArrowPathIcon className="w-4 h-4 mr-1" /> Reintentar ahora
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import FileSaver from 'file-saver';
+import { CurriculumCatalog } from '../types';
+import { getCurriculumCatalog, importCurriculumCatalog, resetCurriculumCatalog, CurriculumImportError } from '../services/curriculumService';
+import { BUNDLED_CURRICULUM } from '../data/minedCurriculum';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+// Shows which MINED catalog is in use and lets a school replace it with its own JSON file
+export const CurriculumCatalogManager: React.FC = () => {
+  const [catalog, setCatalog] = useState<CurriculumCatalog | null>(null);
+  const [importError, setImportError] = useState<{ message: string; problems: string[] } | null>(null);
+
+  useEffect(() => {
+    getCurriculumCatalog().then(setCatalog);
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (!file) return;
+    setImportError(null);
+    try {
+      setCatalog(await importCurriculumCatalog(await file.text(), file.name));
+    } catch (error) {
+      console.error("Could not import curriculum:", error);
+      setImportError({
+        message: 'El archivo no es un catálogo curricular válido.',
+        problems: error instanceof CurriculumImportError ? error.problems.slice(0, 5) : [],
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('¿Volver al catálogo incluido? El catálogo importado se eliminará.')) return;
+    await resetCurriculumCatalog();
+    setCatalog(BUNDLED_CURRICULUM);
+  };
+
+  // Also serves as the template for a school's own catalog
+  const handleExport = () => {
+    if (!catalog) return;
+    const blob = new Blob([JSON.stringify(catalog, null, 2)], { type: 'application/json' });
+    FileSaver.saveAs(blob, `Catalogo_MINED_${catalog.version}.json`);
+  };
+
+  if (!catalog) {
+    return <p className="text-sm text-slate-400 flex items-center"><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Cargando catálogo...</p>;
+  }
+
+  const indicatorCount = catalog.competencies.reduce((sum, c) => sum + c.indicators.length, 0);
+  const isBundled = catalog === BUNDLED_CURRICULUM;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-slate-800">{catalog.source}</p>
+          <p className="text-xs text-slate-500">
+            Versión {catalog.version} · {catalog.competencies.length} competencias · {indicatorCount} indicadores
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="flex items-center text-xs font-medium text-slate-600 hover:text-indigo-600 px-2 py-1 rounded hover:bg-slate-50">
+            <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Descargar JSON
+          </button>
+          <label className="flex items-center text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded cursor-pointer">
+            <ArrowUpTrayIcon className="w-4 h-4 mr-1" /> Importar
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </label>
+          {!isBundled && (
+            <button onClick={handleReset} className="text-xs font-medium text-red-600 hover:bg-red-50 px-2 py-1 rounded">
+              Restaurar incluido
+            </button>
+          )}
+        </div>
+      </div>
+
+      {importError && (
+        <div className="mt-3 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+          <p className="font-medium">{importError.message}</p>
+          {importError.problems.length > 0 && (
+            <ul className="mt-1 list-disc list-inside font-mono">
+              {importError.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
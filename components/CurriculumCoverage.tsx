@@ -0,0 +1,99 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CurriculumCatalog, GeneratedLessonPlan } from '../types';
+import { getCurriculumCatalog } from '../services/curriculumService';
+import { computeCoverage } from '../utils/curriculum';
+import { AcademicCapIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface CurriculumCoverageProps {
+  plans: GeneratedLessonPlan[];
+}
+
+// Subject/grade pairs that have catalog indicators, most planned first
+const pairsByActivity = (catalog: CurriculumCatalog, plans: GeneratedLessonPlan[]) => {
+  const pairs = [...new Set(catalog.competencies.map(c => `${c.subject}|${c.grade}`))];
+  const planCount = (pair: string) => plans.filter(p => `${p.generalData.subject}|${p.generalData.grade}` === pair).length;
+  return pairs.sort((a, b) => planCount(b) - planCount(a));
+};
+
+// Which MINED indicators of a subject and grade have been planned this school year
+export const CurriculumCoverage: React.FC<CurriculumCoverageProps> = ({ plans }) => {
+  const [catalog, setCatalog] = useState<CurriculumCatalog | null>(null);
+  const [pair, setPair] = useState('');
+
+  useEffect(() => {
+    getCurriculumCatalog().then(setCatalog);
+  }, []);
+
+  const pairs = useMemo(() => catalog ? pairsByActivity(catalog, plans) : [], [catalog, plans]);
+  const selected = pair || pairs[0] || '';
+  const [subject, grade] = selected.split('|');
+  const year = new Date().getFullYear();
+
+  const coverage = useMemo(
+    () => catalog && selected ? computeCoverage(catalog, plans, subject, grade, year) : null,
+    [catalog, plans, selected, subject, grade, year]
+  );
+
+  if (!catalog || !coverage) return null;
+
+  const percent = coverage.total ? Math.round((coverage.covered / coverage.total) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <AcademicCapIcon className="w-5 h-5 mr-2 text-indigo-500" />
+            Cobertura Curricular {year}
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">Indicadores de logro del catálogo MINED con al menos un plan este año.</p>
+        </div>
+        <select
+          value={selected}
+          onChange={(e) => setPair(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+        >
+          {pairs.map(p => {
+            const [s, g] = p.split('|');
+            return <option key={p} value={p}>{s} · {g}</option>;
+          })}
+        </select>
+      </div>
+
+      <div className="mb-6">
+        <div className="flex justify-between text-xs mb-1">
+          <span className="font-medium text-slate-600">{coverage.covered} de {coverage.total} indicadores planificados</span>
+          <span className="font-bold text-indigo-600">{percent}%</span>
+        </div>
+        <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+          <div className="h-2 rounded-full bg-indigo-500" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {coverage.competencies.map(({ competency, indicators, covered }) => (
+          <div key={competency.id}>
+            <h4 className="text-sm font-bold text-slate-700">
+              {competency.unit}
+              <span className="ml-2 text-xs font-normal text-slate-400">{covered}/{indicators.length}</span>
+            </h4>
+            <p className="text-xs text-slate-500 mb-2">{competency.competency}</p>
+            <ul className="space-y-1.5">
+              {indicators.map(({ indicator, plans: covering }) => (
+                <li key={indicator.id} className="flex items-start text-sm">
+                  {covering.length > 0
+                    ? <CheckCircleIcon className="w-4 h-4 mr-2 mt-0.5 text-emerald-500 flex-shrink-0" />
+                    : <span className="w-4 h-4 mr-2 mt-0.5 rounded-full border-2 border-slate-200 flex-shrink-0" />}
+                  <span className={covering.length > 0 ? 'text-slate-700' : 'text-slate-400'}>
+                    {indicator.text}
+                    {covering.length > 1 && <span className="text-xs text-slate-400"> ({covering.length} planes)</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -12,12 +12,17 @@ import {
   Cell 
 } from 'recharts';
 import { GeneratedLessonPlan } from '../types';
+import { UsagePanel } from './UsagePanel';
+import { NextClassCard } from './NextClassCard';
+import { CurriculumCoverage } from './CurriculumCoverage';
+import { TextbookCoverage } from './TextbookCoverage';
 
 interface DashboardProps {
   savedPlans: GeneratedLessonPlan[];
+  monthlyBudgetUsd: number;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ savedPlans }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ savedPlans, monthlyBudgetUsd }) => {
   
   // Prepare data for Subject Distribution Chart
   const subjectCount = savedPlans.reduce((acc, plan) => {
@@ -53,11 +58,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ savedPlans }) => {
           <p className="text-slate-500 text-sm font-medium uppercase">Total Planes</p>
           <p className="text-4xl font-bold text-slate-900 mt-2">{savedPlans.length}</p>
         </div>
-        <div className="bg-gradient-to-br from-indigo-500 to-indigo-700 p-6 rounded-2xl shadow-lg text-white">
-          <p className="text-indigo-100 text-sm font-medium uppercase">Próxima Clase</p>
-          <p className="text-2xl font-bold mt-2">Matemáticas</p>
-          <p className="text-indigo-200 text-sm">5to Grado • Mañana 8:00 AM</p>
-        </div>
+        <NextClassCard plans={savedPlans} />
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
           <p className="text-slate-500 text-sm font-medium uppercase">Integración de Fe</p>
           <p className="text-4xl font-bold text-amber-500 mt-2">100%</p>
@@ -120,6 +121,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ savedPlans }) => {
         </div>
       </div>
 
+      <CurriculumCoverage plans={savedPlans} />
+
+      <TextbookCoverage plans={savedPlans} />
+
+      <UsagePanel monthlyBudgetUsd={monthlyBudgetUsd} />
+
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="p-6 border-b border-slate-100">
             <h3 className="text-lg font-bold text-slate-800">Historial Reciente</h3>
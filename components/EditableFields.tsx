@@ -0,0 +1,80 @@
+import React from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface EditableTextProps {
+  value: string;
+  editing: boolean;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// Renders plain text when not editing, so it can drop into the existing plan markup unchanged
+export const EditableText: React.FC<EditableTextProps> = ({ value, editing, onChange, multiline, placeholder, className = '' }) => {
+  if (!editing) return <>{value}</>;
+
+  const inputClass = `w-full px-2 py-1 rounded-md border border-indigo-200 bg-white text-inherit font-inherit focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none ${className}`;
+
+  return multiline ? (
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      rows={3}
+      className={inputClass}
+    />
+  ) : (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+};
+
+interface EditableListProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  addLabel?: string;
+  multiline?: boolean;
+}
+
+// Edit-mode only: callers keep their own read-only list markup
+export const EditableList: React.FC<EditableListProps> = ({ items, onChange, addLabel = 'Agregar', multiline }) => {
+  const updateItem = (index: number, value: string) =>
+    onChange(items.map((item, i) => (i === index ? value : item)));
+
+  const removeItem = (index: number) =>
+    onChange(items.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="flex items-start gap-2">
+          <div className="flex-1">
+            <EditableText value={item} editing onChange={(v) => updateItem(i, v)} multiline={multiline} className="text-sm" />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeItem(i)}
+            className="p-1 mt-1 text-slate-300 hover:text-red-500 transition-colors"
+            title="Eliminar"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...items, ''])}
+        className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        <PlusIcon className="w-4 h-4 mr-1" />
+        {addLabel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedLessonPlan, QuizQuestion, SchoolProfile } from '../types';
+import { EXAM_VERSION_LABELS, ExamOptions, ExamVersion, buildExamVersions, examItems, newExamSeed, versionTitle } from '../utils/exam';
+import { generateExamPdf, generateExamKeyPdf } from '../utils/pdfGenerator';
+import { generateExamDocx, generateExamKeyDocx } from '../utils/docxGenerator';
+import { DocumentTextIcon, XMarkIcon, ArrowPathIcon, PrinterIcon, DocumentIcon, KeyIcon } from '@heroicons/react/24/outline';
+
+interface ExamBuilderProps {
+  plan: GeneratedLessonPlan;
+  questions: QuizQuestion[];
+  school: SchoolProfile;
+  onClose: () => void;
+}
+
+type ExamExport = (versions: ExamVersion[], options: ExamOptions, plan: GeneratedLessonPlan, school: SchoolProfile) => Promise<void>;
+
+const DEFAULT_INSTRUCTIONS = 'Lee con atención cada pregunta antes de responder. Escribe con letra clara y revisa tus respuestas antes de entregar.';
+
+// Printable summative exam from the plan's quiz: versions with their own order of items and
+// options, answer sheets and separate answer keys, in PDF or Word. The seed stays fixed while the
+// builder is open, so every file downloaded from it describes the same versions.
+export const ExamBuilder: React.FC<ExamBuilderProps> = ({ plan, questions, school, onClose }) => {
+  const [options, setOptions] = useState<ExamOptions>(() => ({
+    title: `Evaluación Sumativa · ${plan.generalData.contentConceptual}`,
+    instructions: DEFAULT_INSTRUCTIONS,
+    versionCount: 3,
+    includeAnswerSheet: true,
+    seed: newExamSeed(),
+  }));
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [exporting, setExporting] = useState(false);
+
+  const versions = useMemo(() => buildExamVersions(questions, options), [questions, options.versionCount, options.seed]);
+  const preview = versions[Math.min(previewIndex, versions.length - 1)];
+
+  const update = (change: Partial<ExamOptions>) => setOptions(prev => ({ ...prev, ...change }));
+
+  const handleExport = async (render: ExamExport) => {
+    setExporting(true);
+    try {
+      await render(versions, options, plan, school);
+    } catch (error) {
+      console.error("Exam export failed:", error);
+      alert("Error al generar el examen.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportButton = (label: string, Icon: typeof PrinterIcon, render: ExamExport, primary = false) => (
+    <button
+      onClick={() => handleExport(render)}
+      disabled={exporting}
+      className={`flex items-center justify-center px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50 ${primary ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+    >
+      <Icon className="w-4 h-4 mr-1" /> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <DocumentTextIcon className="w-5 h-5 mr-2 text-indigo-600" />
+            Examen Imprimible
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Settings */}
+          <div className="w-80 border-r border-slate-200 overflow-y-auto p-5 space-y-4 text-sm">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Título</label>
+              <input
+                value={options.title}
+                onChange={(e) => update({ title: e.target.value })}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Indicaciones generales</label>
+              <textarea
+                value={options.instructions}
+                onChange={(e) => update({ instructions: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Versiones</label>
+              <div className="flex gap-1">
+                {EXAM_VERSION_LABELS.map((_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => update({ versionCount: i + 1 })}
+                    className={`flex-1 py-1.5 rounded-lg border text-sm ${options.versionCount === i + 1 ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {i === 0 ? 'Única' : EXAM_VERSION_LABELS.slice(0, i + 1).join('/')}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => update({ seed: newExamSeed() })} className="mt-2 flex items-center text-xs text-slate-500 hover:text-indigo-600">
+                <ArrowPathIcon className="w-3 h-3 mr-1" /> Volver a mezclar
+              </button>
+            </div>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.includeAnswerSheet}
+                onChange={(e) => update({ includeAnswerSheet: e.target.checked })}
+                className="mt-0.5 rounded text-indigo-600"
+              />
+              <span className="text-slate-700">
+                Hoja de respuestas para rellenar
+                <span className="block text-xs text-slate-400">Selección múltiple y verdadero o falso, con su plantilla de corrección en la clave.</span>
+              </span>
+            </label>
+
+            <div className="pt-2 border-t border-slate-100 space-y-2">
+              <p className="text-xs font-bold text-slate-500 uppercase">Descargar</p>
+              <div className="grid grid-cols-2 gap-2">
+                {exportButton('Examen PDF', PrinterIcon, generateExamPdf, true)}
+                {exportButton('Examen Word', DocumentIcon, generateExamDocx)}
+                {exportButton('Clave PDF', KeyIcon, generateExamKeyPdf)}
+                {exportButton('Clave Word', KeyIcon, generateExamKeyDocx)}
+              </div>
+              {exporting && <p className="text-xs text-slate-400">Generando...</p>}
+            </div>
+          </div>
+
+          {/* Preview of one version with its key */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {versions.length > 1 && (
+              <div className="flex gap-1 mb-4">
+                {versions.map((version, i) => (
+                  <button
+                    key={version.label}
+                    onClick={() => setPreviewIndex(i)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold ${version === preview ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                  >
+                    {versionTitle(version)}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 mb-4">{examItems(preview).length} ítems · {preview.points} pts</p>
+            <div className="space-y-5">
+              {preview.parts.map(part => (
+                <div key={part.numeral}>
+                  <p className="text-sm font-bold text-slate-800 border-b border-slate-200 pb-1 mb-2">{part.numeral}. {part.title}</p>
+                  <ul className="space-y-1">
+                    {part.items.map(item => (
+                      <li key={item.number} className="flex gap-3 text-xs">
+                        <span className="flex-1 text-slate-700">{item.number}. {item.question.question}</span>
+                        <span className="w-40 text-right text-emerald-700 font-semibold truncate" title={item.key}>{item.key}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
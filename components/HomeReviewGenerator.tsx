@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Subject, GradeLevel, HomeReviewRequest, GeneratedLessonPlan } from '../types';
 import { generateHomeReviewAI } from '../services/geminiService';
+import { AIError, toAIError, isCancelled } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
 import { ChatBubbleLeftRightIcon, PaperAirplaneIcon, ClipboardDocumentIcon, CheckIcon, DevicePhoneMobileIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 
 interface HomeReviewGeneratorProps {
@@ -12,6 +14,11 @@ export const HomeReviewGenerator: React.FC<HomeReviewGeneratorProps> = ({ linked
   const [generatedMessage, setGeneratedMessage] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [lastPlanId, setLastPlanId] = useState<string | null>(null);
+  const [error, setError] = useState<AIError | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const [formData, setFormData] = useState<HomeReviewRequest>({
     subject: Subject.MATHEMATICS,
@@ -39,14 +46,26 @@ export const HomeReviewGenerator: React.FC<HomeReviewGeneratorProps> = ({ linked
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
 
-  const generateReview = async (data: HomeReviewRequest) => {
+  const generateReview = async (data: HomeReviewRequest, force = false) => {
     setLoading(true);
     setGeneratedMessage(null);
+    setError(null);
+    setFromCache(false);
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const result = await generateHomeReviewAI(data);
+      const result = await generateHomeReviewAI(data, {
+        signal: controller.signal,
+        force,
+        onCacheHit: () => setFromCache(true),
+      });
       setGeneratedMessage(result.message);
-    } catch (error) {
-      alert("Error generating review. Please try again.");
+    } catch (err) {
+      if (!isCancelled(err)) {
+        console.error("Error generating review:", err);
+        setError(toAIError(err));
+      }
     } finally {
       setLoading(false);
     }
@@ -151,7 +170,15 @@ export const HomeReviewGenerator: React.FC<HomeReviewGeneratorProps> = ({ linked
       </div>
 
       {/* Result Section (Phone Preview) */}
-      <div className="xl:w-2/3 w-full flex items-center justify-center p-4">
+      <div className="xl:w-2/3 w-full flex flex-col items-center justify-center p-4">
+        {generatedMessage && fromCache && (
+          <p className="text-xs text-slate-500 mb-4">
+            Mensaje recuperado de la caché.{' '}
+            <button onClick={() => generateReview(formData, true)} className="font-semibold text-green-700 hover:underline">
+              Generar otro
+            </button>
+          </p>
+        )}
         {generatedMessage ? (
           <div className="relative w-full max-w-sm mx-auto bg-slate-900 rounded-[3rem] border-8 border-slate-800 shadow-2xl overflow-hidden animate-fade-in-up">
             {/* Phone Notch/Header */}
@@ -210,6 +237,8 @@ export const HomeReviewGenerator: React.FC<HomeReviewGeneratorProps> = ({ linked
           </div>
         )}
       </div>
+
+      {error && <AIErrorNotice error={error} context="el repaso" onDismiss={() => setError(null)} />}
     </div>
   );
 };
\ No newline at end of file
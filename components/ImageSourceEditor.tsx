@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, ImageEdit, loadOrientedImage, renderImage } from '../utils/sourceFiles';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, XMarkIcon, CheckIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface ImageSourceEditorProps {
+  file: File;
+  initialEdit: ImageEdit;
+  onApply: (edit: ImageEdit) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_DIMENSION = 900;
+
+// Crops smaller than this (as a fraction of a side) are treated as accidental clicks
+const MIN_CROP = 0.05;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Rotate and crop a photographed page before it is sent. The crop is drawn by dragging over the
+// preview and kept as fractions, so the full-resolution image is cropped the same way.
+export const ImageSourceEditor: React.FC<ImageSourceEditorProps> = ({ file, initialEdit, onApply, onCancel }) => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [edit, setEdit] = useState<ImageEdit>(initialEdit);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let loaded: ImageBitmap | null = null;
+    loadOrientedImage(file)
+      .then(result => { loaded = result; setBitmap(result); })
+      .catch(error => console.error("Could not load image:", error));
+    return () => loaded?.close();
+  }, [file]);
+
+  // The preview shows the whole rotated image; the crop is drawn on top of it
+  useEffect(() => {
+    if (!bitmap) return;
+    setPreview(renderImage(bitmap, { rotation: edit.rotation }, PREVIEW_DIMENSION).toDataURL('image/jpeg', 0.8));
+  }, [bitmap, edit.rotation]);
+
+  const rotate = (quarterTurns: 1 | -1) => {
+    setEdit(prev => ({ rotation: ((prev.rotation + quarterTurns * 90 + 360) % 360) as ImageEdit['rotation'] }));
+  };
+
+  const pointFor = (e: React.PointerEvent) => {
+    const box = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - box.left) / box.width), y: clamp((e.clientY - box.top) / box.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointFor(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = pointFor(e);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_CROP && draft.height >= MIN_CROP) {
+      setEdit(prev => ({ ...prev, crop: draft }));
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const shownCrop = draft ?? edit.crop;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800 truncate">{file.name}</h3>
+            <p className="text-xs text-slate-500">Arrastra sobre la foto para recortar solo la parte del libro que quieres usar.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 flex-shrink-0">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 flex items-center justify-center bg-slate-50">
+          {preview ? (
+            <div
+              ref={frameRef}
+              className="relative inline-block select-none touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={preview} alt={file.name} className="max-h-[60vh] max-w-full block" draggable={false} />
+              {shownCrop && (
+                <div
+                  className="absolute border-2 border-indigo-500 shadow-[0_0_0_9999px_rgba(15,23,42,0.45)] pointer-events-none"
+                  style={{
+                    left: `${shownCrop.x * 100}%`,
+                    top: `${shownCrop.y * 100}%`,
+                    width: `${shownCrop.width * 100}%`,
+                    height: `${shownCrop.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <ArrowPathIcon className="w-6 h-6 text-indigo-500 animate-spin" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-6 py-4 border-t border-slate-100">
+          <button onClick={() => rotate(-1)} className="flex items-center text-xs font-medium text-slate-600 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50">
+            <ArrowUturnLeftIcon className="w-4 h-4 mr-1" /> Girar
+          </button>
+          <button onClick={() => rotate(1)} className="flex items-center text-xs font-medium text-slate-600 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50">
+            <ArrowUturnRightIcon className="w-4 h-4 mr-1" /> Girar
+          </button>
+          {edit.crop && (
+            <button onClick={() => setEdit(prev => ({ rotation: prev.rotation }))} className="text-xs font-medium text-slate-600 px-3 py-2 rounded-lg hover:bg-slate-50">
+              Quitar recorte
+            </button>
+          )}
+          <button onClick={() => onApply(edit)} className="ml-auto flex items-center text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg">
+            <CheckIcon className="w-4 h-4 mr-1" /> Aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Subject, GradeLevel, LessonPlanRequest, GeneratedLessonPlan, ContentType, GeneratedAssessment, GeneratedAdaptation, GeneratedDynamics, AdaptationRequest, GeneratedWorksheet, GeneratedWhiteboard, GeneratedSlides, GeneratedVocabulary } from '../types';
-import { generateLessonPlanAI, generateAssessmentAI, generateAdaptationAI, generateDynamicsAI, generateWorksheetAI, generateWhiteboardAI, generateSlidesAI, generateVocabularyAI, chatWithLessonPlan } from '../services/geminiService';
-import { generateDocx } from '../utils/docxGenerator';
-import { SparklesIcon, ArrowPathIcon, PrinterIcon, DocumentArrowUpIcon, XMarkIcon, PhotoIcon, AcademicCapIcon, BookOpenIcon, LightBulbIcon, ArrowDownTrayIcon, ClipboardDocumentIcon, CheckIcon, RectangleStackIcon, TableCellsIcon, HeartIcon, PuzzlePieceIcon, UserGroupIcon, DocumentTextIcon, PresentationChartBarIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, DocumentIcon, ComputerDesktopIcon, ScissorsIcon, CpuChipIcon, ClockIcon } from '@heroicons/react/24/outline';
-
-// Extend window interface to include html2pdf
-declare global {
-  interface Window {
-    html2pdf: any;
-  }
-}
+import { Subject, GradeLevel, LessonPlanRequest, GeneratedLessonPlan, ContentType, GeneratedAssessment, GeneratedAdaptation, GeneratedDynamics, AdaptationRequest, GeneratedWorksheet, GeneratedWhiteboard, GeneratedSlides, GeneratedVocabulary, PlanResources, PlanSection, MethodologicalStrategy, PlanChangeSource, LessonPlanProgress, CurriculumCatalog, SchoolProfile, PlanTemplate, PresenterDeck, QueuedJob, QueuedResourceJob, AssessmentRequest, AssessmentItemSpec, QuizQuestion, DynamicsRequest, WorksheetRequest, WhiteboardRequest, SlidesRequest, VocabularyRequest } from '../types';
+import { generateLessonPlanStreamAI, generateAssessmentAI, generateAdaptationAI, generateDynamicsAI, generateWorksheetAI, generateWhiteboardAI, generateSlidesAI, generateVocabularyAI, chatWithLessonPlan, regeneratePlanSectionAI } from '../services/geminiService';
+import { getPlanResources, updatePlanResources, listPlanTemplates } from '../services/storageService';
+import { enqueueGeneration, shouldQueue, subscribeToQueue } from '../services/generationQueue';
+import { generateDocx, DocxAppendix, DOCX_APPENDIX_LABELS } from '../utils/docxGenerator';
+import { generateTemplateDocx, DocxTemplateError } from '../utils/docxTemplate';
+import { generatePptx } from '../utils/pptxGenerator';
+import { generatePlanPdf, generateWorksheetPdf, generateVocabularyPdf, generateQuizPdf, generateRubricPdf } from '../utils/pdfGenerator';
+import { openSpeakerWindow, presenterDeck } from '../utils/presenter';
+import { EditableText, EditableList } from './EditableFields';
+import { VersionHistory } from './VersionHistory';
+import { StreamingPlanPreview } from './StreamingPlanPreview';
+import { AIErrorNotice, AI_ERROR_MESSAGES } from './AIErrorNotice';
+import { AIError, toAIError, isCancelled } from '../services/aiErrors';
+import { getBudgetStatus, BudgetStatus } from '../services/usageService';
+import { getCurriculumCatalog } from '../services/curriculumService';
+import { isSourceTooLarge } from '../services/textbookService';
+import { competenciesFor, indicatorsFor, planIndicatorId } from '../utils/curriculum';
+import { TextbookSourceInput } from './TextbookSourceInput';
+import { SourceAttachmentsInput } from './SourceAttachmentsInput';
+import { PlanSources } from './PlanSources';
+import { SlidePresenter } from './SlidePresenter';
+import { QuizPlayer } from './QuizPlayer';
+import { ExamBuilder } from './ExamBuilder';
+import { AssessmentBlueprintInput } from './AssessmentBlueprintInput';
+import { ITEM_TYPE_LABELS, MAX_QUIZ_ITEMS, SUGGESTED_ITEM_SPECS, cognitiveLevelLabel, isAutoGradable, itemPoints, itemType, pointsLabel, totalPoints } from '../utils/assessmentItems';
+import { SparklesIcon, ArrowPathIcon, PrinterIcon, XMarkIcon, PhotoIcon, AcademicCapIcon, BookOpenIcon, LightBulbIcon, ArrowDownTrayIcon, ClipboardDocumentIcon, CheckIcon, RectangleStackIcon, TableCellsIcon, HeartIcon, PuzzlePieceIcon, UserGroupIcon, DocumentTextIcon, PresentationChartBarIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, DocumentIcon, ComputerDesktopIcon, ScissorsIcon, CpuChipIcon, ClockIcon, PencilSquareIcon, ArchiveBoxIcon, ExclamationTriangleIcon, PlayIcon, CloudArrowUpIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
 
 interface LessonGeneratorProps {
   onPlanGenerated: (plan: GeneratedLessonPlan) => void;
+  onPlanUpdated: (plan: GeneratedLessonPlan, source: PlanChangeSource) => void; // Edits, regenerations, restores
+  initialPlan?: GeneratedLessonPlan | null; // Reopened from the library
+  school: SchoolProfile; // Header of exported documents
 }
 
+type ResourceKind = keyof Omit<PlanResources, 'planId' | 'updatedAt'>;
+
 interface ChatMessage {
   role: 'user' | 'model';
   text: string;
@@ -29,16 +50,61 @@ const LOADING_MESSAGES = [
   "Finalizando detalles..."
 ];
 
-export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerated }) => {
+export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerated, onPlanUpdated, initialPlan, school }) => {
   const [loading, setLoading] = useState(false);
   const [loadingText, setLoadingText] = useState(LOADING_MESSAGES[0]);
-  const [generatedPlan, setGeneratedPlan] = useState<GeneratedLessonPlan | null>(null);
-  const [pdfFileName, setPdfFileName] = useState<string | null>(null);
+  const [generatedPlan, setGeneratedPlan] = useState<GeneratedLessonPlan | null>(initialPlan || null);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  // Streaming States
+  const [streamProgress, setStreamProgress] = useState<LessonPlanProgress>({ sequence: [] });
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Aborted on unmount so resource and chat requests do not outlive the generator
+  const lifetimeAbortRef = useRef<AbortController | null>(null);
+
+  const [aiError, setAiError] = useState<{ error: AIError; context: string } | null>(null);
+
+  // When a result came from the response cache: its original generation date
+  const [planCachedAt, setPlanCachedAt] = useState<string | null>(null);
+  const [cachedResources, setCachedResources] = useState<Partial<Record<ResourceKind, string>>>({});
+
+  // Offline queue: what was just queued (notice) and which resources of this plan are waiting
+  const [queuedNotice, setQueuedNotice] = useState<string | null>(null);
+  const [queuedResources, setQueuedResources] = useState<ResourceKind[]>([]);
+
+  // Monthly budget: warn before a generation once spending nears the limit
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const refreshBudget = () => {
+    getBudgetStatus().then(setBudget).catch(error => console.warn("Could not read usage:", error));
+  };
+  useEffect(refreshBudget, []);
+
+  // MINED catalog: the picked indicator ('' = let the model choose among the catalog ones)
+  const [catalog, setCatalog] = useState<CurriculumCatalog | null>(null);
+  const [pickedIndicatorId, setPickedIndicatorId] = useState('');
+  useEffect(() => {
+    getCurriculumCatalog().then(setCatalog);
+  }, []);
+
+  // Inline Editing States
+  const [isEditing, setIsEditing] = useState(false);
+  const [regeneratingSection, setRegeneratingSection] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  // Word export: the school's own templates, or the built-in layout with the appendices the
+  // teacher did not untick (everything generated is included by default)
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [skippedAppendices, setSkippedAppendices] = useState<DocxAppendix[]>([]);
+  const [planTemplates, setPlanTemplates] = useState<PlanTemplate[]>([]);
+  const [exportTemplateId, setExportTemplateId] = useState(''); // '' = built-in layout
   
   // Assessment States
   const [assessmentLoading, setAssessmentLoading] = useState(false);
   const [assessmentData, setAssessmentData] = useState<GeneratedAssessment | null>(null);
+  const [isQuizPlayerOpen, setIsQuizPlayerOpen] = useState(false);
+  const [isExamBuilderOpen, setIsExamBuilderOpen] = useState(false);
+  const [itemSpecs, setItemSpecs] = useState<AssessmentItemSpec[]>(SUGGESTED_ITEM_SPECS); // Quiz blueprint, kept across plans
+  const [isBlueprintOpen, setIsBlueprintOpen] = useState(false);
 
   // Adaptation & Dynamics States
   const [adaptationLoading, setAdaptationLoading] = useState(false);
@@ -59,6 +125,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
   const [slidesLoading, setSlidesLoading] = useState(false);
   const [slidesData, setSlidesData] = useState<GeneratedSlides | null>(null);
   const [activeSlide, setActiveSlide] = useState(0);
+  const [presentation, setPresentation] = useState<{ channelId: string; deck: PresenterDeck } | null>(null);
 
   // Vocabulary Cards State
   const [vocabLoading, setVocabLoading] = useState(false);
@@ -78,11 +145,93 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
     topic: '',
     biblicalFocus: '',
     duration: '90 min',
-    sectionNumber: '',
     contentType: ContentType.CONCEPTUAL,
-    model: 'gemini-3-flash-preview' // Default set to FLASH for speed
+    model: 'gemini-3-flash-preview', // Default set to FLASH for speed
+    // Prefill from a reopened plan so the form matches what is displayed
+    ...(initialPlan ? {
+      subject: initialPlan.generalData.subject as Subject,
+      grade: initialPlan.generalData.grade as GradeLevel,
+      topic: initialPlan.generalData.contentConceptual,
+      duration: initialPlan.duration || '90 min',
+      contentType: initialPlan.contentType || ContentType.CONCEPTUAL,
+      textbook: initialPlan.textbook,
+    } : {})
   });
 
+  const applyResources = (resources: PlanResources) => {
+    setAssessmentData(resources.assessment || null);
+    setAdaptationData(resources.adaptation || null);
+    setDynamicsData(resources.dynamics || null);
+    setWorksheetData(resources.worksheet || null);
+    setWhiteboardData(resources.whiteboard || null);
+    setSlidesData(resources.slides || null);
+    setVocabData(resources.vocabulary || null);
+  };
+
+  // Restore the resources that were generated for a reopened plan
+  useEffect(() => {
+    if (!initialPlan) return;
+    let cancelled = false;
+    getPlanResources(initialPlan.id)
+      .then(resources => {
+        if (!cancelled) applyResources(resources);
+      })
+      .catch(error => console.error("Could not load plan resources:", error));
+    return () => { cancelled = true; };
+  }, [initialPlan]);
+
+  // A queued resource of this plan that leaves the queue was generated and saved: reload them
+  const planId = generatedPlan?.id;
+  useEffect(() => {
+    if (!planId) return;
+    let waiting: ResourceKind[] = [];
+    return subscribeToQueue(({ jobs }) => {
+      const queued = jobs.flatMap(({ job }) => job.kind === 'resource' && job.planId === planId ? [job.resource] : []);
+      if (waiting.some(kind => !queued.includes(kind))) {
+        getPlanResources(planId)
+          .then(applyResources)
+          .catch(error => console.error("Could not load plan resources:", error));
+      }
+      waiting = queued;
+      setQueuedResources(queued);
+    });
+  }, [planId]);
+
+  useEffect(() => {
+    listPlanTemplates()
+      .then(setPlanTemplates)
+      .catch(error => console.error("Could not load plan templates:", error));
+  }, []);
+
+  // Stop in-flight requests when leaving the generator
+  useEffect(() => {
+    const lifetime = new AbortController();
+    lifetimeAbortRef.current = lifetime;
+    return () => {
+      lifetime.abort();
+      generationAbortRef.current?.abort();
+    };
+  }, []);
+
+  const aiOptions = () => ({ signal: lifetimeAbortRef.current?.signal });
+
+  // Options for a resource generator: `force` skips the cache, a cache hit is remembered for the badge
+  const resourceOptions = (kind: ResourceKind, force: boolean) => {
+    setCachedResources(prev => ({ ...prev, [kind]: undefined }));
+    return {
+      ...aiOptions(),
+      force,
+      onCacheHit: (cachedAt: string) => setCachedResources(prev => ({ ...prev, [kind]: cachedAt })),
+    };
+  };
+
+  // Cancellations are the user's own doing; everything else gets a typed notice
+  const reportError = (error: unknown, context: string) => {
+    if (isCancelled(error)) return;
+    console.error(`Error generating ${context}:`, error);
+    setAiError({ error: toAIError(error), context });
+  };
+
   // Cycle loading messages
   useEffect(() => {
     let interval: any;
@@ -96,29 +245,45 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
     return () => clearInterval(interval);
   }, [loading]);
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setPdfFileName(file.name);
-      
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64Data = base64String.split(',')[1];
-        setFormData(prev => ({ ...prev, pdfData: base64Data }));
-      };
-      reader.readAsDataURL(file);
-    }
+  // Without a connection the request waits in the offline queue instead of failing; the result
+  // is saved to the library (plans) or with the plan's resources. Returns whether it was queued.
+  const queueGeneration = (label: string, job: QueuedJob, notice: string, error?: unknown): boolean => {
+    if ((error !== undefined && isCancelled(error)) || !shouldQueue(error)) return false;
+    enqueueGeneration(label, job)
+      .then(() => setQueuedNotice(notice))
+      .catch(queueError => {
+        console.error("Could not queue generation:", queueError);
+        alert("No hay conexión y no se pudo guardar la solicitud en la cola.");
+      });
+    return true;
   };
 
-  const clearFile = () => {
-    setPdfFileName(null);
-    setFormData(prev => ({ ...prev, pdfData: undefined }));
+  const queueResource = (job: QueuedResourceJob, error?: unknown): boolean => {
+    if (!generatedPlan) return false;
+    const name = DOCX_APPENDIX_LABELS[job.resource];
+    return queueGeneration(
+      `${name} · ${generatedPlan.generalData.contentConceptual}`,
+      { kind: 'resource', planId: generatedPlan.id, ...job },
+      `${name}: se generará automáticamente cuando vuelva la conexión.`,
+      error
+    );
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const generatePlan = async (force: boolean) => {
+    const catalogIndicators = catalog ? indicatorsFor(catalog, formData.subject, formData.grade) : [];
+    const picked = catalogIndicators.find(i => i.id === pickedIndicatorId);
+    const request: LessonPlanRequest = {
+      ...formData,
+      curriculumIndicators: picked ? [picked] : catalogIndicators.length ? catalogIndicators : undefined,
+    };
+    const queuePlan = (error?: unknown) => queueGeneration(
+      `Plan de clase · ${request.topic}`,
+      { kind: 'lessonPlan', request },
+      'El plan se generará automáticamente cuando vuelva la conexión y aparecerá en Mis Planes.',
+      error
+    );
+    if (queuePlan()) return;
+
     setLoading(true);
     setLoadingText(LOADING_MESSAGES[0]);
     setGeneratedPlan(null);
@@ -130,52 +295,266 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
     setSlidesData(null);
     setVocabData(null);
     setChatMessages([]); // Reset chat
+    setIsEditing(false);
+    setAiError(null);
+    setPlanCachedAt(null);
+    setCachedResources({});
+    setStreamProgress({ sequence: [] });
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      const plan = await generateLessonPlanAI(formData);
+      if (await isSourceTooLarge(formData)) {
+        alert("Las fuentes superan el tamaño máximo. Elige menos secciones del libro, usa el modo solo texto o quita archivos adjuntos.");
+        return;
+      }
+      const plan = await generateLessonPlanStreamAI(request, setStreamProgress, {
+        signal: controller.signal,
+        force,
+        onCacheHit: setPlanCachedAt,
+      });
       setGeneratedPlan(plan);
       onPlanGenerated(plan);
     } catch (error) {
-      alert("Error generating plan. The AI models may be busy or your API key permissions are restricted. Check console for details.");
+      if (!queuePlan(error)) reportError(error, 'el plan de clase');
     } finally {
+      generationAbortRef.current = null;
       setLoading(false);
+      refreshBudget();
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    generatePlan(false);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
+    // Indicators belong to one subject and grade
+    if (e.target.name === 'subject' || e.target.name === 'grade') setPickedIndicatorId('');
   };
 
-  const handleDownloadPDF = (elementId: string, filename: string) => {
-    const element = document.getElementById(elementId);
-    if (!element) return;
-
-    const opt = {
-      margin:       0.3,
-      filename:     filename,
-      image:        { type: 'jpeg', quality: 0.98 },
-      html2canvas:  { scale: 2, useCORS: true },
-      jsPDF:        { unit: 'in', format: 'letter', orientation: 'portrait' },
-      pagebreak:    { mode: ['css', 'legacy'] }
-    };
+  // Replaces the plan's indicator with the official wording from the catalog
+  const alignIndicator = (indicatorId: string) => {
+    if (!generatedPlan || !catalog) return;
+    const indicator = indicatorsFor(catalog, generatedPlan.generalData.subject, generatedPlan.generalData.grade).find(i => i.id === indicatorId);
+    if (!indicator) return;
+    const updated = { ...generatedPlan, generalData: { ...generatedPlan.generalData, achievementIndicator: indicator.text }, curriculumIndicatorId: indicator.id };
+    setGeneratedPlan(updated);
+    onPlanUpdated(updated, 'edited');
+  };
 
-    if (window.html2pdf) {
-      window.html2pdf().set(opt).from(element).save();
-    } else {
-      alert("La librería PDF no se cargó correctamente.");
+  // --- Inline editing ---
+  // Edits only touch local state; the plan is saved when the teacher leaves edit mode.
+  const updatePlan = (updater: (plan: GeneratedLessonPlan) => GeneratedLessonPlan) => {
+    setGeneratedPlan(prev => prev ? updater(prev) : prev);
+  };
+
+  const setGeneralField = (field: keyof GeneratedLessonPlan['generalData'], value: string) =>
+    updatePlan(p => ({ ...p, generalData: { ...p.generalData, [field]: value } }));
+
+  const setFaithField = (field: keyof GeneratedLessonPlan['faithIntegration'], value: string) =>
+    updatePlan(p => ({ ...p, faithIntegration: { ...p.faithIntegration, [field]: value } }));
+
+  const setStepField = <K extends keyof MethodologicalStrategy>(index: number, field: K, value: MethodologicalStrategy[K]) =>
+    updatePlan(p => ({ ...p, sequence: p.sequence.map((step, i) => i === index ? { ...step, [field]: value } : step) }));
+
+  const setEvaluationField = (field: keyof GeneratedLessonPlan['evaluation'], value: string[]) =>
+    updatePlan(p => ({ ...p, evaluation: { ...p.evaluation, [field]: value } }));
+
+  const setTeacherGuideField = (field: keyof NonNullable<GeneratedLessonPlan['teacherGuide']>, value: string[]) =>
+    updatePlan(p => p.teacherGuide ? { ...p, teacherGuide: { ...p.teacherGuide, [field]: value } } : p);
+
+  const setHomeworkField = (field: keyof NonNullable<GeneratedLessonPlan['homework']>, value: string) =>
+    updatePlan(p => p.homework ? { ...p, homework: { ...p.homework, [field]: value } } : p);
+
+  const toggleEditing = () => {
+    if (isEditing && generatedPlan) {
+      onPlanUpdated(generatedPlan, 'edited');
     }
+    setIsEditing(!isEditing);
+  };
+
+  const handleRegenerateSection = async (section: PlanSection, phaseIndex?: number) => {
+    if (!generatedPlan) return;
+    const sectionKey = phaseIndex !== undefined ? `${section}-${phaseIndex}` : section;
+    setRegeneratingSection(sectionKey);
+    try {
+      const updated = await regeneratePlanSectionAI({
+        plan: generatedPlan,
+        section,
+        phaseIndex,
+        model: formData.model
+      }, aiOptions());
+      setGeneratedPlan(updated);
+      onPlanUpdated(updated, 'regenerated');
+    } catch (error) {
+      reportError(error, 'la sección');
+    } finally {
+      setRegeneratingSection(null);
+    }
+  };
+
+  const formatCachedAt = (iso: string) =>
+    new Date(iso).toLocaleDateString('es-NI', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  // Under the achievement indicator: whether it is a catalog indicator, and a way to align it if not
+  const renderCurriculumStatus = () => {
+    if (!generatedPlan || !catalog) return null;
+    const options = indicatorsFor(catalog, generatedPlan.generalData.subject, generatedPlan.generalData.grade);
+    if (options.length === 0) return null;
+    const matchedId = planIndicatorId(catalog, generatedPlan);
+    if (matchedId) {
+      return (
+        <p className="mt-2 text-xs text-emerald-700 flex items-center">
+          <CheckIcon className="w-3.5 h-3.5 mr-1" /> Catálogo MINED · {matchedId}
+        </p>
+      );
+    }
+    return (
+      <div className="mt-2 text-xs text-amber-700">
+        <p className="flex items-center mb-1">
+          <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1" /> No coincide con ningún indicador del catálogo MINED
+        </p>
+        <select
+          value=""
+          onChange={(e) => alignIndicator(e.target.value)}
+          className="w-full px-2 py-1 rounded border border-amber-200 bg-white text-slate-700 outline-none"
+        >
+          <option value="">Reemplazar por un indicador oficial...</option>
+          {options.map(i => <option key={i.id} value={i.id}>{i.text}</option>)}
+        </select>
+      </div>
+    );
+  };
+
+  // Shown above a resource that was served from the response cache instead of a new API call
+  const renderCacheBadge = (kind: ResourceKind, regenerate: () => void) => {
+    if (queuedResources.includes(kind)) {
+      return (
+        <div className="flex items-center gap-2 text-xs text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-1.5 mb-4">
+          <CloudArrowUpIcon className="w-4 h-4 flex-shrink-0" />
+          <span>En cola: se generará automáticamente cuando vuelva la conexión.</span>
+        </div>
+      );
+    }
+    const cachedAt = cachedResources[kind];
+    if (!cachedAt) return null;
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 mb-4">
+        <ArchiveBoxIcon className="w-4 h-4 flex-shrink-0" />
+        <span>Recuperado de la caché ({formatCachedAt(cachedAt)}), sin consumir cuota.</span>
+        <button onClick={regenerate} className="ml-auto font-semibold text-indigo-600 hover:underline whitespace-nowrap">
+          Generar de nuevo
+        </button>
+      </div>
+    );
+  };
+
+  const handleRestoreVersion = (plan: GeneratedLessonPlan) => {
+    setGeneratedPlan(plan);
+    setIsEditing(false);
+    setIsHistoryOpen(false);
+    onPlanUpdated(plan, 'restored');
+  };
+
+  // Small "regenerate" action next to a section title (hidden from PDF exports)
+  const renderRegenerateButton = (section: PlanSection, phaseIndex?: number) => {
+    const sectionKey = phaseIndex !== undefined ? `${section}-${phaseIndex}` : section;
+    const isBusy = regeneratingSection === sectionKey;
+    return (
+      <button
+        type="button"
+        onClick={() => handleRegenerateSection(section, phaseIndex)}
+        disabled={regeneratingSection !== null}
+        className="ml-2 p-1 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-40"
+        title="Regenerar solo esta sección"
+      >
+        <ArrowPathIcon className={`w-4 h-4 ${isBusy ? 'animate-spin text-indigo-600' : ''}`} />
+      </button>
+    );
+  };
+
+  // Store a freshly generated resource next to its plan so it survives reloads
+  const persistResources = (planId: string, patch: Omit<Partial<PlanResources>, 'planId'>) => {
+    updatePlanResources(planId, patch).catch(error => console.error("Could not save resources:", error));
+  };
+
+  // PDFs are laid out from the data (selectable text, real page breaks), not captured from the screen
+  const handleDownloadPDF = async (render: (plan: GeneratedLessonPlan) => Promise<void>) => {
+    if (!generatedPlan) return;
+    try {
+      await render(generatedPlan);
+    } catch (error) {
+      console.error(error);
+      alert("Error al generar el PDF");
+    }
+  };
+
+  // Resources currently on screen, which may not be saved yet
+  const currentResources = (): Omit<PlanResources, 'planId'> => ({
+    assessment: assessmentData || undefined,
+    adaptation: adaptationData || undefined,
+    dynamics: dynamicsData || undefined,
+    worksheet: worksheetData || undefined,
+    whiteboard: whiteboardData || undefined,
+    slides: slidesData || undefined,
+    vocabulary: vocabData || undefined,
+  });
+
+  const availableAppendices = (Object.keys(DOCX_APPENDIX_LABELS) as DocxAppendix[]).filter(kind => currentResources()[kind]);
+
+  const toggleAppendix = (kind: DocxAppendix) => {
+    setSkippedAppendices(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
   };
 
   const handleDownloadWord = async () => {
     if (!generatedPlan) return;
+    setIsExportOpen(false);
+    const template = planTemplates.find(t => t.id === exportTemplateId);
     try {
-      await generateDocx(generatedPlan);
+      if (template) {
+        await generateTemplateDocx(template, generatedPlan, { school, resources: currentResources() });
+      } else {
+        await generateDocx(generatedPlan, {
+          school,
+          resources: currentResources(),
+          appendices: availableAppendices.filter(kind => !skippedAppendices.includes(kind)),
+        });
+      }
     } catch (error) {
       console.error(error);
-      alert("Error al generar el documento Word");
+      alert(error instanceof DocxTemplateError
+        ? `No se pudo completar la plantilla "${template?.name}":\n${error.problems.slice(0, 3).join('\n')}`
+        : "Error al generar el documento Word");
     }
   };
 
+  const handleDownloadPptx = async () => {
+    if (!generatedPlan || !slidesData) return;
+    try {
+      await generatePptx(slidesData, generatedPlan, school);
+    } catch (error) {
+      console.error(error);
+      alert("Error al generar la presentación de PowerPoint");
+    }
+  };
+
+  // Popup and fullscreen both need the click that started the presentation
+  const handlePresent = () => {
+    if (!generatedPlan || !slidesData) return;
+    const channelId = crypto.randomUUID();
+    openSpeakerWindow(channelId);
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    setPresentation({ channelId, deck: presenterDeck(slidesData, generatedPlan) });
+  };
+
   const handleDownloadPrompts = () => {
     if (!generatedPlan?.flashcardPrompts) return;
     const text = generatedPlan.flashcardPrompts.join('\n\n-------------------\n\n');
@@ -193,120 +572,177 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
     setTimeout(() => setCopiedIndex(null), 2000);
   };
 
-  const handleGenerateAssessment = async (type: 'QUIZ' | 'RUBRIC') => {
+  const handleGenerateAssessment = async (type: 'QUIZ' | 'RUBRIC', force = false) => {
     if (!generatedPlan) return;
+    const request: AssessmentRequest = {
+      topic: generatedPlan.generalData.contentConceptual,
+      grade: generatedPlan.generalData.grade,
+      type: type,
+      subject: generatedPlan.generalData.subject,
+      achievementIndicator: generatedPlan.generalData.achievementIndicator,
+      ...(type === 'QUIZ' && { items: itemSpecs, textbook: generatedPlan.textbook }),
+    };
+    if (queueResource({ resource: 'assessment', request })) return;
     setAssessmentLoading(true);
     try {
-      const result = await generateAssessmentAI({
-        topic: generatedPlan.generalData.contentConceptual,
-        grade: generatedPlan.generalData.grade,
-        type: type
-      });
+      const result = await generateAssessmentAI(request, resourceOptions('assessment', force));
       setAssessmentData(result);
+      persistResources(generatedPlan.id, { assessment: result });
     } catch (error) {
-      alert("Error generando evaluación.");
+      if (!queueResource({ resource: 'assessment', request }, error)) reportError(error, 'la evaluación');
     } finally {
       setAssessmentLoading(false);
     }
   };
 
-  const handleGenerateAdaptation = async () => {
+  const blueprintItemCount = itemSpecs.reduce((sum, spec) => sum + spec.count, 0);
+  const blueprintPoints = itemSpecs.reduce((sum, spec) => sum + spec.count * spec.points, 0);
+
+  // The key of each item, shaped like the item: choices, pairs, sequence or the expected answer
+  const renderQuizItemAnswer = (q: QuizQuestion) => {
+    if (q.options.length > 0) {
+      return (
+        <div className="grid grid-cols-2 gap-1">
+          {q.options.map((opt, idx) => (
+            <div key={idx} className={`text-[10px] p-1.5 rounded border ${opt === q.correctAnswer ? 'bg-green-100 border-green-300 text-green-800 font-bold' : 'bg-white border-slate-200 text-slate-600'}`}>
+              {opt}
+            </div>
+          ))}
+        </div>
+      );
+    }
+    if (q.pairs?.length) {
+      return (
+        <ul className="text-[10px] text-slate-600 space-y-0.5">
+          {q.pairs.map((pair, idx) => <li key={idx}>{pair.left} <span className="text-green-700 font-bold">→ {pair.right}</span></li>)}
+        </ul>
+      );
+    }
+    if (q.sequence?.length) {
+      return (
+        <ol className="text-[10px] text-green-800 list-decimal list-inside">
+          {q.sequence.map((step, idx) => <li key={idx}>{step}</li>)}
+        </ol>
+      );
+    }
+    return <p className="text-[10px] p-1.5 rounded border bg-green-50 border-green-200 text-green-800">{q.correctAnswer}</p>;
+  };
+
+  const handleGenerateAdaptation = async (force = false) => {
     if (!generatedPlan) return;
+    const request: AdaptationRequest = {
+      topic: generatedPlan.generalData.contentConceptual,
+      grade: generatedPlan.generalData.grade,
+      needType: selectedNeed
+    };
+    if (queueResource({ resource: 'adaptation', request })) return;
     setAdaptationLoading(true);
     try {
-      const result = await generateAdaptationAI({
-        topic: generatedPlan.generalData.contentConceptual,
-        grade: generatedPlan.generalData.grade,
-        needType: selectedNeed
-      });
+      const result = await generateAdaptationAI(request, resourceOptions('adaptation', force));
       setAdaptationData(result);
+      persistResources(generatedPlan.id, { adaptation: result });
     } catch (error) {
-      alert("Error generando adecuación.");
+      if (!queueResource({ resource: 'adaptation', request }, error)) reportError(error, 'la adecuación');
     } finally {
       setAdaptationLoading(false);
     }
   };
 
-  const handleGenerateDynamics = async () => {
+  const handleGenerateDynamics = async (force = false) => {
     if (!generatedPlan) return;
+    const request: DynamicsRequest = {
+      topic: generatedPlan.generalData.contentConceptual,
+      grade: generatedPlan.generalData.grade
+    };
+    if (queueResource({ resource: 'dynamics', request })) return;
     setDynamicsLoading(true);
     try {
-      const result = await generateDynamicsAI({
-        topic: generatedPlan.generalData.contentConceptual,
-        grade: generatedPlan.generalData.grade
-      });
+      const result = await generateDynamicsAI(request, resourceOptions('dynamics', force));
       setDynamicsData(result);
+      persistResources(generatedPlan.id, { dynamics: result });
     } catch (error) {
-      alert("Error generando dinámicas.");
+      if (!queueResource({ resource: 'dynamics', request }, error)) reportError(error, 'las dinámicas');
     } finally {
       setDynamicsLoading(false);
     }
   };
 
-  const handleGenerateWorksheet = async () => {
+  const handleGenerateWorksheet = async (force = false) => {
     if (!generatedPlan) return;
+    const request: WorksheetRequest = {
+        topic: generatedPlan.generalData.contentConceptual,
+        grade: generatedPlan.generalData.grade,
+        subject: generatedPlan.generalData.subject
+    };
+    if (queueResource({ resource: 'worksheet', request })) return;
     setWorksheetLoading(true);
     try {
-        const result = await generateWorksheetAI({
-            topic: generatedPlan.generalData.contentConceptual,
-            grade: generatedPlan.generalData.grade,
-            subject: generatedPlan.generalData.subject
-        });
+        const result = await generateWorksheetAI(request, resourceOptions('worksheet', force));
         setWorksheetData(result);
+        persistResources(generatedPlan.id, { worksheet: result });
     } catch (error) {
-        alert("Error generando hoja de trabajo");
+        if (!queueResource({ resource: 'worksheet', request }, error)) reportError(error, 'la hoja de trabajo');
     } finally {
         setWorksheetLoading(false);
     }
   };
 
-  const handleGenerateWhiteboard = async () => {
+  const handleGenerateWhiteboard = async (force = false) => {
     if (!generatedPlan) return;
+    const request: WhiteboardRequest = {
+        topic: generatedPlan.generalData.contentConceptual,
+        grade: generatedPlan.generalData.grade,
+        bibleVerse: generatedPlan.faithIntegration.bibleVerse
+    };
+    if (queueResource({ resource: 'whiteboard', request })) return;
     setWhiteboardLoading(true);
     try {
-        const result = await generateWhiteboardAI({
-            topic: generatedPlan.generalData.contentConceptual,
-            grade: generatedPlan.generalData.grade,
-            bibleVerse: generatedPlan.faithIntegration.bibleVerse
-        });
+        const result = await generateWhiteboardAI(request, resourceOptions('whiteboard', force));
         setWhiteboardData(result);
+        persistResources(generatedPlan.id, { whiteboard: result });
     } catch (error) {
-        alert("Error generando pizarra");
+        if (!queueResource({ resource: 'whiteboard', request }, error)) reportError(error, 'la pizarra');
     } finally {
         setWhiteboardLoading(false);
     }
   };
 
-  const handleGenerateSlides = async () => {
+  const handleGenerateSlides = async (force = false) => {
     if (!generatedPlan) return;
+    const request: SlidesRequest = {
+        topic: generatedPlan.generalData.contentConceptual,
+        grade: generatedPlan.generalData.grade,
+        bibleVerse: generatedPlan.faithIntegration.bibleVerse,
+        spiritualConcept: generatedPlan.faithIntegration.spiritualConcept
+    };
+    if (queueResource({ resource: 'slides', request })) return;
     setSlidesLoading(true);
     try {
-        const result = await generateSlidesAI({
-            topic: generatedPlan.generalData.contentConceptual,
-            grade: generatedPlan.generalData.grade,
-            bibleVerse: generatedPlan.faithIntegration.bibleVerse,
-            spiritualConcept: generatedPlan.faithIntegration.spiritualConcept
-        });
+        const result = await generateSlidesAI(request, resourceOptions('slides', force));
         setSlidesData(result);
+        persistResources(generatedPlan.id, { slides: result });
         setActiveSlide(0);
     } catch (error) {
-        alert("Error generando presentación");
+        if (!queueResource({ resource: 'slides', request }, error)) reportError(error, 'la presentación');
     } finally {
         setSlidesLoading(false);
     }
   };
 
-  const handleGenerateVocabulary = async () => {
+  const handleGenerateVocabulary = async (force = false) => {
     if (!generatedPlan) return;
+    const request: VocabularyRequest = {
+        topic: generatedPlan.generalData.contentConceptual,
+        grade: generatedPlan.generalData.grade
+    };
+    if (queueResource({ resource: 'vocabulary', request })) return;
     setVocabLoading(true);
     try {
-        const result = await generateVocabularyAI({
-            topic: generatedPlan.generalData.contentConceptual,
-            grade: generatedPlan.generalData.grade
-        });
+        const result = await generateVocabularyAI(request, resourceOptions('vocabulary', force));
         setVocabData(result);
+        persistResources(generatedPlan.id, { vocabulary: result });
     } catch (error) {
-        alert("Error generando tarjetas de vocabulario");
+        if (!queueResource({ resource: 'vocabulary', request }, error)) reportError(error, 'las tarjetas de vocabulario');
     } finally {
         setVocabLoading(false);
     }
@@ -321,10 +757,12 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
     setChatLoading(true);
 
     try {
-      const response = await chatWithLessonPlan(generatedPlan, chatMessages, userMsg);
+      const response = await chatWithLessonPlan(generatedPlan, chatMessages, userMsg, aiOptions());
       setChatMessages(prev => [...prev, { role: 'model', text: response }]);
     } catch (error) {
-      setChatMessages(prev => [...prev, { role: 'model', text: "Error de conexión. Intenta de nuevo." }]);
+      if (isCancelled(error)) return;
+      const { title, hint } = AI_ERROR_MESSAGES[toAIError(error).kind];
+      setChatMessages(prev => [...prev, { role: 'model', text: `${title}. ${hint}` }]);
     } finally {
       setChatLoading(false);
     }
@@ -351,62 +789,41 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
             <SparklesIcon className="w-5 h-5 mr-2 text-indigo-600" />
             Generador de Planes
           </h2>
-          
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {/* File Upload Section */}
-            <div className="bg-slate-50 p-4 rounded-xl border border-dashed border-slate-300">
-              <label className="block text-sm font-medium text-slate-700 mb-2">
-                Libro de Texto / Guía (PDF)
-              </label>
-              {!pdfFileName ? (
-                <div className="relative group">
-                  <input 
-                    type="file" 
-                    accept="application/pdf"
-                    onChange={handleFileChange}
-                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                  />
-                  <div className="flex flex-col items-center justify-center p-4 text-center cursor-pointer">
-                    <DocumentArrowUpIcon className="w-8 h-8 text-slate-400 group-hover:text-indigo-500 transition-colors" />
-                    <span className="text-xs text-slate-500 mt-2 font-medium">Subir PDF de la Unidad</span>
-                  </div>
-                </div>
-              ) : (
-                <div className="flex items-center justify-between bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
-                   <div className="flex items-center truncate">
-                      <DocumentArrowUpIcon className="w-5 h-5 text-indigo-600 mr-2 flex-shrink-0" />
-                      <span className="text-sm text-slate-700 truncate max-w-[150px]">{pdfFileName}</span>
-                   </div>
-                   <button type="button" onClick={clearFile} className="text-slate-400 hover:text-red-500">
-                     <XMarkIcon className="w-5 h-5" />
-                   </button>
-                </div>
-              )}
+
+          {budget && (budget.level === 'warning' || budget.level === 'exceeded') && (
+            <div className={`text-xs rounded-lg p-3 mb-5 border flex items-start gap-2 ${budget.level === 'exceeded' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-700'}`}>
+              <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                {budget.level === 'exceeded' ? 'Se superó el presupuesto mensual de IA' : 'El consumo de IA está cerca del presupuesto mensual'}
+                {' '}(US${budget.spentUsd.toFixed(2)} de US${budget.budgetUsd.toFixed(2)}). Prefiere el modelo FLASH y reutiliza resultados en caché.
+              </span>
             </div>
+          )}
 
-            <div className="grid grid-cols-2 gap-4">
-               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Sección (ej. 1.1)</label>
-                <input 
-                  type="text" 
-                  name="sectionNumber" 
-                  value={formData.sectionNumber} 
-                  onChange={handleChange}
-                  placeholder="1.1"
-                  className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                />
-               </div>
-               <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Enfoque de Contenido</label>
-                  <select 
-                    name="contentType" 
-                    value={formData.contentType} 
-                    onChange={handleChange}
-                    className="w-full px-2 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
-                  >
-                    {Object.values(ContentType).map(c => <option key={c} value={c}>{c}</option>)}
-                  </select>
-               </div>
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {/* Textbook and sections */}
+            <TextbookSourceInput
+              subject={formData.subject}
+              grade={formData.grade}
+              value={formData.textbook}
+              onChange={(textbook) => setFormData(prev => ({ ...prev, textbook }))}
+            />
+
+            <SourceAttachmentsInput
+              value={formData.attachments ?? []}
+              onChange={(attachments) => setFormData(prev => ({ ...prev, attachments }))}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Enfoque de Contenido</label>
+              <select 
+                name="contentType" 
+                value={formData.contentType} 
+                onChange={handleChange}
+                className="w-full px-2 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
+              >
+                {Object.values(ContentType).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
             </div>
 
             {/* Model Selector */}
@@ -450,6 +867,28 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
               </select>
             </div>
 
+            {catalog && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Indicador de Logro (MINED)</label>
+                {competenciesFor(catalog, formData.subject, formData.grade).length > 0 ? (
+                  <select
+                    value={pickedIndicatorId}
+                    onChange={(e) => setPickedIndicatorId(e.target.value)}
+                    className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm"
+                  >
+                    <option value="">La IA elige del catálogo según el tema</option>
+                    {competenciesFor(catalog, formData.subject, formData.grade).map(c => (
+                      <optgroup key={c.id} label={c.unit || c.competency}>
+                        {c.indicators.map(i => <option key={i.id} value={i.id}>{i.text}</option>)}
+                      </optgroup>
+                    ))}
+                  </select>
+                ) : (
+                  <p className="text-xs text-slate-400">El catálogo no tiene indicadores para esta asignatura y grado.</p>
+                )}
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">Tema (Opcional si hay PDF)</label>
               <input 
@@ -514,7 +953,17 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
       <div className="xl:w-2/3 w-full pb-10">
         {generatedPlan ? (
           <>
-            <div 
+            {planCachedAt && (
+              <div className="flex items-center gap-2 text-sm text-slate-600 bg-white border border-slate-200 rounded-xl px-4 py-3 mb-4 shadow-sm">
+                <ArchiveBoxIcon className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+                <span>Este plan se recuperó de la caché ({formatCachedAt(planCachedAt)}) porque ya se había generado con los mismos datos.</span>
+                <button onClick={() => generatePlan(true)} className="ml-auto font-semibold text-indigo-600 hover:underline whitespace-nowrap">
+                  Generar uno nuevo
+                </button>
+              </div>
+            )}
+            {generatedPlan.sources && generatedPlan.sources.length > 0 && <PlanSources sources={generatedPlan.sources} />}
+            <div
               id="printable-lesson-plan"
               className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in-up mb-8"
             >
@@ -522,19 +971,76 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
               {/* Nuevo Encabezado Personalizado */}
               <div className="p-8 bg-white border-b-2 border-slate-100" style={{ pageBreakInside: 'avoid' }}>
                   <div className="text-center border-b border-slate-200 pb-6 mb-6 relative">
-                      <h1 className="text-2xl font-extrabold text-slate-900 uppercase tracking-wider">Colegio Adventista Porteño</h1>
+                      <h1 className="text-2xl font-extrabold text-slate-900 uppercase tracking-wider">{school.name}</h1>
                       <p className="text-slate-500 font-medium mt-1">Plan de Clase - {currentDate}</p>
                       
                       <div className="absolute right-0 top-0 flex gap-2">
                         <button 
-                            onClick={handleDownloadWord}
-                            className="p-2 text-slate-400 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
-                            title="Descargar Word"
+                            onClick={toggleEditing}
+                            className={`p-2 rounded-lg transition-colors ${isEditing ? 'text-white bg-indigo-600 hover:bg-indigo-700' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-50'}`}
+                            title={isEditing ? 'Guardar cambios' : 'Editar plan'}
                         >
-                            <DocumentIcon className="w-6 h-6" />
+                            {isEditing ? <CheckIcon className="w-6 h-6" /> : <PencilSquareIcon className="w-6 h-6" />}
                         </button>
                         <button 
-                            onClick={() => handleDownloadPDF('printable-lesson-plan', 'Plan_Clase.pdf')}
+                            onClick={() => setIsHistoryOpen(true)}
+                            className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors"
+                            title="Historial de versiones"
+                        >
+                            <ClockIcon className="w-6 h-6" />
+                        </button>
+                        <div className="relative">
+                          <button 
+                              onClick={() => availableAppendices.length || planTemplates.length ? setIsExportOpen(!isExportOpen) : handleDownloadWord()}
+                              className="p-2 text-slate-400 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Descargar Word"
+                          >
+                              <DocumentIcon className="w-6 h-6" />
+                          </button>
+                          {isExportOpen && (
+                            <div className="absolute right-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-lg p-4 z-20 text-left">
+                              {planTemplates.length > 0 && (
+                                <>
+                                  <p className="text-xs font-bold text-slate-500 uppercase mb-2">Formato</p>
+                                  <select
+                                    value={exportTemplateId}
+                                    onChange={(e) => setExportTemplateId(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none bg-white mb-4"
+                                  >
+                                    <option value="">Formato del sistema</option>
+                                    {planTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                  </select>
+                                </>
+                              )}
+                              {!exportTemplateId && availableAppendices.length > 0 && (
+                                <>
+                                  <p className="text-xs font-bold text-slate-500 uppercase mb-3">Incluir como anexos</p>
+                                  <div className="space-y-2 mb-4">
+                                    {availableAppendices.map(kind => (
+                                      <label key={kind} className="flex items-center text-sm text-slate-700 cursor-pointer">
+                                        <input
+                                          type="checkbox"
+                                          checked={!skippedAppendices.includes(kind)}
+                                          onChange={() => toggleAppendix(kind)}
+                                          className="mr-2 h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        {DOCX_APPENDIX_LABELS[kind]}
+                                      </label>
+                                    ))}
+                                  </div>
+                                </>
+                              )}
+                              <button
+                                onClick={handleDownloadWord}
+                                className="w-full flex items-center justify-center text-sm font-medium text-white bg-blue-700 hover:bg-blue-800 px-4 py-2 rounded-lg"
+                              >
+                                <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Descargar Word
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                        <button 
+                            onClick={() => handleDownloadPDF(plan => generatePlanPdf(plan, school))}
                             className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors"
                             title="Descargar PDF"
                         >
@@ -547,7 +1053,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
                       <div className="p-3 bg-slate-50 rounded-lg border border-slate-100">
                           <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Grado</span>
-                          <span className="font-semibold text-slate-900">{generatedPlan.generalData.grade}</span>
+                          <span className="font-semibold text-slate-900"><EditableText editing={isEditing} value={generatedPlan.generalData.grade} onChange={(v) => setGeneralField('grade', v)} /></span>
                       </div>
                       <div className="p-3 bg-slate-50 rounded-lg border border-slate-100">
                           <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Tiempo</span>
@@ -555,15 +1061,24 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                       </div>
                       <div className="p-3 bg-slate-50 rounded-lg col-span-2 border border-slate-100">
                           <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Asignatura</span>
-                          <span className="font-semibold text-slate-900">{generatedPlan.generalData.subject}</span>
+                          <span className="font-semibold text-slate-900"><EditableText editing={isEditing} value={generatedPlan.generalData.subject} onChange={(v) => setGeneralField('subject', v)} /></span>
                       </div>
                   </div>
 
                   {/* Contenido e Indicadores */}
                   <div className="space-y-6">
                       <div>
-                          <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-1 block">Contenido</span>
-                          <h2 className="text-xl font-bold text-slate-900 leading-tight">{generatedPlan.generalData.contentConceptual}</h2>
+                          <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-1 flex items-center">
+                              Contenido
+                              {renderRegenerateButton('generalData')}
+                          </span>
+                          <h2 className="text-xl font-bold text-slate-900 leading-tight">
+                              <EditableText editing={isEditing} value={generatedPlan.generalData.contentConceptual} onChange={(v) => setGeneralField('contentConceptual', v)} />
+                          </h2>
+                          <p className="text-sm text-slate-500 mt-1">
+                              <span className="font-semibold">Unidad:</span>{' '}
+                              <EditableText editing={isEditing} value={generatedPlan.generalData.unit} onChange={(v) => setGeneralField('unit', v)} />
+                          </p>
                       </div>
                       
                       <div className="grid md:grid-cols-2 gap-6">
@@ -571,7 +1086,10 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                               <h3 className="text-xs font-bold text-indigo-800 uppercase mb-2 flex items-center">
                                   Indicador de Logro
                               </h3>
-                              <p className="text-sm text-slate-700 leading-relaxed font-medium">{generatedPlan.generalData.achievementIndicator}</p>
+                              <p className="text-sm text-slate-700 leading-relaxed font-medium">
+                                  <EditableText editing={isEditing} multiline value={generatedPlan.generalData.achievementIndicator} onChange={(v) => setGeneralField('achievementIndicator', v)} />
+                              </p>
+                              {renderCurriculumStatus()}
                           </div>
                           <div className="bg-emerald-50 p-5 rounded-xl border border-emerald-100">
                               <h3 className="text-xs font-bold text-emerald-800 uppercase mb-2">Criterio de Evaluación</h3>
@@ -591,18 +1109,26 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                   <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center">
                     <BookOpenIcon className="w-5 h-5 mr-2 text-indigo-500" />
                     Guía de Preparación Docente
+                    {renderRegenerateButton('teacherGuide')}
                   </h3>
                   <div className="grid md:grid-cols-2 gap-6">
                       <div>
                         <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Conocimientos Previos</h4>
+                        {isEditing ? (
+                          <EditableList items={generatedPlan.teacherGuide.priorKnowledge} onChange={(v) => setTeacherGuideField('priorKnowledge', v)} />
+                        ) : (
                         <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
                             {generatedPlan.teacherGuide.priorKnowledge.map((pk, i) => (
                               <li key={i}>{pk}</li>
                             ))}
                         </ul>
+                        )}
                       </div>
                       <div>
                         <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Vocabulario Clave</h4>
+                        {isEditing ? (
+                          <EditableList items={generatedPlan.teacherGuide.keyVocabulary} onChange={(v) => setTeacherGuideField('keyVocabulary', v)} addLabel="Agregar término" />
+                        ) : (
                         <div className="flex flex-wrap gap-2">
                             {generatedPlan.teacherGuide.keyVocabulary.map((word, i) => (
                               <span key={i} className="px-2 py-1 bg-white border border-slate-200 rounded text-xs font-medium text-slate-700">
@@ -610,6 +1136,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                               </span>
                             ))}
                         </div>
+                        )}
                       </div>
                   </div>
                 </div>
@@ -620,34 +1147,58 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                 <h3 className="text-lg font-bold text-amber-700 mb-4 flex items-center">
                   <span className="w-8 h-8 rounded-full bg-amber-100 flex items-center justify-center mr-3 text-lg">✝</span>
                   Integración de la Fe
+                  {renderRegenerateButton('faithIntegration')}
                 </h3>
                 <div className="grid md:grid-cols-2 gap-6">
                   <div className="bg-white p-5 rounded-xl border border-amber-100 shadow-sm">
                     <p className="text-xs text-amber-500 font-bold uppercase mb-1">Principio Espiritual</p>
-                    <p className="text-slate-700 font-medium">{generatedPlan.faithIntegration.spiritualConcept}</p>
+                    <p className="text-slate-700 font-medium"><EditableText editing={isEditing} value={generatedPlan.faithIntegration.spiritualConcept} onChange={(v) => setFaithField('spiritualConcept', v)} /></p>
                   </div>
                   <div className="bg-white p-5 rounded-xl border border-amber-100 shadow-sm">
                     <p className="text-xs text-amber-500 font-bold uppercase mb-1">Texto Bíblico</p>
-                    <p className="text-slate-700 italic">"{generatedPlan.faithIntegration.bibleVerse}"</p>
+                    <p className="text-slate-700 italic">
+                      {isEditing ? (
+                        <EditableText editing value={generatedPlan.faithIntegration.bibleVerse} onChange={(v) => setFaithField('bibleVerse', v)} />
+                      ) : `"${generatedPlan.faithIntegration.bibleVerse}"`}
+                    </p>
                   </div>
                 </div>
                 <div className="mt-4 text-sm text-slate-600 bg-amber-100/20 p-4 rounded-lg">
-                  <strong>Objetivo Integrado:</strong> {generatedPlan.faithIntegration.objective}
+                  <strong>Objetivo Integrado:</strong> <EditableText editing={isEditing} multiline value={generatedPlan.faithIntegration.objective} onChange={(v) => setFaithField('objective', v)} />
                 </div>
               </div>
 
               {/* Methodology Sequence */}
               <div className="p-8 border-b border-slate-100">
-                <h3 className="text-lg font-bold text-slate-800 mb-6">Secuencia Didáctica (ACES)</h3>
+                <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center">
+                  Secuencia Didáctica (ACES)
+                  {renderRegenerateButton('sequence')}
+                </h3>
                 <div className="relative border-l-2 border-slate-200 ml-3 space-y-8">
                   {generatedPlan.sequence.map((step, idx) => (
                     <div key={idx} className="relative pl-8" style={{ pageBreakInside: 'avoid' }}>
                       <span className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-white border-2 border-indigo-500"></span>
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="text-md font-bold text-slate-900">{step.phase}: {step.title}</h4>
-                        <span className="text-xs font-mono text-slate-400 bg-slate-100 px-2 py-1 rounded">{step.time}</span>
+                      <div className="flex items-center justify-between mb-2 gap-2">
+                        <h4 className="text-md font-bold text-slate-900 flex items-center flex-1">
+                          <span className="whitespace-nowrap">{step.phase}:&nbsp;</span>
+                          <EditableText editing={isEditing} value={step.title} onChange={(v) => setStepField(idx, 'title', v)} />
+                          {renderRegenerateButton('sequence', idx)}
+                        </h4>
+                        <span className="text-xs font-mono text-slate-400 bg-slate-100 px-2 py-1 rounded">
+                          <EditableText editing={isEditing} value={step.time} onChange={(v) => setStepField(idx, 'time', v)} className="w-20" />
+                        </span>
                       </div>
                       
+                      {isEditing ? (
+                        <div className="space-y-3 mb-3">
+                          <EditableList items={step.activities} onChange={(v) => setStepField(idx, 'activities', v)} addLabel="Agregar actividad" multiline />
+                          <div>
+                            <span className="text-xs font-semibold text-slate-500">Recursos:</span>
+                            <EditableList items={step.resources} onChange={(v) => setStepField(idx, 'resources', v)} addLabel="Agregar recurso" />
+                          </div>
+                        </div>
+                      ) : (
+                      <>
                       <ul className="space-y-2 mb-3">
                         {step.activities.map((act, i) => (
                           <li key={i} className="text-sm text-slate-600 flex items-start">
@@ -663,6 +1214,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                           {step.resources.join(', ')}
                         </div>
                       )}
+                      </>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -678,6 +1231,9 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                     <div className="grid md:grid-cols-2 gap-8">
                         <div>
                           <h4 className="text-xs font-bold text-blue-600 uppercase mb-2">Atención a la Diversidad</h4>
+                          {isEditing ? (
+                            <EditableList items={generatedPlan.teacherGuide.differentiation} onChange={(v) => setTeacherGuideField('differentiation', v)} multiline />
+                          ) : (
                           <ul className="space-y-2">
                               {generatedPlan.teacherGuide.differentiation.map((tip, i) => (
                                 <li key={i} className="text-sm text-slate-600 flex items-start">
@@ -685,9 +1241,13 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                                 </li>
                               ))}
                           </ul>
+                          )}
                         </div>
                         <div>
                           <h4 className="text-xs font-bold text-blue-600 uppercase mb-2">Consejos Metodológicos</h4>
+                          {isEditing ? (
+                            <EditableList items={generatedPlan.teacherGuide.methodologicalTips} onChange={(v) => setTeacherGuideField('methodologicalTips', v)} multiline />
+                          ) : (
                           <ul className="space-y-2">
                               {generatedPlan.teacherGuide.methodologicalTips.map((tip, i) => (
                                 <li key={i} className="text-sm text-slate-600 flex items-start">
@@ -695,6 +1255,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                                 </li>
                               ))}
                           </ul>
+                          )}
                         </div>
                     </div>
                 </div>
@@ -703,7 +1264,13 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
               {/* Detailed Evaluation Section */}
               <div className="grid md:grid-cols-2 border-b border-slate-100">
                 <div className="p-8 border-r border-slate-100">
-                  <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-4">Evaluación Cualitativa (Detalle)</h3>
+                  <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-4 flex items-center">
+                    Evaluación Cualitativa (Detalle)
+                    {renderRegenerateButton('evaluation')}
+                  </h3>
+                  {isEditing ? (
+                    <EditableList items={generatedPlan.evaluation.qualitative} onChange={(v) => setEvaluationField('qualitative', v)} addLabel="Agregar criterio" />
+                  ) : (
                   <ul className="space-y-2">
                       {generatedPlan.evaluation.qualitative.map((item, i) => (
                         <li key={i} className="text-sm text-slate-600 flex items-start">
@@ -711,9 +1278,13 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         </li>
                       ))}
                   </ul>
+                  )}
                 </div>
                 <div className="p-8">
                   <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-4">Evaluación Cuantitativa</h3>
+                  {isEditing ? (
+                    <EditableList items={generatedPlan.evaluation.quantitative} onChange={(v) => setEvaluationField('quantitative', v)} addLabel="Agregar criterio" />
+                  ) : (
                   <ul className="space-y-2">
                       {generatedPlan.evaluation.quantitative.map((item, i) => (
                         <li key={i} className="text-sm text-slate-600 flex items-start">
@@ -721,6 +1292,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         </li>
                       ))}
                   </ul>
+                  )}
                 </div>
               </div>
 
@@ -730,10 +1302,16 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                     <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center">
                       <AcademicCapIcon className="w-5 h-5 mr-2 text-indigo-500" />
                       Tarea Escolar
+                      {renderRegenerateButton('homework')}
                     </h3>
                     <div className="bg-white p-4 rounded-xl border border-slate-200">
-                      <p className="text-sm text-slate-800 font-medium mb-2">{generatedPlan.homework.activity}</p>
-                      <p className="text-xs text-slate-500"><strong>Criterio de Evaluación:</strong> {generatedPlan.homework.evaluationCriteria}</p>
+                      <p className="text-sm text-slate-800 font-medium mb-2">
+                        <EditableText editing={isEditing} multiline value={generatedPlan.homework.activity} onChange={(v) => setHomeworkField('activity', v)} />
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        <strong>Criterio de Evaluación:</strong>{' '}
+                        <EditableText editing={isEditing} multiline value={generatedPlan.homework.evaluationCriteria} onChange={(v) => setHomeworkField('evaluationCriteria', v)} />
+                      </p>
                     </div>
                 </div>
               )}
@@ -752,16 +1330,40 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             <ComputerDesktopIcon className="w-6 h-6 text-fuchsia-600 mr-2" />
                             Presentación de Clase (Slides)
                         </h3>
-                        <button 
-                            onClick={handleGenerateSlides}
-                            disabled={slidesLoading}
-                            className="flex items-center space-x-2 text-sm bg-fuchsia-50 text-fuchsia-700 border border-fuchsia-200 hover:bg-fuchsia-100 px-4 py-2 rounded-lg font-medium transition-colors"
-                        >
-                            {slidesLoading ? <ArrowPathIcon className="w-4 h-4 animate-spin"/> : <PresentationChartBarIcon className="w-4 h-4" />}
-                            <span>Generar Slides</span>
-                        </button>
+                        <div className="flex gap-2">
+                          {slidesData && (
+                            <button
+                                onClick={handlePresent}
+                                className="flex items-center space-x-2 text-sm bg-slate-900 text-white hover:bg-slate-800 px-4 py-2 rounded-lg font-medium transition-colors"
+                                title="Pantalla completa con vista del orador en otra ventana"
+                            >
+                                <PlayIcon className="w-4 h-4" />
+                                <span>Presentar</span>
+                            </button>
+                          )}
+                          {slidesData && (
+                            <button
+                                onClick={handleDownloadPptx}
+                                className="flex items-center space-x-2 text-sm bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 px-4 py-2 rounded-lg font-medium transition-colors"
+                                title="Descargar PowerPoint"
+                            >
+                                <ArrowDownTrayIcon className="w-4 h-4" />
+                                <span>.pptx</span>
+                            </button>
+                          )}
+                          <button 
+                              onClick={() => handleGenerateSlides()}
+                              disabled={slidesLoading}
+                              className="flex items-center space-x-2 text-sm bg-fuchsia-50 text-fuchsia-700 border border-fuchsia-200 hover:bg-fuchsia-100 px-4 py-2 rounded-lg font-medium transition-colors"
+                          >
+                              {slidesLoading ? <ArrowPathIcon className="w-4 h-4 animate-spin"/> : <PresentationChartBarIcon className="w-4 h-4" />}
+                              <span>Generar Slides</span>
+                          </button>
+                        </div>
                     </div>
 
+                    {renderCacheBadge('slides', () => handleGenerateSlides(true))}
+
                     {slidesData && (
                       <div className="animate-fade-in bg-slate-900 p-8 rounded-xl shadow-2xl">
                         <div className="max-w-4xl mx-auto aspect-video bg-white rounded-lg shadow-lg overflow-hidden relative flex flex-col">
@@ -824,7 +1426,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             Material Recortable (Tarjetas Léxicas)
                         </h3>
                         <button 
-                            onClick={handleGenerateVocabulary}
+                            onClick={() => handleGenerateVocabulary()}
                             disabled={vocabLoading}
                             className="flex items-center space-x-2 text-sm bg-rose-50 text-rose-700 border border-rose-200 hover:bg-rose-100 px-4 py-2 rounded-lg font-medium transition-colors"
                         >
@@ -833,6 +1435,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         </button>
                     </div>
                     
+                    {renderCacheBadge('vocabulary', () => handleGenerateVocabulary(true))}
+
                     {vocabData && (
                         <div className="animate-fade-in relative">
                             <div id="printable-vocabulary" className="bg-white p-8 grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -850,7 +1454,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             </div>
                              <div className="mt-4 flex justify-end">
                                 <button 
-                                    onClick={() => handleDownloadPDF('printable-vocabulary', 'Tarjetas_Vocabulario.pdf')}
+                                    onClick={() => handleDownloadPDF(plan => generateVocabularyPdf(vocabData, plan, school))}
                                     className="flex items-center space-x-2 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-700 transition-colors shadow-lg"
                                 >
                                     <PrinterIcon className="w-5 h-5" />
@@ -869,7 +1473,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             Hoja de Trabajo
                         </h3>
                         <button 
-                            onClick={handleGenerateWorksheet}
+                            onClick={() => handleGenerateWorksheet()}
                             disabled={worksheetLoading}
                             className="flex items-center space-x-2 text-sm bg-cyan-50 text-cyan-700 border border-cyan-200 hover:bg-cyan-100 px-4 py-2 rounded-lg font-medium transition-colors"
                         >
@@ -878,6 +1482,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         </button>
                     </div>
                     
+                    {renderCacheBadge('worksheet', () => handleGenerateWorksheet(true))}
+
                     {worksheetData && (
                         <div className="animate-fade-in relative">
                             {/* Worksheet Preview (Looks like paper) */}
@@ -929,7 +1535,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             </div>
 
                             <button 
-                                onClick={() => handleDownloadPDF('printable-worksheet', 'Hoja_Trabajo.pdf')}
+                                onClick={() => handleDownloadPDF(plan => generateWorksheetPdf(worksheetData, plan, school))}
                                 className="absolute top-2 right-2 p-2 bg-slate-800 text-white rounded-full hover:bg-slate-700 shadow-lg"
                                 title="Descargar Hoja PDF"
                             >
@@ -947,7 +1553,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                             Diseño de Pizarra
                         </h3>
                         <button 
-                            onClick={handleGenerateWhiteboard}
+                            onClick={() => handleGenerateWhiteboard()}
                             disabled={whiteboardLoading}
                             className="flex items-center space-x-2 text-sm bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100 px-4 py-2 rounded-lg font-medium transition-colors"
                         >
@@ -956,6 +1562,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         </button>
                     </div>
 
+                    {renderCacheBadge('whiteboard', () => handleGenerateWhiteboard(true))}
+
                     {whiteboardData && (
                         <div className="animate-fade-in mt-4">
                             {/* Blackboard Visualizer */}
@@ -1021,7 +1629,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                    <div className="flex space-x-4 mb-6">
                       <button 
                         onClick={() => handleGenerateAssessment('QUIZ')}
-                        disabled={assessmentLoading}
+                        disabled={assessmentLoading || blueprintItemCount > MAX_QUIZ_ITEMS}
                         className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-indigo-50 text-indigo-700 font-medium rounded-lg hover:bg-indigo-100 transition-colors border border-indigo-200"
                       >
                          <RectangleStackIcon className="w-5 h-5" />
@@ -1037,6 +1645,17 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                       </button>
                    </div>
 
+                   <button
+                     onClick={() => setIsBlueprintOpen(!isBlueprintOpen)}
+                     className="flex items-center text-xs font-medium text-slate-500 hover:text-indigo-600 mb-2 -mt-3"
+                   >
+                     <AdjustmentsHorizontalIcon className="w-4 h-4 mr-1" />
+                     Ítems del quiz: {blueprintItemCount} ítems · {blueprintPoints} pts
+                   </button>
+                   {isBlueprintOpen && <AssessmentBlueprintInput value={itemSpecs} onChange={setItemSpecs} />}
+
+                   {renderCacheBadge('assessment', () => handleGenerateAssessment(assessmentData?.rubric ? 'RUBRIC' : 'QUIZ', true))}
+
                    {assessmentLoading && (
                       <div className="p-4 text-center text-slate-500">
                         <ArrowPathIcon className="w-6 h-6 animate-spin mx-auto mb-2 text-indigo-500" />
@@ -1046,18 +1665,30 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
 
                    {assessmentData && assessmentData.quiz && (
                      <div className="animate-fade-in bg-slate-50 p-4 rounded-xl border border-slate-200">
-                        <h4 className="font-bold text-slate-900 mb-2 border-b pb-1 text-sm">Quiz Rápido</h4>
+                        <div className="flex items-center justify-between mb-2 border-b pb-1">
+                          <h4 className="font-bold text-slate-900 text-sm">Quiz · {pointsLabel(totalPoints(assessmentData.quiz.questions))}</h4>
+                          <div className="flex items-center gap-1">
+                            {assessmentData.quiz.questions.some(isAutoGradable) && (
+                              <button onClick={() => setIsQuizPlayerOpen(true)} className="flex items-center text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded" title="Aplicar en clase: los estudiantes responden por turnos y se califica automáticamente">
+                                <PlayIcon className="w-4 h-4 mr-1" /> Aplicar
+                              </button>
+                            )}
+                            <button onClick={() => setIsExamBuilderOpen(true)} className="flex items-center text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded" title="Examen imprimible con versiones A/B/C, hoja de respuestas y claves">
+                              <DocumentTextIcon className="w-4 h-4 mr-1" /> Examen
+                            </button>
+                            <button onClick={() => handleDownloadPDF(plan => generateQuizPdf(assessmentData.quiz!, plan, school))} className="p-1 text-slate-400 hover:text-indigo-600" title="Descargar Quiz PDF (con clave de respuestas)">
+                              <PrinterIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
                         <div className="space-y-4 max-h-60 overflow-y-auto pr-2">
                           {assessmentData.quiz.questions.map((q, i) => (
                             <div key={i}>
-                              <p className="font-medium text-slate-800 text-xs mb-1">{i + 1}. {q.question}</p>
-                              <div className="grid grid-cols-2 gap-1">
-                                {q.options.map((opt, idx) => (
-                                  <div key={idx} className={`text-[10px] p-1.5 rounded border ${opt === q.correctAnswer ? 'bg-green-100 border-green-300 text-green-800 font-bold' : 'bg-white border-slate-200 text-slate-600'}`}>
-                                    {opt}
-                                  </div>
-                                ))}
-                              </div>
+                              <p className="font-medium text-slate-800 text-xs mb-0.5">{i + 1}. {q.question}</p>
+                              <p className="text-[10px] text-slate-400 mb-1">
+                                {ITEM_TYPE_LABELS[itemType(q)]} · {pointsLabel(itemPoints(q))}{q.bloomLevel && ` · ${cognitiveLevelLabel(q.bloomLevel)}`}
+                              </p>
+                              {renderQuizItemAnswer(q)}
                             </div>
                           ))}
                         </div>
@@ -1066,7 +1697,12 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
 
                    {assessmentData && assessmentData.rubric && (
                       <div className="animate-fade-in bg-slate-50 p-4 rounded-xl border border-slate-200 overflow-x-auto">
-                         <h4 className="font-bold text-slate-900 mb-2 border-b pb-1 text-sm">Rúbrica</h4>
+                         <div className="flex items-center justify-between mb-2 border-b pb-1">
+                           <h4 className="font-bold text-slate-900 text-sm">Rúbrica</h4>
+                           <button onClick={() => handleDownloadPDF(plan => generateRubricPdf(assessmentData.rubric!, plan, school))} className="p-1 text-slate-400 hover:text-indigo-600" title="Descargar Rúbrica PDF">
+                             <PrinterIcon className="w-4 h-4" />
+                           </button>
+                         </div>
                          <table className="w-full text-xs text-left">
                             <thead>
                               <tr className="bg-slate-200 text-slate-700">
@@ -1110,7 +1746,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                          <option value="Gifted">Altas Capacidades</option>
                       </select>
                       <button 
-                        onClick={handleGenerateAdaptation}
+                        onClick={() => handleGenerateAdaptation()}
                         disabled={adaptationLoading}
                         className="bg-pink-50 text-pink-700 border border-pink-200 hover:bg-pink-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
                       >
@@ -1118,6 +1754,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                       </button>
                    </div>
 
+                   {renderCacheBadge('adaptation', () => handleGenerateAdaptation(true))}
+
                    {adaptationData && (
                      <div className="bg-pink-50/50 p-4 rounded-xl border border-pink-100 animate-fade-in text-sm">
                         <div className="mb-3">
@@ -1146,7 +1784,7 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                         Dinámicas y Gamificación
                       </h3>
                       <button 
-                        onClick={handleGenerateDynamics}
+                        onClick={() => handleGenerateDynamics()}
                         disabled={dynamicsLoading}
                         className="flex items-center space-x-2 text-sm bg-orange-50 text-orange-700 border border-orange-200 hover:bg-orange-100 px-4 py-2 rounded-lg font-medium transition-colors"
                       >
@@ -1155,6 +1793,8 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                       </button>
                    </div>
 
+                   {renderCacheBadge('dynamics', () => handleGenerateDynamics(true))}
+
                    {dynamicsData && (
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 animate-fade-in">
                          {dynamicsData.games.map((game, i) => (
@@ -1224,33 +1864,60 @@ export const LessonGenerator: React.FC<LessonGeneratorProps> = ({ onPlanGenerate
                 )}
             </div>
           </>
+        ) : loading ? (
+          <StreamingPlanPreview progress={streamProgress} loadingText={loadingText} onCancel={handleCancelGeneration} />
         ) : (
           <div className="h-full flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-200 rounded-2xl min-h-[500px] p-8 text-center">
-            {loading ? (
-               <div className="max-w-md w-full">
-                 <h3 className="text-lg font-semibold text-slate-600 mb-2">Creando Plan Integral...</h3>
-                 <p className="text-sm text-slate-500 mb-6 flex items-center justify-center">
-                   <ClockIcon className="w-4 h-4 mr-1 animate-pulse" />
-                   {loadingText}
-                 </p>
-                 <div className="w-full bg-slate-200 rounded-full h-2 mb-2 overflow-hidden relative">
-                    <div className="absolute inset-0 bg-indigo-500 h-2 rounded-full animate-[loading_2s_ease-in-out_infinite]"></div>
-                 </div>
-                 <p className="text-xs text-slate-400 mt-4">
-                    {formData.model?.includes('pro') ? 'Usando modelo PRO: Puede tardar hasta 45 seg.' : 'Usando modelo FLASH: Generación rápida.'}
-                 </p>
-               </div>
-            ) : (
-              <>
-                <SparklesIcon className="w-16 h-16 mb-4 opacity-50" />
-                <h3 className="text-lg font-semibold text-slate-600">Listo para crear</h3>
-                <p className="max-w-xs mt-2">Sube un PDF o ingresa los detalles para generar un plan de clase alineado y espiritual.</p>
-              </>
-            )}
+            <SparklesIcon className="w-16 h-16 mb-4 opacity-50" />
+            <h3 className="text-lg font-semibold text-slate-600">Listo para crear</h3>
+            <p className="max-w-xs mt-2">Sube un PDF o ingresa los detalles para generar un plan de clase alineado y espiritual.</p>
           </div>
         )}
       </div>
 
+      {aiError && (
+        <AIErrorNotice error={aiError.error} context={aiError.context} onDismiss={() => setAiError(null)} />
+      )}
+
+      {queuedNotice && (
+        <div
+          role="status"
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-3rem)] max-w-lg bg-white rounded-xl shadow-2xl border border-indigo-200 p-4 flex items-start gap-3 animate-fade-in-up"
+        >
+          <CloudArrowUpIcon className="w-6 h-6 text-indigo-500 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="text-sm font-bold text-slate-800">Sin conexión: solicitud en cola</p>
+            <p className="text-xs text-slate-600 mt-1">{queuedNotice}</p>
+          </div>
+          <button onClick={() => setQueuedNotice(null)} className="text-slate-400 hover:text-slate-600">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+
+      {isHistoryOpen && generatedPlan && (
+        <VersionHistory
+          plan={generatedPlan}
+          onRestore={handleRestoreVersion}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isExamBuilderOpen && generatedPlan && assessmentData?.quiz && (
+        <ExamBuilder plan={generatedPlan} questions={assessmentData.quiz.questions} school={school} onClose={() => setIsExamBuilderOpen(false)} />
+      )}
+      {isQuizPlayerOpen && generatedPlan && assessmentData?.quiz && (
+        <QuizPlayer plan={generatedPlan} questions={assessmentData.quiz.questions} onClose={() => setIsQuizPlayerOpen(false)} />
+      )}
+
+      {presentation && (
+        <SlidePresenter
+          deck={presentation.deck}
+          channelId={presentation.channelId}
+          onExit={() => setPresentation(null)}
+        />
+      )}
+
       {/* Floating Action Button for Chat */}
       {generatedPlan && (
         <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end">
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { ClassSchedule, GeneratedLessonPlan, ScheduledLesson } from '../types';
+import { getSchedule, listScheduledLessons, scheduledLessonId } from '../services/storageService';
+import { ClassOccurrence, nextClass, relativeDayLabel, formatClassTime, durationOverflow } from '../utils/schedule';
+
+interface NextClassCardProps {
+  plans: GeneratedLessonPlan[];
+}
+
+// "Próxima Clase" on the dashboard, from the teacher's timetable and the plans assigned in the calendar
+export const NextClassCard: React.FC<NextClassCardProps> = ({ plans }) => {
+  const [schedule, setSchedule] = useState<ClassSchedule | null>(null);
+  const [upcoming, setUpcoming] = useState<ClassOccurrence | null>(null);
+  const [lesson, setLesson] = useState<ScheduledLesson | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const loaded = await getSchedule();
+      const found = nextClass(loaded) ?? null;
+      const lessons = found ? await listScheduledLessons(found.date, found.date) : [];
+      if (cancelled) return;
+      setSchedule(loaded);
+      setUpcoming(found);
+      setLesson(found ? lessons.find(l => l.id === scheduledLessonId(found.slot.id, found.date)) ?? null : null);
+    })().catch(error => console.error("Could not load next class:", error));
+    return () => { cancelled = true; };
+  }, []);
+
+  const plan = lesson ? plans.find(p => p.id === lesson.planId) : undefined;
+  const overflow = plan && upcoming ? durationOverflow(plan.duration, upcoming.period) : null;
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-500 to-indigo-700 p-6 rounded-2xl shadow-lg text-white">
+      <p className="text-indigo-100 text-sm font-medium uppercase">Próxima Clase</p>
+      {upcoming ? (
+        <>
+          <p className="text-2xl font-bold mt-2">{upcoming.slot.subject}</p>
+          <p className="text-indigo-200 text-sm">
+            {upcoming.section.name} • {upcoming.start <= new Date() ? 'En curso' : `${relativeDayLabel(upcoming.start)} ${formatClassTime(upcoming.start)}`}
+          </p>
+          <p className="text-indigo-100 text-xs mt-2 truncate">
+            {plan ? plan.generalData.contentConceptual : 'Sin plan asignado'}
+            {overflow && ` · ${overflow.planMinutes} min en ${overflow.periodMinutes}`}
+          </p>
+        </>
+      ) : (
+        <>
+          <p className="text-2xl font-bold mt-2">Sin clases</p>
+          <p className="text-indigo-200 text-sm">
+            {schedule && schedule.slots.length === 0 ? 'Configura tu horario en Calendario' : 'No hay clases programadas próximamente'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Subject, GradeLevel, ContentType, GeneratedLessonPlan } from '../types';
+import { EMPTY_FILTERS, PlanFilters, PlanSortOrder, countFacet, filterPlans } from '../utils/planSearch';
+import { MagnifyingGlassIcon, BookOpenIcon, TrashIcon, XMarkIcon, FunnelIcon } from '@heroicons/react/24/outline';
+
+interface PlanLibraryProps {
+  plans: GeneratedLessonPlan[];
+  onOpenPlan: (plan: GeneratedLessonPlan) => void;
+  onDeletePlan: (plan: GeneratedLessonPlan) => void;
+  isDemoPlan: (plan: GeneratedLessonPlan) => boolean;
+}
+
+// Rendering hundreds of cards at once makes typing in the search box sluggish
+const PAGE_SIZE = 30;
+
+export const PlanLibrary: React.FC<PlanLibraryProps> = ({ plans, onOpenPlan, onDeletePlan, isDemoPlan }) => {
+  const [filters, setFilters] = useState<PlanFilters>(EMPTY_FILTERS);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const results = useMemo(() => filterPlans(plans, filters), [plans, filters]);
+  const subjectCounts = useMemo(() => countFacet(plans, filters, 'subject'), [plans, filters]);
+  const gradeCounts = useMemo(() => countFacet(plans, filters, 'grade'), [plans, filters]);
+  const contentTypeCounts = useMemo(() => countFacet(plans, filters, 'contentType'), [plans, filters]);
+
+  const hasActiveFilters = filters.query !== '' || filters.subject !== '' || filters.grade !== '' || filters.contentType !== '';
+
+  const updateFilter = (name: keyof PlanFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleDelete = (e: React.MouseEvent, plan: GeneratedLessonPlan) => {
+    e.stopPropagation();
+    if (confirm(`¿Eliminar el plan "${plan.generalData.contentConceptual}" y todos sus recursos?`)) {
+      onDeletePlan(plan);
+    }
+  };
+
+  const formatDate = (iso?: string) =>
+    iso ? new Date(iso).toLocaleDateString('es-NI', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Sin fecha';
+
+  const facetSelect = (
+    name: 'subject' | 'grade' | 'contentType',
+    label: string,
+    values: string[],
+    counts: Record<string, number>
+  ) => (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{label}</label>
+      <select
+        value={filters[name]}
+        onChange={(e) => updateFilter(name, e.target.value)}
+        className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm bg-white"
+      >
+        <option value="">Todos</option>
+        {values.map(v => (
+          <option key={v} value={v}>{v} ({counts[v] || 0})</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Search & Filters */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <div className="relative">
+          <MagnifyingGlassIcon className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => updateFilter('query', e.target.value)}
+            placeholder="Buscar por contenido, unidad, indicador de logro o integración de fe..."
+            className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {facetSelect('subject', 'Asignatura', Object.values(Subject), subjectCounts)}
+          {facetSelect('grade', 'Grado', Object.values(GradeLevel), gradeCounts)}
+          {facetSelect('contentType', 'Enfoque', Object.values(ContentType), contentTypeCounts)}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Ordenar</label>
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilter('sort', e.target.value as PlanSortOrder)}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm bg-white"
+            >
+              <option value="newest">Más recientes primero</option>
+              <option value="oldest">Más antiguos primero</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-slate-500 flex items-center">
+            <FunnelIcon className="w-4 h-4 mr-1" />
+            {results.length} de {plans.length} planes
+          </span>
+          {hasActiveFilters && (
+            <button
+              onClick={() => { setFilters(EMPTY_FILTERS); setVisibleCount(PAGE_SIZE); }}
+              className="flex items-center text-indigo-600 hover:underline"
+            >
+              <XMarkIcon className="w-4 h-4 mr-1" />
+              Limpiar filtros
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      {results.length === 0 ? (
+        <div className="bg-white rounded-2xl p-12 shadow-sm border border-slate-200 text-center text-slate-400">
+          <BookOpenIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>{plans.length === 0 ? 'Aún no tienes planes guardados. Crea tu primer plan.' : 'Ningún plan coincide con la búsqueda.'}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {results.slice(0, visibleCount).map(plan => (
+            <div
+              key={plan.id}
+              onClick={() => onOpenPlan(plan)}
+              className="bg-white rounded-2xl p-5 shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all cursor-pointer group"
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="inline-block px-2 py-0.5 rounded bg-indigo-50 text-indigo-600 text-xs font-bold">
+                      {plan.generalData.grade}
+                    </span>
+                    <span className="text-xs text-slate-500">{plan.generalData.subject}</span>
+                    {plan.contentType && (
+                      <span className="text-[10px] uppercase font-bold text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">
+                        {plan.contentType.split(' ')[0]}
+                      </span>
+                    )}
+                    {isDemoPlan(plan) && (
+                      <span className="text-[10px] uppercase font-bold text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">Demo</span>
+                    )}
+                  </div>
+                  <h3 className="font-bold text-slate-900 group-hover:text-indigo-700 truncate">{plan.generalData.contentConceptual}</h3>
+                  <p className="text-xs text-slate-500 mt-1 truncate">{plan.generalData.unit}</p>
+                  <p className="text-sm text-slate-600 mt-2 line-clamp-2">{plan.generalData.achievementIndicator}</p>
+                </div>
+                {!isDemoPlan(plan) && (
+                  <button
+                    onClick={(e) => handleDelete(e, plan)}
+                    className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors flex-shrink-0"
+                    title="Eliminar plan"
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+              <div className="flex justify-between items-center mt-4 pt-3 border-t border-slate-100 text-xs text-slate-400">
+                <span className="truncate max-w-[70%]">✝ {plan.faithIntegration.spiritualConcept}</span>
+                <span>{formatDate(plan.createdAt)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {results.length > visibleCount && (
+        <div className="text-center">
+          <button
+            onClick={() => setVisibleCount(c => c + PAGE_SIZE)}
+            className="px-6 py-2 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            Mostrar más ({results.length - visibleCount} restantes)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { SourceSummary } from '../types';
+import { BookOpenIcon, PhotoIcon, DocumentTextIcon, DocumentIcon, PaperClipIcon } from '@heroicons/react/24/outline';
+
+const SOURCE_ICONS: Record<SourceSummary['kind'], React.ForwardRefExoticComponent<React.SVGProps<SVGSVGElement>>> = {
+  textbook: BookOpenIcon,
+  pdf: DocumentIcon,
+  image: PhotoIcon,
+  docx: DocumentTextIcon,
+  text: DocumentTextIcon,
+};
+
+export const SourceIcon: React.FC<{ kind: SourceSummary['kind']; className?: string }> = ({ kind, className }) => {
+  const Icon = SOURCE_ICONS[kind];
+  return <Icon className={className} />;
+};
+
+// The textbook sections and files a plan was generated from
+export const PlanSources: React.FC<{ sources: SourceSummary[] }> = ({ sources }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 bg-white border border-slate-200 rounded-xl px-4 py-3 mb-4 shadow-sm">
+    <span className="flex items-center font-semibold text-slate-500 mr-1">
+      <PaperClipIcon className="w-4 h-4 mr-1" /> Fuentes usadas:
+    </span>
+    {sources.map((source, i) => (
+      <span key={i} className="flex items-center gap-1.5 bg-slate-50 border border-slate-200 rounded-lg pl-1 pr-2 py-1 max-w-xs">
+        {source.thumbnail
+          ? <img src={source.thumbnail} alt="" className="w-6 h-6 object-cover rounded" />
+          : <SourceIcon kind={source.kind} className="w-4 h-4 ml-1 text-slate-400 flex-shrink-0" />}
+        <span className="truncate" title={source.label}>{source.label}</span>
+      </span>
+    ))}
+  </div>
+);
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import FileSaver from 'file-saver';
+import { PlanTemplate } from '../types';
+import { listPlanTemplates, savePlanTemplate, deletePlanTemplate } from '../services/storageService';
+import { inspectTemplate, downloadSampleTemplate, DocxTemplateError, PLAN_TEMPLATE_FIELDS } from '../utils/docxTemplate';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, ArrowPathIcon, TrashIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+
+// Uploaded Word layouts offered next to the built-in format when a plan is exported
+export const PlanTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<PlanTemplate[] | null>(null);
+  const [name, setName] = useState('');
+  const [uploadError, setUploadError] = useState<{ message: string; problems: string[] } | null>(null);
+
+  useEffect(() => {
+    listPlanTemplates()
+      .then(setTemplates)
+      .catch(error => {
+        console.error("Could not load templates:", error);
+        setTemplates([]);
+      });
+  }, []);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (!file) return;
+    setUploadError(null);
+    try {
+      const data = await file.arrayBuffer();
+      const template = await savePlanTemplate({
+        id: crypto.randomUUID(),
+        name: name.trim() || file.name.replace(/\.docx$/i, ''),
+        fileName: file.name,
+        data,
+        tags: inspectTemplate(data),
+      });
+      setTemplates(prev => [...(prev || []), template].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+    } catch (error) {
+      console.error("Could not add template:", error);
+      setUploadError(error instanceof DocxTemplateError
+        ? { message: 'La plantilla tiene errores en sus campos {{...}}.', problems: error.problems.slice(0, 5) }
+        : { message: 'No se pudo guardar la plantilla.', problems: [] });
+    }
+  };
+
+  const handleDelete = async (template: PlanTemplate) => {
+    if (!window.confirm(`¿Eliminar la plantilla "${template.name}"?`)) return;
+    try {
+      await deletePlanTemplate(template.id);
+      setTemplates(prev => (prev || []).filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error("Could not delete template:", error);
+      alert("No se pudo eliminar la plantilla.");
+    }
+  };
+
+  if (!templates) {
+    return <p className="text-sm text-slate-400 flex items-center"><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Cargando plantillas...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {templates.length === 0 ? (
+        <p className="text-sm text-slate-400">Aún no hay plantillas. Los planes se exportan con el formato del sistema.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-start gap-3 p-3">
+              <DocumentTextIcon className="w-5 h-5 text-blue-700 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-800 truncate">{template.name}</p>
+                <p className="text-xs text-slate-500 truncate" title={template.tags.join(', ')}>
+                  {template.fileName} · {template.tags.length} campos
+                </p>
+              </div>
+              <button
+                onClick={() => FileSaver.saveAs(new Blob([template.data]), template.fileName)}
+                className="p-1 text-slate-400 hover:text-indigo-600"
+                title="Descargar plantilla"
+              >
+                <ArrowDownTrayIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(template)} className="p-1 text-slate-400 hover:text-red-500" title="Eliminar">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nombre (ej: Formato Distrital)"
+          className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+        />
+        <label className="flex items-center text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded cursor-pointer">
+          <ArrowUpTrayIcon className="w-4 h-4 mr-1" /> Subir .docx
+          <input type="file" accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document" onChange={handleUpload} className="hidden" />
+        </label>
+        <button onClick={() => downloadSampleTemplate()} className="flex items-center text-xs font-medium text-slate-600 hover:text-indigo-600 px-2 py-1 rounded hover:bg-slate-50">
+          <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Plantilla de ejemplo
+        </button>
+      </div>
+
+      {uploadError && (
+        <div className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+          <p className="font-medium">{uploadError.message}</p>
+          {uploadError.problems.length > 0 && (
+            <ul className="mt-1 list-disc list-inside font-mono">
+              {uploadError.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <details className="text-xs text-slate-600">
+        <summary className="cursor-pointer font-medium text-slate-700">Campos disponibles</summary>
+        <ul className="mt-2 space-y-1">
+          {PLAN_TEMPLATE_FIELDS.map(field => (
+            <li key={field.tag}>
+              <code className="font-mono text-indigo-700">{`{{${field.tag}}}`}</code> — {field.description}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-2 text-slate-500">
+          Un bloque que empieza con <code className="font-mono">{'{{#campo}}'}</code> y termina con <code className="font-mono">{'{{/campo}}'}</code> se
+          repite por cada elemento; dentro de una fila de tabla, se repite la fila completa.
+        </p>
+      </details>
+    </div>
+  );
+};
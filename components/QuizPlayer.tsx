@@ -0,0 +1,378 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedLessonPlan, QuizAttempt, QuizQuestion } from '../types';
+import { listQuizAttempts, saveQuizAttempt, deleteQuizAttempt } from '../services/storageService';
+import { QuizItem, attemptMatchesQuiz, gradeQuiz, isCorrect, percentage, quizStatistics, shuffleQuiz } from '../utils/quiz';
+import { downloadQuizResultsCsv } from '../utils/quizCsv';
+import { isAutoGradable, itemType } from '../utils/assessmentItems';
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon, TableCellsIcon, ArrowDownTrayIcon, TrashIcon, CheckIcon, UserIcon } from '@heroicons/react/24/outline';
+
+interface QuizPlayerProps {
+  plan: GeneratedLessonPlan;
+  questions: QuizQuestion[];
+  onClose: () => void;
+}
+
+type Stage =
+  | { name: 'lobby' }
+  | { name: 'question'; studentName: string; items: QuizItem[]; answers: (string | null)[]; current: number; startedAt: string }
+  | { name: 'finished'; attempt: QuizAttempt }
+  | { name: 'results' };
+
+const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const LEVEL_STYLES = {
+  'Fácil': 'bg-emerald-100 text-emerald-800',
+  'Media': 'bg-amber-100 text-amber-800',
+  'Difícil': 'bg-red-100 text-red-800',
+};
+
+// Student-facing quiz for a shared classroom computer or projector: students take turns, each
+// one gets the questions and options in a new order and only sees their own score. The results
+// table (per student and per question) is for the teacher. Only items with an answer that can be
+// compared as text are played; matching, ordering and written answers stay on paper.
+export const QuizPlayer: React.FC<QuizPlayerProps> = ({ plan, questions: allQuestions, onClose }) => {
+  const questions = useMemo(() => allQuestions.filter(isAutoGradable), [allQuestions]);
+  const paperOnlyCount = allQuestions.length - questions.length;
+  const [stage, setStage] = useState<Stage>({ name: 'lobby' });
+  const [studentName, setStudentName] = useState('');
+  const [allAttempts, setAllAttempts] = useState<QuizAttempt[]>([]);
+
+  useEffect(() => {
+    listQuizAttempts(plan.id)
+      .then(setAllAttempts)
+      .catch(error => console.error("Could not load quiz results:", error));
+  }, [plan.id]);
+
+  const attempts = useMemo(() => allAttempts.filter(a => attemptMatchesQuiz(a, questions)), [allAttempts, questions]);
+  const olderAttempts = allAttempts.length - attempts.length;
+  const stats = useMemo(() => quizStatistics(questions, attempts), [questions, attempts]);
+  const topic = plan.generalData.contentConceptual;
+
+  const start = () => {
+    const name = studentName.trim();
+    if (!name) return;
+    setStage({
+      name: 'question',
+      studentName: name,
+      items: shuffleQuiz(questions),
+      answers: questions.map(() => null),
+      current: 0,
+      startedAt: new Date().toISOString(),
+    });
+  };
+
+  const finish = async () => {
+    if (stage.name !== 'question') return;
+    const blanks = stage.answers.filter(a => a === null).length;
+    if (blanks > 0 && !confirm(`Hay ${blanks} pregunta(s) sin responder. ¿Terminar de todos modos?`)) return;
+    const { answers, score } = gradeQuiz(questions, stage.answers);
+    const attempt: QuizAttempt = {
+      id: crypto.randomUUID(),
+      planId: plan.id,
+      studentName: stage.studentName,
+      answers,
+      score,
+      startedAt: stage.startedAt,
+      finishedAt: new Date().toISOString(),
+    };
+    setAllAttempts(prev => [...prev, attempt]);
+    setStudentName('');
+    setStage({ name: 'finished', attempt });
+    try {
+      await saveQuizAttempt(attempt);
+    } catch (error) {
+      console.error("Could not save quiz attempt:", error);
+    }
+  };
+
+  const choose = (option: string | null) => {
+    if (stage.name !== 'question') return;
+    const questionIndex = stage.items[stage.current].questionIndex;
+    setStage({ ...stage, answers: stage.answers.map((a, i) => i === questionIndex ? option : a) });
+  };
+
+  const move = (delta: number) => {
+    if (stage.name !== 'question') return;
+    setStage({ ...stage, current: Math.min(stage.items.length - 1, Math.max(0, stage.current + delta)) });
+  };
+
+  const handleDeleteAttempt = async (attempt: QuizAttempt) => {
+    if (!confirm(`¿Eliminar el resultado de ${attempt.studentName}?`)) return;
+    try {
+      await deleteQuizAttempt(attempt.id);
+      setAllAttempts(prev => prev.filter(a => a.id !== attempt.id));
+    } catch (error) {
+      console.error("Could not delete quiz attempt:", error);
+      alert("No se pudo eliminar el resultado.");
+    }
+  };
+
+  // Number or letter keys pick an option, arrows move between questions
+  useEffect(() => {
+    if (stage.name !== 'question') return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return; // Typing a fill-in answer
+      const item = stage.items[stage.current];
+      const byNumber = Number(e.key) - 1;
+      const byLetter = LETTERS.indexOf(e.key.toUpperCase());
+      const index = byNumber >= 0 ? byNumber : byLetter;
+      if (index >= 0 && index < item.options.length) choose(item.options[index]);
+      else if (e.key === 'ArrowRight') move(1);
+      else if (e.key === 'ArrowLeft') move(-1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const renderLobby = () => (
+    <div className="max-w-xl mx-auto text-center">
+      <p className="text-sm font-bold text-indigo-600 uppercase tracking-wider mb-2">Quiz · {plan.generalData.subject}</p>
+      <h2 className="text-3xl font-bold text-slate-900 mb-2">{topic}</h2>
+      <p className="text-slate-500 mb-8">{questions.length} preguntas · Escribe tu nombre para comenzar</p>
+      <form onSubmit={(e) => { e.preventDefault(); start(); }} className="flex gap-2">
+        <input
+          autoFocus
+          value={studentName}
+          onChange={(e) => setStudentName(e.target.value)}
+          placeholder="Nombre y apellido"
+          className="flex-1 px-4 py-3 rounded-xl border border-slate-300 text-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="submit" disabled={!studentName.trim()} className="px-6 py-3 rounded-xl bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:opacity-40">
+          Comenzar
+        </button>
+      </form>
+      {paperOnlyCount > 0 && (
+        <p className="mt-6 text-sm text-slate-500">
+          {paperOnlyCount} pregunta(s) de pareo, orden o respuesta escrita no se aplican aquí: califícalas en papel.
+        </p>
+      )}
+      {attempts.length > 0 && (
+        <p className="mt-6 text-sm text-slate-500">
+          Ya respondieron: {attempts.map(a => a.studentName).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderQuestion = () => {
+    if (stage.name !== 'question') return null;
+    const item = stage.items[stage.current];
+    const question = questions[item.questionIndex];
+    const selected = stage.answers[item.questionIndex];
+    const isLast = stage.current === stage.items.length - 1;
+    const answeredCount = stage.answers.filter(a => a !== null).length;
+
+    return (
+      <div className="max-w-3xl mx-auto w-full">
+        <div className="flex items-center justify-between text-sm text-slate-500 mb-2">
+          <span className="flex items-center"><UserIcon className="w-4 h-4 mr-1" /> {stage.studentName}</span>
+          <span>Pregunta {stage.current + 1} de {stage.items.length}</span>
+        </div>
+        <div className="h-2 bg-slate-200 rounded-full mb-8 overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percentage(answeredCount, stage.items.length)}%` }} />
+        </div>
+
+        <h2 className="text-2xl md:text-3xl font-bold text-slate-900 mb-8">{question.question}</h2>
+        {itemType(question) === 'fillBlank' ? (
+          <input
+            key={item.questionIndex}
+            autoFocus
+            value={selected ?? ''}
+            onChange={(e) => choose(e.target.value || null)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !isLast) move(1); }}
+            placeholder="Escribe la palabra que falta"
+            className="w-full px-5 py-4 rounded-2xl border-2 border-slate-200 text-lg focus:border-indigo-600 outline-none"
+          />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {item.options.map((option, i) => (
+              <button
+                key={i}
+                onClick={() => choose(option)}
+                className={`flex items-center text-left p-5 rounded-2xl border-2 text-lg transition-colors ${option === selected ? 'border-indigo-600 bg-indigo-50 text-indigo-900' : 'border-slate-200 bg-white hover:border-indigo-300 text-slate-800'}`}
+              >
+                <span className={`w-9 h-9 mr-4 flex-shrink-0 rounded-full flex items-center justify-center font-bold ${option === selected ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                  {LETTERS[i]}
+                </span>
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-10">
+          <button onClick={() => move(-1)} disabled={stage.current === 0} className="flex items-center px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100 disabled:opacity-30">
+            <ChevronLeftIcon className="w-5 h-5 mr-1" /> Anterior
+          </button>
+          {isLast ? (
+            <button onClick={finish} className="flex items-center px-6 py-3 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700">
+              <CheckIcon className="w-5 h-5 mr-1" /> Terminar
+            </button>
+          ) : (
+            <button onClick={() => move(1)} className="flex items-center px-6 py-3 rounded-xl bg-indigo-600 text-white font-semibold hover:bg-indigo-700">
+              Siguiente <ChevronRightIcon className="w-5 h-5 ml-1" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderFinished = () => {
+    if (stage.name !== 'finished') return null;
+    const { attempt } = stage;
+    return (
+      <div className="max-w-md mx-auto text-center">
+        <p className="text-2xl font-bold text-slate-900 mb-2">¡Listo, {attempt.studentName}!</p>
+        <p className="text-6xl font-bold text-indigo-600 my-6">{percentage(attempt.score, questions.length)}%</p>
+        <p className="text-slate-500 mb-8">{attempt.score} de {questions.length} respuestas correctas</p>
+        <button onClick={() => setStage({ name: 'lobby' })} className="px-6 py-3 rounded-xl bg-indigo-600 text-white font-semibold hover:bg-indigo-700">
+          Siguiente estudiante
+        </button>
+      </div>
+    );
+  };
+
+  const renderResults = () => (
+    <div className="max-w-6xl mx-auto w-full space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Resultados · {topic}</h2>
+          <p className="text-sm text-slate-500">
+            {attempts.length} estudiante(s) · Promedio {percentage(attempts.reduce((sum, a) => sum + a.score, 0), attempts.length * questions.length)}%
+          </p>
+        </div>
+        <button
+          onClick={() => downloadQuizResultsCsv(questions, attempts, topic)}
+          disabled={attempts.length === 0}
+          className="flex items-center px-4 py-2 rounded-lg bg-slate-800 text-white text-sm font-medium hover:bg-slate-700 disabled:opacity-40"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Exportar CSV
+        </button>
+      </div>
+
+      {olderAttempts > 0 && (
+        <p className="text-xs text-slate-500">{olderAttempts} resultado(s) de una versión anterior de este quiz no se muestran.</p>
+      )}
+
+      {attempts.length === 0 ? (
+        <p className="text-slate-500">Todavía no hay resultados.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto bg-white rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-slate-50 text-slate-600 text-left">
+                  <th className="p-3">Estudiante</th>
+                  {questions.map((_, i) => <th key={i} className="p-3 text-center">P{i + 1}</th>)}
+                  <th className="p-3 text-right">Nota</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {attempts.map(attempt => (
+                  <tr key={attempt.id}>
+                    <td className="p-3 font-medium text-slate-800">{attempt.studentName}</td>
+                    {attempt.answers.map((answer, i) => (
+                      <td key={i} className="p-3 text-center" title={answer.answer ?? 'Sin responder'}>
+                        {answer.answer === null
+                          ? <span className="text-slate-300">—</span>
+                          : isCorrect(answer)
+                            ? <span className="text-emerald-600 font-bold">✓</span>
+                            : <span className="text-red-500 font-bold">✗</span>}
+                      </td>
+                    ))}
+                    <td className="p-3 text-right font-semibold text-slate-800">
+                      {attempt.score}/{questions.length} <span className="text-slate-400 font-normal">({percentage(attempt.score, questions.length)}%)</span>
+                    </td>
+                    <td className="p-3 text-right">
+                      <button onClick={() => handleDeleteAttempt(attempt)} className="text-slate-300 hover:text-red-500" title="Eliminar resultado">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 mb-3">Dificultad por pregunta</h3>
+            <div className="overflow-x-auto bg-white rounded-xl border border-slate-200">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-slate-50 text-slate-600 text-left">
+                    <th className="p-3">#</th>
+                    <th className="p-3">Pregunta</th>
+                    <th className="p-3 w-48">Aciertos</th>
+                    <th className="p-3">Dificultad</th>
+                    <th className="p-3">Distractor más elegido</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {stats.map((s, i) => (
+                    <tr key={i}>
+                      <td className="p-3 text-slate-400">P{i + 1}</td>
+                      <td className="p-3 text-slate-800">
+                        {s.question}
+                        <span className="block text-xs text-emerald-700">Correcta: {s.correctAnswer}</span>
+                      </td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500" style={{ width: `${percentage(s.correct, attempts.length)}%` }} />
+                          </div>
+                          <span className="text-xs text-slate-600 tabular-nums">{s.correct}/{attempts.length}</span>
+                        </div>
+                      </td>
+                      <td className="p-3">
+                        {s.level && <span className={`text-xs font-semibold px-2 py-1 rounded-full ${LEVEL_STYLES[s.level]}`}>{s.level}</span>}
+                      </td>
+                      <td className="p-3 text-slate-600">
+                        {s.commonWrongAnswer ? `${s.commonWrongAnswer.answer} (${s.commonWrongAnswer.count})` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  const handleClose = () => {
+    if (stage.name === 'question' && !confirm(`${stage.studentName} no ha terminado. ¿Salir sin guardar sus respuestas?`)) return;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-50 flex flex-col">
+      <div className="flex items-center justify-between px-6 py-3 bg-white border-b border-slate-200">
+        <p className="text-sm font-semibold text-slate-700">Quiz en clase</p>
+        <div className="flex items-center gap-2">
+          {stage.name === 'results' ? (
+            <button onClick={() => setStage({ name: 'lobby' })} className="px-3 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100">
+              Volver al quiz
+            </button>
+          ) : stage.name !== 'question' && (
+            <button onClick={() => setStage({ name: 'results' })} className="flex items-center px-3 py-1.5 rounded-lg text-sm text-slate-600 hover:bg-slate-100">
+              <TableCellsIcon className="w-4 h-4 mr-1" /> Resultados ({attempts.length})
+            </button>
+          )}
+          <button onClick={handleClose} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100" title="Cerrar">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex items-start md:items-center justify-center p-8">
+        {stage.name === 'lobby' && renderLobby()}
+        {stage.name === 'question' && renderQuestion()}
+        {stage.name === 'finished' && renderFinished()}
+        {stage.name === 'results' && renderResults()}
+      </div>
+    </div>
+  );
+};
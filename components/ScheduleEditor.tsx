@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { ClassSchedule, ClassSection, ClassPeriod, TimetableSlot, SchoolHoliday, GradeLevel, Subject } from '../types';
+import { WEEKDAY_LABELS, timeToMinutes, periodMinutes, toDateKey } from '../utils/schedule';
+import { PlusIcon, TrashIcon, CheckIcon } from '@heroicons/react/24/outline';
+
+interface ScheduleEditorProps {
+  schedule: ClassSchedule;
+  onSave: (schedule: ClassSchedule) => void;
+}
+
+const DEFAULT_PERIOD_MINUTES = 45;
+
+const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const inputClass = "px-3 py-1.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+const Card: React.FC<{ title: string; description: string; onAdd?: () => void; addLabel?: string; children: React.ReactNode }> = ({ title, description, onAdd, addLabel, children }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+    <div className="flex items-start justify-between gap-4 mb-4">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800">{title}</h3>
+        <p className="text-sm text-slate-500">{description}</p>
+      </div>
+      {onAdd && (
+        <button type="button" onClick={onAdd} className="flex items-center text-sm font-semibold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg whitespace-nowrap">
+          <PlusIcon className="w-4 h-4 mr-1" /> {addLabel}
+        </button>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void; title: string }> = ({ onClick, title }) => (
+  <button type="button" onClick={onClick} title={title} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded">
+    <TrashIcon className="w-4 h-4" />
+  </button>
+);
+
+// Edits a draft of the schedule; nothing is stored until "Guardar horario"
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onSave }) => {
+  const [draft, setDraft] = useState<ClassSchedule>(schedule);
+  const [includeSaturday, setIncludeSaturday] = useState(schedule.slots.some(s => s.weekday === 6));
+
+  const update = <K extends keyof ClassSchedule>(key: K, value: ClassSchedule[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const updateItem = <K extends 'sections' | 'periods' | 'holidays'>(key: K, id: string, changes: Partial<ClassSchedule[K][number]>) =>
+    setDraft(prev => ({ ...prev, [key]: (prev[key] as { id: string }[]).map(item => item.id === id ? { ...item, ...changes } : item) }));
+
+  // --- Sections ---
+  const addSection = () => update('sections', [...draft.sections, { id: crypto.randomUUID(), name: '', grade: GradeLevel.FIFTH }]);
+  const removeSection = (id: string) => setDraft(prev => ({
+    ...prev,
+    sections: prev.sections.filter(s => s.id !== id),
+    slots: prev.slots.filter(s => s.sectionId !== id),
+  }));
+
+  // --- Periods ---
+  const sortedPeriods = [...draft.periods].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  const addPeriod = () => {
+    const last = sortedPeriods[sortedPeriods.length - 1];
+    const start = last ? timeToMinutes(last.end) : 7 * 60;
+    const period: ClassPeriod = {
+      id: crypto.randomUUID(),
+      label: `${draft.periods.length + 1}° período`,
+      start: minutesToTime(start),
+      end: minutesToTime(start + DEFAULT_PERIOD_MINUTES),
+    };
+    update('periods', [...draft.periods, period]);
+  };
+  const removePeriod = (id: string) => setDraft(prev => ({
+    ...prev,
+    periods: prev.periods.filter(p => p.id !== id),
+    slots: prev.slots.filter(s => s.periodId !== id),
+  }));
+
+  // --- Timetable: at most one class per weekday and period ---
+  const slotAt = (weekday: number, periodId: string) =>
+    draft.slots.find(s => s.weekday === weekday && s.periodId === periodId);
+
+  const setSlot = (weekday: number, periodId: string, changes: Partial<TimetableSlot> | null) => {
+    const existing = slotAt(weekday, periodId);
+    const others = draft.slots.filter(s => s !== existing);
+    if (!changes) {
+      update('slots', others);
+      return;
+    }
+    const slot: TimetableSlot = existing
+      ? { ...existing, ...changes }
+      : { id: crypto.randomUUID(), weekday, periodId, sectionId: '', subject: Subject.MATHEMATICS, ...changes };
+    update('slots', [...others, slot]);
+  };
+
+  const weekdays = includeSaturday ? [1, 2, 3, 4, 5, 6] : [1, 2, 3, 4, 5];
+
+  // --- Holidays ---
+  const addHoliday = () => {
+    const today = toDateKey(new Date());
+    update('holidays', [...draft.holidays, { id: crypto.randomUUID(), name: '', start: today, end: today }]);
+  };
+
+  const invalidPeriods = draft.periods.filter(p => periodMinutes(p) <= 0);
+  const canSave = invalidPeriods.length === 0 && draft.sections.every(s => s.name.trim() !== '');
+
+  const handleSave = () => {
+    // Saturday classes are dropped when the teacher turns Saturday off
+    const slots = draft.slots.filter(s => s.sectionId && (includeSaturday || s.weekday !== 6));
+    const holidays = draft.holidays.map(h => ({ ...h, end: h.end < h.start ? h.start : h.end }));
+    const next = { ...draft, slots, holidays };
+    setDraft(next);
+    onSave(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card title="Año Lectivo" description="Las clases solo se programan entre estas fechas.">
+        <div className="flex flex-wrap gap-4">
+          <label className="text-sm text-slate-600">
+            Inicio
+            <input type="date" value={draft.termStart || ''} onChange={(e) => update('termStart', e.target.value || undefined)} className={`${inputClass} ml-2`} />
+          </label>
+          <label className="text-sm text-slate-600">
+            Fin
+            <input type="date" value={draft.termEnd || ''} onChange={(e) => update('termEnd', e.target.value || undefined)} className={`${inputClass} ml-2`} />
+          </label>
+        </div>
+      </Card>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card title="Secciones" description="Los grupos a los que das clase." onAdd={addSection} addLabel="Sección">
+          {draft.sections.length === 0 ? (
+            <p className="text-sm text-slate-400">Agrega al menos una sección (ej. "5to A").</p>
+          ) : (
+            <ul className="space-y-2">
+              {draft.sections.map((section: ClassSection) => (
+                <li key={section.id} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={section.name}
+                    onChange={(e) => updateItem('sections', section.id, { name: e.target.value })}
+                    placeholder="5to A"
+                    className={`${inputClass} flex-1 min-w-0`}
+                  />
+                  <select
+                    value={section.grade}
+                    onChange={(e) => updateItem('sections', section.id, { grade: e.target.value as GradeLevel })}
+                    className={inputClass}
+                  >
+                    {Object.values(GradeLevel).map(g => <option key={g} value={g}>{g}</option>)}
+                  </select>
+                  <RemoveButton onClick={() => removeSection(section.id)} title="Eliminar sección" />
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <Card title="Períodos" description="Bloques de clase del día con su horario." onAdd={addPeriod} addLabel="Período">
+          {draft.periods.length === 0 ? (
+            <p className="text-sm text-slate-400">Agrega los períodos de tu jornada.</p>
+          ) : (
+            <ul className="space-y-2">
+              {sortedPeriods.map(period => (
+                <li key={period.id} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={period.label}
+                    onChange={(e) => updateItem('periods', period.id, { label: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  />
+                  <input type="time" value={period.start} onChange={(e) => updateItem('periods', period.id, { start: e.target.value })} className={inputClass} />
+                  <input type="time" value={period.end} onChange={(e) => updateItem('periods', period.id, { end: e.target.value })} className={inputClass} />
+                  <span className={`text-xs w-14 text-right ${periodMinutes(period) > 0 ? 'text-slate-400' : 'text-red-600 font-medium'}`}>
+                    {periodMinutes(period)} min
+                  </span>
+                  <RemoveButton onClick={() => removePeriod(period.id)} title="Eliminar período" />
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Horario Semanal" description="Qué sección y asignatura tienes en cada período.">
+        {draft.periods.length === 0 || draft.sections.length === 0 ? (
+          <p className="text-sm text-slate-400">Define secciones y períodos para armar el horario.</p>
+        ) : (
+          <>
+            <label className="flex items-center text-sm text-slate-600 mb-4">
+              <input type="checkbox" checked={includeSaturday} onChange={(e) => setIncludeSaturday(e.target.checked)} className="mr-2 w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500" />
+              Incluir sábado
+            </label>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr>
+                    <th className="text-left text-xs text-slate-500 font-semibold p-2 w-32"></th>
+                    {weekdays.map(day => <th key={day} className="text-left text-xs text-slate-500 font-semibold uppercase p-2">{WEEKDAY_LABELS[day]}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedPeriods.map(period => (
+                    <tr key={period.id} className="border-t border-slate-100">
+                      <td className="p-2 align-top">
+                        <p className="font-medium text-slate-700">{period.label}</p>
+                        <p className="text-xs text-slate-400">{period.start} – {period.end}</p>
+                      </td>
+                      {weekdays.map(day => {
+                        const slot = slotAt(day, period.id);
+                        return (
+                          <td key={day} className="p-2 align-top">
+                            <div className={`rounded-lg p-2 space-y-1 ${slot?.sectionId ? 'bg-indigo-50' : 'bg-slate-50'}`}>
+                              <select
+                                value={slot?.sectionId || ''}
+                                onChange={(e) => setSlot(day, period.id, e.target.value ? { sectionId: e.target.value } : null)}
+                                className="w-full bg-transparent text-xs font-medium text-slate-700 outline-none"
+                              >
+                                <option value="">Libre</option>
+                                {draft.sections.map(s => <option key={s.id} value={s.id}>{s.name || s.grade}</option>)}
+                              </select>
+                              {slot?.sectionId && (
+                                <select
+                                  value={slot.subject}
+                                  onChange={(e) => setSlot(day, period.id, { subject: e.target.value as Subject })}
+                                  className="w-full bg-transparent text-xs text-slate-500 outline-none"
+                                >
+                                  {Object.values(Subject).map(s => <option key={s} value={s}>{s}</option>)}
+                                </select>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <Card title="Feriados y Días sin Clase" description="No se programan clases en estas fechas." onAdd={addHoliday} addLabel="Feriado">
+        {draft.holidays.length === 0 ? (
+          <p className="text-sm text-slate-400">Sin feriados registrados.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...draft.holidays].sort((a, b) => a.start.localeCompare(b.start)).map((holiday: SchoolHoliday) => (
+              <li key={holiday.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={holiday.name}
+                  onChange={(e) => updateItem('holidays', holiday.id, { name: e.target.value })}
+                  placeholder="Ej. Semana Santa"
+                  className={`${inputClass} flex-1 min-w-[10rem]`}
+                />
+                <input type="date" value={holiday.start} onChange={(e) => updateItem('holidays', holiday.id, { start: e.target.value })} className={inputClass} />
+                <span className="text-slate-400 text-sm">al</span>
+                <input type="date" value={holiday.end} onChange={(e) => updateItem('holidays', holiday.id, { end: e.target.value })} className={inputClass} />
+                <RemoveButton onClick={() => update('holidays', draft.holidays.filter(h => h.id !== holiday.id))} title="Eliminar feriado" />
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <div className="flex items-center justify-end gap-4">
+        {!canSave && <p className="text-sm text-red-600">Revisa los nombres de las secciones y que cada período termine después de empezar.</p>}
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="flex items-center px-5 py-2.5 rounded-xl bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          <CheckIcon className="w-5 h-5 mr-2" />
+          Guardar horario
+        </button>
+      </div>
+    </div>
+  );
+};
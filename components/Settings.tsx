@@ -0,0 +1,218 @@
+import React from 'react';
+import { AppSettings, AIProviderId, SchoolProfile } from '../types';
+import { CacheInspector } from './CacheInspector';
+import { CurriculumCatalogManager } from './CurriculumCatalogManager';
+import { PlanTemplateManager } from './PlanTemplateManager';
+import { loadOrientedImage, renderImage, NO_IMAGE_EDIT } from '../utils/sourceFiles';
+import { Cog6ToothIcon, CpuChipIcon, ArchiveBoxIcon, BanknotesIcon, AcademicCapIcon, BuildingOffice2Icon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+
+const CACHE_TTL_OPTIONS = [
+  { days: 0, label: 'Desactivada (siempre generar de nuevo)' },
+  { days: 1, label: '1 día' },
+  { days: 7, label: '7 días' },
+  { days: 30, label: '30 días' },
+  { days: 90, label: '90 días' },
+];
+
+// Settings live in localStorage, so the logo is kept small
+const LOGO_DIMENSION = 300;
+
+interface SettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+export const Settings: React.FC<SettingsProps> = ({ settings, onChange }) => {
+  const setSchool = (patch: Partial<SchoolProfile>) => onChange({ ...settings, school: { ...settings.school, ...patch } });
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bitmap = await loadOrientedImage(file);
+      const canvas = renderImage(bitmap, NO_IMAGE_EDIT, LOGO_DIMENSION);
+      bitmap.close();
+      setSchool({ logo: { dataUrl: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height } });
+    } catch (error) {
+      console.error("Could not read logo:", error);
+      alert("No se pudo leer la imagen del logo. Usa un archivo PNG o JPG.");
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-3xl">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center">
+          <Cog6ToothIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Preferencias Generales
+        </h2>
+
+        <label className="flex items-start justify-between gap-6 cursor-pointer">
+          <div>
+            <p className="text-sm font-medium text-slate-800">Mostrar planes de demostración</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Incluye planes de ejemplo en el Dashboard y en Mis Planes. No se guardan en tu biblioteca.
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.showDemoData}
+            onChange={(e) => onChange({ ...settings, showDemoData: e.target.checked })}
+            className="mt-1 h-5 w-5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center">
+          <BuildingOffice2Icon className="w-6 h-6 mr-2 text-indigo-600" />
+          Encabezado del Colegio
+        </h2>
+        <p className="text-xs text-slate-500 mb-6">
+          Aparece en los planes y recursos exportados a Word.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-slate-800 mb-2">Nombre del colegio</label>
+            <input
+              type="text"
+              value={settings.school.name}
+              onChange={(e) => setSchool({ name: e.target.value })}
+              className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-800 mb-2">Docente</label>
+            <input
+              type="text"
+              value={settings.school.teacherName}
+              onChange={(e) => setSchool({ teacherName: e.target.value })}
+              placeholder="Ej: Prof. Ana Martínez"
+              className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-800 mb-2">Sección</label>
+            <input
+              type="text"
+              value={settings.school.section}
+              onChange={(e) => setSchool({ section: e.target.value })}
+              placeholder="Ej: 5to A"
+              className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 mt-4">
+          {settings.school.logo
+            ? <img src={settings.school.logo.dataUrl} alt="Logo del colegio" className="h-16 w-auto rounded border border-slate-200 p-1" />
+            : <div className="h-16 w-16 rounded border border-dashed border-slate-300 flex items-center justify-center text-xs text-slate-400">Logo</div>}
+          <label className="text-xs font-medium text-indigo-600 bg-white border border-slate-200 hover:bg-indigo-50 px-3 py-1.5 rounded-lg cursor-pointer">
+            {settings.school.logo ? 'Cambiar logo' : 'Subir logo'}
+            <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="hidden" />
+          </label>
+          {settings.school.logo && (
+            <button onClick={() => setSchool({ logo: undefined })} className="text-xs font-medium text-slate-500 hover:text-red-600">
+              Quitar
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center">
+          <DocumentDuplicateIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Plantillas de Plan (Word)
+        </h2>
+        <p className="text-xs text-slate-500 mb-6">
+          Sube el formato oficial de tu colegio o distrito como .docx, escribiendo campos como {'{{generalData.achievementIndicator}}'} donde
+          debe ir cada dato. Al descargar un plan en Word podrás elegir la plantilla.
+        </p>
+
+        <PlanTemplateManager />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center">
+          <CpuChipIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Proveedor de Inteligencia Artificial
+        </h2>
+
+        <select
+          value={settings.aiProvider}
+          onChange={(e) => onChange({ ...settings, aiProvider: e.target.value as AIProviderId })}
+          className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white"
+        >
+          <option value="gemini">Google Gemini (requiere clave de API e internet)</option>
+          <option value="mock">Modo demostración (sin conexión, respuestas de ejemplo)</option>
+        </select>
+        {settings.aiProvider === 'mock' && (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3 mt-3">
+            Los planes y recursos generados en este modo son siempre los mismos ejemplos. Úsalo para probar la aplicación o capacitar docentes.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center">
+          <BanknotesIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Presupuesto Mensual
+        </h2>
+        <p className="text-xs text-slate-500 mb-6">
+          Costo estimado máximo por mes en este navegador. Se muestra un aviso al llegar al 80 % y al superarlo; las generaciones no se bloquean.
+          Déjalo en 0 para no usar presupuesto.
+        </p>
+        <div className="flex items-center gap-2 max-w-xs">
+          <span className="text-slate-500">US$</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={settings.monthlyBudgetUsd}
+            onChange={(e) => onChange({ ...settings, monthlyBudgetUsd: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center">
+          <ArchiveBoxIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Caché de Respuestas
+        </h2>
+        <p className="text-xs text-slate-500 mb-6">
+          Si pides lo mismo dos veces (mismo tema, grado, modelo y PDF), se reutiliza la respuesta guardada y no se consume cuota.
+          Cada recurso ofrece "Generar de nuevo" para forzar una respuesta nueva.
+        </p>
+
+        <label className="block text-sm font-medium text-slate-800 mb-2">Conservar respuestas durante</label>
+        <select
+          value={settings.cacheTtlDays}
+          onChange={(e) => onChange({ ...settings, cacheTtlDays: Number(e.target.value) })}
+          className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all bg-white mb-6"
+        >
+          {CACHE_TTL_OPTIONS.map(option => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+        </select>
+
+        <CacheInspector />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center">
+          <AcademicCapIcon className="w-6 h-6 mr-2 text-indigo-600" />
+          Catálogo Curricular MINED
+        </h2>
+        <p className="text-xs text-slate-500 mb-6">
+          Competencias e indicadores de logro por asignatura y grado. Se ofrecen al crear un plan, se envían a la IA
+          como restricción y alimentan el reporte de cobertura del Dashboard. Importa un JSON con la misma estructura para usar el de tu colegio.
+        </p>
+
+        <CurriculumCatalogManager />
+      </div>
+    </div>
+  );
+};
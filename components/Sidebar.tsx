@@ -4,10 +4,13 @@ import {
   PlusCircleIcon, 
   ChartBarIcon, 
   Cog6ToothIcon,
-  ChatBubbleLeftRightIcon
+  ChatBubbleLeftRightIcon,
+  RectangleStackIcon,
+  CalendarDaysIcon,
+  BuildingLibraryIcon
 } from '@heroicons/react/24/outline';
 
-type ViewType = 'dashboard' | 'create' | 'saved' | 'review';
+export type ViewType = 'dashboard' | 'create' | 'units' | 'calendar' | 'textbooks' | 'saved' | 'review' | 'settings';
 
 interface SidebarProps {
   currentView: ViewType;
@@ -18,6 +21,9 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView })
   const navItems: { id: ViewType; label: string; icon: React.ForwardRefExoticComponent<React.SVGProps<SVGSVGElement>> }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: ChartBarIcon },
     { id: 'create', label: 'Nuevo Plan', icon: PlusCircleIcon },
+    { id: 'units', label: 'Unidades', icon: RectangleStackIcon },
+    { id: 'calendar', label: 'Calendario', icon: CalendarDaysIcon },
+    { id: 'textbooks', label: 'Libros de Texto', icon: BuildingLibraryIcon },
     { id: 'review', label: 'Repaso WhatsApp', icon: ChatBubbleLeftRightIcon },
     { id: 'saved', label: 'Mis Planes', icon: BookOpenIcon },
   ];
@@ -53,7 +59,12 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView })
       </nav>
 
       <div className="p-4 border-t border-slate-800">
-        <button className="flex items-center space-x-3 text-slate-400 hover:text-white transition-colors w-full px-4 py-2">
+        <button
+          onClick={() => setCurrentView('settings')}
+          className={`flex items-center space-x-3 transition-colors w-full px-4 py-2 ${
+            currentView === 'settings' ? 'text-amber-400' : 'text-slate-400 hover:text-white'
+          }`}
+        >
           <Cog6ToothIcon className="w-5 h-5" />
           <span>Configuración</span>
         </button>
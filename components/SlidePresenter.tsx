@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PresenterDeck, PresenterState } from '../types';
+import { PresenterCommand, PresenterMessage, applyPresenterCommand, initialPresenterState, openPresenterChannel, openSpeakerWindow, presenterCommandForKey } from '../utils/presenter';
+import { SlideView } from './SlideView';
+import { ChevronLeftIcon, ChevronRightIcon, XMarkIcon, ArrowsPointingOutIcon, ComputerDesktopIcon } from '@heroicons/react/24/outline';
+
+interface SlidePresenterProps {
+  deck: PresenterDeck;
+  channelId: string; // Shared with the speaker window opened for this presentation
+  onExit: () => void;
+}
+
+const toggleFullscreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  else document.documentElement.requestFullscreen().catch(() => {});
+};
+
+// Audience view for the projector. It owns the presentation state; the speaker window only sends
+// commands and mirrors what is broadcast here.
+export const SlidePresenter: React.FC<SlidePresenterProps> = ({ deck, channelId, onExit }) => {
+  const [state, setState] = useState<PresenterState>(() => initialPresenterState());
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const run = (command: PresenterCommand) => {
+    if (command === 'end') onExit();
+    else setState(prev => applyPresenterCommand(prev, command, deck));
+  };
+  const runRef = useRef(run);
+  runRef.current = run;
+
+  useEffect(() => {
+    const channel = openPresenterChannel(channelId);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      const message = event.data;
+      if (message.type === 'hello') channel.postMessage({ type: 'deck', deck, state: stateRef.current } satisfies PresenterMessage);
+      if (message.type === 'command') runRef.current(message.command);
+    };
+    return () => {
+      channel.postMessage({ type: 'end' } satisfies PresenterMessage);
+      channel.close();
+      channelRef.current = null;
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, [channelId, deck]);
+
+  useEffect(() => {
+    channelRef.current?.postMessage({ type: 'state', state } satisfies PresenterMessage);
+  }, [state]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'F5') { e.preventDefault(); return; } // Clicker "play" button would reload the app
+      if (e.key === 'f' || e.key === 'F') { toggleFullscreen(); return; }
+      const command = presenterCommandForKey(e);
+      if (!command) return;
+      e.preventDefault();
+      runRef.current(command);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  const slide = deck.slides[state.slideIndex];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black flex items-center justify-center group select-none">
+      {!state.blackout && slide && (
+        <div className="w-full max-h-full flex items-center justify-center cursor-none" style={{ maxWidth: 'calc(100vh * 16 / 9)' }} onClick={() => run('next')}>
+          <SlideView slide={slide} bibleVerse={deck.bibleVerse} />
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-slate-900/80 text-slate-200 rounded-full px-3 py-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button onClick={() => run('prev')} className="p-1.5 hover:text-white" title="Anterior (←)">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <span className="text-xs tabular-nums px-2">{state.slideIndex + 1} / {deck.slides.length}</span>
+        <button onClick={() => run('next')} className="p-1.5 hover:text-white" title="Siguiente (→)">
+          <ChevronRightIcon className="w-5 h-5" />
+        </button>
+        <button onClick={() => openSpeakerWindow(channelId)} className="p-1.5 hover:text-white" title="Abrir vista del orador">
+          <ComputerDesktopIcon className="w-5 h-5" />
+        </button>
+        <button onClick={toggleFullscreen} className="p-1.5 hover:text-white" title="Pantalla completa (F)">
+          <ArrowsPointingOutIcon className="w-5 h-5" />
+        </button>
+        <button onClick={onExit} className="p-1.5 hover:text-red-400" title="Terminar (Esc)">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
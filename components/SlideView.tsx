@@ -0,0 +1,65 @@
+import React from 'react';
+import { Slide } from '../types';
+import { isFaithSlide } from '../utils/slides';
+import { PhotoIcon } from '@heroicons/react/24/outline';
+
+interface SlideViewProps {
+  slide: Slide;
+  bibleVerse?: string; // Shown as a band on the faith-integration slide
+  className?: string;
+}
+
+// One slide at 16:9, laid out like the PowerPoint export. Sizes are in container units (cqw), so
+// the same slide works fullscreen on the projector and as a thumbnail in the speaker window.
+export const SlideView: React.FC<SlideViewProps> = ({ slide, bibleVerse, className = '' }) => {
+  const faith = isFaithSlide(slide);
+
+  return (
+    <div className={`aspect-video w-full overflow-hidden ${className}`} style={{ containerType: 'inline-size' }}>
+      <div className={`relative w-full h-full flex flex-col ${faith ? 'bg-[#004369]' : 'bg-white'}`}>
+        {faith ? (
+          <>
+            <div className="absolute left-0 top-0 bottom-0 bg-[#DBA858]" style={{ width: '1.9cqw' }} />
+            <h2 className="font-bold text-[#DBA858] leading-tight" style={{ fontSize: '3.6cqw', padding: '3cqw 4.5cqw 1cqw' }}>
+              {slide.title}
+            </h2>
+          </>
+        ) : (
+          <div className="bg-[#004369] border-b-[#DBA858] flex items-center" style={{ height: '17cqw', borderBottomWidth: '0.6cqw', padding: '0 4.5cqw' }}>
+            <h2 className="font-bold text-white leading-tight" style={{ fontSize: '3.4cqw' }}>{slide.title}</h2>
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0" style={{ padding: '2.5cqw 4.5cqw', gap: '3cqw' }}>
+          <div className="flex-1 flex flex-col min-w-0" style={{ gap: '2cqw' }}>
+            <ul className={`space-y-[1.2cqw] ${faith ? 'text-white' : 'text-slate-800'}`} style={{ fontSize: '2.4cqw' }}>
+              {slide.bullets.map((bullet, i) => (
+                <li key={i} className="flex items-start">
+                  <span className={`mr-[1.2cqw] ${faith ? 'text-[#DBA858]' : 'text-[#004369]'}`}>•</span>
+                  <span>{bullet}</span>
+                </li>
+              ))}
+            </ul>
+            {faith && bibleVerse && (
+              <div className="mt-auto bg-[#DBA858] text-[#004369] italic rounded" style={{ fontSize: '2.1cqw', padding: '1.5cqw 2cqw' }}>
+                "{bibleVerse}"
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col" style={{ width: '32cqw' }}>
+            <div
+              className={`flex items-center justify-center border-dashed rounded ${faith ? 'border-[#DBA858] bg-white/10 text-slate-300' : 'border-slate-400 bg-slate-100 text-slate-400'}`}
+              style={{ height: '27cqw', borderWidth: '0.2cqw' }}
+            >
+              <PhotoIcon style={{ width: '5cqw', height: '5cqw' }} />
+            </div>
+            <p className={`italic text-center ${faith ? 'text-slate-200' : 'text-slate-500'}`} style={{ fontSize: '1.3cqw', marginTop: '1cqw' }}>
+              {slide.visualSuggestion}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
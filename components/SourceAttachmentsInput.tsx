@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { SourceAttachment } from '../types';
+import { fileToAttachment, imageAttachment, ImageEdit, NO_IMAGE_EDIT, SOURCE_FILE_ACCEPT, UnsupportedSourceError } from '../utils/sourceFiles';
+import { ImageSourceEditor } from './ImageSourceEditor';
+import { SourceIcon } from './PlanSources';
+import { PaperClipIcon, ScissorsIcon, XMarkIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface SourceAttachmentsInputProps {
+  value: SourceAttachment[];
+  onChange: (attachments: SourceAttachment[]) => void;
+}
+
+// Original photos stay in memory while the form is open, so a crop can be redone from the
+// full-resolution file instead of the already re-encoded one
+type ImageOriginal = { file: File; edit: ImageEdit };
+
+// Photos, Word documents and text files attached to a generation, with a preview of each
+export const SourceAttachmentsInput: React.FC<SourceAttachmentsInputProps> = ({ value, onChange }) => {
+  const [originals, setOriginals] = useState<Record<string, ImageOriginal>>({});
+  const [converting, setConverting] = useState(0);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (!files.length) return;
+    setProblems([]);
+    setConverting(files.length);
+
+    const added: SourceAttachment[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const attachment = await fileToAttachment(file);
+        added.push(attachment);
+        if (attachment.kind === 'image') {
+          setOriginals(prev => ({ ...prev, [attachment.id]: { file, edit: NO_IMAGE_EDIT } }));
+        }
+      } catch (error) {
+        console.error("Could not read source file:", error);
+        failed.push(error instanceof UnsupportedSourceError
+          ? `${file.name}: formato no admitido (usa JPG, PNG, PDF, DOCX o TXT)`
+          : `${file.name}: no se pudo leer`);
+      } finally {
+        setConverting(n => n - 1);
+      }
+    }
+    onChange([...value, ...added]);
+    setProblems(failed);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter(a => a.id !== id));
+    setOriginals(({ [id]: _removed, ...rest }) => rest);
+  };
+
+  const handleApplyEdit = async (id: string, edit: ImageEdit) => {
+    const original = originals[id];
+    setEditingId(null);
+    if (!original) return;
+    try {
+      const updated = await imageAttachment(original.file, edit, id);
+      setOriginals(prev => ({ ...prev, [id]: { ...original, edit } }));
+      onChange(value.map(a => a.id === id ? updated : a));
+    } catch (error) {
+      console.error("Could not edit image:", error);
+      alert("No se pudo procesar la imagen.");
+    }
+  };
+
+  const editing = editingId ? originals[editingId] : undefined;
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-xl border border-dashed border-slate-300 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">Otras fuentes</span>
+        <label className="flex items-center text-xs font-medium text-indigo-600 bg-white border border-slate-200 hover:bg-indigo-50 px-3 py-1.5 rounded-lg cursor-pointer">
+          <PaperClipIcon className="w-4 h-4 mr-1" /> Adjuntar
+          <input type="file" multiple accept={SOURCE_FILE_ACCEPT} onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+
+      {value.length === 0 && converting === 0 && (
+        <p className="text-xs text-slate-400">Fotos de páginas del libro (JPG, PNG), documentos Word, PDF o texto.</p>
+      )}
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map(attachment => (
+            <li key={attachment.id} className="flex items-start gap-3 bg-white p-2 rounded-lg border border-slate-200">
+              {attachment.thumbnail
+                ? <img src={attachment.thumbnail} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+                : <div className="w-12 h-12 rounded bg-slate-100 flex items-center justify-center flex-shrink-0"><SourceIcon kind={attachment.kind} className="w-5 h-5 text-slate-400" /></div>}
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-slate-700 truncate">{attachment.fileName}</p>
+                {attachment.excerpt !== undefined && (
+                  <p className="text-xs text-slate-400 line-clamp-2">{attachment.excerpt || 'Sin texto'}</p>
+                )}
+              </div>
+              {originals[attachment.id] && (
+                <button type="button" onClick={() => setEditingId(attachment.id)} className="p-1 text-slate-400 hover:text-indigo-600" title="Girar o recortar">
+                  <ScissorsIcon className="w-4 h-4" />
+                </button>
+              )}
+              <button type="button" onClick={() => handleRemove(attachment.id)} className="p-1 text-slate-400 hover:text-red-500" title="Quitar">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {converting > 0 && (
+        <p className="text-xs text-slate-500 flex items-center">
+          <ArrowPathIcon className="w-4 h-4 mr-2 animate-spin text-indigo-500" /> Procesando {converting} archivo(s)...
+        </p>
+      )}
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      {editing && editingId && (
+        <ImageSourceEditor
+          file={editing.file}
+          initialEdit={editing.edit}
+          onApply={(edit) => handleApplyEdit(editingId, edit)}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+    </div>
+  );
+};
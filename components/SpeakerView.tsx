@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PresenterDeck, PresenterState } from '../types';
+import { PresenterCommand, PresenterMessage, formatClock, openPresenterChannel, presenterCommandForKey } from '../utils/presenter';
+import { SlideView } from './SlideView';
+import { ChevronLeftIcon, ChevronRightIcon, EyeSlashIcon, ForwardIcon, BackwardIcon, ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface SpeakerViewProps {
+  channelId: string;
+}
+
+// Phase timer turns amber in the last minute and red once the planned time is over
+const phaseTimerColor = (remainingMs: number, plannedMs: number) => {
+  if (plannedMs === 0) return 'text-slate-200';
+  if (remainingMs < 0) return 'text-red-400';
+  if (remainingMs < 60_000) return 'text-amber-300';
+  return 'text-emerald-300';
+};
+
+// Speaker window (opened with ?presenter=<id>): current and next slide, speaker notes and a timer
+// per ACES phase. Keys and clicker presses here drive the audience view.
+export const SpeakerView: React.FC<SpeakerViewProps> = ({ channelId }) => {
+  const [deck, setDeck] = useState<PresenterDeck | null>(null);
+  const [state, setState] = useState<PresenterState | null>(null);
+  const [ended, setEnded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const send = (command: PresenterCommand) => {
+    channelRef.current?.postMessage({ type: 'command', command } satisfies PresenterMessage);
+  };
+
+  useEffect(() => {
+    document.title = 'Vista del orador';
+    const channel = openPresenterChannel(channelId);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      const message = event.data;
+      if (message.type === 'deck') {
+        setDeck(message.deck);
+        setState(message.state);
+        setEnded(false);
+      } else if (message.type === 'state') {
+        setState(message.state);
+        setEnded(false);
+      } else if (message.type === 'end') {
+        setEnded(true);
+      }
+    };
+    channel.postMessage({ type: 'hello' } satisfies PresenterMessage);
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [channelId]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'F5') { e.preventDefault(); return; } // Clicker "play" button would reload the window
+      const command = presenterCommandForKey(e);
+      if (!command) return;
+      e.preventDefault();
+      send(command);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  if (ended || !deck || !state) {
+    return (
+      <div className="min-h-screen bg-slate-900 text-slate-300 flex flex-col items-center justify-center gap-4 p-8 text-center">
+        {ended ? (
+          <>
+            <p className="text-lg font-medium">La presentación terminó.</p>
+            <button onClick={() => window.close()} className="text-sm text-indigo-300 hover:text-white">Cerrar esta ventana</button>
+          </>
+        ) : (
+          <>
+            <ArrowPathIcon className="w-8 h-8 animate-spin text-indigo-400" />
+            <p className="text-sm">Esperando la presentación... Mantén abierta la ventana del plan.</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const slide = deck.slides[state.slideIndex];
+  const next = deck.slides[state.slideIndex + 1];
+  const phase = deck.phases[state.phaseIndex];
+  const plannedMs = (phase?.minutes ?? 0) * 60_000;
+  const phaseRemaining = plannedMs - (now - state.phaseStartedAt);
+  const totalPlanned = deck.phases.reduce((sum, p) => sum + p.minutes, 0);
+
+  return (
+    <div className="h-screen bg-slate-900 text-slate-100 flex flex-col p-4 gap-4 select-none">
+      {/* Timers */}
+      <div className="flex flex-wrap items-center gap-6 bg-slate-800 rounded-xl px-5 py-3">
+        <div>
+          <p className="text-[10px] uppercase tracking-wider text-slate-400">Tiempo total</p>
+          <p className="text-2xl font-mono tabular-nums">
+            {formatClock(now - state.startedAt)}
+            {totalPlanned > 0 && <span className="text-sm text-slate-400"> / {totalPlanned} min</span>}
+          </p>
+        </div>
+        {phase && (
+          <div className="flex items-center gap-3">
+            <button onClick={() => send('prevPhase')} disabled={state.phaseIndex === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title="Momento anterior">
+              <BackwardIcon className="w-5 h-5" />
+            </button>
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-slate-400">{phase.phase} · {phase.title}</p>
+              <p className={`text-2xl font-mono tabular-nums ${phaseTimerColor(phaseRemaining, plannedMs)}`}>
+                {plannedMs > 0 ? formatClock(phaseRemaining) : formatClock(now - state.phaseStartedAt)}
+                {plannedMs > 0 && <span className="text-sm text-slate-400"> de {phase.minutes} min</span>}
+              </p>
+            </div>
+            <button onClick={() => send('nextPhase')} disabled={state.phaseIndex === deck.phases.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title="Siguiente momento">
+              <ForwardIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+        <ol className="flex gap-1 ml-auto">
+          {deck.phases.map((p, i) => (
+            <li
+              key={i}
+              className={`text-[10px] px-2 py-1 rounded ${i === state.phaseIndex ? 'bg-[#DBA858] text-[#004369] font-bold' : i < state.phaseIndex ? 'bg-slate-700 text-slate-400' : 'bg-slate-800 border border-slate-700 text-slate-400'}`}
+              title={`${p.title} (${p.minutes} min)`}
+            >
+              {p.phase}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Current and next slide */}
+      <div className="flex gap-4 min-h-0">
+        <div className="flex-[3] min-w-0">
+          <p className="text-xs text-slate-400 mb-1">Actual · {state.slideIndex + 1} de {deck.slides.length}{state.blackout && ' · Pantalla en negro'}</p>
+          <div className={`rounded-lg overflow-hidden ring-2 ${state.blackout ? 'ring-slate-600 opacity-40' : 'ring-[#DBA858]'}`}>
+            {slide && <SlideView slide={slide} bibleVerse={deck.bibleVerse} />}
+          </div>
+        </div>
+        <div className="flex-[2] min-w-0">
+          <p className="text-xs text-slate-400 mb-1">Siguiente</p>
+          {next ? (
+            <div className="rounded-lg overflow-hidden opacity-80">
+              <SlideView slide={next} bibleVerse={deck.bibleVerse} />
+            </div>
+          ) : (
+            <div className="aspect-video rounded-lg border border-dashed border-slate-700 flex items-center justify-center text-sm text-slate-500">
+              Fin de la presentación
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div className="flex-1 min-h-0 overflow-y-auto bg-slate-800 rounded-xl p-5">
+        <p className="text-xs text-indigo-300 font-bold uppercase mb-2">Notas del orador</p>
+        <p className="text-xl leading-relaxed whitespace-pre-wrap">{slide?.speakerNotes || 'Sin notas para esta diapositiva.'}</p>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2">
+        <button onClick={() => send('prev')} className="flex items-center px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700">
+          <ChevronLeftIcon className="w-5 h-5 mr-1" /> Anterior
+        </button>
+        <button onClick={() => send('next')} className="flex items-center px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 font-medium">
+          Siguiente <ChevronRightIcon className="w-5 h-5 ml-1" />
+        </button>
+        <button onClick={() => send('blackout')} className={`flex items-center px-4 py-2 rounded-lg ${state.blackout ? 'bg-amber-500 text-slate-900' : 'bg-slate-800 hover:bg-slate-700'}`}>
+          <EyeSlashIcon className="w-5 h-5 mr-1" /> Negro (B)
+        </button>
+        <span className="text-xs text-slate-500 ml-2 hidden md:inline">← → o el control remoto para avanzar</span>
+        <button onClick={() => send('end')} className="ml-auto flex items-center px-4 py-2 rounded-lg text-red-300 hover:bg-red-500/10">
+          <XMarkIcon className="w-5 h-5 mr-1" /> Terminar
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { LessonPlanProgress } from '../types';
+import { ArrowPathIcon, ClockIcon, StopIcon } from '@heroicons/react/24/outline';
+
+interface StreamingPlanPreviewProps {
+  progress: LessonPlanProgress;
+  loadingText: string;
+  onCancel: () => void;
+}
+
+// Read-only view of a plan while it streams in. Only complete sections are shown;
+// the full, editable plan replaces it once generation and validation finish.
+export const StreamingPlanPreview: React.FC<StreamingPlanPreviewProps> = ({ progress, loadingText, onCancel }) => {
+  const { generalData, faithIntegration, sequence } = progress;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in-up mb-8">
+      <div className="px-8 py-4 bg-indigo-50 border-b border-indigo-100 flex items-center justify-between gap-4">
+        <p className="text-sm font-medium text-indigo-700 flex items-center">
+          <ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />
+          {loadingText}
+        </p>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 bg-white border border-red-200 hover:bg-red-50 transition-colors flex items-center"
+        >
+          <StopIcon className="w-4 h-4 mr-1" />
+          Cancelar
+        </button>
+      </div>
+
+      {generalData ? (
+        <div className="p-8 border-b border-slate-100 animate-fade-in">
+          <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-1 block">Contenido</span>
+          <h2 className="text-xl font-bold text-slate-900 leading-tight">{generalData.contentConceptual}</h2>
+          {generalData.unit && (
+            <p className="text-sm text-slate-500 mt-1">
+              <span className="font-semibold">Unidad:</span> {generalData.unit}
+            </p>
+          )}
+          <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100 mt-6">
+            <h3 className="text-xs font-bold text-indigo-800 uppercase mb-2">Indicador de Logro</h3>
+            <p className="text-sm text-slate-700 leading-relaxed font-medium">{generalData.achievementIndicator}</p>
+          </div>
+        </div>
+      ) : (
+        <PendingSection label="Datos generales" />
+      )}
+
+      {faithIntegration ? (
+        <div className="p-8 border-b border-slate-100 bg-amber-50/30 animate-fade-in">
+          <h3 className="text-lg font-bold text-amber-700 mb-4 flex items-center">
+            <span className="w-8 h-8 rounded-full bg-amber-100 flex items-center justify-center mr-3 text-lg">✝</span>
+            Integración de la Fe
+          </h3>
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-white p-5 rounded-xl border border-amber-100 shadow-sm">
+              <p className="text-xs text-amber-500 font-bold uppercase mb-1">Principio Espiritual</p>
+              <p className="text-slate-700 font-medium">{faithIntegration.spiritualConcept}</p>
+            </div>
+            <div className="bg-white p-5 rounded-xl border border-amber-100 shadow-sm">
+              <p className="text-xs text-amber-500 font-bold uppercase mb-1">Texto Bíblico</p>
+              <p className="text-slate-700 italic">"{faithIntegration.bibleVerse}"</p>
+            </div>
+          </div>
+          <div className="mt-4 text-sm text-slate-600 bg-amber-100/20 p-4 rounded-lg">
+            <strong>Objetivo Integrado:</strong> {faithIntegration.objective}
+          </div>
+        </div>
+      ) : (
+        <PendingSection label="Integración de la fe" />
+      )}
+
+      <div className="p-8">
+        <h3 className="text-lg font-bold text-slate-800 mb-6">Secuencia Didáctica (ACES)</h3>
+        <div className="relative border-l-2 border-slate-200 ml-3 space-y-8">
+          {sequence.map((step, idx) => (
+            <div key={idx} className="relative pl-8 animate-fade-in">
+              <span className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-white border-2 border-indigo-500"></span>
+              <div className="flex items-center justify-between mb-2 gap-2">
+                <h4 className="text-md font-bold text-slate-900">{step.phase}: {step.title}</h4>
+                {step.time && <span className="text-xs font-mono text-slate-400 bg-slate-100 px-2 py-1 rounded">{step.time}</span>}
+              </div>
+              <ul className="space-y-2">
+                {(step.activities ?? []).map((act, i) => (
+                  <li key={i} className="text-sm text-slate-600 flex items-start">
+                    <span className="mr-2 text-indigo-400">•</span>
+                    {act}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <div className="relative pl-8">
+            <span className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-slate-200 animate-pulse"></span>
+            <p className="text-sm text-slate-400 flex items-center">
+              <ClockIcon className="w-4 h-4 mr-1 animate-pulse" />
+              {sequence.length === 0 ? 'Esperando la primera fase...' : 'Redactando la siguiente fase...'}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PendingSection: React.FC<{ label: string }> = ({ label }) => (
+  <div className="p-8 border-b border-slate-100">
+    <p className="text-xs font-bold text-slate-400 uppercase mb-3">{label}</p>
+    <div className="space-y-2 animate-pulse">
+      <div className="h-4 bg-slate-100 rounded w-3/4"></div>
+      <div className="h-4 bg-slate-100 rounded w-1/2"></div>
+    </div>
+  </div>
+);
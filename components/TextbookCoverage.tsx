@@ -0,0 +1,65 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedLessonPlan, Textbook } from '../types';
+import { listTextbooks } from '../services/storageService';
+import { computeTextbookCoverage } from '../utils/textbookCoverage';
+import { BuildingLibraryIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface TextbookCoverageProps {
+  plans: GeneratedLessonPlan[];
+}
+
+// Which chapters of each library book already have plans
+export const TextbookCoverage: React.FC<TextbookCoverageProps> = ({ plans }) => {
+  const [books, setBooks] = useState<Textbook[]>([]);
+
+  useEffect(() => {
+    listTextbooks()
+      .then(setBooks)
+      .catch(error => console.error("Could not load textbooks:", error));
+  }, []);
+
+  const coverage = useMemo(() => books.map(book => computeTextbookCoverage(book, plans)), [books, plans]);
+
+  if (coverage.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center">
+        <BuildingLibraryIcon className="w-5 h-5 mr-2 text-indigo-500" />
+        Avance por Libro de Texto
+      </h3>
+      <p className="text-xs text-slate-400 mt-1 mb-6">Capítulos con al menos un plan generado a partir de sus secciones.</p>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {coverage.map(({ book, chapters, covered }) => {
+          const percent = chapters.length ? Math.round((covered / chapters.length) * 100) : 0;
+          return (
+            <div key={book.id}>
+              <div className="flex justify-between items-baseline gap-2">
+                <h4 className="text-sm font-bold text-slate-700 truncate">{book.title}</h4>
+                <span className="text-xs font-bold text-indigo-600 flex-shrink-0">{covered}/{chapters.length}</span>
+              </div>
+              <p className="text-xs text-slate-500 mb-2">{book.subject} · {book.grade}</p>
+              <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden mb-3">
+                <div className="h-1.5 rounded-full bg-indigo-500" style={{ width: `${percent}%` }} />
+              </div>
+              <ul className="space-y-1.5 max-h-60 overflow-y-auto">
+                {chapters.map(({ chapter, plans: covering }) => (
+                  <li key={chapter.id} className="flex items-start text-sm">
+                    {covering.length > 0
+                      ? <CheckCircleIcon className="w-4 h-4 mr-2 mt-0.5 text-emerald-500 flex-shrink-0" />
+                      : <span className="w-4 h-4 mr-2 mt-0.5 rounded-full border-2 border-slate-200 flex-shrink-0" />}
+                    <span className={covering.length > 0 ? 'text-slate-700' : 'text-slate-400'}>
+                      {chapter.title}
+                      {covering.length > 0 && <span className="text-xs text-slate-400"> ({covering.length} {covering.length === 1 ? 'plan' : 'planes'})</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { Subject, GradeLevel, GeneratedLessonPlan, Textbook, TextbookSection } from '../types';
+import { listTextbooks, saveTextbook, deleteTextbook } from '../services/storageService';
+import { addTextbook, TextbookMetadata } from '../services/textbookService';
+import { formatMegabytes } from '../utils/pdfTextbook';
+import { BuildingLibraryIcon, DocumentArrowUpIcon, ArrowPathIcon, PencilSquareIcon, TrashIcon, ListBulletIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TextbookLibraryProps {
+  plans: GeneratedLessonPlan[];
+}
+
+const INDEX_SOURCE_LABELS: Record<Textbook['indexSource'], string> = {
+  outline: 'Índice del PDF',
+  headings: 'Títulos detectados',
+  pages: 'Bloques de páginas',
+};
+
+const EMPTY_METADATA: TextbookMetadata = {
+  title: '',
+  subject: Subject.MATHEMATICS,
+  grade: GradeLevel.FIFTH,
+  publisher: '',
+};
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+// Title, subject, grade, publisher and year; shared by the add form and the edit form
+const MetadataFields: React.FC<{ value: TextbookMetadata; onChange: (value: TextbookMetadata) => void }> = ({ value, onChange }) => (
+  <div className="space-y-3">
+    <input
+      type="text"
+      value={value.title}
+      onChange={(e) => onChange({ ...value, title: e.target.value })}
+      placeholder="Título del libro"
+      required
+      className={inputClass}
+    />
+    <div className="grid grid-cols-2 gap-3">
+      <select value={value.subject} onChange={(e) => onChange({ ...value, subject: e.target.value as Subject })} className={inputClass}>
+        {Object.values(Subject).map(s => <option key={s} value={s}>{s}</option>)}
+      </select>
+      <select value={value.grade} onChange={(e) => onChange({ ...value, grade: e.target.value as GradeLevel })} className={inputClass}>
+        {Object.values(GradeLevel).map(g => <option key={g} value={g}>{g}</option>)}
+      </select>
+    </div>
+    <div className="grid grid-cols-3 gap-3">
+      <input
+        type="text"
+        value={value.publisher || ''}
+        onChange={(e) => onChange({ ...value, publisher: e.target.value })}
+        placeholder="Editorial"
+        className={`${inputClass} col-span-2`}
+      />
+      <input
+        type="number"
+        value={value.year ?? ''}
+        onChange={(e) => onChange({ ...value, year: e.target.value ? Number(e.target.value) : undefined })}
+        placeholder="Año"
+        min={1950}
+        max={2100}
+        className={inputClass}
+      />
+    </div>
+  </div>
+);
+
+const SectionIndex: React.FC<{ sections: TextbookSection[] }> = ({ sections }) => (
+  <ul className={sections[0]?.level ? 'ml-4 border-l border-slate-100 pl-2' : ''}>
+    {sections.map(section => (
+      <li key={section.id}>
+        <div className="flex justify-between gap-2 py-0.5 text-xs">
+          <span className={section.level === 0 ? 'font-medium text-slate-700' : 'text-slate-600'}>{section.title}</span>
+          <span className="text-slate-400 whitespace-nowrap">
+            {section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}–${section.endPage}`}
+          </span>
+        </div>
+        {section.children.length > 0 && <SectionIndex sections={section.children} />}
+      </li>
+    ))}
+  </ul>
+);
+
+// Textbooks kept in the browser, indexed once and reused by every plan and unit
+export const TextbookLibrary: React.FC<TextbookLibraryProps> = ({ plans }) => {
+  const [books, setBooks] = useState<Textbook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [metadata, setMetadata] = useState<TextbookMetadata>(EMPTY_METADATA);
+  const [adding, setAdding] = useState<{ page: number; pageCount: number } | null>(null);
+  const [addError, setAddError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; metadata: TextbookMetadata } | null>(null);
+  const [openIndexId, setOpenIndexId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTextbooks()
+      .then(setBooks)
+      .catch(error => console.error("Could not load textbooks:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] || null;
+    setFile(picked);
+    if (picked && !metadata.title) setMetadata(prev => ({ ...prev, title: picked.name.replace(/\.pdf$/i, '') }));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setAddError(null);
+    setAdding({ page: 0, pageCount: 0 });
+    try {
+      const added = await addTextbook(file, metadata, (page, pageCount) => setAdding({ page, pageCount }));
+      setBooks(prev => [...prev, added].sort((a, b) => a.title.localeCompare(b.title)));
+      setFile(null);
+      setMetadata(prev => ({ ...EMPTY_METADATA, subject: prev.subject, grade: prev.grade }));
+    } catch (error) {
+      console.error("Could not add textbook:", error);
+      setAddError('No se pudo leer o guardar el PDF. Verifica que no esté dañado ni protegido con contraseña.');
+    } finally {
+      setAdding(null);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const book = books.find(b => b.id === editing.id);
+    if (!book) return;
+    try {
+      const saved = await saveTextbook({ ...book, ...editing.metadata });
+      setBooks(prev => prev.map(b => b.id === saved.id ? saved : b).sort((a, b) => a.title.localeCompare(b.title)));
+      setEditing(null);
+    } catch (error) {
+      console.error("Could not save textbook:", error);
+      alert("No se pudieron guardar los cambios del libro.");
+    }
+  };
+
+  const handleDelete = async (book: Textbook) => {
+    if (!window.confirm(`¿Eliminar "${book.title}" de la biblioteca? Los planes creados con este libro se conservan.`)) return;
+    try {
+      await deleteTextbook(book.id);
+      setBooks(prev => prev.filter(b => b.id !== book.id));
+    } catch (error) {
+      console.error("Could not delete textbook:", error);
+      alert("No se pudo eliminar el libro.");
+    }
+  };
+
+  const planCount = (book: Textbook) => plans.filter(p => p.textbook?.textbookId === book.id).length;
+
+  return (
+    <div className="flex flex-col xl:flex-row gap-8 h-full relative">
+      <div className="xl:w-1/3 w-full">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center">
+            <DocumentArrowUpIcon className="w-5 h-5 mr-2 text-indigo-600" />
+            Agregar Libro
+          </h2>
+          <form onSubmit={handleAdd} className="space-y-4">
+            <label className="block bg-slate-50 p-4 rounded-xl border border-dashed border-slate-300 text-center cursor-pointer hover:border-indigo-300">
+              <input type="file" accept="application/pdf" onChange={handleFileChange} className="hidden" />
+              <span className="text-xs text-slate-500 font-medium">{file ? file.name : 'Elegir PDF del libro'}</span>
+            </label>
+            <MetadataFields value={metadata} onChange={setMetadata} />
+            {addError && <p className="text-xs text-red-600">{addError}</p>}
+            <button
+              type="submit"
+              disabled={!file || !!adding}
+              className="w-full flex items-center justify-center py-2.5 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {adding
+                ? <><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Indexando{adding.pageCount > 0 && ` ${adding.page}/${adding.pageCount}`}...</>
+                : 'Agregar a la biblioteca'}
+            </button>
+            <p className="text-xs text-slate-400">
+              El índice se crea en este dispositivo a partir de los marcadores o títulos del PDF. El libro no se envía a la IA hasta que generes un plan con él.
+            </p>
+          </form>
+        </div>
+      </div>
+
+      <div className="xl:w-2/3 w-full">
+        {loading ? (
+          <p className="text-sm text-slate-400 flex items-center"><ArrowPathIcon className="w-4 h-4 mr-2 animate-spin" />Cargando biblioteca...</p>
+        ) : books.length === 0 ? (
+          <div className="h-full min-h-[300px] flex flex-col items-center justify-center text-center bg-white rounded-2xl border border-dashed border-slate-300 p-8">
+            <BuildingLibraryIcon className="w-12 h-12 text-slate-300 mb-3" />
+            <p className="text-slate-500 font-medium">Tu biblioteca está vacía</p>
+            <p className="text-sm text-slate-400 mt-1">Agrega los libros de texto que usas para planificar sin volver a subirlos.</p>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {books.map(book => (
+              <div key={book.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5">
+                {editing?.id === book.id ? (
+                  <div className="space-y-3">
+                    <MetadataFields value={editing.metadata} onChange={(metadata) => setEditing({ id: book.id, metadata })} />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditing(null)} className="flex items-center text-xs font-medium text-slate-500 px-2 py-1 rounded hover:bg-slate-50">
+                        <XMarkIcon className="w-4 h-4 mr-1" /> Cancelar
+                      </button>
+                      <button onClick={handleSaveEdit} disabled={!editing.metadata.title.trim()} className="flex items-center text-xs font-medium text-indigo-600 px-2 py-1 rounded hover:bg-indigo-50 disabled:opacity-50">
+                        <CheckIcon className="w-4 h-4 mr-1" /> Guardar
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-bold text-slate-800 truncate">{book.title}</h3>
+                        <p className="text-xs text-slate-500">
+                          {book.subject} · {book.grade}
+                          {(book.publisher || book.year) && ` · ${[book.publisher, book.year].filter(Boolean).join(', ')}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => setEditing({ id: book.id, metadata: { title: book.title, subject: book.subject, grade: book.grade, publisher: book.publisher, year: book.year } })}
+                          className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded"
+                          title="Editar datos"
+                        >
+                          <PencilSquareIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(book)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded" title="Eliminar libro">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-3">
+                      {book.pageCount} págs. · {formatMegabytes(book.sizeBytes)} · {book.sections.length} secciones ({INDEX_SOURCE_LABELS[book.indexSource]}) · {planCount(book)} planes
+                    </p>
+                    <button
+                      onClick={() => setOpenIndexId(openIndexId === book.id ? null : book.id)}
+                      className="mt-3 flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                    >
+                      <ListBulletIcon className="w-4 h-4 mr-1" />
+                      {openIndexId === book.id ? 'Ocultar índice' : 'Ver índice'}
+                    </button>
+                    {openIndexId === book.id && (
+                      <div className="mt-2 max-h-64 overflow-y-auto border-t border-slate-100 pt-2">
+                        <SectionIndex sections={book.sections} />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
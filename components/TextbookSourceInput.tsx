@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { GradeLevel, Subject, Textbook, TextbookReference, TextbookSection } from '../types';
+import { listTextbooks } from '../services/storageService';
+import { addTextbook } from '../services/textbookService';
+import { findSections, pagesFor, inlineSourceBytes, formatMegabytes, MAX_INLINE_PDF_BYTES } from '../utils/pdfTextbook';
+import { BookOpenIcon, DocumentArrowUpIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface TextbookSourceInputProps {
+  subject: Subject;
+  grade: GradeLevel;
+  value?: TextbookReference;
+  onChange: (reference: TextbookReference | undefined) => void;
+}
+
+// Picks a book from the textbook library (or adds one) and the sections to use. Books for the
+// current subject and grade are listed first.
+export const TextbookSourceInput: React.FC<TextbookSourceInputProps> = ({ subject, grade, value, onChange }) => {
+  const [books, setBooks] = useState<Textbook[]>([]);
+  const [adding, setAdding] = useState<{ fileName: string; page: number; pageCount: number } | null>(null);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listTextbooks()
+      .then(setBooks)
+      .catch(error => console.error("Could not load textbooks:", error));
+  }, []);
+
+  const book = value ? books.find(b => b.id === value.textbookId) : undefined;
+  const forThisClass = books.filter(b => b.subject === subject && b.grade === grade);
+  const others = books.filter(b => !forThisClass.includes(b));
+
+  // Added with the form's subject and grade; title and publisher can be edited in the library
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setAddError(null);
+    setAdding({ fileName: file.name, page: 0, pageCount: 0 });
+    try {
+      const added = await addTextbook(
+        file,
+        { title: file.name.replace(/\.pdf$/i, ''), subject, grade },
+        (page, pageCount) => setAdding({ fileName: file.name, page, pageCount })
+      );
+      setBooks(prev => [...prev, added].sort((a, b) => a.title.localeCompare(b.title)));
+      onChange({ textbookId: added.id, sectionIds: [], mode: 'pages' });
+    } catch (error) {
+      console.error("Could not add textbook:", error);
+      setAddError('No se pudo leer el PDF. Verifica que no esté dañado ni protegido con contraseña.');
+    } finally {
+      setAdding(null);
+    }
+  };
+
+  const toggleSection = (id: string) => {
+    if (!value) return;
+    const sectionIds = value.sectionIds.includes(id)
+      ? value.sectionIds.filter(s => s !== id)
+      : [...value.sectionIds, id];
+    onChange({ ...value, sectionIds });
+  };
+
+  const renderSections = (sections: TextbookSection[]) => (
+    <ul className={sections[0]?.level ? 'ml-4 border-l border-slate-100 pl-2' : ''}>
+      {sections.map(section => (
+        <li key={section.id}>
+          <label className="flex items-start gap-2 py-1 text-xs text-slate-700 cursor-pointer hover:text-indigo-700">
+            <input
+              type="checkbox"
+              checked={value?.sectionIds.includes(section.id) ?? false}
+              onChange={() => toggleSection(section.id)}
+              className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className={`flex-1 ${section.level === 0 ? 'font-medium' : ''}`}>{section.title}</span>
+            <span className="text-slate-400 whitespace-nowrap">
+              {section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}–${section.endPage}`}
+            </span>
+          </label>
+          {section.children.length > 0 && renderSections(section.children)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const bookOption = (b: Textbook) => (
+    <option key={b.id} value={b.id}>{b.title}{b.year ? ` (${b.year})` : ''}</option>
+  );
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-xl border border-dashed border-slate-300 space-y-3">
+      <label className="block text-sm font-medium text-slate-700">
+        Libro de Texto / Guía (PDF)
+      </label>
+
+      {adding ? (
+        <div className="text-xs text-slate-500 flex items-center">
+          <ArrowPathIcon className="w-4 h-4 mr-2 animate-spin text-indigo-500 flex-shrink-0" />
+          <span className="truncate">
+            Indexando {adding.fileName}{adding.pageCount > 0 && ` (página ${adding.page} de ${adding.pageCount})`}...
+          </span>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <BookOpenIcon className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <select
+              value={value?.textbookId ?? ''}
+              onChange={(e) => onChange(e.target.value ? { textbookId: e.target.value, sectionIds: [], mode: 'pages' } : undefined)}
+              className="w-full pl-9 pr-2 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+            >
+              <option value="">Sin libro</option>
+              {forThisClass.length > 0 && <optgroup label={`${subject} · ${grade}`}>{forThisClass.map(bookOption)}</optgroup>}
+              {others.length > 0 && <optgroup label="Otros libros">{others.map(bookOption)}</optgroup>}
+            </select>
+          </div>
+          <label className="flex items-center text-xs font-medium text-indigo-600 bg-white border border-slate-200 hover:bg-indigo-50 px-3 rounded-lg cursor-pointer" title="Agregar un PDF a la biblioteca">
+            <DocumentArrowUpIcon className="w-4 h-4 mr-1" /> Subir
+            <input type="file" accept="application/pdf" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+      )}
+      {addError && <p className="text-xs text-red-600">{addError}</p>}
+
+      {book && value && (
+        <>
+          <div>
+            <p className="text-xs font-medium text-slate-600 mb-1">Secciones a usar</p>
+            <div className="bg-white rounded-lg border border-slate-200 p-2 max-h-56 overflow-y-auto">
+              {renderSections(book.sections)}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {value.sectionIds.length
+                ? `${pagesFor(findSections(book, value.sectionIds)).length} de ${book.pageCount} páginas seleccionadas.`
+                : 'Sin selección se envía el libro completo.'}
+            </p>
+          </div>
+
+          {value.sectionIds.length > 0 && (
+            <div className="flex gap-2 text-xs">
+              {([['pages', 'Páginas (con imágenes)'], ['text', 'Solo texto (más económico)']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => onChange({ ...value, mode })}
+                  className={`flex-1 px-2 py-1.5 rounded-lg border font-medium ${value.mode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {inlineSourceBytes(book, value) > MAX_INLINE_PDF_BYTES && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2 flex items-start gap-1.5">
+              <ExclamationTriangleIcon className="w-4 h-4 flex-shrink-0" />
+              Supera {formatMegabytes(MAX_INLINE_PDF_BYTES)}: elige menos secciones o el modo solo texto.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
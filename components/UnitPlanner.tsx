@@ -0,0 +1,475 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Subject, GradeLevel, ContentType, GeneratedLessonPlan, PlanChangeSource, UnitPlan, UnitPlanRequest, SchoolProfile } from '../types';
+import { generateUnitOverviewAI, generateUnitSessionAI } from '../services/geminiService';
+import { listUnits, saveUnit, deleteUnit } from '../services/storageService';
+import { AIError, toAIError, isCancelled } from '../services/aiErrors';
+import { generateUnitDocx } from '../utils/docxGenerator';
+import { isSourceTooLarge } from '../services/textbookService';
+import { AIErrorNotice } from './AIErrorNotice';
+import { TextbookSourceInput } from './TextbookSourceInput';
+import { SourceAttachmentsInput } from './SourceAttachmentsInput';
+import { RectangleStackIcon, SparklesIcon, ArrowPathIcon, CpuChipIcon, BookOpenIcon, TrashIcon, ArrowDownTrayIcon, PlayIcon, StopIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface UnitPlannerProps {
+  plans: GeneratedLessonPlan[];
+  onPlanSaved: (plan: GeneratedLessonPlan, source: PlanChangeSource) => Promise<void>;
+  onOpenPlan: (plan: GeneratedLessonPlan) => void;
+  school: SchoolProfile; // Header of the exported unit document
+}
+
+const MIN_SESSIONS = 2;
+const MAX_SESSIONS = 10;
+
+// Which step is running: the overview, or a session number
+type UnitProgress = 'overview' | number | null;
+
+export const UnitPlanner: React.FC<UnitPlannerProps> = ({ plans, onPlanSaved, onOpenPlan, school }) => {
+  const [units, setUnits] = useState<UnitPlan[]>([]);
+  const [activeUnit, setActiveUnit] = useState<UnitPlan | null>(null);
+  const [progress, setProgress] = useState<UnitProgress>(null);
+  const [regeneratingSession, setRegeneratingSession] = useState<number | null>(null);
+  const [aiError, setAiError] = useState<{ error: AIError; context: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listUnits()
+      .then(setUnits)
+      .catch(error => console.error("Could not load units:", error));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const [formData, setFormData] = useState<UnitPlanRequest>({
+    subject: Subject.MATHEMATICS,
+    grade: GradeLevel.FIFTH,
+    unitTitle: '',
+    sessionCount: 4,
+    duration: '45 minutos',
+    biblicalFocus: '',
+    contentType: ContentType.CONCEPTUAL,
+    model: 'gemini-3-flash-preview'
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData({ ...formData, [name]: name === 'sessionCount' ? Number(value) : value });
+  };
+
+  const reportError = (error: unknown, context: string) => {
+    if (isCancelled(error)) return;
+    console.error(`Error generating ${context}:`, error);
+    setAiError({ error: toAIError(error), context });
+  };
+
+  const planById = (id: string | undefined) => id ? plans.find(p => p.id === id) : undefined;
+
+  const storeUnit = async (unit: UnitPlan): Promise<UnitPlan> => {
+    const saved = await saveUnit(unit);
+    setActiveUnit(saved);
+    setUnits(prev => [saved, ...prev.filter(u => u.id !== saved.id)]);
+    return saved;
+  };
+
+  // Generates the sessions that are still missing, in order. Each one is saved (plan and unit)
+  // as soon as it is ready, so cancelling or a failure keeps everything generated so far.
+  const generateMissingSessions = async (unit: UnitPlan, signal: AbortSignal) => {
+    let current = unit;
+    let previousPlan = planById(current.sessionPlanIds[current.sessionPlanIds.length - 1]);
+
+    for (let n = current.sessionPlanIds.length + 1; n <= current.overview.sessions.length; n++) {
+      setProgress(n);
+      const generated = await generateUnitSessionAI(
+        { unit: current.request, overview: current.overview, sessionNumber: n, previousPlan },
+        { signal }
+      );
+      const plan: GeneratedLessonPlan = { ...generated, unitId: current.id };
+      await onPlanSaved(plan, 'generated');
+      current = await storeUnit({ ...current, sessionPlanIds: [...current.sessionPlanIds, plan.id] });
+      previousPlan = plan;
+    }
+  };
+
+  const runGeneration = async (work: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setAiError(null);
+    try {
+      await work(controller.signal);
+    } catch (error) {
+      reportError(error, 'la unidad');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    runGeneration(async signal => {
+      if (await isSourceTooLarge(formData)) {
+        alert("Las fuentes superan el tamaño máximo. Elige menos secciones del libro, usa el modo solo texto o quita archivos adjuntos.");
+        return;
+      }
+      setProgress('overview');
+      setActiveUnit(null);
+      const overview = await generateUnitOverviewAI(formData, { signal });
+      const unit = await storeUnit({ id: crypto.randomUUID(), request: formData, overview, sessionPlanIds: [] });
+      await generateMissingSessions(unit, signal);
+    });
+  };
+
+  const handleContinue = () => {
+    if (!activeUnit) return;
+    runGeneration(signal => generateMissingSessions(activeUnit, signal));
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Replaces one session with a fresh answer. The previous session (as saved) and the outline of
+  // the next one are sent along, so the regenerated class still fits between its neighbours.
+  const handleRegenerateSession = async (sessionNumber: number) => {
+    if (!activeUnit) return;
+    const existing = planById(activeUnit.sessionPlanIds[sessionNumber - 1]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRegeneratingSession(sessionNumber);
+    setAiError(null);
+    try {
+      const generated = await generateUnitSessionAI({
+        unit: activeUnit.request,
+        overview: activeUnit.overview,
+        sessionNumber,
+        previousPlan: planById(activeUnit.sessionPlanIds[sessionNumber - 2]),
+      }, { signal: controller.signal, force: true });
+
+      // Keep the plan's identity so its version history shows the regeneration
+      const plan: GeneratedLessonPlan = existing
+        ? { ...generated, id: existing.id, createdAt: existing.createdAt, unitId: activeUnit.id }
+        : { ...generated, unitId: activeUnit.id };
+      await onPlanSaved(plan, existing ? 'regenerated' : 'generated');
+      if (!existing) {
+        const sessionPlanIds = [...activeUnit.sessionPlanIds];
+        sessionPlanIds[sessionNumber - 1] = plan.id;
+        await storeUnit({ ...activeUnit, sessionPlanIds });
+      }
+    } catch (error) {
+      reportError(error, `la sesión ${sessionNumber}`);
+    } finally {
+      abortRef.current = null;
+      setRegeneratingSession(null);
+    }
+  };
+
+  const handleDeleteUnit = async (unit: UnitPlan) => {
+    if (!window.confirm(`¿Eliminar la unidad "${unit.overview.unitTitle}"? Los planes de cada sesión se conservan en Mis Planes.`)) return;
+    try {
+      await deleteUnit(unit.id);
+      setUnits(prev => prev.filter(u => u.id !== unit.id));
+      if (activeUnit?.id === unit.id) setActiveUnit(null);
+    } catch (error) {
+      console.error("Could not delete unit:", error);
+      alert("No se pudo eliminar la unidad.");
+    }
+  };
+
+  const handleExportDocx = async () => {
+    if (!activeUnit) return;
+    try {
+      await generateUnitDocx(activeUnit, activeUnit.overview.sessions.map((_, i) => planById(activeUnit.sessionPlanIds[i])), school);
+    } catch (error) {
+      console.error("Error generating DOCX:", error);
+      alert("Hubo un error al generar el documento Word.");
+    }
+  };
+
+  const busy = progress !== null || regeneratingSession !== null;
+  const missingSessions = activeUnit ? activeUnit.overview.sessions.length - activeUnit.sessionPlanIds.length : 0;
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+  return (
+    <div className="flex flex-col xl:flex-row gap-8 h-full relative">
+      {/* Input Section */}
+      <div className="xl:w-1/3 w-full space-y-6">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+          <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center">
+            <RectangleStackIcon className="w-5 h-5 mr-2 text-indigo-600" />
+            Planificador de Unidad
+          </h2>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <TextbookSourceInput
+              subject={formData.subject}
+              grade={formData.grade}
+              value={formData.textbook}
+              onChange={(textbook) => setFormData(prev => ({ ...prev, textbook }))}
+            />
+
+            <SourceAttachmentsInput
+              value={formData.attachments ?? []}
+              onChange={(attachments) => setFormData(prev => ({ ...prev, attachments }))}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Título de la Unidad</label>
+              <input
+                type="text"
+                name="unitTitle"
+                value={formData.unitTitle}
+                onChange={handleChange}
+                placeholder="Ej. Fracciones"
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Grado</label>
+                <select name="grade" value={formData.grade} onChange={handleChange} className={inputClass}>
+                  {Object.values(GradeLevel).map(g => <option key={g} value={g}>{g}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Asignatura</label>
+                <select name="subject" value={formData.subject} onChange={handleChange} className={inputClass}>
+                  {Object.values(Subject).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Sesiones</label>
+                <input
+                  type="number"
+                  name="sessionCount"
+                  min={MIN_SESSIONS}
+                  max={MAX_SESSIONS}
+                  value={formData.sessionCount}
+                  onChange={handleChange}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Duración por sesión</label>
+                <input type="text" name="duration" value={formData.duration} onChange={handleChange} className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Enfoque Bíblico inicial (Opcional)</label>
+              <input
+                type="text"
+                name="biblicalFocus"
+                value={formData.biblicalFocus}
+                onChange={handleChange}
+                placeholder="Ej. Mayordomía, Salmos 24:1..."
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Enfoque de Contenido</label>
+              <select name="contentType" value={formData.contentType} onChange={handleChange} className={`${inputClass} text-sm`}>
+                {Object.values(ContentType).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+
+            <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100">
+              <label className="block text-xs font-bold text-indigo-800 uppercase mb-1 flex items-center">
+                <CpuChipIcon className="w-4 h-4 mr-1" />
+                Velocidad de Generación
+              </label>
+              <select
+                name="model"
+                value={formData.model}
+                onChange={handleChange}
+                className="w-full px-3 py-2 rounded-lg border border-indigo-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm bg-white"
+              >
+                <option value="gemini-3-flash-preview">Gemini 3.0 Flash (Súper Rápido - Recomendado)</option>
+                <option value="gemini-3-pro-preview">Gemini 3.0 Pro (Máximo Detalle - Más Lento)</option>
+              </select>
+            </div>
+
+            <button
+              type="submit"
+              disabled={busy || formData.sessionCount < MIN_SESSIONS || formData.sessionCount > MAX_SESSIONS}
+              className={`w-full py-3 rounded-xl text-white font-semibold shadow-lg transition-all transform active:scale-95 flex justify-center items-center ${
+                busy
+                  ? 'bg-slate-400 cursor-not-allowed'
+                  : 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-indigo-500/30'
+              }`}
+            >
+              {progress !== null ? (
+                <>
+                  <ArrowPathIcon className="w-5 h-5 mr-2 animate-spin" />
+                  Procesando...
+                </>
+              ) : (
+                <>
+                  <SparklesIcon className="w-5 h-5 mr-2" />
+                  Planificar Unidad
+                </>
+              )}
+            </button>
+          </form>
+        </div>
+
+        {units.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">Mis Unidades</h3>
+            <ul className="divide-y divide-slate-100">
+              {units.map(unit => (
+                <li key={unit.id} className="flex items-center gap-2 py-2">
+                  <button
+                    onClick={() => setActiveUnit(unit)}
+                    disabled={busy}
+                    className={`flex-1 min-w-0 text-left ${activeUnit?.id === unit.id ? 'text-indigo-700' : 'text-slate-700 hover:text-indigo-600'}`}
+                  >
+                    <p className="font-medium truncate">{unit.overview.unitTitle}</p>
+                    <p className="text-xs text-slate-400">
+                      {unit.request.subject} · {unit.request.grade} · {unit.sessionPlanIds.length}/{unit.overview.sessions.length} sesiones
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDeleteUnit(unit)}
+                    disabled={busy}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                    title="Eliminar unidad"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Result Section */}
+      <div className="xl:w-2/3 w-full pb-10">
+        {progress === 'overview' ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400 bg-white rounded-2xl border border-slate-200 p-12">
+            <ArrowPathIcon className="w-10 h-10 mb-4 animate-spin text-indigo-500" />
+            <p className="font-medium text-slate-600">Diseñando la secuencia de la unidad...</p>
+            <button onClick={handleCancel} className="mt-6 text-sm font-semibold text-red-600 hover:underline">Cancelar</button>
+          </div>
+        ) : activeUnit ? (
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="bg-[#004369] text-white p-6">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-wider text-[#DBA858] font-bold">
+                    {activeUnit.request.subject} · {activeUnit.request.grade}
+                  </p>
+                  <h2 className="text-2xl font-bold mt-1">{activeUnit.overview.unitTitle}</h2>
+                  <p className="text-sm text-slate-200 mt-1">
+                    {activeUnit.overview.sessions.length} sesiones de {activeUnit.request.duration}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {progress !== null ? (
+                    <button onClick={handleCancel} className="flex items-center px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium">
+                      <StopIcon className="w-4 h-4 mr-1" /> Detener
+                    </button>
+                  ) : missingSessions > 0 && (
+                    <button onClick={handleContinue} disabled={busy} className="flex items-center px-3 py-2 rounded-lg bg-[#DBA858] text-slate-900 hover:brightness-105 text-sm font-semibold">
+                      <PlayIcon className="w-4 h-4 mr-1" /> Continuar ({missingSessions})
+                    </button>
+                  )}
+                  <button onClick={handleExportDocx} className="flex items-center px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium">
+                    <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Word
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="p-6 grid md:grid-cols-2 gap-6 border-b border-slate-100">
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">Objetivo General</h4>
+                <p className="text-sm text-slate-700">{activeUnit.overview.generalObjective}</p>
+              </div>
+              <div>
+                <h4 className="text-xs font-bold text-amber-600 uppercase mb-1">Hilo de Fe</h4>
+                <p className="text-sm text-slate-700">{activeUnit.overview.faithThread}</p>
+              </div>
+            </div>
+
+            <ol className="divide-y divide-slate-100">
+              {activeUnit.overview.sessions.map(session => {
+                const plan = planById(activeUnit.sessionPlanIds[session.sessionNumber - 1]);
+                const generated = session.sessionNumber <= activeUnit.sessionPlanIds.length;
+                const isRunning = progress === session.sessionNumber || regeneratingSession === session.sessionNumber;
+                return (
+                  <li key={session.sessionNumber} className="p-6 flex gap-4">
+                    <div className={`w-9 h-9 rounded-full flex items-center justify-center font-bold flex-shrink-0 ${generated ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                      {session.sessionNumber}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <h3 className="font-bold text-slate-800">{plan?.generalData.contentConceptual || session.topic}</h3>
+                        <div className="flex items-center gap-2">
+                          {isRunning ? (
+                            <span className="flex items-center text-xs text-indigo-600 font-medium">
+                              <ArrowPathIcon className="w-4 h-4 mr-1 animate-spin" /> Generando...
+                            </span>
+                          ) : generated && (
+                            <>
+                              {plan ? (
+                                <button onClick={() => onOpenPlan(plan)} className="flex items-center text-xs font-semibold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded">
+                                  <BookOpenIcon className="w-4 h-4 mr-1" /> Abrir
+                                </button>
+                              ) : (
+                                <span className="text-xs text-slate-400">Plan eliminado</span>
+                              )}
+                              <button
+                                onClick={() => handleRegenerateSession(session.sessionNumber)}
+                                disabled={busy}
+                                className="flex items-center text-xs font-semibold text-slate-600 hover:text-indigo-600 hover:bg-slate-50 px-2 py-1 rounded disabled:opacity-50"
+                                title="Regenerar esta sesión manteniendo la continuidad de la unidad"
+                              >
+                                <ArrowPathIcon className="w-4 h-4 mr-1" /> Regenerar
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-sm text-slate-600 mt-1 flex items-start">
+                        {generated && <CheckCircleIcon className="w-4 h-4 mr-1 mt-0.5 text-emerald-500 flex-shrink-0" />}
+                        {plan?.generalData.achievementIndicator || session.achievementIndicator}
+                      </p>
+                      {session.buildsOn && <p className="text-xs text-slate-400 mt-1">Parte de: {session.buildsOn}</p>}
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {session.keyVocabulary.map(term => (
+                          <span key={term} className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">{term}</span>
+                        ))}
+                        <span className="text-xs bg-amber-50 text-amber-700 px-2 py-0.5 rounded-full">✝ {plan?.faithIntegration.bibleVerse || session.bibleFocus}</span>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {activeUnit.overview.finalAssessment && (
+              <div className="p-6 bg-slate-50 border-t border-slate-100">
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">Evaluación Final</h4>
+                <p className="text-sm text-slate-700">{activeUnit.overview.finalAssessment}</p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400 bg-white rounded-2xl border border-dashed border-slate-300 p-12 text-center">
+            <RectangleStackIcon className="w-12 h-12 mb-4" />
+            <p className="font-medium text-slate-600">Planifica una unidad completa</p>
+            <p className="text-sm mt-1 max-w-sm">Cada sesión parte del indicador y el vocabulario de la anterior, y el enfoque bíblico avanza a lo largo de la unidad.</p>
+          </div>
+        )}
+      </div>
+
+      {aiError && <AIErrorNotice error={aiError.error} context={aiError.context} onDismiss={() => setAiError(null)} />}
+    </div>
+  );
+};
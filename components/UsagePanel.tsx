@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { UsageRecord } from '../types';
+import { getMonthUsage, summarizeUsage, budgetLevel, dayKey, UsageTotals } from '../services/usageService';
+import { taskLabel } from '../utils/aiTaskLabels';
+import { BanknotesIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface UsagePanelProps {
+  monthlyBudgetUsd: number;
+}
+
+const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const BUDGET_STYLES = {
+  ok: { bar: 'bg-emerald-500', text: 'text-slate-500' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  exceeded: { bar: 'bg-red-500', text: 'text-red-700' },
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: Record<string, UsageTotals>; label?: (key: string) => string }> = ({ title, rows, label = (k) => k }) => {
+  const entries = (Object.entries(rows) as [string, UsageTotals][]).sort(([, a], [, b]) => b.costUsd - a.costUsd || b.outputTokens - a.outputTokens);
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead className="text-xs text-slate-400">
+          <tr>
+            <th className="text-left font-medium py-1"></th>
+            <th className="text-right font-medium py-1">Llamadas</th>
+            <th className="text-right font-medium py-1">Tokens</th>
+            <th className="text-right font-medium py-1">Costo</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {entries.map(([key, totals]) => (
+            <tr key={key}>
+              <td className="py-1.5 text-slate-700 truncate max-w-[10rem]">{label(key)}</td>
+              <td className="py-1.5 text-right text-slate-600">{totals.calls}</td>
+              <td className="py-1.5 text-right text-slate-600">{formatTokens(totals.inputTokens + totals.outputTokens)}</td>
+              <td className="py-1.5 text-right font-medium text-slate-800">{formatUsd(totals.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// AI consumption for the current month: daily chart, breakdown by generator and model, and the budget
+export const UsagePanel: React.FC<UsagePanelProps> = ({ monthlyBudgetUsd }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMonthUsage()
+      .then(result => { if (!cancelled) setRecords(result); })
+      .catch(error => {
+        console.error("Could not load usage:", error);
+        if (!cancelled) setRecords([]);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!records) return null;
+
+  const summary = summarizeUsage(records);
+  const level = budgetLevel(summary.total.costUsd, monthlyBudgetUsd);
+
+  // One bar per day of the month so far, including days without calls
+  const today = new Date();
+  const dailyData = Array.from({ length: today.getDate() }, (_, i) => {
+    const key = dayKey(new Date(today.getFullYear(), today.getMonth(), i + 1));
+    const totals = summary.byDay[key];
+    return {
+      day: String(i + 1),
+      tokens: totals ? totals.inputTokens + totals.outputTokens : 0,
+    };
+  });
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <BanknotesIcon className="w-5 h-5 mr-2 text-indigo-500" />
+            Consumo de IA este mes
+          </h3>
+          <p className="text-xs text-slate-400 mt-1">Costos estimados con precios de referencia; la factura real puede variar.</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-xs text-slate-500 uppercase font-medium">Llamadas</p>
+            <p className="text-2xl font-bold text-slate-900">{summary.total.calls}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 uppercase font-medium">Tokens</p>
+            <p className="text-2xl font-bold text-slate-900">{formatTokens(summary.total.inputTokens + summary.total.outputTokens)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 uppercase font-medium">Costo</p>
+            <p className="text-2xl font-bold text-indigo-600">{formatUsd(summary.total.costUsd)}</p>
+          </div>
+        </div>
+      </div>
+
+      {level !== 'none' && (
+        <div className="mb-6">
+          <div className="flex justify-between text-xs mb-1">
+            <span className={`font-medium flex items-center ${BUDGET_STYLES[level].text}`}>
+              {level !== 'ok' && <ExclamationTriangleIcon className="w-4 h-4 mr-1" />}
+              {level === 'exceeded'
+                ? 'Presupuesto mensual superado'
+                : level === 'warning'
+                  ? 'Cerca del límite del presupuesto mensual'
+                  : 'Presupuesto mensual'}
+            </span>
+            <span className="text-slate-500">{formatUsd(summary.total.costUsd)} de {formatUsd(monthlyBudgetUsd)}</span>
+          </div>
+          <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+            <div
+              className={`h-2 rounded-full ${BUDGET_STYLES[level].bar}`}
+              style={{ width: `${Math.min(100, (summary.total.costUsd / monthlyBudgetUsd) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">Aún no hay generaciones este mes.</p>
+      ) : (
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-3 h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={dailyData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 11}} />
+                <YAxis axisLine={false} tickLine={false} tick={{fill: '#64748b', fontSize: 11}} tickFormatter={formatTokens} />
+                <Tooltip
+                  cursor={{fill: '#f1f5f9'}}
+                  formatter={(value: number) => [formatTokens(value), 'Tokens']}
+                  labelFormatter={(day) => `Día ${day}`}
+                  contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+                />
+                <Bar dataKey="tokens" fill="#6366f1" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="lg:col-span-2">
+            <BreakdownTable title="Por generador" rows={summary.byTask} label={taskLabel} />
+          </div>
+          <BreakdownTable title="Por modelo" rows={summary.byModel} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedLessonPlan, PlanChangeSource, PlanVersion } from '../types';
+import { listPlanVersions } from '../services/storageService';
+import { diffPlans } from '../utils/planDiff';
+import { ClockIcon, XMarkIcon, ArrowUturnLeftIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface VersionHistoryProps {
+  plan: GeneratedLessonPlan;
+  onRestore: (plan: GeneratedLessonPlan) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<PlanChangeSource, string> = {
+  generated: 'Generado',
+  edited: 'Editado',
+  regenerated: 'Sección regenerada',
+  restored: 'Restaurado',
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('es-NI', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ plan, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<PlanVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Version ids being compared (base = older, target = newer by default)
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>('');
+
+  useEffect(() => {
+    listPlanVersions(plan.id)
+      .then(list => {
+        setVersions(list);
+        setTargetId(list[0]?.id || '');
+        setBaseId(list[1]?.id || list[0]?.id || '');
+      })
+      .catch(error => console.error("Could not load version history:", error))
+      .finally(() => setLoading(false));
+  }, [plan.id]);
+
+  const base = versions.find(v => v.id === baseId);
+  const target = versions.find(v => v.id === targetId);
+  const diff = useMemo(() => (base && target ? diffPlans(base.plan, target.plan) : []), [base, target]);
+
+  const versionLabel = (v: PlanVersion) => `v${versions.length - versions.indexOf(v)} · ${formatDateTime(v.savedAt)} · ${SOURCE_LABELS[v.source]}`;
+
+  const handleRestore = (version: PlanVersion) => {
+    if (confirm(`¿Restaurar la versión del ${formatDateTime(version.savedAt)}? La versión actual seguirá en el historial.`)) {
+      onRestore(version.plan);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <ClockIcon className="w-5 h-5 mr-2 text-indigo-600" />
+            Historial de Versiones
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-12 text-center text-slate-400">
+            <ArrowPathIcon className="w-6 h-6 animate-spin mx-auto" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="p-12 text-center text-slate-400 text-sm">
+            Este plan aún no tiene versiones guardadas.
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Version list */}
+            <div className="w-72 border-r border-slate-200 overflow-y-auto">
+              {versions.map((v, i) => (
+                <div key={v.id} className={`p-4 border-b border-slate-100 ${v.id === targetId ? 'bg-indigo-50' : ''}`}>
+                  <button onClick={() => setTargetId(v.id)} className="text-left w-full">
+                    <p className="text-sm font-semibold text-slate-800">
+                      v{versions.length - i} {i === 0 && <span className="text-xs font-normal text-emerald-600">(actual)</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">{formatDateTime(v.savedAt)}</p>
+                    <p className="text-[10px] uppercase font-bold text-indigo-500 mt-1">{SOURCE_LABELS[v.source]}</p>
+                  </button>
+                  {i > 0 && (
+                    <button
+                      onClick={() => handleRestore(v)}
+                      className="mt-2 flex items-center text-xs text-slate-500 hover:text-indigo-700"
+                    >
+                      <ArrowUturnLeftIcon className="w-3 h-3 mr-1" />
+                      Restaurar
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 overflow-y-auto p-6">
+              <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+                <span className="text-slate-500">Comparar</span>
+                <select
+                  value={baseId}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="px-2 py-1 rounded-lg border border-slate-300 text-sm"
+                >
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                </select>
+                <span className="text-slate-500">con</span>
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className="px-2 py-1 rounded-lg border border-slate-300 text-sm"
+                >
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                </select>
+              </div>
+
+              {diff.length === 0 ? (
+                <p className="text-sm text-slate-400 text-center mt-12">Sin diferencias entre estas versiones.</p>
+              ) : (
+                <div className="space-y-6">
+                  {diff.map(section => (
+                    <div key={section.section}>
+                      <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{section.section}</h4>
+                      <div className="space-y-3">
+                        {section.fields.map(field => (
+                          <div key={field.label} className="border border-slate-200 rounded-lg p-3 text-sm">
+                            <p className="font-semibold text-slate-700 mb-2">
+                              {field.label}
+                              <span className="ml-2 text-[10px] uppercase font-bold text-slate-400">
+                                {field.kind === 'added' ? 'agregado' : field.kind === 'removed' ? 'eliminado' : 'modificado'}
+                              </span>
+                            </p>
+                            {field.before !== undefined && (
+                              <p className="bg-red-50 text-red-800 px-2 py-1 rounded line-through decoration-red-300">{field.before}</p>
+                            )}
+                            {field.after !== undefined && (
+                              <p className="bg-green-50 text-green-800 px-2 py-1 rounded mt-1">{field.after}</p>
+                            )}
+                            {field.removedItems?.map((item, i) => (
+                              <p key={`r${i}`} className="bg-red-50 text-red-800 px-2 py-1 rounded mt-1">− {item}</p>
+                            ))}
+                            {field.addedItems?.map((item, i) => (
+                              <p key={`a${i}`} className="bg-green-50 text-green-800 px-2 py-1 rounded mt-1">+ {item}</p>
+                            ))}
+                            {field.addedItems?.length === 0 && field.removedItems?.length === 0 && (
+                              <p className="text-xs text-slate-400">Mismos elementos, distinto orden.</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
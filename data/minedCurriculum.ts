@@ -0,0 +1,287 @@
+import { CurriculumCatalog, CurriculumCompetency, Subject, GradeLevel } from "../types";
+
+// Bundled MINED (Ministerio de Educación de Nicaragua) primary curriculum reference.
+// Competencies and indicators follow the structure of the official "Programas de Estudio de
+// Educación Primaria" (unit, competencia de grado, indicadores de logro). Schools can import a
+// catalog of their own from Configuración; this one is the fallback.
+
+const competency = (
+  id: string,
+  subject: Subject,
+  grade: GradeLevel,
+  unit: string,
+  text: string,
+  indicators: string[]
+): CurriculumCompetency => ({
+  id,
+  subject,
+  grade,
+  unit,
+  competency: text,
+  indicators: indicators.map((indicator, i) => ({ id: `${id}.${i + 1}`, text: indicator })),
+});
+
+const { MATHEMATICS, LANGUAGE, SCIENCE, SOCIAL_STUDIES, VALUES, ENGLISH } = Subject;
+const { FIRST, SECOND, THIRD, FOURTH, FIFTH, SIXTH } = GradeLevel;
+
+export const BUNDLED_CURRICULUM: CurriculumCatalog = {
+  version: '2026.1',
+  source: 'Catálogo de referencia incluido (Educación Primaria MINED)',
+  competencies: [
+    // --- Matemáticas ---
+    competency('MAT-1-1', MATHEMATICS, FIRST, 'Números naturales hasta 99', 'Utiliza los números naturales hasta 99 en situaciones de su entorno.', [
+      'Cuenta, lee y escribe números naturales hasta 99.',
+      'Compara y ordena números naturales hasta 99 usando los signos >, < e =.',
+      'Identifica unidades y decenas en números de dos cifras.',
+    ]),
+    competency('MAT-1-2', MATHEMATICS, FIRST, 'Adición y sustracción', 'Resuelve situaciones de su entorno aplicando la adición y sustracción sin llevar.', [
+      'Suma números de hasta dos cifras sin llevar.',
+      'Resta números de hasta dos cifras sin prestar.',
+      'Resuelve problemas sencillos de suma y resta con objetos de su entorno.',
+    ]),
+    competency('MAT-2-1', MATHEMATICS, SECOND, 'Números naturales hasta 999', 'Utiliza números naturales hasta 999 en situaciones de la vida cotidiana.', [
+      'Lee y escribe números naturales hasta 999.',
+      'Descompone números de tres cifras en centenas, decenas y unidades.',
+      'Ordena números naturales hasta 999 en forma ascendente y descendente.',
+    ]),
+    competency('MAT-2-2', MATHEMATICS, SECOND, 'Adición y sustracción llevando', 'Resuelve problemas de adición y sustracción con números de hasta tres cifras.', [
+      'Suma números de hasta tres cifras llevando.',
+      'Resta números de hasta tres cifras prestando.',
+      'Plantea y resuelve problemas de suma y resta de su entorno.',
+    ]),
+    competency('MAT-3-1', MATHEMATICS, THIRD, 'Multiplicación', 'Aplica la multiplicación de números naturales en la resolución de problemas.', [
+      'Comprende la multiplicación como suma de sumandos iguales.',
+      'Construye y utiliza las tablas de multiplicar del 1 al 10.',
+      'Resuelve problemas de multiplicación con números de hasta tres cifras por una cifra.',
+    ]),
+    competency('MAT-3-2', MATHEMATICS, THIRD, 'División', 'Aplica la división exacta en situaciones de reparto equitativo.', [
+      'Relaciona la división con el reparto en partes iguales.',
+      'Divide números de dos cifras entre una cifra con residuo cero.',
+      'Resuelve problemas de reparto usando la división.',
+    ]),
+    competency('MAT-4-1', MATHEMATICS, FOURTH, 'Fracciones', 'Utiliza las fracciones para representar partes de la unidad y de un conjunto.', [
+      'Lee, escribe y representa fracciones propias.',
+      'Identifica fracciones equivalentes con apoyo gráfico.',
+      'Compara fracciones con igual denominador.',
+    ]),
+    competency('MAT-4-2', MATHEMATICS, FOURTH, 'Geometría: ángulos y triángulos', 'Reconoce y clasifica ángulos y triángulos en objetos de su entorno.', [
+      'Mide ángulos con el transportador.',
+      'Clasifica ángulos en agudos, rectos y obtusos.',
+      'Clasifica triángulos según la medida de sus lados.',
+    ]),
+    competency('MAT-5-1', MATHEMATICS, FIFTH, 'Fracciones y sus operaciones', 'Resuelve problemas de la vida cotidiana aplicando operaciones con fracciones.', [
+      'Resuelve sumas de fracciones con igual denominador en situaciones de la vida cotidiana.',
+      'Resuelve restas de fracciones con igual denominador.',
+      'Convierte fracciones impropias en números mixtos y viceversa.',
+      'Suma y resta fracciones con diferente denominador usando el mínimo común múltiplo.',
+    ]),
+    competency('MAT-5-2', MATHEMATICS, FIFTH, 'Geometría: polígonos y perímetro', 'Calcula perímetros y áreas de figuras planas en situaciones de su entorno.', [
+      'Identifica y clasifica triángulos según sus lados y sus ángulos.',
+      'Calcula el perímetro de polígonos regulares e irregulares.',
+      'Calcula el área de rectángulos, cuadrados y triángulos.',
+    ]),
+    competency('MAT-6-1', MATHEMATICS, SIXTH, 'Números decimales', 'Resuelve problemas aplicando operaciones con números decimales.', [
+      'Lee, escribe y compara números decimales hasta las milésimas.',
+      'Multiplica y divide números decimales.',
+      'Resuelve problemas de compras y presupuesto familiar con números decimales.',
+    ]),
+    competency('MAT-6-2', MATHEMATICS, SIXTH, 'Razones, proporciones y porcentajes', 'Aplica razones, proporciones y porcentajes en situaciones de la vida real.', [
+      'Establece razones y proporciones entre cantidades.',
+      'Calcula el tanto por ciento de una cantidad.',
+      'Resuelve problemas de descuentos e intereses sencillos.',
+    ]),
+
+    // --- Lengua y Literatura ---
+    competency('LEN-1-1', LANGUAGE, FIRST, 'Lectoescritura inicial', 'Lee y escribe palabras y oraciones sencillas con las letras en estudio.', [
+      'Identifica el sonido y la grafía de las vocales y consonantes en estudio.',
+      'Lee palabras y oraciones sencillas con fluidez.',
+      'Escribe palabras y oraciones cortas al dictado.',
+    ]),
+    competency('LEN-1-2', LANGUAGE, FIRST, 'Expresión oral', 'Se expresa oralmente con claridad y respeto en su entorno escolar y familiar.', [
+      'Narra experiencias personales en orden.',
+      'Escucha con atención y respeta turnos al hablar.',
+    ]),
+    competency('LEN-2-1', LANGUAGE, SECOND, 'Comprensión lectora', 'Comprende textos narrativos breves y responde preguntas sobre su contenido.', [
+      'Identifica personajes y lugares de un cuento.',
+      'Ordena la secuencia de hechos de un texto leído.',
+      'Responde preguntas literales sobre textos breves.',
+    ]),
+    competency('LEN-2-2', LANGUAGE, SECOND, 'El sustantivo y el adjetivo', 'Usa sustantivos y adjetivos en la construcción de oraciones.', [
+      'Identifica sustantivos comunes y propios.',
+      'Usa adjetivos calificativos para describir personas, animales y objetos.',
+      'Escribe oraciones con concordancia de género y número.',
+    ]),
+    competency('LEN-3-1', LANGUAGE, THIRD, 'Textos narrativos', 'Lee y produce textos narrativos con inicio, desarrollo y final.', [
+      'Identifica la estructura de inicio, desarrollo y final en cuentos.',
+      'Escribe cuentos breves con secuencia lógica.',
+      'Usa mayúsculas y punto al escribir textos.',
+    ]),
+    competency('LEN-3-2', LANGUAGE, THIRD, 'La oración', 'Construye oraciones con sentido completo identificando sus partes.', [
+      'Identifica sujeto y predicado en oraciones simples.',
+      'Clasifica oraciones según la actitud del hablante.',
+    ]),
+    competency('LEN-4-1', LANGUAGE, FOURTH, 'Comprensión lectora inferencial', 'Comprende textos de diverso tipo realizando inferencias.', [
+      'Identifica la idea principal de un párrafo.',
+      'Infiere el significado de palabras por el contexto.',
+      'Emite opiniones sobre el contenido de los textos leídos.',
+    ]),
+    competency('LEN-4-2', LANGUAGE, FOURTH, 'Ortografía', 'Aplica normas ortográficas básicas en sus escritos.', [
+      'Clasifica palabras en agudas, graves y esdrújulas.',
+      'Aplica las reglas de acentuación en palabras agudas, graves y esdrújulas.',
+      'Usa correctamente b, v, c, s y z en palabras de uso frecuente.',
+    ]),
+    competency('LEN-5-1', LANGUAGE, FIFTH, 'Textos expositivos', 'Comprende y produce textos expositivos de su entorno.', [
+      'Identifica la estructura de un texto expositivo.',
+      'Elabora resúmenes y esquemas de textos expositivos.',
+      'Redacta textos expositivos breves sobre temas de su comunidad.',
+    ]),
+    competency('LEN-5-2', LANGUAGE, FIFTH, 'Literatura nicaragüense', 'Aprecia la literatura nicaragüense como expresión de la identidad cultural.', [
+      'Lee poemas de Rubén Darío y otros autores nicaragüenses.',
+      'Identifica figuras literarias sencillas: símil y personificación.',
+      'Declama poemas con entonación y expresividad.',
+    ]),
+    competency('LEN-6-1', LANGUAGE, SIXTH, 'Textos argumentativos', 'Expresa opiniones fundamentadas de forma oral y escrita.', [
+      'Distingue hechos de opiniones en textos leídos.',
+      'Escribe párrafos argumentativos con tesis y argumentos.',
+      'Participa en debates respetando las normas de convivencia.',
+    ]),
+    competency('LEN-6-2', LANGUAGE, SIXTH, 'Gramática: el verbo', 'Usa correctamente los tiempos verbales en sus producciones.', [
+      'Conjuga verbos regulares en modo indicativo.',
+      'Identifica verbos irregulares de uso frecuente.',
+      'Mantiene la concordancia temporal en sus escritos.',
+    ]),
+
+    // --- Ciencias Naturales ---
+    competency('CN-1-1', SCIENCE, FIRST, 'Mi cuerpo', 'Practica hábitos de higiene y cuidado de su cuerpo.', [
+      'Identifica las partes externas de su cuerpo.',
+      'Practica hábitos de higiene personal.',
+      'Reconoce los órganos de los sentidos y su función.',
+    ]),
+    competency('CN-1-2', SCIENCE, FIRST, 'Seres vivos y no vivos', 'Diferencia los seres vivos de los no vivos en su entorno.', [
+      'Clasifica elementos del entorno en seres vivos y no vivos.',
+      'Describe necesidades básicas de plantas y animales.',
+    ]),
+    competency('CN-2-1', SCIENCE, SECOND, 'Los animales', 'Clasifica animales según sus características y los protege.', [
+      'Clasifica animales en domésticos y salvajes.',
+      'Clasifica animales según su alimentación.',
+      'Practica acciones de cuidado y protección de los animales.',
+    ]),
+    competency('CN-2-2', SCIENCE, SECOND, 'Alimentación saludable', 'Practica hábitos de alimentación saludable.', [
+      'Identifica alimentos nutritivos de su región.',
+      'Clasifica los alimentos según su origen.',
+    ]),
+    competency('CN-3-1', SCIENCE, THIRD, 'Las plantas', 'Reconoce la importancia de las plantas para la vida.', [
+      'Identifica las partes de la planta y su función.',
+      'Clasifica plantas según su utilidad.',
+      'Participa en el cuido de plantas de su entorno.',
+    ]),
+    competency('CN-3-2', SCIENCE, THIRD, 'El agua', 'Valora el agua como recurso indispensable para la vida.', [
+      'Describe los estados del agua.',
+      'Explica acciones para el uso racional del agua.',
+    ]),
+    competency('CN-4-1', SCIENCE, FOURTH, 'Seres vivos y su entorno', 'Explica las relaciones entre los seres vivos y su ambiente.', [
+      'Describe las partes de la planta y sus funciones.',
+      'Explica el proceso de la fotosíntesis de manera sencilla.',
+      'Identifica cadenas alimenticias en ecosistemas de Nicaragua.',
+    ]),
+    competency('CN-4-2', SCIENCE, FOURTH, 'Sistema digestivo', 'Explica el funcionamiento del sistema digestivo y practica hábitos que lo protegen.', [
+      'Identifica los órganos del sistema digestivo.',
+      'Describe el recorrido de los alimentos en el proceso digestivo.',
+      'Practica hábitos que favorecen una buena digestión.',
+    ]),
+    competency('CN-5-1', SCIENCE, FIFTH, 'Sistemas del cuerpo humano', 'Explica el funcionamiento de los sistemas respiratorio y circulatorio.', [
+      'Identifica los órganos del sistema respiratorio y su función.',
+      'Describe el recorrido de la sangre en el sistema circulatorio.',
+      'Practica medidas para prevenir enfermedades respiratorias.',
+    ]),
+    competency('CN-5-2', SCIENCE, FIFTH, 'La materia y la energía', 'Reconoce propiedades de la materia y fuentes de energía de su entorno.', [
+      'Describe las propiedades generales de la materia.',
+      'Identifica cambios físicos y químicos en la vida diaria.',
+      'Clasifica fuentes de energía renovables y no renovables.',
+    ]),
+    competency('CN-6-1', SCIENCE, SIXTH, 'Reproducción y desarrollo humano', 'Reconoce los cambios de la pubertad y practica el autocuidado.', [
+      'Describe los cambios físicos y emocionales de la pubertad.',
+      'Identifica los órganos del sistema reproductor.',
+      'Practica normas de higiene y autocuidado.',
+    ]),
+    competency('CN-6-2', SCIENCE, SIXTH, 'El sistema solar y la Tierra', 'Explica fenómenos naturales relacionados con el sistema solar.', [
+      'Describe los componentes del sistema solar.',
+      'Explica los movimientos de rotación y traslación de la Tierra.',
+      'Relaciona los movimientos de la Tierra con el día, la noche y las estaciones.',
+    ]),
+
+    // --- Estudios Sociales ---
+    competency('ES-1-1', SOCIAL_STUDIES, FIRST, 'Mi familia y mi escuela', 'Reconoce su familia y su escuela como espacios de convivencia.', [
+      'Identifica a los miembros de su familia y sus roles.',
+      'Practica normas de convivencia en la escuela.',
+    ]),
+    competency('ES-2-1', SOCIAL_STUDIES, SECOND, 'Mi comunidad', 'Describe su comunidad y las personas que trabajan en ella.', [
+      'Identifica lugares importantes de su comunidad.',
+      'Describe oficios y profesiones de su comunidad.',
+      'Practica normas de seguridad vial.',
+    ]),
+    competency('ES-3-1', SOCIAL_STUDIES, THIRD, 'Mi municipio', 'Reconoce las características geográficas y culturales de su municipio.', [
+      'Ubica su municipio en el mapa de su departamento.',
+      'Describe tradiciones y costumbres de su municipio.',
+    ]),
+    competency('ES-4-1', SOCIAL_STUDIES, FOURTH, 'Nicaragua: territorio y regiones', 'Describe las características geográficas de Nicaragua.', [
+      'Ubica los departamentos y regiones autónomas de Nicaragua.',
+      'Describe el relieve, lagos y ríos principales de Nicaragua.',
+      'Identifica las regiones naturales del país.',
+    ]),
+    competency('ES-5-1', SOCIAL_STUDIES, FIFTH, 'Historia de Nicaragua', 'Analiza hechos relevantes de la historia de Nicaragua.', [
+      'Describe la forma de vida de los pueblos originarios de Nicaragua.',
+      'Explica el proceso de independencia de Centroamérica.',
+      'Valora la Batalla de San Jacinto como hecho histórico nacional.',
+    ]),
+    competency('ES-6-1', SOCIAL_STUDIES, SIXTH, 'Centroamérica y el mundo', 'Reconoce las características de Centroamérica y su integración.', [
+      'Ubica los países de Centroamérica y sus capitales.',
+      'Describe los recursos naturales de la región centroamericana.',
+      'Explica la importancia de la integración centroamericana.',
+    ]),
+
+    // --- Creciendo en Valores ---
+    competency('VAL-1-1', VALUES, FIRST, 'Respeto', 'Practica el respeto hacia sí mismo y los demás.', [
+      'Saluda y usa palabras de cortesía en su entorno.',
+      'Respeta las diferencias de sus compañeros.',
+    ]),
+    competency('VAL-2-1', VALUES, SECOND, 'Responsabilidad', 'Cumple con sus deberes en la familia y la escuela.', [
+      'Cumple con sus tareas escolares en el tiempo indicado.',
+      'Cuida sus útiles escolares y los de sus compañeros.',
+    ]),
+    competency('VAL-3-1', VALUES, THIRD, 'Solidaridad', 'Demuestra solidaridad con las personas de su entorno.', [
+      'Comparte con sus compañeros lo que tiene.',
+      'Ayuda a personas que lo necesitan en su comunidad.',
+    ]),
+    competency('VAL-4-1', VALUES, FOURTH, 'Honestidad', 'Actúa con honestidad en sus relaciones diarias.', [
+      'Dice la verdad aunque le resulte difícil.',
+      'Respeta la propiedad ajena.',
+    ]),
+    competency('VAL-5-1', VALUES, FIFTH, 'Convivencia pacífica', 'Resuelve conflictos de forma pacífica y dialogada.', [
+      'Utiliza el diálogo para resolver conflictos.',
+      'Reconoce y expresa sus emociones de manera adecuada.',
+    ]),
+    competency('VAL-6-1', VALUES, SIXTH, 'Identidad y proyecto de vida', 'Fortalece su autoestima y plantea metas personales.', [
+      'Reconoce sus cualidades y aspectos a mejorar.',
+      'Plantea metas personales a corto plazo.',
+    ]),
+
+    // --- Inglés ---
+    competency('ING-3-1', ENGLISH, THIRD, 'Greetings and classroom language', 'Uses basic greetings and classroom expressions in English.', [
+      'Greets and introduces himself or herself using simple expressions.',
+      'Follows simple classroom instructions in English.',
+    ]),
+    competency('ING-4-1', ENGLISH, FOURTH, 'My family and home', 'Describes family members and parts of the house in English.', [
+      'Names family members using possessive adjectives.',
+      'Describes rooms of the house using "there is / there are".',
+    ]),
+    competency('ING-5-1', ENGLISH, FIFTH, 'Daily routines', 'Talks about daily routines using the simple present.', [
+      'Describes daily routines using the simple present tense.',
+      'Tells the time and uses adverbs of frequency.',
+    ]),
+    competency('ING-6-1', ENGLISH, SIXTH, 'Past experiences', 'Narrates past events using the simple past.', [
+      'Uses regular and irregular verbs in the simple past.',
+      'Writes a short paragraph about a past experience.',
+    ]),
+  ],
+};
@@ -1,15 +1,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import './index.css';
 import App from './App';
+import { SpeakerView } from './components/SpeakerView';
+import { PRESENTER_PARAM } from './utils/presenter';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Presenter mode opens this same page as the speaker window
+const presenterChannel = new URLSearchParams(window.location.search).get(PRESENTER_PARAM);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {presenterChannel ? <SpeakerView channelId={presenterChannel} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
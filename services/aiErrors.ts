@@ -0,0 +1,82 @@
+// Typed errors for AI calls. Providers and the retry loop classify whatever they catch into an
+// AIError so the service knows whether to retry and the UI knows what to tell the teacher.
+
+export type AIErrorKind =
+  | 'quota'           // Rate limit or exhausted quota (429)
+  | 'key'             // Missing, invalid or unauthorized API key
+  | 'safety'          // Prompt or answer blocked by safety filters
+  | 'network'         // No connection / fetch failed
+  | 'timeout'         // The call exceeded its time limit
+  | 'unavailable'     // Model overloaded or server error (5xx)
+  | 'invalidResponse' // Malformed or incomplete JSON
+  | 'cancelled'       // Aborted by the user
+  | 'unknown';
+
+// Worth retrying the same model after a pause
+const RETRYABLE: ReadonlySet<AIErrorKind> = new Set<AIErrorKind>(['quota', 'network', 'timeout', 'unavailable']);
+// Another model cannot fix these: stop immediately
+const FATAL: ReadonlySet<AIErrorKind> = new Set<AIErrorKind>(['key', 'safety', 'cancelled']);
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AIError';
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.has(this.kind);
+  }
+
+  get fatal(): boolean {
+    return FATAL.has(this.kind);
+  }
+}
+
+// SDK errors are not all Error instances; read their fields without trusting the shape
+const fieldOf = (error: unknown, key: string): unknown =>
+  typeof error === 'object' && error !== null && key in error ? (error as Record<string, unknown>)[key] : undefined;
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = fieldOf(error, 'status');
+  if (typeof status === 'number') return status;
+  const code = fieldOf(error, 'code');
+  if (typeof code === 'number') return code;
+  return undefined;
+};
+
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const rawMessage = fieldOf(error, 'message');
+  const message = typeof rawMessage === 'string' && rawMessage ? rawMessage : String(error);
+  const name = fieldOf(error, 'name');
+
+  if (name === 'AbortError') return new AIError('cancelled', message, { cause: error });
+  if (name === 'TimeoutError') return new AIError('timeout', message, { cause: error });
+
+  const status = statusOf(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AIError('quota', message, { cause: error });
+  }
+  if (status === 401 || status === 403 || /API[ _]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AIError('key', message, { cause: error });
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new AIError('safety', message, { cause: error });
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(message)) {
+    return new AIError('unavailable', message, { cause: error });
+  }
+  // fetch rejects with a TypeError, but so does any bug while handling an answer: only the
+  // browsers' fetch failure messages or being offline mean the connection is at fault
+  if (/Failed to fetch|NetworkError|Load failed|network/i.test(message)
+      || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new AIError('network', message, { cause: error });
+  }
+  return new AIError('unknown', message, { cause: error });
+};
+
+export const isCancelled = (error: unknown): boolean => toAIError(error).kind === 'cancelled';
@@ -0,0 +1,76 @@
+import { CurriculumCatalog, CurriculumCompetency, CurriculumIndicator, Subject, GradeLevel } from "../types";
+import { BUNDLED_CURRICULUM } from "../data/minedCurriculum";
+import { object, array, string, oneOf, validate } from "../utils/validation";
+import { getImportedCurriculum, saveImportedCurriculum, clearImportedCurriculum } from "./storageService";
+
+// MINED CURRICULUM CATALOG
+// The imported catalog (if any) replaces the bundled one as a whole.
+
+export const getCurriculumCatalog = async (): Promise<CurriculumCatalog> => {
+  try {
+    return (await getImportedCurriculum()) ?? BUNDLED_CURRICULUM;
+  } catch (error) {
+    console.warn("Could not read imported curriculum, using the bundled one:", error);
+    return BUNDLED_CURRICULUM;
+  }
+};
+
+const catalogValidator = object<CurriculumCatalog>({
+  version: string(),
+  source: string(),
+  competencies: array(object<CurriculumCompetency>({
+    id: string({ required: true }),
+    subject: oneOf(Object.values(Subject), Subject.MATHEMATICS),
+    grade: oneOf(Object.values(GradeLevel), GradeLevel.FIRST),
+    unit: string(),
+    competency: string({ required: true }),
+    indicators: array(object<CurriculumIndicator>({
+      id: string({ required: true }),
+      text: string({ required: true }),
+    }), { min: 1 }),
+  }), { min: 1 }),
+});
+
+export class CurriculumImportError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+    this.name = 'CurriculumImportError';
+  }
+}
+
+// Unlike model output, an imported catalog is not repaired: an unknown subject or grade would
+// silently file indicators under the wrong class, so any such problem rejects the file.
+export const parseCurriculumCatalog = (json: string, fileName: string): CurriculumCatalog => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new CurriculumImportError('The file is not valid JSON', [String(error)]);
+  }
+
+  const { value, issues } = validate(catalogValidator, data);
+  const blocking = issues.filter(issue => !issue.repaired || issue.problem === 'invalid_value');
+  if (blocking.length > 0) {
+    throw new CurriculumImportError('The file is not a curriculum catalog', blocking.map(i => `${i.path}: ${i.expected}`));
+  }
+
+  const ids = value.competencies.flatMap(c => c.indicators.map(i => i.id));
+  const duplicated = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (duplicated.length > 0) {
+    throw new CurriculumImportError('Indicator ids must be unique', [...new Set(duplicated)]);
+  }
+
+  return {
+    ...value,
+    version: value.version || new Date().toISOString().slice(0, 10),
+    source: value.source || fileName,
+  };
+};
+
+export const importCurriculumCatalog = async (json: string, fileName: string): Promise<CurriculumCatalog> => {
+  const catalog = parseCurriculumCatalog(json, fileName);
+  await saveImportedCurriculum(catalog);
+  return catalog;
+};
+
+export const resetCurriculumCatalog = (): Promise<void> => clearImportedCurriculum();
@@ -1,15 +1,16 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedLessonPlan, LessonPlanRequest, HomeReviewRequest, GeneratedHomeReview, AssessmentRequest, GeneratedAssessment, AdaptationRequest, GeneratedAdaptation, DynamicsRequest, GeneratedDynamics, WorksheetRequest, GeneratedWorksheet, WhiteboardRequest, GeneratedWhiteboard, SlidesRequest, GeneratedSlides, VocabularyRequest, GeneratedVocabulary } from "../types";
-
-// Helper to ensure API key is present
-const getApiKey = (): string => {
-  const key = process.env.API_KEY;
-  if (!key) {
-    console.error("API Key not found in environment");
-    throw new Error("API Key missing");
-  }
-  return key;
-};
+import { Type } from "@google/genai";
+import { AICallOptions, GeneratedLessonPlan, LessonPlanRequest, LessonPlanProgress, SectionRegenerationRequest, PlanSection, HomeReviewRequest, GeneratedHomeReview, AssessmentRequest, GeneratedAssessment, QuizItemType, AdaptationRequest, GeneratedAdaptation, DynamicsRequest, GeneratedDynamics, WorksheetRequest, GeneratedWorksheet, WhiteboardRequest, GeneratedWhiteboard, SlidesRequest, GeneratedSlides, VocabularyRequest, GeneratedVocabulary, UnitPlanRequest, UnitOverview, UnitSessionRequest, SourceAttachment, SourceKind, SourceSummary } from "../types";
+import { Validator, validate, getAtPath, setAtPath } from "../utils/validation";
+import { parsePartialJson } from "../utils/partialJson";
+import { matchIndicator } from "../utils/curriculum";
+import { DEFAULT_ITEM_SPECS, WEBB_LEVELS, applyItemSpecs, expandItemSpecs } from "../utils/assessmentItems";
+import { getProvider, LLMProvider, AITask, ContentPart, ProviderResponse, TokenUsage } from "./providers";
+import { AIError, toAIError } from "./aiErrors";
+import { callWithRetry, DEFAULT_RETRY_POLICY, RetryPolicy } from "./retryPolicy";
+import { withResponseCache } from "./responseCache";
+import { recordUsage } from "./usageService";
+import { resolveTextbookSource, ResolvedTextbookSource } from "./textbookService";
+import { lessonPlanValidator, planSectionValidator, planPhaseValidator, homeReviewValidator, assessmentValidator, adaptationValidator, dynamicsValidator, worksheetValidator, whiteboardValidator, slidesValidator, vocabularyValidator, unitOverviewValidator } from "./responseValidators";
 
 // Helper to clean JSON string if model adds markdown
 const cleanJson = (text: string): string => {
@@ -33,47 +34,150 @@ const cleanJson = (text: string): string => {
 // Updated to use supported models per guidelines.
 const FALLBACK_MODELS = ['gemini-3-flash-preview'];
 
-const generateWithFallback = async (
-  ai: GoogleGenAI, 
-  primaryModel: string, 
-  contents: any, 
-  schema: any, 
-  temperature: number
-): Promise<any> => {
-  // Deduplicate models to try
-  const modelsToTry = [primaryModel, ...FALLBACK_MODELS.filter(m => m !== primaryModel)];
-  const uniqueModels = [...new Set(modelsToTry)];
+// Per-attempt time limits; long structured answers (full plans on PRO) need more room
+const TASK_TIMEOUTS_MS: Partial<Record<AITask, number>> = {
+  lessonPlan: 180_000,
+  unitSession: 180_000,
+  unitOverview: 90_000,
+  sectionRegeneration: 90_000,
+};
 
-  let lastError: any = null;
+// Bump a task's version whenever its prompt or schema changes: cached answers keyed on
+// the old version are then ignored
+const PROMPT_VERSIONS: Record<AITask, number> = {
+  lessonPlan: 1,
+  sectionRegeneration: 1,
+  homeReview: 1,
+  assessment: 2,
+  adaptation: 1,
+  dynamics: 1,
+  worksheet: 1,
+  whiteboard: 1,
+  slides: 2,
+  vocabulary: 1,
+  unitOverview: 1,
+  unitSession: 1,
+  chat: 1,
+};
 
-  for (const model of uniqueModels) {
-    try {
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: contents,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: schema,
-          temperature: temperature, 
-          // maxOutputTokens: 8192, // Ensure we have enough space for large JSONs
-        },
-      });
+// Runs one provider call and records its tokens, model and duration for the usage dashboard
+const tracked = async (task: AITask, model: string, call: () => Promise<ProviderResponse>): Promise<string> => {
+  const started = performance.now();
+  const { text, usage } = await call();
+  recordUsage(task, model, usage, performance.now() - started);
+  return text;
+};
 
-      const text = response.text;
-      if (!text) throw new Error("No text in response");
-      
-      const cleanText = cleanJson(text);
-      try {
-        return JSON.parse(cleanText);
-      } catch (parseError) {
-        console.error(`JSON Parse error for model ${model}:`, parseError);
-        // If it's a JSON error, we might want to retry with a different model or re-throw to trigger fallback
-        throw new Error(`Invalid JSON returned by ${model}`);
-      }
+const parseJson = (text: string, model: string): unknown => {
+  try {
+    return JSON.parse(cleanJson(text));
+  } catch (parseError) {
+    console.error(`JSON Parse error for model ${model}:`, parseError);
+    throw new AIError('invalidResponse', `Invalid JSON returned by ${model}`, { cause: parseError });
+  }
+};
+
+// When validation finds fields it cannot fill with a safe default, ask the same model for
+// only those fields (with its previous answer as context) and merge them in.
+const requestMissingFields = async (
+  provider: LLMProvider,
+  task: AITask,
+  model: string,
+  parts: ContentPart[],
+  schema: any,
+  temperature: number,
+  previous: unknown,
+  missingPaths: string[],
+  signal: AbortSignal
+): Promise<unknown> => {
+  const followUpPrompt = `
+    Your previous JSON answer was incomplete. These fields are missing or empty:
+    ${missingPaths.map(p => `- ${p}`).join('\n    ')}
+
+    PREVIOUS ANSWER:
+    ${JSON.stringify(previous)}
+
+    Return the same JSON structure with those fields filled in. Fields that were already present may be copied unchanged.
+  `;
+
+  const text = await tracked(task, model, () => provider.generateStructured({
+    task,
+    model,
+    parts: [...parts, { text: followUpPrompt }],
+    schema,
+    temperature,
+    signal,
+  }));
+  const completion = parseJson(text, model);
+
+  const merged = structuredClone(previous ?? {}) as Record<string, unknown>;
+  for (const path of missingPaths) {
+    const value = getAtPath(completion, path);
+    if (value !== undefined) setAtPath(merged, path, value);
+  }
+  return merged;
+};
 
-    } catch (error: any) {
-      console.warn(`Model ${model} failed:`, error.message || error);
-      lastError = error;
+// Parses a raw answer and runs it through the validator, asking for missing fields once.
+// Throws when the answer is still unusable so the caller can move on to the next model.
+const parseAndValidate = async <T>(
+  provider: LLMProvider,
+  task: AITask,
+  model: string,
+  parts: ContentPart[],
+  schema: any,
+  temperature: number,
+  validator: Validator<T>,
+  text: string,
+  signal: AbortSignal
+): Promise<T> => {
+  const parsed = parseJson(text, model);
+
+  let result = validate(validator, parsed);
+  if (result.issues.length > 0) {
+    console.warn(`Response from ${model} needed repairs:`, result.issues);
+  }
+
+  if (result.unrepaired.length > 0) {
+    const missingPaths = result.unrepaired.map(issue => issue.path);
+    const completed = await requestMissingFields(provider, task, model, parts, schema, temperature, parsed, missingPaths, signal);
+    result = validate(validator, completed);
+    if (result.unrepaired.length > 0) {
+      // Still unusable: let the next model try
+      throw new AIError('invalidResponse', `Incomplete response from ${model}: ${result.unrepaired.map(i => i.path).join(', ')}`);
+    }
+  }
+
+  return result.value;
+};
+
+// Deduplicate models to try
+const modelsFor = (primaryModel: string): string[] =>
+  [...new Set([primaryModel, ...FALLBACK_MODELS.filter(m => m !== primaryModel)])];
+
+// Runs `attempt` on each model in turn. Each model gets the retry policy (timeout + backoff);
+// errors no other model can fix (bad key, safety block, cancellation) stop the loop at once.
+const runWithFallback = async <T>(
+  task: AITask,
+  models: string[],
+  options: AICallOptions,
+  attempt: (model: string, signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const policy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    timeoutMs: options.timeoutMs ?? TASK_TIMEOUTS_MS[task] ?? DEFAULT_RETRY_POLICY.timeoutMs,
+  };
+
+  let lastError = new AIError('unknown', 'No model available');
+
+  for (const model of models) {
+    try {
+      return await callWithRetry(signal => attempt(model, signal), options.signal, policy);
+    } catch (error) {
+      const aiError = toAIError(error);
+      if (aiError.fatal) throw aiError;
+      console.warn(`Model ${model} failed (${aiError.kind}):`, aiError.message);
+      lastError = aiError;
       // Continue to next model in the list
     }
   }
@@ -83,13 +187,163 @@ const generateWithFallback = async (
   throw lastError;
 };
 
-export const generateLessonPlanAI = async (request: LessonPlanRequest): Promise<GeneratedLessonPlan> => {
-  const apiKey = getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
-  
-  // Default to gemini-3-pro-preview for complex tasks like lesson planning
-  const requestedModel = request.model || 'gemini-3-pro-preview';
+const generateWithFallback = <T>(
+  task: AITask,
+  primaryModel: string, 
+  parts: ContentPart[], 
+  schema: any, 
+  temperature: number,
+  validator: Validator<T>,
+  options: AICallOptions = {}
+): Promise<T> => {
+  const provider = getProvider();
+
+  return runWithFallback(task, modelsFor(primaryModel), options, async (model, signal) => {
+    const text = await tracked(task, model, () => provider.generateStructured({ task, model, parts, schema, temperature, signal }));
+    return parseAndValidate(provider, task, model, parts, schema, temperature, validator, text, signal);
+  });
+};
+
+// generateWithFallback behind the response cache, keyed on the caller's request object
+const generateCached = <T>(
+  request: object,
+  task: AITask,
+  primaryModel: string,
+  parts: ContentPart[],
+  schema: any,
+  temperature: number,
+  validator: Validator<T>,
+  options: AICallOptions = {}
+): Promise<T> =>
+  withResponseCache({ task, model: primaryModel, promptVersion: PROMPT_VERSIONS[task], request }, options, () =>
+    generateWithFallback(task, primaryModel, parts, schema, temperature, validator, options)
+  );
+
+// Shared by full generation and single-section regeneration
+const LESSON_PLAN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    generalData: {
+      type: Type.OBJECT,
+      properties: {
+        subject: { type: Type.STRING },
+        grade: { type: Type.STRING },
+        unit: { type: Type.STRING },
+        achievementIndicator: { type: Type.STRING },
+        contentConceptual: { type: Type.STRING },
+      },
+    },
+    faithIntegration: {
+      type: Type.OBJECT,
+      properties: {
+        objective: { type: Type.STRING },
+        bibleVerse: { type: Type.STRING },
+        spiritualConcept: { type: Type.STRING },
+      },
+    },
+    teacherGuide: {
+      type: Type.OBJECT,
+      properties: {
+        priorKnowledge: { type: Type.ARRAY, items: { type: Type.STRING } },
+        differentiation: { type: Type.ARRAY, items: { type: Type.STRING } },
+        keyVocabulary: { type: Type.ARRAY, items: { type: Type.STRING } },
+        methodologicalTips: { type: Type.ARRAY, items: { type: Type.STRING } },
+      }
+    },
+    sequence: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          phase: { type: Type.STRING },
+          title: { type: Type.STRING },
+          activities: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          resources: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          time: { type: Type.STRING },
+        },
+      },
+    },
+    evaluation: {
+      type: Type.OBJECT,
+      properties: {
+        qualitative: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        },
+        quantitative: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        },
+      },
+    },
+    homework: {
+       type: Type.OBJECT,
+       properties: {
+          activity: { type: Type.STRING },
+          evaluationCriteria: { type: Type.STRING }
+       }
+    },
+    resources: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    flashcardPrompts: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    }
+  },
+};
+
+// Textbook sections picked locally arrive either as a PDF cut to their pages or as their plain text
+const sourceDescription = (request: { sourceText?: string; sourceLabel?: string }): string =>
+  request.sourceText
+    ? `The TEXTBOOK EXCERPT below contains only the selected sections of the textbook: ${request.sourceLabel}.`
+    : `The provided PDF contains only the selected pages of the textbook: ${request.sourceLabel}.`;
 
+const ATTACHMENT_DESCRIPTIONS: Record<SourceKind, string> = {
+  pdf: 'PDF document',
+  image: 'photo of textbook pages',
+  docx: 'Word document (text only)',
+  text: 'text document',
+};
+
+const sourceParts = (request: { pdfData?: string; sourceText?: string; attachments?: SourceAttachment[] }): ContentPart[] => {
+  const parts: ContentPart[] = [];
+  if (request.pdfData) {
+    parts.push({ inlineData: { mimeType: "application/pdf", data: request.pdfData } });
+  }
+  if (request.sourceText) {
+    parts.push({ text: `TEXTBOOK EXCERPT:\n${request.sourceText}` });
+  }
+  // Each attachment is announced by name so the model can tell the sources apart
+  request.attachments?.forEach(attachment => {
+    parts.push({ text: `ATTACHED SOURCE "${attachment.fileName}" (${ATTACHMENT_DESCRIPTIONS[attachment.kind]}):` });
+    parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } });
+  });
+  return parts;
+};
+
+const attachmentsInstruction = (attachments: SourceAttachment[] | undefined): string =>
+  attachments?.length
+    ? `\n\nATTACHED SOURCES: Base the content on the ${attachments.length} attached source(s) as well. Photos may be slightly tilted or show parts of neighbouring pages; use only the readable, relevant content.`
+    : '';
+
+// What the plan was generated from, kept on the plan so the teacher can see it later
+const sourceSummaries = (request: LessonPlanRequest, source: ResolvedTextbookSource): SourceSummary[] => [
+  ...(request.textbook && source.textbookTitle
+    ? [{ kind: 'textbook' as const, label: source.sourceLabel ? `${source.textbookTitle}: ${source.sourceLabel}` : source.textbookTitle }]
+    : []),
+  ...(request.attachments ?? []).map(a => ({ kind: a.kind, label: a.fileName, thumbnail: a.thumbnail })),
+];
+
+// `extraInstructions` lets callers (e.g. unit sessions) add context before the requirements
+const buildLessonPlanParts = (request: LessonPlanRequest, extraInstructions?: string): ContentPart[] => {
   let textPrompt = `
     Act as an expert pedagogue for the Nicaraguan Primary Education system, specifically focusing on the Seventh-day Adventist (SDA) curriculum integration.
     
@@ -101,10 +355,14 @@ export const generateLessonPlanAI = async (request: LessonPlanRequest): Promise<
     - Duration: ${request.duration}
   `;
 
-  if (request.sectionNumber) {
+  if (request.sourceLabel) {
+    textPrompt += `\n\nCRITICAL INSTRUCTION: ${sourceDescription(request)} You MUST extract the educational content exclusively from it.`;
+  } else if (request.sectionNumber) {
     textPrompt += `\n\nCRITICAL INSTRUCTION: Analyze the provided PDF document. Locate Section ${request.sectionNumber}. You MUST extract the educational content exclusively from this section.`;
   }
 
+  textPrompt += attachmentsInstruction(request.attachments);
+
   if (request.contentType) {
     textPrompt += `\n\nCONTENT TYPE FOCUS: You must prioritize the '${request.contentType}' aspect of the lesson. 
     - If 'Conceptual', focus on definitions, theories, and facts found in the section.
@@ -112,6 +370,18 @@ export const generateLessonPlanAI = async (request: LessonPlanRequest): Promise<
     - If 'Attitudinal', focus on values, behaviors, and emotional connections found in or related to the section.`;
   }
 
+  if (request.curriculumIndicators?.length) {
+    const [only] = request.curriculumIndicators;
+    textPrompt += request.curriculumIndicators.length === 1
+      ? `\n\nMINED INDICATOR (MANDATORY): Use exactly this official indicator as "achievementIndicator": "${only.text}". Build the whole plan around it.`
+      : `\n\nMINED INDICATORS: "achievementIndicator" MUST be copied word for word from ONE of these official indicators (the one that best fits the topic):
+    ${request.curriculumIndicators.map(i => `- ${i.text}`).join('\n    ')}`;
+  }
+
+  if (extraInstructions) {
+    textPrompt += `\n\n${extraInstructions}`;
+  }
+
   textPrompt += `
     REQUIREMENTS:
     1. Align "Indicador de Logro" with MINED (Nicaragua Ministry of Education) standards.
@@ -129,115 +399,293 @@ export const generateLessonPlanAI = async (request: LessonPlanRequest): Promise<
     Return ONLY JSON matching the specific schema provided. Keep descriptions concise to avoid token limits.
   `;
 
-  const contents: any = {
-    parts: []
+  return [...sourceParts(request), { text: textPrompt }];
+};
+
+// Checks the generated indicator against the catalog indicators the request allowed. A single
+// picked indicator is mandatory, so a deviating answer gets the official wording back.
+const alignToCurriculum = (plan: GeneratedLessonPlan, request: LessonPlanRequest): GeneratedLessonPlan => {
+  const options = request.curriculumIndicators;
+  if (!options?.length) return plan;
+
+  const match = matchIndicator(options, plan.generalData.achievementIndicator);
+  if (match) return { ...plan, curriculumIndicatorId: match.indicator.id };
+
+  console.warn("Generated achievement indicator is not in the MINED catalog:", plan.generalData.achievementIndicator);
+  if (options.length === 1) {
+    return { ...plan, generalData: { ...plan.generalData, achievementIndicator: options[0].text }, curriculumIndicatorId: options[0].id };
+  }
+  return plan;
+};
+
+const withRequestMetadata = (plan: Omit<GeneratedLessonPlan, 'id'>, request: LessonPlanRequest, sources: SourceSummary[] = []): GeneratedLessonPlan => alignToCurriculum({
+  ...plan,
+  id: crypto.randomUUID(),
+  contentType: request.contentType,
+  duration: request.duration,
+  textbook: request.textbook,
+  sources: sources.length ? sources : undefined,
+}, request);
+
+export const generateLessonPlanAI = async (request: LessonPlanRequest, options: AICallOptions = {}): Promise<GeneratedLessonPlan> => {
+  
+  // Default to gemini-3-pro-preview for complex tasks like lesson planning
+  const requestedModel = request.model || 'gemini-3-pro-preview';
+  const source = await resolveTextbookSource(request.textbook);
+  const parts = buildLessonPlanParts({ ...request, ...source });
+
+  const parsedData = await generateCached(request, 'lessonPlan', requestedModel, parts, LESSON_PLAN_SCHEMA, 0.3, lessonPlanValidator, options);
+  return withRequestMetadata(parsedData, request, sourceSummaries(request, source));
+};
+
+// Sections of a streamed plan that are complete so far. An incomplete section is never reported,
+// so the UI does not flicker through half-written text.
+const toProgress = (text: string): LessonPlanProgress => {
+  const { value, completed } = parsePartialJson(text);
+  const partial = (value ?? {}) as Partial<GeneratedLessonPlan>;
+  const sequence = Array.isArray(partial.sequence) ? partial.sequence : [];
+
+  return {
+    generalData: completed.has('generalData') ? partial.generalData : undefined,
+    faithIntegration: completed.has('faithIntegration') ? partial.faithIntegration : undefined,
+    sequence: sequence.filter((_, i) => completed.has(`sequence[${i}]`)),
   };
+};
 
-  if (request.pdfData) {
-    contents.parts.push({
-      inlineData: {
-        mimeType: "application/pdf",
-        data: request.pdfData
+// Streaming variant of generateLessonPlanAI. `onProgress` fires whenever another section is complete;
+// the final answer goes through the same validation as the non-streaming path.
+// Aborting `options.signal` stops the stream and rejects with a 'cancelled' AIError.
+// A cached plan is returned at once, without progress events.
+export const generateLessonPlanStreamAI = async (
+  request: LessonPlanRequest,
+  onProgress: (progress: LessonPlanProgress) => void,
+  options: AICallOptions = {}
+): Promise<GeneratedLessonPlan> => {
+
+  const requestedModel = request.model || 'gemini-3-pro-preview';
+  const source = await resolveTextbookSource(request.textbook);
+  const parts = buildLessonPlanParts({ ...request, ...source });
+  const provider = getProvider();
+
+  const cacheScope = { task: 'lessonPlan' as const, model: requestedModel, promptVersion: PROMPT_VERSIONS.lessonPlan, request };
+  const parsedData = await withResponseCache(cacheScope, options, () => runWithFallback('lessonPlan', modelsFor(requestedModel), options, async (model, signal) => {
+    onProgress({ sequence: [] }); // Every attempt starts from scratch
+    const started = performance.now();
+    let text = '';
+    let usage: TokenUsage | undefined;
+    let reported = 0;
+    for await (const chunk of provider.generateStructuredStream({ task: 'lessonPlan', model, parts, schema: LESSON_PLAN_SCHEMA, temperature: 0.3, signal })) {
+      text += chunk.text;
+      usage = chunk.usage ?? usage;
+      const progress = toProgress(text);
+      const sections = (progress.generalData ? 1 : 0) + (progress.faithIntegration ? 1 : 0) + progress.sequence.length;
+      if (sections > reported) {
+        reported = sections;
+        onProgress(progress);
       }
-    });
+    }
+    recordUsage('lessonPlan', model, usage, performance.now() - started);
+    return parseAndValidate(provider, 'lessonPlan', model, parts, LESSON_PLAN_SCHEMA, 0.3, lessonPlanValidator, text, signal);
+  }));
+
+  return withRequestMetadata(parsedData, request, sourceSummaries(request, source));
+};
+
+// UNIT PLANNING
+// A unit is generated in two steps: an overview that fixes every session's topic, indicator,
+// vocabulary and Bible focus, then one full lesson plan per session built from that outline.
+
+export const generateUnitOverviewAI = async (request: UnitPlanRequest, options: AICallOptions = {}): Promise<UnitOverview> => {
+
+  let textPrompt = `
+    Act as an expert pedagogue for the Nicaraguan Primary Education system, specifically focusing on the Seventh-day Adventist (SDA) curriculum integration.
+
+    Plan a teaching UNIT of exactly ${request.sessionCount} consecutive class sessions for:
+    - Subject: ${request.subject}
+    - Grade: ${request.grade}
+    - Unit: ${request.unitTitle}
+    - Duration of each session: ${request.duration}
+    ${request.biblicalFocus ? `- Starting Value/Verse: ${request.biblicalFocus}` : ''}
+  `;
+
+  const source = { ...request, ...await resolveTextbookSource(request.textbook) };
+  if (source.sourceLabel) {
+    textPrompt += `\n\nCRITICAL INSTRUCTION: ${sourceDescription(source)} Distribute its content across the sessions, in the order of the book.`;
+  } else if (request.sectionNumber) {
+    textPrompt += `\n\nCRITICAL INSTRUCTION: Analyze the provided PDF document. Locate Section ${request.sectionNumber}. Distribute the content of this section across the sessions, in the order of the book.`;
   }
+  textPrompt += attachmentsInstruction(request.attachments);
+
+  textPrompt += `
+    REQUIREMENTS:
+    1. The sessions form a progression: each one "buildsOn" the achievement indicator and vocabulary of the previous one. Do not repeat topics.
+    2. Every "achievementIndicator" must be aligned with MINED (Nicaragua Ministry of Education) standards and be observable.
+    3. "keyVocabulary": 2-4 new terms per session; later sessions may use earlier terms but must not re-introduce them.
+    4. "faithThread": describe how the Bible focus grows across the unit. Each session's "bibleFocus" (verse + short idea) is one step of that thread, not an unrelated verse.
+    5. "finalAssessment": one summative activity for the end of the unit.
+    Language: Spanish.
 
-  contents.parts.push({ text: textPrompt });
+    Return ONLY JSON matching the specific schema provided.
+  `;
 
   const responseSchema = {
     type: Type.OBJECT,
     properties: {
-      generalData: {
-        type: Type.OBJECT,
-        properties: {
-          subject: { type: Type.STRING },
-          grade: { type: Type.STRING },
-          unit: { type: Type.STRING },
-          achievementIndicator: { type: Type.STRING },
-          contentConceptual: { type: Type.STRING },
-        },
-      },
-      faithIntegration: {
-        type: Type.OBJECT,
-        properties: {
-          objective: { type: Type.STRING },
-          bibleVerse: { type: Type.STRING },
-          spiritualConcept: { type: Type.STRING },
-        },
-      },
-      teacherGuide: {
-        type: Type.OBJECT,
-        properties: {
-          priorKnowledge: { type: Type.ARRAY, items: { type: Type.STRING } },
-          differentiation: { type: Type.ARRAY, items: { type: Type.STRING } },
-          keyVocabulary: { type: Type.ARRAY, items: { type: Type.STRING } },
-          methodologicalTips: { type: Type.ARRAY, items: { type: Type.STRING } },
-        }
-      },
-      sequence: {
+      unitTitle: { type: Type.STRING },
+      generalObjective: { type: Type.STRING },
+      faithThread: { type: Type.STRING },
+      finalAssessment: { type: Type.STRING },
+      sessions: {
         type: Type.ARRAY,
         items: {
           type: Type.OBJECT,
           properties: {
-            phase: { type: Type.STRING },
-            title: { type: Type.STRING },
-            activities: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            resources: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            time: { type: Type.STRING },
+            sessionNumber: { type: Type.INTEGER },
+            topic: { type: Type.STRING },
+            achievementIndicator: { type: Type.STRING },
+            keyVocabulary: { type: Type.ARRAY, items: { type: Type.STRING } },
+            bibleFocus: { type: Type.STRING },
+            buildsOn: { type: Type.STRING },
           },
         },
       },
-      evaluation: {
-        type: Type.OBJECT,
-        properties: {
-          qualitative: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          },
-          quantitative: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          },
-        },
-      },
-      homework: {
-         type: Type.OBJECT,
-         properties: {
-            activity: { type: Type.STRING },
-            evaluationCriteria: { type: Type.STRING }
-         }
-      },
-      resources: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      },
-      flashcardPrompts: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
     },
   };
 
-  try {
-    const parsedData = await generateWithFallback(ai, requestedModel, contents, responseSchema, 0.3);
-    return {
-      ...parsedData,
-      id: crypto.randomUUID(),
-    };
-  } catch (error) {
-    throw error;
+  const parts: ContentPart[] = [...sourceParts(source), { text: textPrompt }];
+
+  const overview = await generateCached(request, 'unitOverview', request.model || 'gemini-3-pro-preview', parts, responseSchema, 0.4, unitOverviewValidator, options);
+
+  // Session numbers are positional; the model sometimes skips or repeats them
+  return {
+    ...overview,
+    unitTitle: overview.unitTitle || request.unitTitle,
+    sessions: overview.sessions.slice(0, request.sessionCount).map((session, i) => ({ ...session, sessionNumber: i + 1 })),
+  };
+};
+
+// Generates one session as a full lesson plan. Continuity comes from the outline plus the
+// previous session as actually generated (it may have been edited or regenerated since).
+// Regenerating a session is the same call with `options.force`.
+export const generateUnitSessionAI = async (request: UnitSessionRequest, options: AICallOptions = {}): Promise<GeneratedLessonPlan> => {
+
+  const { unit, overview, sessionNumber, previousPlan } = request;
+  const outline = overview.sessions[sessionNumber - 1];
+  if (!outline) throw new AIError('invalidResponse', `The unit has no session ${sessionNumber}`);
+  const previousOutline = overview.sessions[sessionNumber - 2];
+  const nextOutline = overview.sessions[sessionNumber];
+
+  const previousIndicator = previousPlan?.generalData.achievementIndicator || previousOutline?.achievementIndicator;
+  const previousVocabulary = previousPlan?.teacherGuide?.keyVocabulary?.length
+    ? previousPlan.teacherGuide.keyVocabulary
+    : previousOutline?.keyVocabulary ?? [];
+  const previousVerse = previousPlan?.faithIntegration.bibleVerse || previousOutline?.bibleFocus;
+
+  const continuity = `
+    UNIT CONTEXT: This is session ${sessionNumber} of ${overview.sessions.length} of the unit "${overview.unitTitle}".
+    - Unit objective: ${overview.generalObjective}
+    - Faith thread of the unit: ${overview.faithThread}
+    - Achievement indicator for THIS session (use it as "achievementIndicator"): ${outline.achievementIndicator}
+    - Key vocabulary to introduce: ${outline.keyVocabulary.join(', ')}
+    - Bible focus for THIS session: ${outline.bibleFocus}
+    ${previousIndicator ? `- PREVIOUS SESSION achieved: ${previousIndicator}. "Prior Knowledge" and the Ambientar phase must start from it.` : '- This is the first session: activate knowledge from previous grades.'}
+    ${previousVocabulary.length ? `- Vocabulary already introduced (use it, do not define it again): ${previousVocabulary.join(', ')}` : ''}
+    ${previousVerse ? `- Previous Bible focus: ${previousVerse}. Show how today's focus continues it.` : ''}
+    ${nextOutline ? `- NEXT SESSION will cover "${nextOutline.topic}"; close the Aplicar phase and the homework so they lead into it.` : '- This is the last session: close the unit and prepare for the final assessment: ' + overview.finalAssessment}
+    Use "${overview.unitTitle}" as the "unit" in General Data.
+  `;
+
+  const lessonRequest: LessonPlanRequest = {
+    subject: unit.subject,
+    grade: unit.grade,
+    topic: outline.topic,
+    duration: unit.duration,
+    biblicalFocus: outline.bibleFocus,
+    pdfData: unit.pdfData,
+    sourceText: unit.sourceText,
+    sourceLabel: unit.sourceLabel,
+    textbook: unit.textbook,
+    attachments: unit.attachments,
+    sectionNumber: unit.sectionNumber,
+    contentType: unit.contentType,
+    model: unit.model,
+  };
+
+  const requestedModel = unit.model || 'gemini-3-pro-preview';
+  const source = await resolveTextbookSource(lessonRequest.textbook);
+  const parts = buildLessonPlanParts({ ...lessonRequest, ...source }, continuity);
+
+  // Keyed on the continuity too, so a session regenerated after its predecessor changed is not stale
+  const cacheRequest = { ...lessonRequest, sessionNumber, outline, previousIndicator, previousVocabulary, previousVerse, nextTopic: nextOutline?.topic };
+  const parsedData = await generateCached(cacheRequest, 'unitSession', requestedModel, parts, LESSON_PLAN_SCHEMA, 0.3, lessonPlanValidator, options);
+
+  const plan = withRequestMetadata(parsedData, lessonRequest, sourceSummaries(lessonRequest, source));
+  return { ...plan, generalData: { ...plan.generalData, unit: overview.unitTitle }, sessionNumber };
+};
+
+const SECTION_LABELS: Record<PlanSection, string> = {
+  generalData: 'General Data (unit, achievement indicator, conceptual content)',
+  faithIntegration: 'Faith Integration (objective, Bible verse, spiritual concept)',
+  sequence: 'Methodological Sequence (ACES)',
+  evaluation: 'Evaluation criteria (qualitative and quantitative)',
+  teacherGuide: "Teacher's Guide (prior knowledge, differentiation, key vocabulary, methodological tips)",
+  homework: 'Homework assignment',
+};
+
+// Re-asks the model for a single section, using the rest of the (possibly edited) plan as context.
+// Returns the full plan with only that section replaced.
+// Never cached: regenerating is an explicit request for a different answer.
+export const regeneratePlanSectionAI = async (request: SectionRegenerationRequest, options: AICallOptions = {}): Promise<GeneratedLessonPlan> => {
+
+  const { plan, section, phaseIndex } = request;
+  const singlePhase = section === 'sequence' && phaseIndex !== undefined ? plan.sequence[phaseIndex] : undefined;
+
+  const target = singlePhase
+    ? `ONLY the "${singlePhase.phase}" phase (step ${phaseIndex! + 1}) of the Methodological Sequence`
+    : `ONLY the ${SECTION_LABELS[section]} section`;
+
+  const textPrompt = `
+    Act as an expert pedagogue for the Nicaraguan Primary Education system, specifically focusing on the Seventh-day Adventist (SDA) curriculum integration.
+
+    Below is an existing lesson plan that the teacher has reviewed and possibly edited. Treat every other section as fixed context.
+
+    CURRENT LESSON PLAN:
+    ${JSON.stringify(plan, null, 2)}
+
+    TASK: Rewrite ${target}. Keep it consistent with the rest of the plan (topic, grade, achievement indicator, faith integration and duration).
+    ${singlePhase ? `Keep the phase name "${singlePhase.phase}" and a similar time allocation.` : ''}
+    Language: Spanish.
+
+    Return ONLY JSON matching the specific schema provided.
+  `;
+
+  // Wrapped in an object: the JSON cleanup expects a top-level object, and 'sequence' is an array
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      section: singlePhase ? LESSON_PLAN_SCHEMA.properties.sequence.items : LESSON_PLAN_SCHEMA.properties[section],
+    },
+  };
+
+  const regenerate = async <T>(validator: Validator<{ section: T }>): Promise<T> =>
+    (await generateWithFallback('sectionRegeneration', request.model || 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.5, validator, options)).section;
+
+  if (singlePhase) {
+    const result = await regenerate(planPhaseValidator);
+    const sequence = plan.sequence.map((step, i) => i === phaseIndex ? { ...result, phase: singlePhase.phase } : step);
+    return { ...plan, sequence };
+  }
+
+  if (section === 'generalData') {
+    const result = await regenerate(planSectionValidator('generalData'));
+    // Subject and grade identify the plan; never let a regeneration move it elsewhere
+    return { ...plan, generalData: { ...result, subject: plan.generalData.subject, grade: plan.generalData.grade } };
   }
+
+  return { ...plan, [section]: await regenerate(planSectionValidator(section)) };
 };
 
-export const generateHomeReviewAI = async (request: HomeReviewRequest): Promise<GeneratedHomeReview> => {
-  const apiKey = getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
+export const generateHomeReviewAI = async (request: HomeReviewRequest, options: AICallOptions = {}): Promise<GeneratedHomeReview> => {
 
   const textPrompt = `
     Act as a friendly and professional teacher at an Adventist School in Nicaragua.
@@ -267,21 +715,52 @@ export const generateHomeReviewAI = async (request: HomeReviewRequest): Promise<
   };
 
   // Use gemini-3-flash-preview for basic text tasks
-  return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.5);
+  return generateCached(request, 'homeReview', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.5, homeReviewValidator, options);
 };
 
-export const generateAssessmentAI = async (request: AssessmentRequest): Promise<GeneratedAssessment> => {
-  const apiKey = getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
+// How each item type must be written; the keys are the values of QuizQuestion.type
+const ITEM_TYPE_INSTRUCTIONS: Record<QuizItemType, string> = {
+  multipleChoice: '4 options; "correctAnswer" is the exact text of the right option.',
+  trueFalse: 'a statement; "options" is ["Verdadero", "Falso"] and "correctAnswer" one of them.',
+  fillBlank: 'a sentence with the missing word(s) written as "_____"; "correctAnswer" is only the missing word(s); no options.',
+  matching: '"question" is the instruction; 4 to 5 "pairs" (left: term, right: its match); no options.',
+  shortAnswer: 'answered with a word, a number or one sentence; "correctAnswer" is the expected answer; no options.',
+  ordering: '"question" is the instruction; "sequence" has 4 to 6 elements (steps, events, quantities) in the CORRECT order; no options.',
+  openResponse: 'answered with a paragraph; "correctAnswer" lists what a complete answer must include; no options.',
+};
+
+// The plan's indicator, so the assessment measures what the lesson set out to achieve
+const assessmentGrounding = (request: AssessmentRequest): string =>
+  request.achievementIndicator
+    ? `ACHIEVEMENT INDICATOR: "${request.achievementIndicator}". Everything must gather evidence of this indicator, not just mention the topic.`
+    : '';
+
+export const generateAssessmentAI = async (request: AssessmentRequest, options: AICallOptions = {}): Promise<GeneratedAssessment> => {
 
   let prompt = "";
   // Initialize responseSchema explicitly to avoid type issues or sending empty objects
   let responseSchema: any = null;
+  let parts: ContentPart[] = [];
+  const items = expandItemSpecs(request.items ?? DEFAULT_ITEM_SPECS);
 
   if (request.type === 'QUIZ') {
-    prompt = `Create a 5-question Multiple Choice Quiz for ${request.grade} students about "${request.topic}". 
-    Include 4 options per question and mark the correct answer. The language must be Spanish.`;
-    
+    prompt = `Create a quiz of exactly ${items.length} items for ${request.grade} students about "${request.topic}"${request.subject ? ` (${request.subject})` : ''}. The language must be Spanish.
+    ${assessmentGrounding(request)}
+
+    ITEMS (write them in this order, one per line; each item must require the indicated cognitive level):
+    ${items.map((item, i) => `${i + 1}. type "${item.type}", ${item.points} point(s), Bloom level "${item.bloomLevel}" (Webb DOK ${WEBB_LEVELS[item.bloomLevel]})`).join('\n    ')}
+
+    ITEM TYPES:
+    ${Object.entries(ITEM_TYPE_INSTRUCTIONS).map(([type, instruction]) => `- ${type}: ${instruction}`).join('\n    ')}`;
+
+    // The plan's textbook section, so items use its content and examples. A book removed from
+    // the library since the plan was made only loses that grounding.
+    const source = await resolveTextbookSource(request.textbook).catch(() => ({} as ResolvedTextbookSource));
+    if (source.sourceLabel) {
+      prompt += `\n\nSOURCE: ${sourceDescription(source)} Base every item exclusively on its content, vocabulary and examples.`;
+    }
+    parts = sourceParts(source);
+
     responseSchema = {
       type: Type.OBJECT,
       properties: {
@@ -293,9 +772,20 @@ export const generateAssessmentAI = async (request: AssessmentRequest): Promise<
                items: {
                  type: Type.OBJECT,
                  properties: {
+                   type: { type: Type.STRING, description: `One of: ${Object.keys(ITEM_TYPE_INSTRUCTIONS).join(', ')}` },
                    question: { type: Type.STRING },
                    options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                   correctAnswer: { type: Type.STRING }
+                   correctAnswer: { type: Type.STRING },
+                   points: { type: Type.NUMBER },
+                   bloomLevel: { type: Type.STRING, description: "One of: remember, understand, apply, analyze, evaluate, create" },
+                   pairs: {
+                     type: Type.ARRAY,
+                     items: {
+                       type: Type.OBJECT,
+                       properties: { left: { type: Type.STRING }, right: { type: Type.STRING } }
+                     }
+                   },
+                   sequence: { type: Type.ARRAY, items: { type: Type.STRING } }
                  }
                }
              }
@@ -305,7 +795,8 @@ export const generateAssessmentAI = async (request: AssessmentRequest): Promise<
     };
   } else {
     prompt = `Create a Grading Rubric (Rúbrica de Evaluación) for a project or activity about "${request.topic}" for ${request.grade} students.
-    Include 3-4 criteria rows. Columns should be: Criteria, Excellent, Good, Needs Improvement. Language: Spanish.`;
+    Include 3-4 criteria rows. Columns should be: Criteria, Excellent, Good, Needs Improvement. Language: Spanish.
+    ${assessmentGrounding(request)}`;
 
     responseSchema = {
       type: Type.OBJECT,
@@ -331,12 +822,11 @@ export const generateAssessmentAI = async (request: AssessmentRequest): Promise<
     };
   }
 
-  return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: prompt }] }, responseSchema, 0.4);
+  const assessment = await generateCached(request, 'assessment', 'gemini-3-flash-preview', [...parts, { text: prompt }], responseSchema, 0.4, assessmentValidator(request.type), options);
+  return assessment.quiz ? { ...assessment, quiz: { questions: applyItemSpecs(assessment.quiz.questions, items) } } : assessment;
 };
 
-export const generateAdaptationAI = async (request: AdaptationRequest): Promise<GeneratedAdaptation> => {
-  const apiKey = getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
+export const generateAdaptationAI = async (request: AdaptationRequest, options: AICallOptions = {}): Promise<GeneratedAdaptation> => {
 
   const textPrompt = `
     Act as a Special Education Specialist. Provide specific curricular adaptations for a lesson about "${request.topic}" for a ${request.grade} student with ${request.needType} (e.g. ADHD, Dyslexia, etc).
@@ -358,12 +848,10 @@ export const generateAdaptationAI = async (request: AdaptationRequest): Promise<
     },
   };
 
-  return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.4);
+  return generateCached(request, 'adaptation', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.4, adaptationValidator, options);
 };
 
-export const generateDynamicsAI = async (request: DynamicsRequest): Promise<GeneratedDynamics> => {
-  const apiKey = getApiKey();
-  const ai = new GoogleGenAI({ apiKey });
+export const generateDynamicsAI = async (request: DynamicsRequest, options: AICallOptions = {}): Promise<GeneratedDynamics> => {
 
   const textPrompt = `
     Suggest 3 educational games or gamification dynamics for a class about "${request.topic}" (Grade: ${request.grade}).
@@ -394,12 +882,10 @@ export const generateDynamicsAI = async (request: DynamicsRequest): Promise<Gene
     },
   };
 
-  return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.7);
+  return generateCached(request, 'dynamics', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.7, dynamicsValidator, options);
 };
 
-export const generateWorksheetAI = async (request: WorksheetRequest): Promise<GeneratedWorksheet> => {
-    const apiKey = getApiKey();
-    const ai = new GoogleGenAI({ apiKey });
+export const generateWorksheetAI = async (request: WorksheetRequest, options: AICallOptions = {}): Promise<GeneratedWorksheet> => {
   
     const textPrompt = `
       Create a Student Worksheet (Hoja de Trabajo) for printing.
@@ -430,12 +916,10 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
       },
     };
   
-    return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.5);
+    return generateCached(request, 'worksheet', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.5, worksheetValidator, options);
   };
   
-  export const generateWhiteboardAI = async (request: WhiteboardRequest): Promise<GeneratedWhiteboard> => {
-    const apiKey = getApiKey();
-    const ai = new GoogleGenAI({ apiKey });
+  export const generateWhiteboardAI = async (request: WhiteboardRequest, options: AICallOptions = {}): Promise<GeneratedWhiteboard> => {
   
     const textPrompt = `
       Create a Classroom Whiteboard Layout Plan.
@@ -466,12 +950,10 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
       },
     };
   
-    return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.4);
+    return generateCached(request, 'whiteboard', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.4, whiteboardValidator, options);
   };
 
-  export const generateSlidesAI = async (request: SlidesRequest): Promise<GeneratedSlides> => {
-    const apiKey = getApiKey();
-    const ai = new GoogleGenAI({ apiKey });
+  export const generateSlidesAI = async (request: SlidesRequest, options: AICallOptions = {}): Promise<GeneratedSlides> => {
   
     const textPrompt = `
       Create a Presentation Structure (5-7 slides) for a class.
@@ -485,6 +967,7 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
       2. Bullet points (short content).
       3. Speaker Notes (what the teacher should say).
       4. Visual Suggestion (description of an image).
+      5. isFaithIntegration: true only for the Faith Integration slide, false for every other slide.
       
       Language: Spanish.
     `;
@@ -501,19 +984,18 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
               title: { type: Type.STRING },
               bullets: { type: Type.ARRAY, items: { type: Type.STRING } },
               speakerNotes: { type: Type.STRING },
-              visualSuggestion: { type: Type.STRING }
+              visualSuggestion: { type: Type.STRING },
+              isFaithIntegration: { type: Type.BOOLEAN }
             }
           }
         }
       },
     };
   
-    return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.5);
+    return generateCached(request, 'slides', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.5, slidesValidator, options);
   };
 
-  export const generateVocabularyAI = async (request: VocabularyRequest): Promise<GeneratedVocabulary> => {
-    const apiKey = getApiKey();
-    const ai = new GoogleGenAI({ apiKey });
+  export const generateVocabularyAI = async (request: VocabularyRequest, options: AICallOptions = {}): Promise<GeneratedVocabulary> => {
   
     const textPrompt = `
       Create a list of 8 Vocabulary Flashcards for printing based on the topic: ${request.topic} (Grade: ${request.grade}).
@@ -543,16 +1025,15 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
       },
     };
   
-    return generateWithFallback(ai, 'gemini-3-flash-preview', { parts: [{ text: textPrompt }] }, responseSchema, 0.5);
+    return generateCached(request, 'vocabulary', 'gemini-3-flash-preview', [{ text: textPrompt }], responseSchema, 0.5, vocabularyValidator, options);
   };
 
   export const chatWithLessonPlan = async (
     plan: GeneratedLessonPlan, 
     history: { role: 'user' | 'model'; text: string }[], 
-    newMessage: string
+    newMessage: string,
+    options: AICallOptions = {}
   ): Promise<string> => {
-    const apiKey = getApiKey();
-    const ai = new GoogleGenAI({ apiKey });
   
     // Serialize plan to provide context
     const context = JSON.stringify(plan, null, 2);
@@ -573,37 +1054,18 @@ export const generateWorksheetAI = async (request: WorksheetRequest): Promise<Ge
       Keep answers concise, practical, and encouraging. Use formatting (bolding, lists) to make it readable.
     `;
   
-    // Construct history with correct role mapping for Gemini
-    const chatHistory = history.map(msg => ({
-      role: msg.role,
-      parts: [{ text: msg.text }]
-    }));
-  
-    try {
-      const createChatAndSend = async (model: string) => {
-          const chat = ai.chats.create({
-            model: model,
-            config: {
-              systemInstruction: systemInstruction,
-              temperature: 0.7
-            },
-            history: chatHistory
-          });
-          const result = await chat.sendMessage({ message: newMessage });
-          return result.text;
-      };
-
-      try {
-         // Try preferred model for chat
-         return await createChatAndSend('gemini-3-flash-preview');
-      } catch (e) {
-         console.warn("Chat failed on gemini-3-flash-preview, retrying...");
-         // If fails, maybe try pro or just throw
-         return await createChatAndSend('gemini-3-pro-preview');
-      }
+    const provider = getProvider();
 
-    } catch (error) {
-      console.error("Chat Error:", error);
-      throw error;
-    }
-  };
\ No newline at end of file
+    // Preferred model for chat first, PRO if it keeps failing
+    return runWithFallback('chat', ['gemini-3-flash-preview', 'gemini-3-pro-preview'], options, (model, signal) =>
+      tracked('chat', model, () => provider.chat({
+        task: 'chat',
+        model: model,
+        systemInstruction: systemInstruction,
+        history: history,
+        message: newMessage,
+        temperature: 0.7,
+        signal,
+      }))
+    );
+  };
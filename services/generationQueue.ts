@@ -0,0 +1,118 @@
+import { GeneratedLessonPlan, GenerationQueueState, PlanResources, QueuedGeneration, QueuedJob, QueuedResourceJob } from "../types";
+import { generateLessonPlanAI, generateAssessmentAI, generateAdaptationAI, generateDynamicsAI, generateWorksheetAI, generateWhiteboardAI, generateSlidesAI, generateVocabularyAI } from "./geminiService";
+import { toAIError } from "./aiErrors";
+import { loadSettings } from "./settingsService";
+import { deleteQueuedGeneration, listQueuedGenerations, putQueuedGeneration, updatePlanResources } from "./storageService";
+
+// OFFLINE GENERATION QUEUE
+// Without a connection, generation requests are stored instead of failing and run once it returns.
+// The queue lives in IndexedDB, so it survives closing the app while offline; components follow
+// it through subscribeToQueue.
+
+type QueueListener = (state: GenerationQueueState) => void;
+
+const listeners = new Set<QueueListener>();
+let state: GenerationQueueState = { jobs: [], runningId: null };
+let loaded: Promise<void> | null = null;
+let running: Promise<void> | null = null;
+let runningIncludesFailed = false;
+
+const publish = (patch: Partial<GenerationQueueState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+};
+
+const reload = async () => publish({ jobs: await listQueuedGenerations() });
+
+const ensureLoaded = (): Promise<void> =>
+  loaded ??= reload().catch(error => console.error("Could not load the generation queue:", error));
+
+// The listener gets the current state at once and after every change; returns the unsubscribe
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  listener(state);
+  ensureLoaded();
+  return () => { listeners.delete(listener); };
+};
+
+// The demo provider answers from fixtures, so only a real provider has to wait for a connection
+export const shouldQueue = (error?: unknown): boolean => {
+  if (loadSettings().aiProvider === 'mock') return false;
+  if (!navigator.onLine) return true;
+  return error !== undefined && toAIError(error).kind === 'network';
+};
+
+export const enqueueGeneration = async (label: string, job: QueuedJob): Promise<QueuedGeneration> => {
+  const queued: QueuedGeneration = { id: crypto.randomUUID(), label, job, createdAt: new Date().toISOString() };
+  await putQueuedGeneration(queued);
+  await reload();
+  return queued;
+};
+
+export const discardQueuedGeneration = async (id: string): Promise<void> => {
+  await deleteQueuedGeneration(id);
+  await reload();
+};
+
+const generateResource = async (job: QueuedResourceJob): Promise<Omit<Partial<PlanResources>, 'planId'>> => {
+  switch (job.resource) {
+    case 'assessment': return { assessment: await generateAssessmentAI(job.request) };
+    case 'adaptation': return { adaptation: await generateAdaptationAI(job.request) };
+    case 'dynamics': return { dynamics: await generateDynamicsAI(job.request) };
+    case 'worksheet': return { worksheet: await generateWorksheetAI(job.request) };
+    case 'whiteboard': return { whiteboard: await generateWhiteboardAI(job.request) };
+    case 'slides': return { slides: await generateSlidesAI(job.request) };
+    case 'vocabulary': return { vocabulary: await generateVocabularyAI(job.request) };
+  }
+};
+
+const runJob = async (job: QueuedJob, onPlanGenerated: (plan: GeneratedLessonPlan) => Promise<void>) => {
+  if (job.kind === 'lessonPlan') {
+    await onPlanGenerated(await generateLessonPlanAI(job.request));
+  } else {
+    await updatePlanResources(job.planId, await generateResource(job));
+  }
+};
+
+// Runs the queued jobs oldest first and stops at the first network failure (the connection
+// dropped again). Any other failure keeps the job with its error kind; those are skipped on
+// automatic runs until the teacher retries them (`includeFailed`) or discards them.
+// Concurrent calls share the run in progress; a retry asked for during a run that skips failed
+// jobs gets its own pass once that run ends.
+export const runGenerationQueue = (
+  onPlanGenerated: (plan: GeneratedLessonPlan) => Promise<void>,
+  { includeFailed = false }: { includeFailed?: boolean } = {}
+): Promise<void> => {
+  if (running) {
+    if (!includeFailed || runningIncludesFailed) return running;
+    return running.then(() => runGenerationQueue(onPlanGenerated, { includeFailed }));
+  }
+  runningIncludesFailed = includeFailed;
+  running = (async () => {
+    try {
+      await ensureLoaded();
+      for (const queued of state.jobs) {
+        if (queued.lastErrorKind && !includeFailed) continue;
+        if (!navigator.onLine) break;
+        publish({ runningId: queued.id });
+        try {
+          await runJob(queued.job, onPlanGenerated);
+          await deleteQueuedGeneration(queued.id);
+        } catch (error) {
+          const kind = toAIError(error).kind;
+          if (kind === 'network') break;
+          console.error(`Queued generation "${queued.label}" failed:`, error);
+          await putQueuedGeneration({ ...queued, lastErrorKind: kind });
+        } finally {
+          await reload();
+        }
+      }
+    } catch (error) {
+      console.error("Could not run the generation queue:", error);
+    } finally {
+      publish({ runningId: null });
+      running = null;
+    }
+  })();
+  return running;
+};
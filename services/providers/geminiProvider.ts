@@ -0,0 +1,100 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AIError } from "../aiErrors";
+import { LLMProvider, TokenUsage } from "./types";
+
+// Helper to ensure API key is present
+const getApiKey = (): string => {
+  const key = process.env.API_KEY;
+  if (!key) {
+    console.error("API Key not found in environment");
+    throw new AIError('key', "API Key missing");
+  }
+  return key;
+};
+
+// A blocked prompt or answer comes back as an empty response, not as an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new AIError('safety', `Blocked by safety filters (${blockReason || finishReason})`);
+  }
+};
+
+// Thinking tokens are billed as output
+const usageOf = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount ?? 0,
+    outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+  };
+};
+
+export const createGeminiProvider = (): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+
+  return {
+    id: 'gemini',
+    capabilities: { documents: true },
+
+    async generateStructured({ model, parts, schema, temperature, signal }) {
+      const response = await ai.models.generateContent({
+        model: model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          temperature: temperature,
+          abortSignal: signal,
+          // maxOutputTokens: 8192, // Ensure we have enough space for large JSONs
+        },
+      });
+
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new AIError('invalidResponse', "No text in response");
+      return { text, usage: usageOf(response) };
+    },
+
+    async *generateStructuredStream({ model, parts, schema, temperature, signal }) {
+      const stream = await ai.models.generateContentStream({
+        model: model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          temperature: temperature,
+          abortSignal: signal,
+        },
+      });
+
+      // Usage metadata is cumulative; the last chunk carries the totals
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        usage = usageOf(chunk) ?? usage;
+        if (chunk.text) yield { text: chunk.text };
+      }
+      yield { text: '', usage };
+    },
+
+    async chat({ model, systemInstruction, history, message, temperature, signal }) {
+      // Construct history with correct role mapping for Gemini
+      const chat = ai.chats.create({
+        model: model,
+        config: {
+          systemInstruction: systemInstruction,
+          temperature: temperature
+        },
+        history: history.map(msg => ({
+          role: msg.role,
+          parts: [{ text: msg.text }]
+        }))
+      });
+      const result = await chat.sendMessage({ message, config: { abortSignal: signal } });
+      assertNotBlocked(result);
+      return { text: result.text || '', usage: usageOf(result) };
+    },
+  };
+};
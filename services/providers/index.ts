@@ -0,0 +1,24 @@
+import { AIProviderId } from "../../types";
+import { loadSettings } from "../settingsService";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { LLMProvider } from "./types";
+
+export type { LLMProvider, AITask, ContentPart, ProviderResponse, TokenUsage } from "./types";
+
+// Registry of available backends. A new provider (e.g. a local OpenAI-compatible server)
+// only needs an entry here and an option in settings; generators and components are unaffected.
+const PROVIDER_FACTORIES: Record<AIProviderId, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+const isProviderId = (id: unknown): id is AIProviderId =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(PROVIDER_FACTORIES, id);
+
+// Resolved on every call so a change in settings applies to the next generation. Stored settings
+// and AI_PROVIDER are not checked when read, so an unknown or outdated id falls back to Gemini
+export const getProvider = (): LLMProvider => {
+  const id = loadSettings().aiProvider;
+  return PROVIDER_FACTORIES[isProviderId(id) ? id : 'gemini']();
+};
@@ -0,0 +1,189 @@
+import { AITask } from "./types";
+
+// Canned answers for the mock provider. They mirror real model output closely enough to
+// exercise every screen: complete, in Spanish, and valid against the response validators.
+const LESSON_PLAN = {
+  generalData: {
+    subject: 'Matemáticas',
+    grade: '5to Grado',
+    unit: 'Fracciones',
+    achievementIndicator: 'Resuelve sumas de fracciones con igual denominador en situaciones de la vida cotidiana.',
+    contentConceptual: 'Suma de fracciones homogéneas',
+  },
+  faithIntegration: {
+    objective: 'Reconocer que compartir con otros, como repartir un pan en partes iguales, refleja el amor de Jesús.',
+    bibleVerse: 'Juan 6:11',
+    spiritualConcept: 'Generosidad',
+  },
+  teacherGuide: {
+    priorKnowledge: ['Concepto de fracción', 'Numerador y denominador', 'Representación gráfica de fracciones'],
+    differentiation: [
+      'Usar material concreto (tiras de papel) con estudiantes que aún no abstraen.',
+      'Proponer problemas con tres sumandos a estudiantes avanzados.',
+    ],
+    keyVocabulary: ['Fracción', 'Numerador', 'Denominador', 'Fracciones homogéneas'],
+    methodologicalTips: [
+      'Iniciar con un problema del contexto escolar (repartir una pizza).',
+      'Verificar cada paso con representación gráfica antes del algoritmo.',
+    ],
+  },
+  sequence: [
+    {
+      phase: 'Ambientar',
+      title: 'Oración y el pan compartido',
+      activities: ['Oración inicial.', 'Lectura de Juan 6:11 y conversación sobre compartir en partes iguales.'],
+      resources: ['Biblia'],
+      time: '10 min',
+    },
+    {
+      phase: 'Reflexionar',
+      title: '¿Cuánto comimos?',
+      activities: ['Problema: Ana comió 2/8 de pizza y Luis 3/8. ¿Cuánto comieron juntos?', 'Lluvia de ideas en parejas.'],
+      resources: ['Pizarra', 'Círculos de papel'],
+      time: '15 min',
+    },
+    {
+      phase: 'Conceptualizar',
+      title: 'Sumando partes iguales',
+      activities: ['Representar las fracciones con círculos divididos.', 'Deducir la regla: se suman los numeradores y se conserva el denominador.'],
+      resources: ['Material concreto'],
+      time: '25 min',
+    },
+    {
+      phase: 'Aplicar',
+      title: 'Práctica guiada',
+      activities: ['Resolver 6 ejercicios del libro de texto.', 'Crear un problema propio y compartirlo.'],
+      resources: ['Libro de texto', 'Cuaderno'],
+      time: '30 min',
+    },
+    {
+      phase: 'Evaluar',
+      title: 'Boleto de salida',
+      activities: ['Resolver dos sumas en una tarjeta y entregarla al salir.'],
+      resources: ['Tarjetas'],
+      time: '10 min',
+    },
+  ],
+  evaluation: {
+    qualitative: ['Explica el procedimiento con sus palabras.', 'Representa gráficamente la suma.', 'Trabaja con respeto en pareja.'],
+    quantitative: ['Resuelve correctamente al menos 5 de 6 ejercicios.'],
+  },
+  homework: {
+    activity: 'Escribir una receta familiar que use fracciones y sumar dos de sus ingredientes.',
+    evaluationCriteria: 'Suma correcta y representación gráfica.',
+  },
+  resources: ['Libro de texto de Matemáticas 5to grado', 'Círculos de papel', 'Tarjetas'],
+  flashcardPrompts: [
+    'A pizza divided into 8 equal slices, 5 highlighted, flat illustration for children',
+    'Bread loaf shared among children, warm colors, educational poster style',
+  ],
+};
+
+export const MOCK_FIXTURES: Partial<Record<AITask, unknown>> = {
+  lessonPlan: LESSON_PLAN,
+  unitSession: LESSON_PLAN,
+
+  homeReview: {
+    message: '📢 ¡Bendiciones, familia!\n\n🧠 Hoy aprendimos a sumar fracciones con igual denominador.\n\n🏠 Misión: repartan una fruta en partes iguales y sumen las partes que comió cada quien.\n\n✝️ "Jesús tomó los panes y los repartió" (Juan 6:11).\n\n👋 ¡Feliz semana!',
+  },
+
+  assessment: {
+    quiz: {
+      questions: [
+        { type: 'multipleChoice', question: '¿Cuánto es 2/8 + 3/8?', options: ['5/8', '5/16', '6/8', '1/8'], correctAnswer: '5/8', points: 1, bloomLevel: 'understand' },
+        { type: 'multipleChoice', question: '¿Qué se conserva al sumar fracciones homogéneas?', options: ['El numerador', 'El denominador', 'Ambos', 'Ninguno'], correctAnswer: 'El denominador', points: 1, bloomLevel: 'understand' },
+        { type: 'multipleChoice', question: '¿Cuánto es 4/9 + 4/9?', options: ['8/18', '8/9', '1', '16/9'], correctAnswer: '8/9', points: 1, bloomLevel: 'understand' },
+        { type: 'trueFalse', question: 'Las fracciones 3/7 y 2/7 son homogéneas.', options: ['Verdadero', 'Falso'], correctAnswer: 'Verdadero', points: 1, bloomLevel: 'remember' },
+        { type: 'trueFalse', question: 'Para sumar 1/5 + 2/5 se suman también los denominadores.', options: ['Verdadero', 'Falso'], correctAnswer: 'Falso', points: 1, bloomLevel: 'remember' },
+        { type: 'fillBlank', question: 'El número de abajo de una fracción se llama _____.', options: [], correctAnswer: 'denominador', points: 1, bloomLevel: 'remember' },
+        {
+          type: 'matching', question: 'Relaciona cada suma con su resultado.', options: [], correctAnswer: '1/4 + 2/4 → 3/4; 2/6 + 3/6 → 5/6; 1/3 + 1/3 → 2/3; 3/8 + 3/8 → 6/8', points: 2, bloomLevel: 'understand',
+          pairs: [
+            { left: '1/4 + 2/4', right: '3/4' },
+            { left: '2/6 + 3/6', right: '5/6' },
+            { left: '1/3 + 1/3', right: '2/3' },
+            { left: '3/8 + 3/8', right: '6/8' },
+          ],
+        },
+        {
+          type: 'ordering', question: 'Ordena las fracciones de menor a mayor.', options: [], correctAnswer: '1/7 → 3/7 → 4/7 → 6/7', points: 2, bloomLevel: 'apply',
+          sequence: ['1/7', '3/7', '4/7', '6/7'],
+        },
+        { type: 'shortAnswer', question: 'Ana comió 2/6 de una pizza y Luis 3/6. ¿Qué fracción de la pizza comieron entre los dos?', options: [], correctAnswer: '5/6', points: 2, bloomLevel: 'apply' },
+        { type: 'openResponse', question: 'Pedro dice que 1/4 + 1/4 = 2/8. Explica si tiene razón y cómo se lo demostrarías con un dibujo.', options: [], correctAnswer: 'Indica que no tiene razón; el denominador se conserva (2/4); representa las partes en una misma figura dividida en cuartos.', points: 3, bloomLevel: 'analyze' },
+      ],
+    },
+    rubric: {
+      rows: [
+        { criteria: 'Procedimiento', excellent: 'Aplica la regla sin errores.', good: 'Comete un error menor.', needsImprovement: 'No aplica la regla.' },
+        { criteria: 'Representación', excellent: 'Dibuja con precisión.', good: 'Dibujo con imprecisiones.', needsImprovement: 'No representa.' },
+        { criteria: 'Trabajo en equipo', excellent: 'Colabora activamente.', good: 'Colabora a veces.', needsImprovement: 'No colabora.' },
+      ],
+    },
+  },
+
+  adaptation: {
+    strategies: ['Dividir la tarea en pasos cortos con apoyo visual.', 'Usar material manipulable.', 'Dar tiempo adicional.'],
+    modifiedActivity: 'Sumar fracciones usando tiras de colores antes de escribir la operación.',
+    evaluationAdjustment: 'Evaluar oralmente y con menos ejercicios.',
+  },
+
+  dynamics: {
+    games: [
+      { title: 'Carrera de fracciones', type: 'Activo', instructions: 'Los equipos corren a unir tarjetas cuya suma sea la indicada.', materials: 'Tarjetas' },
+      { title: 'Memoria fraccionaria', type: 'Tranquilo', instructions: 'Emparejar sumas con su resultado.', materials: 'Tarjetas de memoria' },
+      { title: 'Bingo de fracciones', type: 'Competitivo', instructions: 'Marcar el resultado de la suma dictada.', materials: 'Cartones de bingo' },
+    ],
+  },
+
+  worksheet: {
+    title: 'Sumemos fracciones',
+    instructions: 'Lee con atención y resuelve.',
+    sections: [
+      { title: 'Completa las sumas', type: 'text', content: ['1/4 + 2/4 = ___', '3/6 + 2/6 = ___', '2/9 + 5/9 = ___'] },
+      { title: 'Explica con tus palabras', type: 'lines', content: ['¿Por qué se conserva el denominador?'] },
+      { title: 'Dibuja', type: 'box', content: ['Representa 3/8 + 2/8'] },
+    ],
+  },
+
+  whiteboard: {
+    leftPanel: ['Fecha: ____', 'Matemáticas', 'Juan 6:11'],
+    centerPanel: {
+      title: 'Suma de fracciones homogéneas',
+      keyPoints: ['Mismo denominador', 'Se suman numeradores', 'Se conserva el denominador'],
+      diagramType: 'Drawing',
+    },
+    rightPanel: ['Tarea: receta familiar', 'Vocabulario: numerador, denominador'],
+  },
+
+  slides: {
+    slides: [
+      { slideNumber: 1, title: 'Sumemos fracciones', bullets: ['Matemáticas • 5to Grado'], speakerNotes: 'Saludar y presentar el tema.', visualSuggestion: 'Pizza dividida en octavos' },
+      { slideNumber: 2, title: 'Compartir como Jesús', bullets: ['Juan 6:11', 'Repartir en partes iguales'], speakerNotes: 'Conectar la lectura con el reparto justo.', visualSuggestion: 'Panes y peces', isFaithIntegration: true },
+      { slideNumber: 3, title: 'La regla', bullets: ['Sumamos numeradores', 'Conservamos el denominador'], speakerNotes: 'Mostrar con círculos.', visualSuggestion: 'Círculos fraccionados' },
+      { slideNumber: 4, title: 'Practiquemos', bullets: ['2/8 + 3/8', '1/5 + 2/5'], speakerNotes: 'Resolver en conjunto.', visualSuggestion: 'Estudiantes resolviendo' },
+    ],
+  },
+
+  vocabulary: {
+    cards: [
+      { term: 'Fracción', definition: 'Parte de un todo dividido en partes iguales.', icon: '🍕' },
+      { term: 'Numerador', definition: 'Indica cuántas partes se toman.', icon: '⬆️' },
+      { term: 'Denominador', definition: 'Indica en cuántas partes se divide el todo.', icon: '⬇️' },
+      { term: 'Homogéneas', definition: 'Fracciones con el mismo denominador.', icon: '🟰' },
+    ],
+  },
+
+  unitOverview: {
+    unitTitle: 'Fracciones',
+    generalObjective: 'Comprender y operar con fracciones homogéneas para resolver problemas de reparto en la vida cotidiana.',
+    faithThread: 'De la generosidad al reparto justo: cada sesión avanza desde compartir lo que tenemos hasta administrar con fidelidad lo que Dios nos da.',
+    finalAssessment: 'Feria de repartos: en equipos, resuelven y exponen problemas de fracciones con material concreto.',
+    sessions: [
+      { sessionNumber: 1, topic: 'La fracción como parte de un todo', achievementIndicator: 'Representa fracciones con material concreto y gráfico.', keyVocabulary: ['Fracción', 'Numerador', 'Denominador'], bibleFocus: 'Juan 6:11 — Jesús comparte los panes', buildsOn: 'Noción de mitad y cuarto de grados anteriores.' },
+      { sessionNumber: 2, topic: 'Fracciones homogéneas y heterogéneas', achievementIndicator: 'Clasifica fracciones según su denominador.', keyVocabulary: ['Homogéneas', 'Heterogéneas'], bibleFocus: 'Hechos 2:45 — Repartían según la necesidad', buildsOn: 'Lectura y representación de fracciones.' },
+      { sessionNumber: 3, topic: 'Suma de fracciones homogéneas', achievementIndicator: 'Resuelve sumas de fracciones con igual denominador en situaciones cotidianas.', keyVocabulary: ['Suma', 'Denominador común'], bibleFocus: '2 Corintios 9:7 — Dar con alegría', buildsOn: 'Identificación de fracciones homogéneas.' },
+      { sessionNumber: 4, topic: 'Resta de fracciones homogéneas', achievementIndicator: 'Resuelve restas de fracciones con igual denominador.', keyVocabulary: ['Resta', 'Diferencia'], bibleFocus: 'Lucas 16:10 — Fiel en lo poco', buildsOn: 'Procedimiento de la suma de fracciones homogéneas.' },
+    ],
+  },
+};
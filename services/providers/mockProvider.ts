@@ -0,0 +1,80 @@
+import { Type } from "@google/genai";
+import { ContentPart, LLMProvider, TokenUsage } from "./types";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// Deterministic, offline provider: no network, no API key.
+// Answers come from fixtures keyed by task; tasks without a fixture (e.g. regenerating one
+// section) get a placeholder built from the response schema so the shape is always valid.
+
+interface SchemaNode {
+  type?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+}
+
+const SAMPLE_ARRAY_LENGTH = 2;
+
+// Streaming is simulated by slicing the answer, so progressive rendering can be tried offline
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+// Rough 4-characters-per-token estimate so the usage dashboard has data in demo mode
+const estimateUsage = (parts: ContentPart[], answer: string): TokenUsage => ({
+  inputTokens: Math.ceil(parts.reduce((sum, part) => sum + ('text' in part ? part.text.length : 0), 0) / 4),
+  outputTokens: Math.ceil(answer.length / 4),
+});
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const sampleFromSchema = (node: SchemaNode | undefined, name: string): unknown => {
+  switch (node?.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(node.properties || {}).map(([key, child]) => [key, sampleFromSchema(child, key)])
+      );
+    case Type.ARRAY:
+      return Array.from({ length: SAMPLE_ARRAY_LENGTH }, (_, i) => sampleFromSchema(node.items, `${name} ${i + 1}`));
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return `Ejemplo: ${name}`;
+  }
+};
+
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  capabilities: { documents: true }, // Documents are accepted and ignored
+
+  async generateStructured({ task, parts, schema, signal }) {
+    if (signal?.aborted) throw abortError();
+    const fixture = MOCK_FIXTURES[task];
+    const text = JSON.stringify(fixture ?? sampleFromSchema(schema as SchemaNode, task));
+    return { text, usage: estimateUsage(parts, text) };
+  },
+
+  async *generateStructuredStream(request) {
+    const { text, usage } = await this.generateStructured(request);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      await wait(STREAM_CHUNK_DELAY_MS, request.signal);
+      yield { text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+    yield { text: '', usage };
+  },
+
+  async chat({ message }) {
+    const text = `**Modo demostración.** Recibí tu consulta: "${message}".\n\nConecta una clave de API en la configuración para obtener respuestas reales del asistente.`;
+    return { text, usage: estimateUsage([{ text: message }], text) };
+  },
+});
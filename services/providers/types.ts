@@ -0,0 +1,74 @@
+// Provider-agnostic contract for the AI backends the app can talk to.
+// Generators in geminiService.ts build prompts and schemas; providers only move them over the wire.
+
+// Which generator is asking. Fixture lookup (mock provider) keys on it.
+export type AITask =
+  | 'lessonPlan'
+  | 'sectionRegeneration'
+  | 'homeReview'
+  | 'assessment'
+  | 'adaptation'
+  | 'dynamics'
+  | 'worksheet'
+  | 'whiteboard'
+  | 'slides'
+  | 'vocabulary'
+  | 'unitOverview'
+  | 'unitSession'
+  | 'chat';
+
+// A prompt is a list of parts: text, or an inline document (e.g. a base64 PDF)
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface StructuredRequest {
+  task: AITask;
+  model: string;
+  parts: ContentPart[];
+  // OpenAPI-style response schema (the format Gemini's `Type` enum describes)
+  schema: unknown;
+  temperature: number;
+  signal?: AbortSignal; // Cancels the request (streaming generations can be stopped by the user)
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatRequest {
+  task: AITask;
+  model: string;
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+// Token counts reported by the backend for one call
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  usage?: TokenUsage; // Absent when the backend does not report it
+}
+
+export interface ProviderCapabilities {
+  documents: boolean; // Accepts inlineData parts (PDFs)
+}
+
+export interface LLMProvider {
+  id: string;
+  capabilities: ProviderCapabilities;
+  // Returns the raw JSON text; parsing and validation stay in the service layer
+  generateStructured(request: StructuredRequest): Promise<ProviderResponse>;
+  // Same request, yielding chunks as they arrive; concatenated texts form the JSON answer.
+  // Usage, when reported, comes on the last chunk.
+  generateStructuredStream(request: StructuredRequest): AsyncIterable<ProviderResponse>;
+  chat(request: ChatRequest): Promise<ProviderResponse>;
+}
@@ -0,0 +1,94 @@
+import { AICallOptions, SourceAttachment } from "../types";
+import { AITask } from "./providers";
+import { loadSettings } from "./settingsService";
+import { getCachedResponse, putCachedResponse } from "./storageService";
+
+// PERSISTENT RESPONSE CACHE
+// Identical requests (same provider, task, model, prompt version, request fields, PDF and
+// attachments) reuse the stored answer until it expires, so repeated clicks do not spend quota.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CacheScope {
+  task: AITask;
+  model: string;
+  promptVersion: number; // Bump when a prompt template changes so old answers are not reused
+  request: object;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Sorted keys, trimmed strings, no empty fields: requests that mean the same thing hash the same
+const normalize = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ');
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])] as const)
+        .filter(([, v]) => v !== undefined && v !== null && v !== '')
+    );
+  }
+  return value;
+};
+
+const fingerprint = async ({ task, model, promptVersion, request }: CacheScope, provider: string): Promise<string> => {
+  // The PDF and attached files are hashed on their own so the key does not embed megabytes of base64
+  const { pdfData, attachments, model: _requestModel, ...fields } = request as { pdfData?: string; attachments?: SourceAttachment[]; model?: string };
+  const pdfHash = pdfData ? await sha256(pdfData) : undefined;
+  const attachmentHashes = attachments?.length
+    ? await Promise.all(attachments.map(a => sha256(`${a.mimeType}:${a.data}`)))
+    : undefined;
+  return sha256(JSON.stringify(normalize({ provider, task, model, promptVersion, request: fields, pdfHash, attachmentHashes })));
+};
+
+const labelFor = (request: object): string => {
+  const { subject, grade, topic } = request as { subject?: string; grade?: string; topic?: string };
+  return [subject, grade, topic].filter(Boolean).join(' · ');
+};
+
+// Returns the cached answer for this scope or runs `produce` and stores its result.
+// Cache failures (e.g. storage unavailable) never block a generation.
+export const withResponseCache = async <T>(
+  scope: CacheScope,
+  options: AICallOptions,
+  produce: () => Promise<T>
+): Promise<T> => {
+  const { aiProvider, cacheTtlDays } = loadSettings();
+  if (cacheTtlDays <= 0) return produce();
+
+  let key: string | null = null;
+  try {
+    key = await fingerprint(scope, aiProvider);
+    if (!options.force) {
+      const cached = await getCachedResponse(key);
+      if (cached && cached.expiresAt > new Date().toISOString()) {
+        options.onCacheHit?.(cached.createdAt);
+        return cached.value as T;
+      }
+    }
+  } catch (error) {
+    console.warn("Response cache unavailable:", error);
+  }
+
+  const value = await produce();
+
+  if (key) {
+    const now = new Date();
+    putCachedResponse({
+      key,
+      task: scope.task,
+      model: scope.model,
+      label: labelFor(scope.request),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + cacheTtlDays * DAY_MS).toISOString(),
+      value,
+    }).catch(error => console.warn("Could not cache response:", error));
+  }
+
+  return value;
+};
@@ -0,0 +1,207 @@
+import {
+  GeneratedLessonPlan, GeneratedHomeReview, GeneratedAssessment, GeneratedAdaptation, GeneratedDynamics,
+  GeneratedWorksheet, GeneratedWhiteboard, GeneratedSlides, GeneratedVocabulary, MethodologicalStrategy,
+  AssessmentRequest, QuizQuestion, QuizItemType, BloomLevel, MatchingPair, PlanSection, GameIdea, WorksheetSection, TeacherGuide, Homework, Evaluation, FaithIntegration,
+  UnitOverview, UnitSessionOutline
+} from "../types";
+import { IssueProblem, Validator, array, boolean, number, object, oneOf, optional, string } from "../utils/validation";
+
+// Runtime shape of every Generated* type. What the UI indexes into directly (sequence phases,
+// slides, quiz questions...) is marked required/min so an empty answer triggers a follow-up
+// request instead of a crash.
+
+const stringList = array(string());
+
+const generalDataValidator = object<GeneratedLessonPlan['generalData']>({
+  subject: string(),
+  grade: string(),
+  unit: string(),
+  achievementIndicator: string({ required: true }),
+  contentConceptual: string({ required: true }),
+});
+
+const faithIntegrationValidator = object<FaithIntegration>({
+  objective: string(),
+  bibleVerse: string({ required: true }),
+  spiritualConcept: string({ required: true }),
+});
+
+const strategyValidator = object<MethodologicalStrategy>({
+  // The prompt asks for ACES phases (e.g. "Motivar") that are not all in the union type,
+  // so the model's label is kept as-is rather than forced onto a different phase.
+  phase: string({ required: true }) as Validator<MethodologicalStrategy['phase']>,
+  title: string(),
+  activities: array(string(), { min: 1 }),
+  resources: stringList,
+  time: string(),
+});
+
+const evaluationValidator = object<Evaluation>({
+  qualitative: stringList,
+  quantitative: stringList,
+});
+
+const teacherGuideValidator = object<TeacherGuide>({
+  priorKnowledge: stringList,
+  differentiation: stringList,
+  keyVocabulary: stringList,
+  methodologicalTips: stringList,
+});
+
+const homeworkValidator = object<Homework>({
+  activity: string({ required: true }),
+  evaluationCriteria: string(),
+});
+
+// `id` and the request metadata are added by the service, not the model
+export type LessonPlanContent = Omit<GeneratedLessonPlan, 'id' | 'contentType' | 'duration' | 'createdAt' | 'updatedAt' | 'curriculumIndicatorId' | 'unitId' | 'sessionNumber' | 'textbook' | 'sources'>;
+
+export const lessonPlanValidator = object<LessonPlanContent>({
+  generalData: generalDataValidator,
+  faithIntegration: faithIntegrationValidator,
+  sequence: array(strategyValidator, { min: 1 }),
+  evaluation: evaluationValidator,
+  teacherGuide: optional(teacherGuideValidator),
+  homework: optional(homeworkValidator),
+  resources: stringList,
+  flashcardPrompts: optional(stringList),
+});
+
+export const unitOverviewValidator = object<UnitOverview>({
+  unitTitle: string(),
+  generalObjective: string({ required: true }),
+  faithThread: string({ required: true }),
+  finalAssessment: string(),
+  sessions: array(object<UnitSessionOutline>({
+    sessionNumber: number(),
+    topic: string({ required: true }),
+    achievementIndicator: string({ required: true }),
+    keyVocabulary: stringList,
+    bibleFocus: string({ required: true }),
+    buildsOn: string(),
+  }), { min: 1 }),
+});
+
+// What each regenerable section holds once regenerated
+type PlanSectionContent = { [S in PlanSection]: NonNullable<GeneratedLessonPlan[S]> };
+
+// Section regeneration answers are wrapped as { section: ... } (see regeneratePlanSectionAI)
+const SECTION_VALIDATORS: { [S in PlanSection]: Validator<PlanSectionContent[S]> } = {
+  generalData: generalDataValidator,
+  faithIntegration: faithIntegrationValidator,
+  sequence: array(strategyValidator, { min: 1 }),
+  evaluation: evaluationValidator,
+  teacherGuide: teacherGuideValidator,
+  homework: homeworkValidator,
+};
+
+export const planSectionValidator = <S extends PlanSection>(section: S) =>
+  object<{ section: PlanSectionContent[S] }>({ section: SECTION_VALIDATORS[section] });
+
+// A single phase of the sequence, regenerated on its own
+export const planPhaseValidator = object<{ section: MethodologicalStrategy }>({ section: strategyValidator });
+
+export const homeReviewValidator = object<GeneratedHomeReview>({
+  message: string({ required: true }),
+});
+
+const QUIZ_ITEM_TYPES: readonly QuizItemType[] = ['multipleChoice', 'trueFalse', 'fillBlank', 'matching', 'shortAnswer', 'ordering', 'openResponse'];
+const BLOOM_LEVELS: readonly BloomLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+
+const quizQuestionFields = object<QuizQuestion>({
+  question: string({ required: true }),
+  options: stringList,
+  correctAnswer: string(),
+  type: optional(oneOf(QUIZ_ITEM_TYPES, 'multipleChoice')),
+  points: optional(number({ fallback: 1 })),
+  bloomLevel: optional(oneOf(BLOOM_LEVELS, 'understand')),
+  pairs: optional(array(object<MatchingPair>({ left: string({ required: true }), right: string({ required: true }) }))),
+  sequence: optional(stringList),
+});
+
+// Besides its statement, every item needs what makes it answerable and gradable
+const quizQuestionValidator: Validator<QuizQuestion> = (value, path, issues) => {
+  const question = quizQuestionFields(value, path, issues);
+  const type = question.type ?? 'multipleChoice';
+  const unrepaired = (field: keyof QuizQuestion, problem: IssueProblem, expected: string) =>
+    issues.push({ path: `${path}.${field}`, problem, expected, repaired: false });
+  if (type === 'multipleChoice' && question.options.length < 2) unrepaired('options', 'too_few_items', 'at least 2 items');
+  if (type === 'matching' && (question.pairs?.length ?? 0) < 2) unrepaired('pairs', 'too_few_items', 'at least 2 items');
+  if (type === 'ordering' && (question.sequence?.length ?? 0) < 2) unrepaired('sequence', 'too_few_items', 'at least 2 items');
+  // Matching and ordering answers are written out from the pairs and sequence (applyItemSpecs)
+  if (type !== 'matching' && type !== 'ordering' && !question.correctAnswer.trim()) unrepaired('correctAnswer', 'missing', 'non-empty string');
+  return question;
+};
+
+const quizValidator = object<NonNullable<GeneratedAssessment['quiz']>>({
+  questions: array(quizQuestionValidator, { min: 1 }),
+});
+
+const rubricValidator = object<NonNullable<GeneratedAssessment['rubric']>>({
+  rows: array(object({
+    criteria: string({ required: true }),
+    excellent: string(),
+    good: string(),
+    needsImprovement: string(),
+  }), { min: 1 }),
+});
+
+// Only the part that was requested is mandatory
+export const assessmentValidator = (type: AssessmentRequest['type']) =>
+  object<GeneratedAssessment>(type === 'QUIZ'
+    ? { quiz: quizValidator, rubric: optional(rubricValidator) }
+    : { quiz: optional(quizValidator), rubric: rubricValidator });
+
+export const adaptationValidator = object<GeneratedAdaptation>({
+  strategies: array(string(), { min: 1 }),
+  modifiedActivity: string({ required: true }),
+  evaluationAdjustment: string(),
+});
+
+export const dynamicsValidator = object<GeneratedDynamics>({
+  games: array(object<GameIdea>({
+    title: string({ required: true }),
+    type: oneOf(['Activo', 'Tranquilo', 'Competitivo'] as const, 'Activo'),
+    instructions: string({ required: true }),
+    materials: string(),
+  }), { min: 1 }),
+});
+
+export const worksheetValidator = object<GeneratedWorksheet>({
+  title: string(),
+  instructions: string(),
+  sections: array(object<WorksheetSection>({
+    title: string(),
+    type: oneOf(['text', 'lines', 'matching', 'box'] as const, 'text'),
+    content: stringList,
+  }), { min: 1 }),
+});
+
+export const whiteboardValidator = object<GeneratedWhiteboard>({
+  leftPanel: stringList,
+  centerPanel: object({
+    title: string({ required: true }),
+    keyPoints: stringList,
+    diagramType: string({ fallback: 'List' }),
+  }),
+  rightPanel: stringList,
+});
+
+export const slidesValidator = object<GeneratedSlides>({
+  slides: array(object({
+    slideNumber: number(),
+    title: string({ required: true }),
+    bullets: stringList,
+    speakerNotes: string(),
+    visualSuggestion: string(),
+    isFaithIntegration: optional(boolean()),
+  }), { min: 1 }),
+});
+
+export const vocabularyValidator = object<GeneratedVocabulary>({
+  cards: array(object({
+    term: string({ required: true }),
+    definition: string(),
+    icon: string({ fallback: '📘' }),
+  }), { min: 1 }),
+});
@@ -0,0 +1,80 @@
+import { AIError, toAIError } from "./aiErrors";
+
+// Per-attempt timeout plus exponential backoff with jitter for retryable failures
+// (quota, network, timeout, overloaded model). Anything else is rethrown at once as an AIError.
+
+export interface RetryPolicy {
+  maxRetries: number;   // Extra attempts on the same model
+  baseDelayMs: number;  // First backoff; doubles on every retry
+  maxDelayMs: number;
+  timeoutMs: number;    // Per attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  timeoutMs: 60_000,
+};
+
+// "Equal jitter": half the exponential delay is fixed, the other half random,
+// so simultaneous clients do not retry in lockstep
+const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AIError('cancelled', 'Cancelled during backoff'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new AIError('cancelled', 'Cancelled during backoff'));
+  }, { once: true });
+});
+
+// A signal that aborts when the caller cancels or when the attempt runs out of time
+const attemptSignal = (parent: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) onParentAbort();
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = setTimeout(() => controller.abort(new DOMException(`Timed out after ${timeoutMs} ms`, 'TimeoutError')), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+export const callWithRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const current = attemptSignal(signal, policy.timeoutMs);
+    try {
+      return await run(current.signal);
+    } catch (error) {
+      // Our own signals say why the call stopped more reliably than the SDK's error does
+      const aiError = signal?.aborted
+        ? new AIError('cancelled', 'Cancelled by the user', { cause: error })
+        : current.signal.aborted
+          ? new AIError('timeout', `No answer within ${policy.timeoutMs / 1000} s`, { cause: error })
+          : toAIError(error);
+
+      if (!aiError.retryable || attempt >= policy.maxRetries) throw aiError;
+
+      const delay = backoffDelay(attempt, policy);
+      console.warn(`Attempt ${attempt + 1} failed (${aiError.kind}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    } finally {
+      current.dispose();
+    }
+  }
+};
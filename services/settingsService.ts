@@ -0,0 +1,36 @@
+import { AIProviderId, AppSettings } from "../types";
+
+const SETTINGS_KEY = 'plan-ultra:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  showDemoData: true,
+  // AI_PROVIDER=mock runs the whole app offline (see vite.config.ts)
+  aiProvider: (process.env.AI_PROVIDER as AIProviderId) || 'gemini',
+  cacheTtlDays: 30,
+  monthlyBudgetUsd: 0,
+  school: {
+    name: 'Colegio Adventista Porteño',
+    teacherName: '',
+    section: '',
+  },
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    // Merge with defaults so settings added in later versions get a value
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch (error) {
+    console.warn("Could not read settings, using defaults:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save settings:", error);
+  }
+};
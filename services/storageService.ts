@@ -0,0 +1,498 @@
+import { GeneratedLessonPlan, PlanResources, PlanVersion, PlanChangeSource, CachedResponse, UsageRecord, UnitPlan, ClassSchedule, ScheduledLesson, CurriculumCatalog, Textbook, PlanTemplate, QueuedGeneration, QuizAttempt } from "../types";
+
+// LOCAL PERSISTENCE (IndexedDB)
+// Plans and their derived resources live in the browser so they survive reloads.
+const DB_NAME = 'plan-ultra';
+
+const PLANS_STORE = 'plans';
+const RESOURCES_STORE = 'resources';
+const VERSIONS_STORE = 'planVersions';
+const CACHE_STORE = 'responseCache';
+const USAGE_STORE = 'usage';
+const UNITS_STORE = 'units';
+const SCHEDULE_STORE = 'schedule';
+const LESSONS_STORE = 'scheduledLessons';
+const CURRICULUM_STORE = 'curriculum';
+const TEXTBOOKS_STORE = 'textbooks';
+const TEXTBOOK_FILES_STORE = 'textbookFiles';
+const TEMPLATES_STORE = 'planTemplates';
+const QUEUE_STORE = 'generationQueue';
+const QUIZ_ATTEMPTS_STORE = 'quizAttempts';
+
+// Each migration upgrades the database from version (key - 1) to version (key).
+// Never edit a migration that has shipped: add a new one with the next number.
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    const plans = db.createObjectStore(PLANS_STORE, { keyPath: 'id' });
+    plans.createIndex('updatedAt', 'updatedAt');
+    db.createObjectStore(RESOURCES_STORE, { keyPath: 'planId' });
+  },
+  2: (db, tx) => {
+    const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+    versions.createIndex('planId', 'planId');
+    // Plans saved before history existed get their current state as the first version
+    const plansRequest = tx.objectStore(PLANS_STORE).getAll();
+    plansRequest.onsuccess = () => {
+      for (const plan of plansRequest.result as GeneratedLessonPlan[]) {
+        versions.put({
+          id: crypto.randomUUID(),
+          planId: plan.id,
+          savedAt: plan.updatedAt || new Date().toISOString(),
+          source: 'generated',
+          plan,
+        } as PlanVersion);
+      }
+    };
+  },
+  3: (db) => {
+    const cache = db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+    cache.createIndex('expiresAt', 'expiresAt');
+  },
+  4: (db) => {
+    const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+    usage.createIndex('timestamp', 'timestamp');
+  },
+  5: (db) => {
+    const units = db.createObjectStore(UNITS_STORE, { keyPath: 'id' });
+    units.createIndex('updatedAt', 'updatedAt');
+  },
+  6: (db) => {
+    db.createObjectStore(SCHEDULE_STORE); // Single record under SCHEDULE_KEY
+    const lessons = db.createObjectStore(LESSONS_STORE, { keyPath: 'id' });
+    lessons.createIndex('date', 'date');
+    lessons.createIndex('planId', 'planId');
+  },
+  7: (db) => {
+    db.createObjectStore(CURRICULUM_STORE); // Single record under CURRICULUM_KEY
+  },
+  8: (db) => {
+    const textbooks = db.createObjectStore(TEXTBOOKS_STORE, { keyPath: 'id' });
+    textbooks.createIndex('updatedAt', 'updatedAt');
+    db.createObjectStore(TEXTBOOK_FILES_STORE); // PDF bytes keyed by textbook id
+  },
+  9: (db) => {
+    db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+  },
+  10: (db) => {
+    db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+  },
+  11: (db) => {
+    const attempts = db.createObjectStore(QUIZ_ATTEMPTS_STORE, { keyPath: 'id' });
+    attempts.createIndex('planId', 'planId');
+  },
+};
+
+const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: close so it is not blocked, reopen lazily.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  // Awaited together so a failing `work` (which aborts the transaction) leaves no unhandled rejection
+  const [result] = await Promise.all([work(tx), completed]);
+  return result;
+};
+
+// --- PLANS ---
+
+export const listPlans = async (): Promise<GeneratedLessonPlan[]> => {
+  const plans = await runTransaction(PLANS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(PLANS_STORE).getAll() as IDBRequest<GeneratedLessonPlan[]>)
+  );
+  // Most recently touched first
+  return plans.sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+};
+
+export const getPlan = async (id: string): Promise<GeneratedLessonPlan | undefined> => {
+  return runTransaction(PLANS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(PLANS_STORE).get(id) as IDBRequest<GeneratedLessonPlan | undefined>)
+  );
+};
+
+// Plan content without the bookkeeping fields, used to detect no-op saves
+const contentFingerprint = (plan: GeneratedLessonPlan): string => {
+  const { createdAt, updatedAt, ...content } = plan;
+  return JSON.stringify(content);
+};
+
+const versionsForPlan = async (tx: IDBTransaction, planId: string): Promise<PlanVersion[]> => {
+  const index = tx.objectStore(VERSIONS_STORE).index('planId');
+  const versions = await requestToPromise(index.getAll(planId) as IDBRequest<PlanVersion[]>);
+  return versions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+// Creates or updates a plan and records the result as a new version.
+// Timestamps are owned by the storage layer.
+export const savePlan = async (
+  plan: GeneratedLessonPlan,
+  source: PlanChangeSource = 'edited'
+): Promise<GeneratedLessonPlan> => {
+  const now = new Date().toISOString();
+  const record: GeneratedLessonPlan = {
+    ...plan,
+    createdAt: plan.createdAt || now,
+    updatedAt: now,
+  };
+
+  await runTransaction([PLANS_STORE, VERSIONS_STORE], 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(PLANS_STORE).put(record));
+
+    // Leaving edit mode without touching anything should not clutter the history
+    const [latest] = await versionsForPlan(tx, record.id);
+    if (latest && contentFingerprint(latest.plan) === contentFingerprint(record)) return;
+
+    const version: PlanVersion = {
+      id: crypto.randomUUID(),
+      planId: record.id,
+      savedAt: now,
+      source,
+      plan: record,
+    };
+    await requestToPromise(tx.objectStore(VERSIONS_STORE).put(version));
+  });
+
+  return record;
+};
+
+// Deleting a plan also removes its history and every resource derived from it.
+export const deletePlan = async (id: string): Promise<void> => {
+  await runTransaction([PLANS_STORE, RESOURCES_STORE, VERSIONS_STORE, LESSONS_STORE, QUIZ_ATTEMPTS_STORE], 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(PLANS_STORE).delete(id));
+    await requestToPromise(tx.objectStore(RESOURCES_STORE).delete(id));
+    const versions = await versionsForPlan(tx, id);
+    await Promise.all(versions.map(v => requestToPromise(tx.objectStore(VERSIONS_STORE).delete(v.id))));
+    // The plan disappears from the calendar too
+    const lessonKeys = await requestToPromise(tx.objectStore(LESSONS_STORE).index('planId').getAllKeys(id));
+    await Promise.all(lessonKeys.map(key => requestToPromise(tx.objectStore(LESSONS_STORE).delete(key))));
+    const attemptKeys = await requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).index('planId').getAllKeys(id));
+    await Promise.all(attemptKeys.map(key => requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).delete(key))));
+  });
+};
+
+// --- VERSION HISTORY ---
+
+// Newest first
+export const listPlanVersions = async (planId: string): Promise<PlanVersion[]> => {
+  return runTransaction(VERSIONS_STORE, 'readonly', tx => versionsForPlan(tx, planId));
+};
+
+// --- DERIVED RESOURCES ---
+
+export const getPlanResources = async (planId: string): Promise<PlanResources> => {
+  const record = await runTransaction(RESOURCES_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(RESOURCES_STORE).get(planId) as IDBRequest<PlanResources | undefined>)
+  );
+  return record || { planId };
+};
+
+// Merges the given resources into whatever is already stored for the plan.
+export const updatePlanResources = async (
+  planId: string,
+  patch: Omit<Partial<PlanResources>, 'planId'>
+): Promise<PlanResources> => {
+  return runTransaction(RESOURCES_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(RESOURCES_STORE);
+    const existing = await requestToPromise(store.get(planId) as IDBRequest<PlanResources | undefined>);
+    const record: PlanResources = {
+      ...existing,
+      ...patch,
+      planId,
+      updatedAt: new Date().toISOString(),
+    };
+    await requestToPromise(store.put(record));
+    return record;
+  });
+};
+
+// --- AI RESPONSE CACHE ---
+
+export const getCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  return runTransaction(CACHE_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(CACHE_STORE).get(key) as IDBRequest<CachedResponse | undefined>)
+  );
+};
+
+export const putCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  await runTransaction(CACHE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(CACHE_STORE).put(entry)));
+};
+
+// Newest first
+export const listCachedResponses = async (): Promise<CachedResponse[]> => {
+  const entries = await runTransaction(CACHE_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(CACHE_STORE).getAll() as IDBRequest<CachedResponse[]>)
+  );
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteCachedResponse = async (key: string): Promise<void> => {
+  await runTransaction(CACHE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(CACHE_STORE).delete(key)));
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await runTransaction(CACHE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(CACHE_STORE).clear()));
+};
+
+// Removes entries whose TTL has passed; returns how many were deleted
+export const pruneExpiredResponses = async (now: Date = new Date()): Promise<number> => {
+  return runTransaction(CACHE_STORE, 'readwrite', async tx => {
+    const index = tx.objectStore(CACHE_STORE).index('expiresAt');
+    const expiredKeys = await requestToPromise(index.getAllKeys(IDBKeyRange.upperBound(now.toISOString())));
+    await Promise.all(expiredKeys.map(key => requestToPromise(tx.objectStore(CACHE_STORE).delete(key))));
+    return expiredKeys.length;
+  });
+};
+
+// --- USAGE ACCOUNTING ---
+
+export const addUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await runTransaction(USAGE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(USAGE_STORE).put(record)));
+};
+
+// Oldest first; `since` is an ISO timestamp (inclusive)
+export const listUsageRecords = async (since?: string): Promise<UsageRecord[]> => {
+  return runTransaction(USAGE_STORE, 'readonly', tx => {
+    const index = tx.objectStore(USAGE_STORE).index('timestamp');
+    const range = since ? IDBKeyRange.lowerBound(since) : undefined;
+    return requestToPromise(index.getAll(range) as IDBRequest<UsageRecord[]>);
+  });
+};
+
+// --- UNITS ---
+// A unit only references its session plans; the plans themselves live in the plans store.
+
+export const listUnits = async (): Promise<UnitPlan[]> => {
+  const units = await runTransaction(UNITS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(UNITS_STORE).getAll() as IDBRequest<UnitPlan[]>)
+  );
+  return units.sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+};
+
+export const saveUnit = async (unit: UnitPlan): Promise<UnitPlan> => {
+  const now = new Date().toISOString();
+  const record: UnitPlan = { ...unit, createdAt: unit.createdAt || now, updatedAt: now };
+  await runTransaction(UNITS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(UNITS_STORE).put(record)));
+  return record;
+};
+
+// Session plans stay in the library
+export const deleteUnit = async (id: string): Promise<void> => {
+  await runTransaction(UNITS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(UNITS_STORE).delete(id)));
+};
+
+// --- CLASS SCHEDULE ---
+
+const SCHEDULE_KEY = 'default';
+
+export const EMPTY_SCHEDULE: ClassSchedule = { sections: [], periods: [], slots: [], holidays: [] };
+
+export const getSchedule = async (): Promise<ClassSchedule> => {
+  const schedule = await runTransaction(SCHEDULE_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(SCHEDULE_STORE).get(SCHEDULE_KEY) as IDBRequest<ClassSchedule | undefined>)
+  );
+  return { ...EMPTY_SCHEDULE, ...schedule };
+};
+
+// Lessons assigned to timetable slots that no longer exist are dropped with the change
+export const saveSchedule = async (schedule: ClassSchedule): Promise<void> => {
+  const slotIds = new Set(schedule.slots.map(s => s.id));
+  await runTransaction([SCHEDULE_STORE, LESSONS_STORE], 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(SCHEDULE_STORE).put(schedule, SCHEDULE_KEY));
+    const lessons = await requestToPromise(tx.objectStore(LESSONS_STORE).getAll() as IDBRequest<ScheduledLesson[]>);
+    const orphaned = lessons.filter(l => !slotIds.has(l.slotId));
+    await Promise.all(orphaned.map(l => requestToPromise(tx.objectStore(LESSONS_STORE).delete(l.id))));
+  });
+};
+
+// Dates are "YYYY-MM-DD" and both bounds are inclusive
+export const listScheduledLessons = async (from?: string, to?: string): Promise<ScheduledLesson[]> => {
+  const range = from && to ? IDBKeyRange.bound(from, to)
+    : from ? IDBKeyRange.lowerBound(from)
+    : to ? IDBKeyRange.upperBound(to)
+    : undefined;
+  return runTransaction(LESSONS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(LESSONS_STORE).index('date').getAll(range) as IDBRequest<ScheduledLesson[]>)
+  );
+};
+
+// One plan per class: the id is derived from slot and date, so assigning again replaces it
+export const scheduledLessonId = (slotId: string, date: string) => `${slotId}@${date}`;
+
+export const putScheduledLesson = async (lesson: ScheduledLesson): Promise<void> => {
+  await runTransaction(LESSONS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(LESSONS_STORE).put(lesson)));
+};
+
+export const deleteScheduledLesson = async (id: string): Promise<void> => {
+  await runTransaction(LESSONS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(LESSONS_STORE).delete(id)));
+};
+
+// --- CURRICULUM CATALOG ---
+// Only an imported catalog is stored; without one the bundled catalog is used.
+
+const CURRICULUM_KEY = 'imported';
+
+export const getImportedCurriculum = async (): Promise<CurriculumCatalog | undefined> =>
+  runTransaction(CURRICULUM_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(CURRICULUM_STORE).get(CURRICULUM_KEY) as IDBRequest<CurriculumCatalog | undefined>)
+  );
+
+export const saveImportedCurriculum = async (catalog: CurriculumCatalog): Promise<void> => {
+  await runTransaction(CURRICULUM_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(CURRICULUM_STORE).put(catalog, CURRICULUM_KEY)));
+};
+
+export const clearImportedCurriculum = async (): Promise<void> => {
+  await runTransaction(CURRICULUM_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(CURRICULUM_STORE).delete(CURRICULUM_KEY)));
+};
+
+// --- TEXTBOOKS ---
+// Metadata and section index are listed often; the PDF itself is stored apart and only read
+// when a generation needs its pages.
+
+export const listTextbooks = async (): Promise<Textbook[]> => {
+  const books = await runTransaction(TEXTBOOKS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(TEXTBOOKS_STORE).getAll() as IDBRequest<Textbook[]>)
+  );
+  return books.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const getTextbook = async (id: string): Promise<Textbook | undefined> =>
+  runTransaction(TEXTBOOKS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(TEXTBOOKS_STORE).get(id) as IDBRequest<Textbook | undefined>)
+  );
+
+// `file` is only needed when the book is added; metadata edits leave the stored PDF alone
+export const saveTextbook = async (book: Textbook, file?: ArrayBuffer): Promise<Textbook> => {
+  const now = new Date().toISOString();
+  const record: Textbook = { ...book, createdAt: book.createdAt || now, updatedAt: now };
+  await runTransaction([TEXTBOOKS_STORE, TEXTBOOK_FILES_STORE], 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(TEXTBOOKS_STORE).put(record));
+    if (file) await requestToPromise(tx.objectStore(TEXTBOOK_FILES_STORE).put(file, book.id));
+  });
+  return record;
+};
+
+export const getTextbookFile = async (id: string): Promise<ArrayBuffer | undefined> =>
+  runTransaction(TEXTBOOK_FILES_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(TEXTBOOK_FILES_STORE).get(id) as IDBRequest<ArrayBuffer | undefined>)
+  );
+
+// Plans keep their reference; they still show which sections they used
+export const deleteTextbook = async (id: string): Promise<void> => {
+  await runTransaction([TEXTBOOKS_STORE, TEXTBOOK_FILES_STORE], 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(TEXTBOOKS_STORE).delete(id));
+    await requestToPromise(tx.objectStore(TEXTBOOK_FILES_STORE).delete(id));
+  });
+};
+
+// --- PLAN TEMPLATES ---
+// Uploaded .docx layouts are small, so the file is stored with its record
+
+export const listPlanTemplates = async (): Promise<PlanTemplate[]> => {
+  const templates = await runTransaction(TEMPLATES_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(TEMPLATES_STORE).getAll() as IDBRequest<PlanTemplate[]>)
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePlanTemplate = async (template: PlanTemplate): Promise<PlanTemplate> => {
+  const now = new Date().toISOString();
+  const record: PlanTemplate = { ...template, createdAt: template.createdAt || now, updatedAt: now };
+  await runTransaction(TEMPLATES_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(TEMPLATES_STORE).put(record)));
+  return record;
+};
+
+export const deletePlanTemplate = async (id: string): Promise<void> => {
+  await runTransaction(TEMPLATES_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(TEMPLATES_STORE).delete(id)));
+};
+
+// --- GENERATION QUEUE ---
+// Requests waiting for a connection, oldest first
+
+export const listQueuedGenerations = async (): Promise<QueuedGeneration[]> => {
+  const jobs = await runTransaction(QUEUE_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(QUEUE_STORE).getAll() as IDBRequest<QueuedGeneration[]>)
+  );
+  return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const putQueuedGeneration = async (job: QueuedGeneration): Promise<void> => {
+  await runTransaction(QUEUE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(QUEUE_STORE).put(job)));
+};
+
+export const deleteQueuedGeneration = async (id: string): Promise<void> => {
+  await runTransaction(QUEUE_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(QUEUE_STORE).delete(id)));
+};
+
+// --- QUIZ RESULTS ---
+// Student attempts at a plan's quiz, oldest first
+
+export const listQuizAttempts = async (planId: string): Promise<QuizAttempt[]> => {
+  const attempts = await runTransaction(QUIZ_ATTEMPTS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).index('planId').getAll(planId) as IDBRequest<QuizAttempt[]>)
+  );
+  return attempts.sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+};
+
+export const saveQuizAttempt = async (attempt: QuizAttempt): Promise<void> => {
+  await runTransaction(QUIZ_ATTEMPTS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).put(attempt)));
+};
+
+export const deleteQuizAttempt = async (id: string): Promise<void> => {
+  await runTransaction(QUIZ_ATTEMPTS_STORE, 'readwrite', tx => requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).delete(id)));
+};
@@ -0,0 +1,41 @@
+import { GradeLevel, Subject, Textbook, TextbookReference, LessonPlanRequest } from "../types";
+import { parseTextbook, buildTextbookSource, inlineSourceBytes, ParseProgress, MAX_INLINE_PDF_BYTES } from "../utils/pdfTextbook";
+import { attachmentBytes } from "../utils/sourceFiles";
+import { getTextbook, getTextbookFile, saveTextbook } from "./storageService";
+
+// TEXTBOOK LIBRARY
+// Books are indexed once when added; requests then reference a book and its sections by id.
+
+export interface TextbookMetadata {
+  title: string;
+  subject: Subject;
+  grade: GradeLevel;
+  publisher?: string;
+  year?: number;
+}
+
+export const addTextbook = async (file: File, metadata: TextbookMetadata, onProgress?: ParseProgress): Promise<Textbook> => {
+  const data = await file.arrayBuffer();
+  const parsed = await parseTextbook(data, file.name, onProgress);
+  return saveTextbook({ ...parsed, ...metadata, id: crypto.randomUUID() }, data);
+};
+
+export type ResolvedTextbookSource = Pick<LessonPlanRequest, 'pdfData' | 'sourceText' | 'sourceLabel'> & { textbookTitle?: string };
+
+// The source fields a request's textbook reference stands for. Generation code calls this right
+// before building the prompt, so plans and units never store the book's bytes.
+export const resolveTextbookSource = async (reference: TextbookReference | undefined): Promise<ResolvedTextbookSource> => {
+  if (!reference) return {};
+  const [book, data] = await Promise.all([getTextbook(reference.textbookId), getTextbookFile(reference.textbookId)]);
+  if (!book || !data) throw new Error(`Textbook ${reference.textbookId} is no longer in the library`);
+  return { ...await buildTextbookSource(book, data, reference), textbookTitle: book.title };
+};
+
+// Checked before generating: a whole book (or a large selection sent as pages) plus the attached
+// files cannot go inline
+export const isSourceTooLarge = async ({ textbook, attachments }: Pick<LessonPlanRequest, 'textbook' | 'attachments'>): Promise<boolean> => {
+  const book = textbook ? await getTextbook(textbook.textbookId) : undefined;
+  const bookBytes = book && textbook ? inlineSourceBytes(book, textbook) : 0;
+  const attachedBytes = (attachments ?? []).reduce((sum, a) => sum + attachmentBytes(a), 0);
+  return bookBytes + attachedBytes > MAX_INLINE_PDF_BYTES;
+};
@@ -0,0 +1,107 @@
+import { UsageRecord } from "../types";
+import { AITask, TokenUsage } from "./providers";
+import { loadSettings } from "./settingsService";
+import { addUsageRecord, listUsageRecords } from "./storageService";
+
+// TOKEN AND COST ACCOUNTING
+// Every provider call is recorded locally so a school sharing one API key can see where
+// its quota goes and get warned before the monthly budget runs out.
+
+// Reference prices in USD per million tokens (standard tier, prompts under 200k tokens).
+// Update when Google changes pricing; unknown models are costed as FLASH.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2.0, output: 12.0 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0 },
+};
+const DEFAULT_PRICING = MODEL_PRICING['gemini-3-flash-preview'];
+
+// Spend ratio at which the budget starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const pricing = MODEL_PRICING[model] ?? DEFAULT_PRICING;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+// Fire-and-forget: accounting must never make a generation fail
+export const recordUsage = (task: AITask, model: string, usage: TokenUsage | undefined, durationMs: number): void => {
+  if (!usage) return;
+  const provider = loadSettings().aiProvider;
+  const record: UsageRecord = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    task,
+    model,
+    provider,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    durationMs: Math.round(durationMs),
+    costUsd: provider === 'mock' ? 0 : estimateCost(model, usage), // Demo mode is free
+  };
+  addUsageRecord(record).catch(error => console.warn("Could not record usage:", error));
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byDay: Record<string, UsageTotals>;   // Local date, YYYY-MM-DD
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 });
+
+const add = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+  totals.durationMs += record.durationMs;
+};
+
+export const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byDay: {}, byTask: {}, byModel: {} };
+  for (const record of records) {
+    add(summary.total, record);
+    add(summary.byDay[dayKey(new Date(record.timestamp))] ??= emptyTotals(), record);
+    add(summary.byTask[record.task] ??= emptyTotals(), record);
+    add(summary.byModel[record.model] ??= emptyTotals(), record);
+  }
+  return summary;
+};
+
+const startOfMonth = (date: Date = new Date()): string =>
+  new Date(date.getFullYear(), date.getMonth(), 1).toISOString();
+
+export const getMonthUsage = (): Promise<UsageRecord[]> => listUsageRecords(startOfMonth());
+
+export type BudgetLevel = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  spentUsd: number;
+  budgetUsd: number;
+}
+
+export const budgetLevel = (spentUsd: number, budgetUsd: number): BudgetLevel => {
+  if (budgetUsd <= 0) return 'none';
+  if (spentUsd >= budgetUsd) return 'exceeded';
+  if (spentUsd >= budgetUsd * BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+export const getBudgetStatus = async (): Promise<BudgetStatus> => {
+  const budgetUsd = loadSettings().monthlyBudgetUsd;
+  const spentUsd = summarizeUsage(await getMonthUsage()).total.costUsd;
+  return { level: budgetLevel(spentUsd, budgetUsd), spentUsd, budgetUsd };
+};
@@ -0,0 +1,19 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['Inter', 'sans-serif'],
+      },
+      colors: {
+        sda: {
+          blue: '#004369',
+          gold: '#DBA858',
+          light: '#F5F7FA'
+        }
+      }
+    }
+  },
+  plugins: [],
+};
@@ -1,3 +1,5 @@
+import type { AIErrorKind } from './services/aiErrors';
+
 export enum Subject {
   MATHEMATICS = 'Matemáticas',
   LANGUAGE = 'Lengua y Literatura',
@@ -29,10 +31,15 @@ export interface LessonPlanRequest {
   topic: string; // Used if no PDF is present, or as context
   biblicalFocus?: string;
   duration: string;
-  pdfData?: string; // Base64 encoded string of the PDF
+  pdfData?: string; // Base64 encoded string of the PDF (only the selected pages when sections are picked)
+  sourceText?: string; // Text of the selected sections, sent instead of the PDF pages
+  sourceLabel?: string; // Sections the source was cut to, e.g. "1.2 Fracciones (págs. 14–19)"
+  textbook?: TextbookReference; // Book from the library; resolved into pdfData/sourceText when generating
+  attachments?: SourceAttachment[]; // Photos, Word documents and other files sent alongside the textbook
   sectionNumber?: string; // e.g., "1.1", "2.3"
   contentType?: ContentType;
   model?: string;
+  curriculumIndicators?: CurriculumIndicator[]; // MINED indicators the plan must use (one picked, or the options for subject/grade)
 }
 
 export interface FaithIntegration {
@@ -82,6 +89,104 @@ export interface GeneratedLessonPlan {
   homework?: Homework;
   resources: string[];
   flashcardPrompts?: string[];
+  contentType?: ContentType; // Focus requested when the plan was generated
+  duration?: string;
+  createdAt?: string; // ISO timestamp, set by the storage layer
+  updatedAt?: string; // ISO timestamp, set by the storage layer
+  curriculumIndicatorId?: string; // Catalog indicator the achievementIndicator matches, if any
+  unitId?: string; // Set when the plan is a session of a unit (see UnitPlan)
+  sessionNumber?: number; // 1-based position within the unit
+  textbook?: TextbookReference; // Library book and sections the plan was generated from
+  sources?: SourceSummary[]; // Everything the plan was generated from, for display
+}
+
+// Unit planning: an ordered series of linked sessions generated from one request
+export interface UnitPlanRequest {
+  subject: Subject;
+  grade: GradeLevel;
+  unitTitle: string;
+  sessionCount: number;
+  duration: string; // Per session
+  biblicalFocus?: string; // Starting value/verse; the model plans its progression
+  pdfData?: string; // Base64 textbook PDF, optional (units created before the textbook library)
+  sourceText?: string;
+  sourceLabel?: string;
+  textbook?: TextbookReference;
+  attachments?: SourceAttachment[];
+  sectionNumber?: string;
+  contentType?: ContentType;
+  model?: string;
+}
+
+export interface UnitSessionOutline {
+  sessionNumber: number;
+  topic: string;
+  achievementIndicator: string;
+  keyVocabulary: string[];
+  bibleFocus: string; // Verse or value for this session, a step in the unit's faith thread
+  buildsOn: string; // What it takes from the previous session
+}
+
+export interface UnitOverview {
+  unitTitle: string;
+  generalObjective: string;
+  faithThread: string; // How the Bible focus progresses across the sessions
+  finalAssessment: string;
+  sessions: UnitSessionOutline[];
+}
+
+// One session of a unit. The neighbouring sessions are passed so a (re)generated session
+// picks up where the previous one left off and leads into the next.
+export interface UnitSessionRequest {
+  unit: UnitPlanRequest;
+  overview: UnitOverview;
+  sessionNumber: number;
+  previousPlan?: GeneratedLessonPlan; // The generated previous session, when it exists
+}
+
+export interface UnitPlan {
+  id: string;
+  request: UnitPlanRequest;
+  overview: UnitOverview;
+  sessionPlanIds: string[]; // Index = sessionNumber - 1; shorter than the outline while generation is incomplete
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Sections of a plan that can be regenerated on their own
+export type PlanSection = 'generalData' | 'faithIntegration' | 'sequence' | 'evaluation' | 'teacherGuide' | 'homework';
+
+export interface SectionRegenerationRequest {
+  plan: GeneratedLessonPlan;
+  section: PlanSection;
+  phaseIndex?: number; // For 'sequence': regenerate only this phase
+  model?: string;
+}
+
+// Options every AI generator accepts
+export interface AICallOptions {
+  signal?: AbortSignal; // Cancels the request
+  timeoutMs?: number;   // Per-attempt limit; each task has its own default
+  force?: boolean;      // Skip the response cache and ask the model again
+  onCacheHit?: (cachedAt: string) => void; // Called when the answer came from the cache
+}
+
+// Streaming generation: the sections of the plan that have fully arrived so far
+export interface LessonPlanProgress {
+  generalData?: GeneratedLessonPlan['generalData'];
+  faithIntegration?: FaithIntegration;
+  sequence: MethodologicalStrategy[]; // Completed phases, in order
+}
+
+// Version history: every save of a plan keeps a snapshot
+export type PlanChangeSource = 'generated' | 'edited' | 'regenerated' | 'restored';
+
+export interface PlanVersion {
+  id: string;
+  planId: string;
+  savedAt: string; // ISO timestamp
+  source: PlanChangeSource;
+  plan: GeneratedLessonPlan;
 }
 
 // New Types for Home Review
@@ -96,16 +201,44 @@ export interface GeneratedHomeReview {
 }
 
 // New Types for Assessment Generator
+export type QuizItemType = 'multipleChoice' | 'trueFalse' | 'fillBlank' | 'matching' | 'shortAnswer' | 'ordering' | 'openResponse';
+
+// Revised Bloom taxonomy; each level has a Webb Depth of Knowledge equivalent (utils/assessmentItems.ts)
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// One row of the teacher's blueprint: `count` items of one type, each worth `points`
+export interface AssessmentItemSpec {
+  type: QuizItemType;
+  count: number;
+  points: number;
+  bloomLevel: BloomLevel;
+}
+
 export interface AssessmentRequest {
   topic: string;
   grade: string;
   type: 'QUIZ' | 'RUBRIC';
+  subject?: string;
+  achievementIndicator?: string; // The plan's indicator: what the items must assess
+  textbook?: TextbookReference;  // The plan's source section; resolved when generating
+  items?: AssessmentItemSpec[];  // Quiz blueprint; without it, 5 multiple-choice items
+}
+
+export interface MatchingPair {
+  left: string;
+  right: string;
 }
 
 export interface QuizQuestion {
   question: string;
-  options: string[];
-  correctAnswer: string;
+  options: string[];     // Choices for multiple choice and true/false; empty for the other types
+  correctAnswer: string; // Expected answer as text; for open responses, what a full answer includes
+  // Quizzes generated before item types existed have none of these: 1-point multiple choice
+  type?: QuizItemType;
+  points?: number;
+  bloomLevel?: BloomLevel;
+  pairs?: MatchingPair[]; // Matching: each term with its match
+  sequence?: string[];    // Ordering: the elements in the correct order
 }
 
 export interface RubricCriteria {
@@ -124,6 +257,24 @@ export interface GeneratedAssessment {
   };
 }
 
+// A student's run of a generated quiz in class. Each answer keeps its question, so results stay
+// readable if the quiz is regenerated later.
+export interface QuizAnswer {
+  question: string;
+  correctAnswer: string;
+  answer: string | null; // null = left blank
+}
+
+export interface QuizAttempt {
+  id: string;
+  planId: string;
+  studentName: string;
+  answers: QuizAnswer[]; // In the quiz's own order, whatever order the student saw
+  score: number;         // Correct answers
+  startedAt: string;     // ISO timestamps
+  finishedAt: string;
+}
+
 // New Types for Adaptation (Inclusion)
 export interface AdaptationRequest {
   topic: string;
@@ -204,12 +355,35 @@ export interface Slide {
   bullets: string[];
   speakerNotes: string;
   visualSuggestion: string; // Description of image/icon
+  isFaithIntegration?: boolean; // The slide that connects the topic to the verse or value
 }
 
 export interface GeneratedSlides {
   slides: Slide[];
 }
 
+// Presenter mode: the fullscreen audience view owns the state and mirrors it to the speaker window
+export interface PresenterPhase {
+  phase: MethodologicalStrategy['phase'];
+  title: string;
+  minutes: number; // Planned time, parsed from the ACES step
+}
+
+export interface PresenterDeck {
+  title: string;
+  bibleVerse: string; // Shown on the faith-integration slide
+  slides: Slide[];
+  phases: PresenterPhase[];
+}
+
+export interface PresenterState {
+  slideIndex: number;
+  blackout: boolean;
+  phaseIndex: number;
+  startedAt: number;      // Epoch ms, so both windows compute the same elapsed time
+  phaseStartedAt: number; // Epoch ms
+}
+
 // New Types for Vocabulary Cards (Printables)
 export interface VocabularyRequest {
   topic: string;
@@ -224,4 +398,228 @@ export interface VocabularyCard {
 
 export interface GeneratedVocabulary {
   cards: VocabularyCard[];
-}
\ No newline at end of file
+}
+
+// Derived resources generated from a lesson plan (persisted alongside it)
+export interface PlanResources {
+  planId: string;
+  assessment?: GeneratedAssessment;
+  adaptation?: GeneratedAdaptation;
+  dynamics?: GeneratedDynamics;
+  worksheet?: GeneratedWorksheet;
+  whiteboard?: GeneratedWhiteboard;
+  slides?: GeneratedSlides;
+  vocabulary?: GeneratedVocabulary;
+  updatedAt?: string;
+}
+
+// Stored AI answer, reused when the same request is made again before it expires
+export interface CachedResponse {
+  key: string;       // Fingerprint of provider, task, model, prompt version and normalized request
+  task: string;
+  model: string;
+  label: string;     // Human-readable summary for the cache inspector (subject · grade · topic)
+  createdAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  value: unknown;    // Validated response, as returned by the generator
+}
+
+// One AI call, recorded for the usage dashboard and the monthly budget
+export interface UsageRecord {
+  id: string;
+  timestamp: string; // ISO timestamp
+  task: string;      // Generator that made the call (lessonPlan, slides, chat...)
+  model: string;
+  provider: AIProviderId;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  costUsd: number;   // Estimated with the prices known when the call was made
+}
+
+// Local application settings (persisted in localStorage)
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface AppSettings {
+  showDemoData: boolean; // Show the sample plans alongside the teacher's own plans
+  aiProvider: AIProviderId; // 'mock' answers from fixtures, with no network or API key
+  cacheTtlDays: number; // How long AI answers are reused; 0 disables the cache
+  monthlyBudgetUsd: number; // Estimated spend that triggers warnings; 0 means no budget
+  school: SchoolProfile; // Header of exported documents
+}
+
+// School identity printed on exported plans
+export interface SchoolProfile {
+  name: string;
+  teacherName: string;
+  section: string; // e.g. "5to A"
+  logo?: { dataUrl: string; width: number; height: number }; // PNG, scaled down on upload
+}
+
+// A school's own Word layout for plans, with {{placeholders}} filled at export time
+export interface PlanTemplate {
+  id: string;
+  name: string; // e.g. "Formato Distrital 2026"
+  fileName: string;
+  data: ArrayBuffer; // The uploaded .docx
+  tags: string[]; // Placeholders found on upload, loops as "#name"
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Class schedule (timetable, term and holidays) and plans assigned to concrete class dates
+export interface ClassSection {
+  id: string;
+  name: string; // e.g. "5to A"
+  grade: GradeLevel;
+}
+
+export interface ClassPeriod {
+  id: string;
+  label: string; // e.g. "1er período"
+  start: string; // "HH:MM", 24h
+  end: string;   // "HH:MM", 24h
+}
+
+// Weekly timetable entry: a section has `subject` in this period every `weekday`
+export interface TimetableSlot {
+  id: string;
+  weekday: number; // 1 = Monday ... 6 = Saturday (as Date.getDay())
+  periodId: string;
+  sectionId: string;
+  subject: Subject;
+}
+
+export interface SchoolHoliday {
+  id: string;
+  name: string;
+  start: string; // "YYYY-MM-DD"
+  end: string;   // "YYYY-MM-DD", inclusive; same as start for a single day
+}
+
+export interface ClassSchedule {
+  sections: ClassSection[];
+  periods: ClassPeriod[];
+  slots: TimetableSlot[];
+  holidays: SchoolHoliday[];
+  termStart?: string; // "YYYY-MM-DD"; classes are only placed inside the term
+  termEnd?: string;
+}
+
+// A saved plan assigned to one occurrence of a timetable slot
+export interface ScheduledLesson {
+  id: string;
+  slotId: string;
+  date: string; // "YYYY-MM-DD"
+  planId: string;
+}
+
+// MINED curriculum catalog: competencies and achievement indicators by subject and grade
+export interface CurriculumIndicator {
+  id: string; // Stable across catalog versions, e.g. "MAT-5-2.3"
+  text: string;
+}
+
+export interface CurriculumCompetency {
+  id: string;
+  subject: Subject;
+  grade: GradeLevel;
+  unit: string;
+  competency: string; // Competencia de grado
+  indicators: CurriculumIndicator[];
+}
+
+export interface CurriculumCatalog {
+  version: string;
+  source: string; // Where the catalog came from (bundled, or the imported file's description)
+  competencies: CurriculumCompetency[];
+}
+
+// Textbook PDF parsed locally into a section tree, so only the chosen sections are sent to the model
+export interface TextbookSection {
+  id: string;
+  title: string;
+  level: number; // 0 = top level (unit/chapter)
+  startPage: number; // 1-based
+  endPage: number;   // Inclusive
+  children: TextbookSection[];
+}
+
+export interface ParsedTextbook {
+  fileName: string;
+  pageCount: number;
+  sizeBytes: number;
+  sections: TextbookSection[];
+  indexSource: 'outline' | 'headings' | 'pages'; // PDF bookmarks, detected headings, or fixed page blocks
+}
+
+// What a textbook-based generation sends: the selected pages as a PDF, or only their text
+export type TextbookSourceMode = 'pages' | 'text';
+
+// A textbook kept in the local library; the PDF itself is stored separately under the same id
+export interface Textbook extends ParsedTextbook {
+  id: string;
+  title: string;
+  subject: Subject;
+  grade: GradeLevel;
+  publisher?: string;
+  year?: number;
+  createdAt?: string; // ISO timestamp, set by the storage layer
+  updatedAt?: string;
+}
+
+// Sections of a library book used by a request; no sections means the whole book
+export interface TextbookReference {
+  textbookId: string;
+  sectionIds: string[];
+  mode: TextbookSourceMode;
+}
+
+// Source material besides the library textbook. Files are converted in the browser to what the
+// model accepts: photos are oriented, cropped and re-encoded; Word documents become plain text.
+export type SourceKind = 'pdf' | 'image' | 'docx' | 'text';
+
+export interface SourceAttachment {
+  id: string;
+  kind: SourceKind;
+  fileName: string;
+  mimeType: string; // What is sent: application/pdf, image/jpeg, image/png or text/plain
+  data: string;     // Base64 of the converted content
+  thumbnail?: string; // Small JPEG data URL for images
+  excerpt?: string;   // First lines of text-based sources
+}
+
+// A source as remembered on the plan: enough to show it, without the content
+export interface SourceSummary {
+  kind: SourceKind | 'textbook';
+  label: string;
+  thumbnail?: string;
+}
+
+// Generation requests made without a connection wait in IndexedDB and run, oldest first, once
+// the connection returns
+export type QueuedResourceJob =
+  | { resource: 'assessment'; request: AssessmentRequest }
+  | { resource: 'adaptation'; request: AdaptationRequest }
+  | { resource: 'dynamics'; request: DynamicsRequest }
+  | { resource: 'worksheet'; request: WorksheetRequest }
+  | { resource: 'whiteboard'; request: WhiteboardRequest }
+  | { resource: 'slides'; request: SlidesRequest }
+  | { resource: 'vocabulary'; request: VocabularyRequest };
+
+export type QueuedJob =
+  | { kind: 'lessonPlan'; request: LessonPlanRequest }         // Saved to the library when done
+  | ({ kind: 'resource'; planId: string } & QueuedResourceJob); // Saved with the plan's resources
+
+export interface QueuedGeneration {
+  id: string;
+  label: string; // Shown in the connection menu, e.g. "Plan de clase · Fracciones"
+  job: QueuedJob;
+  createdAt: string; // ISO timestamp
+  lastErrorKind?: AIErrorKind; // Last attempt failed for a reason other than the connection
+}
+
+export interface GenerationQueueState {
+  jobs: QueuedGeneration[];
+  runningId: string | null;
+}
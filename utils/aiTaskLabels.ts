@@ -0,0 +1,20 @@
+import { AITask } from "../services/providers";
+
+// Spanish names of the AI generators, for the cache inspector and the usage dashboard
+export const AI_TASK_LABELS: Record<AITask, string> = {
+  lessonPlan: 'Plan de clase',
+  sectionRegeneration: 'Regenerar sección',
+  homeReview: 'Repaso WhatsApp',
+  assessment: 'Evaluación',
+  adaptation: 'Adecuación',
+  dynamics: 'Dinámicas',
+  worksheet: 'Hoja de trabajo',
+  whiteboard: 'Pizarra',
+  slides: 'Presentación',
+  vocabulary: 'Tarjetas de vocabulario',
+  unitOverview: 'Unidad (visión general)',
+  unitSession: 'Unidad (sesión)',
+  chat: 'Asistente (chat)',
+};
+
+export const taskLabel = (task: string): string => AI_TASK_LABELS[task as AITask] || task;
@@ -0,0 +1,110 @@
+import { AssessmentItemSpec, BloomLevel, QuizItemType, QuizQuestion } from "../types";
+
+// Item types, cognitive levels and points of generated quizzes. Questions generated before item
+// types existed carry none of these fields and read as 1-point multiple choice.
+
+export const ITEM_TYPE_LABELS: Record<QuizItemType, string> = {
+  multipleChoice: 'Selección múltiple',
+  trueFalse: 'Verdadero o falso',
+  fillBlank: 'Completar',
+  matching: 'Pareo',
+  shortAnswer: 'Respuesta corta',
+  ordering: 'Ordenar',
+  openResponse: 'Desarrollo',
+};
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  remember: 'Recordar',
+  understand: 'Comprender',
+  apply: 'Aplicar',
+  analyze: 'Analizar',
+  evaluate: 'Evaluar',
+  create: 'Crear',
+};
+
+// Webb's Depth of Knowledge level each Bloom level usually corresponds to
+export const WEBB_LEVELS: Record<BloomLevel, number> = {
+  remember: 1,
+  understand: 2,
+  apply: 2,
+  analyze: 3,
+  evaluate: 3,
+  create: 4,
+};
+
+export const WEBB_LEVEL_LABELS: Record<number, string> = {
+  1: 'Recuerdo y reproducción',
+  2: 'Habilidades y conceptos',
+  3: 'Pensamiento estratégico',
+  4: 'Pensamiento extendido',
+};
+
+// More than this no longer fits one answer and the model starts dropping items
+export const MAX_QUIZ_ITEMS = 40;
+
+export const TRUE_FALSE_OPTIONS = ['Verdadero', 'Falso'];
+
+// Lines left on paper for a written answer
+export const ANSWER_LINES: Partial<Record<QuizItemType, number>> = {
+  shortAnswer: 1,
+  openResponse: 5,
+};
+
+// What a quiz request without a blueprint asks for (the original 5-question quiz)
+export const DEFAULT_ITEM_SPECS: AssessmentItemSpec[] = [
+  { type: 'multipleChoice', count: 5, points: 1, bloomLevel: 'understand' },
+];
+
+// Starting blueprint of the assessment builder: a bit of every format, 10 items, 15 points
+export const SUGGESTED_ITEM_SPECS: AssessmentItemSpec[] = [
+  { type: 'multipleChoice', count: 3, points: 1, bloomLevel: 'understand' },
+  { type: 'trueFalse', count: 2, points: 1, bloomLevel: 'remember' },
+  { type: 'fillBlank', count: 1, points: 1, bloomLevel: 'remember' },
+  { type: 'matching', count: 1, points: 2, bloomLevel: 'understand' },
+  { type: 'ordering', count: 1, points: 2, bloomLevel: 'apply' },
+  { type: 'shortAnswer', count: 1, points: 2, bloomLevel: 'apply' },
+  { type: 'openResponse', count: 1, points: 3, bloomLevel: 'analyze' },
+];
+
+export const itemType = (question: QuizQuestion): QuizItemType => question.type ?? 'multipleChoice';
+
+export const itemPoints = (question: QuizQuestion): number => question.points ?? 1;
+
+export const pointsLabel = (points: number): string => points === 1 ? '1 pt' : `${points} pts`;
+
+export const totalPoints = (questions: QuizQuestion[]): number =>
+  questions.reduce((sum, q) => sum + itemPoints(q), 0);
+
+// The student picks an option or writes a word that can be compared as text
+export const isAutoGradable = (question: QuizQuestion): boolean =>
+  ['multipleChoice', 'trueFalse', 'fillBlank'].includes(itemType(question));
+
+// The blueprint as one spec per item, in order
+export const expandItemSpecs = (specs: AssessmentItemSpec[]): Omit<AssessmentItemSpec, 'count'>[] =>
+  specs.flatMap(({ count, ...item }) => Array.from({ length: count }, () => item));
+
+export const cognitiveLevelLabel = (level: BloomLevel): string =>
+  `${BLOOM_LEVEL_LABELS[level]} · DOK ${WEBB_LEVELS[level]}`;
+
+// Points and level come from the blueprint, by position. The type stays the one the model
+// declared (its content was written for it); true/false gets its fixed options, and the answers
+// of matching and ordering items are written out from their pairs and sequence so answer keys and
+// exports can show them as text
+export const applyItemSpecs = (questions: QuizQuestion[], items: Omit<AssessmentItemSpec, 'count'>[]): QuizQuestion[] =>
+  questions.slice(0, items.length).map((question, i) => {
+    const { points, bloomLevel } = items[i];
+    const type = question.type ?? items[i].type;
+    const item: QuizQuestion = { ...question, type, points, bloomLevel };
+    switch (type) {
+      case 'multipleChoice':
+        return item;
+      case 'trueFalse':
+        return { ...item, options: TRUE_FALSE_OPTIONS, correctAnswer: /^\s*(v|true|cierto)/i.test(item.correctAnswer) ? 'Verdadero' : 'Falso' };
+      case 'matching':
+        return { ...item, options: [], correctAnswer: (item.pairs ?? []).map(p => `${p.left} → ${p.right}`).join('; ') || item.correctAnswer };
+      case 'ordering':
+        return { ...item, options: [], correctAnswer: (item.sequence ?? []).join(' → ') || item.correctAnswer };
+      default:
+        return { ...item, options: [] };
+    }
+  });
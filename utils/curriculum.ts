@@ -0,0 +1,99 @@
+import { CurriculumCatalog, CurriculumCompetency, CurriculumIndicator, GeneratedLessonPlan } from "../types";
+import { normalizeText } from "./planSearch";
+
+// Lookups over the MINED catalog, matching of free-text indicators, and coverage.
+
+export const competenciesFor = (catalog: CurriculumCatalog, subject: string, grade: string): CurriculumCompetency[] =>
+  catalog.competencies.filter(c => c.subject === subject && c.grade === grade);
+
+export const indicatorsFor = (catalog: CurriculumCatalog, subject: string, grade: string): CurriculumIndicator[] =>
+  competenciesFor(catalog, subject, grade).flatMap(c => c.indicators);
+
+export const findIndicator = (catalog: CurriculumCatalog, id: string): CurriculumIndicator | undefined => {
+  for (const competency of catalog.competencies) {
+    const indicator = competency.indicators.find(i => i.id === id);
+    if (indicator) return indicator;
+  }
+  return undefined;
+};
+
+// Words that carry meaning: accents, punctuation and short function words ("de", "la", "y") removed
+const contentWords = (text: string): Set<string> =>
+  new Set(normalizeText(text).replace(/[^a-z0-9ñ\s]/g, ' ').split(/\s+/).filter(word => word.length > 2));
+
+// Dice coefficient over content words: 1 for the same wording, ~0 for unrelated sentences
+const similarity = (a: string, b: string): number => {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+// Below this the model (or the teacher) wrote a different indicator, not a rewording of a catalog one
+export const INDICATOR_MATCH_THRESHOLD = 0.6;
+
+export interface IndicatorMatch {
+  indicator: CurriculumIndicator;
+  score: number;
+}
+
+// The catalog indicator `text` corresponds to, tolerating small rewordings
+export const matchIndicator = (candidates: CurriculumIndicator[], text: string): IndicatorMatch | undefined => {
+  let best: IndicatorMatch | undefined;
+  for (const indicator of candidates) {
+    const score = similarity(indicator.text, text);
+    if (!best || score > best.score) best = { indicator, score };
+  }
+  return best && best.score >= INDICATOR_MATCH_THRESHOLD ? best : undefined;
+};
+
+// The catalog indicator a plan covers: the id recorded at generation, unless the teacher has
+// since rewritten the indicator into something else; otherwise matched by text.
+export const planIndicatorId = (catalog: CurriculumCatalog, plan: GeneratedLessonPlan): string | undefined => {
+  const candidates = indicatorsFor(catalog, plan.generalData.subject, plan.generalData.grade);
+  const recorded = plan.curriculumIndicatorId ? candidates.find(i => i.id === plan.curriculumIndicatorId) : undefined;
+  if (recorded && similarity(recorded.text, plan.generalData.achievementIndicator) >= INDICATOR_MATCH_THRESHOLD) return recorded.id;
+  return matchIndicator(candidates, plan.generalData.achievementIndicator)?.indicator.id;
+};
+
+export interface CompetencyCoverage {
+  competency: CurriculumCompetency;
+  indicators: { indicator: CurriculumIndicator; plans: GeneratedLessonPlan[] }[];
+  covered: number;
+}
+
+export interface CurriculumCoverage {
+  competencies: CompetencyCoverage[];
+  covered: number;
+  total: number;
+}
+
+// Which indicators of a subject and grade have at least one plan created in `year`
+export const computeCoverage = (
+  catalog: CurriculumCatalog,
+  plans: GeneratedLessonPlan[],
+  subject: string,
+  grade: string,
+  year: number = new Date().getFullYear()
+): CurriculumCoverage => {
+  const plansByIndicator = new Map<string, GeneratedLessonPlan[]>();
+  for (const plan of plans) {
+    if (plan.generalData.subject !== subject || plan.generalData.grade !== grade) continue;
+    if (plan.createdAt && new Date(plan.createdAt).getFullYear() !== year) continue;
+    const id = planIndicatorId(catalog, plan);
+    if (id) plansByIndicator.set(id, [...(plansByIndicator.get(id) || []), plan]);
+  }
+
+  const competencies = competenciesFor(catalog, subject, grade).map(competency => {
+    const indicators = competency.indicators.map(indicator => ({ indicator, plans: plansByIndicator.get(indicator.id) || [] }));
+    return { competency, indicators, covered: indicators.filter(i => i.plans.length > 0).length };
+  });
+
+  return {
+    competencies,
+    covered: competencies.reduce((sum, c) => sum + c.covered, 0),
+    total: competencies.reduce((sum, c) => sum + c.indicators.length, 0),
+  };
+};
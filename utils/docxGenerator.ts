@@ -1,162 +1,404 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, BorderStyle, AlignmentType, Header, Footer } from "docx";
+import { Document, Packer, Paragraph, TextRun, ImageRun, HeadingLevel, Table, TableRow, TableCell, WidthType, BorderStyle, AlignmentType, Header, Footer, PageNumber, VerticalAlign } from "docx";
 import FileSaver from "file-saver";
-import { GeneratedLessonPlan } from "../types";
+import { GeneratedLessonPlan, PlanResources, QuizQuestion, SchoolProfile, UnitPlan } from "../types";
+import { ANSWER_LINES, ITEM_TYPE_LABELS, itemPoints, itemType, pointsLabel, totalPoints } from "./assessmentItems";
+import { ExamOptions, ExamVersion, PrintedItem, BubbleRow, bubbleRows, choiceLabels, examItems, itemPointsLabel, printedItem, versionTitle } from "./exam";
 
-export const generateDocx = async (plan: GeneratedLessonPlan) => {
+const PRIMARY = "004369";
+const ACCENT = "DBA858";
+const MUTED = "666666";
+const LOGO_HEIGHT = 56; // px in the header
+
+// Toolkit outputs that can be appended after the plan, in the order they are printed
+export type DocxAppendix = keyof Omit<PlanResources, 'planId' | 'updatedAt'>;
+
+export const DOCX_APPENDIX_LABELS: Record<DocxAppendix, string> = {
+  assessment: 'Evaluación (cuestionario y rúbrica)',
+  worksheet: 'Hoja de trabajo',
+  slides: 'Diapositivas',
+  vocabulary: 'Tarjetas de vocabulario',
+  whiteboard: 'Diseño de pizarra',
+  adaptation: 'Adaptación curricular',
+  dynamics: 'Dinámicas y juegos',
+};
+
+export interface DocxExportOptions {
+  school: SchoolProfile;
+  resources?: Omit<PlanResources, 'planId'>;
+  appendices?: DocxAppendix[]; // Defaults to every resource present
+}
+
+// --- BUILDING BLOCKS ---
+
+const spacer = () => new Paragraph({ text: "" });
+
+const sectionHeading = (text: string, color: string = PRIMARY) => new Paragraph({
+  text,
+  heading: HeadingLevel.HEADING_2,
+  border: { bottom: { color, space: 1, style: BorderStyle.SINGLE, size: 6 } },
+});
+
+const subheading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_3 });
+
+const labeled = (label: string, text: string) => new Paragraph({
+  children: [new TextRun({ text: label, bold: true }), new TextRun(text)],
+});
+
+const bullets = (items: string[], marker: string = "•") =>
+  items.map(item => new Paragraph({ text: `${marker} ${item}`, indent: { left: 720 } })); // 0.5 inch
+
+const headerCell = (text: string) => new TableCell({
+  children: [new Paragraph({ children: [new TextRun({ text, bold: true, color: "FFFFFF" })] })],
+  shading: { fill: PRIMARY },
+  verticalAlign: VerticalAlign.CENTER,
+});
+
+const cell = (content: string | Paragraph[]) => new TableCell({
+  children: typeof content === "string" ? [new Paragraph(content)] : content,
+});
+
+const labelCell = (text: string) => new TableCell({
+  children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })],
+  shading: { fill: "F1F5F9" },
+});
+
+const table = (header: string[], rows: (string | Paragraph[])[][], columnWidths?: number[]) => new Table({
+  width: { size: 100, type: WidthType.PERCENTAGE },
+  columnWidths,
+  rows: [
+    new TableRow({ tableHeader: true, children: header.map(headerCell) }),
+    ...rows.map(row => new TableRow({ children: row.map(cell) })),
+  ],
+});
+
+const cellList = (items: string[]) => items.length
+  ? items.map(item => new Paragraph({ text: `• ${item}` }))
+  : [new Paragraph("—")];
+
+// School name, logo, teacher and section on every page; the subtitle names the document
+const schoolHeader = (school: SchoolProfile, subtitle: string) => {
+  const details = [
+    school.teacherName && `Docente: ${school.teacherName}`,
+    school.section && `Sección: ${school.section}`,
+  ].filter(Boolean).join("   ·   ");
+
+  return new Header({
+    children: [
+      ...(school.logo ? [new Paragraph({
+        children: [new ImageRun({
+          data: school.logo.dataUrl,
+          transformation: { width: Math.round(school.logo.width * LOGO_HEIGHT / school.logo.height), height: LOGO_HEIGHT },
+        })],
+        alignment: AlignmentType.CENTER,
+      })] : []),
+      new Paragraph({
+        children: [new TextRun({ text: school.name, bold: true, size: 28 })], // 14pt
+        alignment: AlignmentType.CENTER,
+      }),
+      new Paragraph({
+        children: [new TextRun({ text: subtitle, italics: true, size: 20 })], // 10pt
+        alignment: AlignmentType.CENTER,
+      }),
+      ...(details ? [new Paragraph({
+        children: [new TextRun({ text: details, size: 18, color: MUTED })],
+        alignment: AlignmentType.CENTER,
+      })] : []),
+    ],
+  });
+};
+
+const pageFooter = () => new Footer({
+  children: [
+    new Paragraph({
+      children: [
+        new TextRun({ children: ["Página ", PageNumber.CURRENT, " de ", PageNumber.TOTAL_PAGES], size: 16, color: MUTED }),
+      ],
+      alignment: AlignmentType.RIGHT,
+    }),
+  ],
+});
+
+// --- LESSON PLAN ---
+
+// Formal MINED layout: one row per ACES moment with its activities, resources and time
+const acesTable = (plan: GeneratedLessonPlan) => table(
+  ["Momento", "Actividades", "Recursos", "Tiempo"],
+  plan.sequence.map(step => [
+    [
+      new Paragraph({ children: [new TextRun({ text: step.phase, bold: true, color: PRIMARY })] }),
+      new Paragraph({ children: [new TextRun({ text: step.title, italics: true })] }),
+    ],
+    cellList(step.activities),
+    cellList(step.resources),
+    step.time,
+  ]),
+  [1800, 4400, 2200, 1000],
+);
+
+const planBody = (plan: GeneratedLessonPlan, school: SchoolProfile, date: string) => {
+  const { generalData, faithIntegration, evaluation, teacherGuide, homework } = plan;
+
+  return [
+    // GENERAL DATA
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ children: [labelCell("Grado:"), cell(generalData.grade), labelCell("Asignatura:"), cell(generalData.subject)] }),
+        new TableRow({ children: [labelCell("Sección:"), cell(school.section || "—"), labelCell("Docente:"), cell(school.teacherName || "—")] }),
+        new TableRow({ children: [labelCell("Fecha:"), cell(date), labelCell("Duración:"), cell(plan.duration || "—")] }),
+        new TableRow({ children: [labelCell("Unidad:"), new TableCell({ children: [new Paragraph(generalData.unit)], columnSpan: 3 })] }),
+      ],
+    }),
+
+    spacer(),
+    subheading("Contenido Conceptual:"),
+    new Paragraph(generalData.contentConceptual),
+    spacer(),
+    subheading("Indicador de Logro:"),
+    new Paragraph({ children: [new TextRun({ text: generalData.achievementIndicator, italics: true })] }),
+
+    // FAITH INTEGRATION
+    spacer(),
+    sectionHeading("Integración de la Fe:", ACCENT),
+    spacer(),
+    labeled("Objetivo: ", faithIntegration.objective),
+    labeled("Concepto: ", faithIntegration.spiritualConcept),
+    new Paragraph({
+      children: [
+        new TextRun({ text: "Versículo: ", bold: true }),
+        new TextRun({ text: `"${faithIntegration.bibleVerse}"`, italics: true }),
+      ],
+    }),
+
+    // SEQUENCE
+    spacer(),
+    sectionHeading("Secuencia Didáctica (ACES):"),
+    spacer(),
+    acesTable(plan),
+
+    // EVALUATION
+    spacer(),
+    sectionHeading("Evaluación:"),
+    new Paragraph({ children: [new TextRun({ text: "Cualitativa:", bold: true })] }),
+    ...bullets(evaluation.qualitative, "-"),
+    spacer(),
+    new Paragraph({ children: [new TextRun({ text: "Cuantitativa:", bold: true })] }),
+    ...bullets(evaluation.quantitative, "-"),
+
+    // TEACHER GUIDE
+    ...(teacherGuide ? [
+      spacer(),
+      sectionHeading("Guía Docente:"),
+      new Paragraph({ children: [new TextRun({ text: "Conocimientos Previos:", bold: true })] }),
+      ...bullets(teacherGuide.priorKnowledge),
+      spacer(),
+      new Paragraph({ children: [new TextRun({ text: "Vocabulario Clave:", bold: true })] }),
+      new Paragraph(teacherGuide.keyVocabulary.join(", ")),
+      spacer(),
+      new Paragraph({ children: [new TextRun({ text: "Estrategias de Diferenciación:", bold: true })] }),
+      ...bullets(teacherGuide.differentiation),
+      spacer(),
+      new Paragraph({ children: [new TextRun({ text: "Consejos Metodológicos:", bold: true })] }),
+      ...bullets(teacherGuide.methodologicalTips),
+    ] : []),
+
+    // HOMEWORK
+    ...(homework ? [
+      spacer(),
+      sectionHeading("Tarea para la Casa:"),
+      new Paragraph(homework.activity),
+      labeled("Criterio de evaluación: ", homework.evaluationCriteria),
+    ] : []),
+
+    // RESOURCES
+    ...(plan.resources.length ? [
+      spacer(),
+      sectionHeading("Recursos:"),
+      ...bullets(plan.resources),
+    ] : []),
+
+    ...(plan.flashcardPrompts?.length ? [
+      spacer(),
+      sectionHeading("Prompts para Imágenes:"),
+      ...plan.flashcardPrompts.map((prompt, i) => new Paragraph({ text: `${i + 1}. ${prompt}`, indent: { left: 720 } })),
+    ] : []),
+
+    // SIGNATURES
+    spacer(),
+    spacer(),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: {
+        top: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+        bottom: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+        left: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+        right: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+        insideHorizontal: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+        insideVertical: { style: BorderStyle.NONE, size: 0, color: "FFFFFF" },
+      },
+      rows: [
+        new TableRow({
+          children: ["Firma del Docente", "Vo. Bo. Dirección Académica"].map(text => new TableCell({
+            children: [
+              new Paragraph({ text: "________________________", alignment: AlignmentType.CENTER }),
+              new Paragraph({ text, alignment: AlignmentType.CENTER }),
+            ],
+          })),
+        }),
+      ],
+    }),
+  ];
+};
+
+// --- APPENDICES ---
+
+const appendixHeading = (text: string) => new Paragraph({
+  text,
+  heading: HeadingLevel.HEADING_1,
+  pageBreakBefore: true,
+  border: { bottom: { color: ACCENT, space: 1, style: BorderStyle.SINGLE, size: 6 } },
+});
+
+const writingLines = (count: number) =>
+  Array.from({ length: count }, () => new Paragraph({ text: "_".repeat(80), spacing: { before: 160 } }));
+
+// The student's side of an item (see quizItemBody in the PDF export); `label` names each choice
+const quizItemParagraphs = (q: QuizQuestion, { options, matches, steps }: PrintedItem, label: (index: number) => string): Paragraph[] => {
+  switch (itemType(q)) {
+    case 'matching':
+      return [
+        ...(q.pairs ?? []).map((pair, j) => new Paragraph({ text: `${j + 1}. ${pair.left}`, indent: { left: 720 } })),
+        ...matches.map(right => new Paragraph({ text: `( ___ ) ${right}`, indent: { left: 720 } })),
+      ];
+    case 'ordering':
+      return steps.map(step => new Paragraph({ text: `( ___ ) ${step}`, indent: { left: 720 } }));
+    default:
+      return [
+        ...options.map((option, j) => new Paragraph({ text: `${label(j)} ${option}`, indent: { left: 720 } })),
+        ...writingLines(ANSWER_LINES[itemType(q)] ?? 0),
+      ];
+  }
+};
+
+const APPENDIX_BUILDERS: { [K in DocxAppendix]: (resource: NonNullable<PlanResources[K]>) => (Paragraph | Table)[] } = {
+  assessment: ({ quiz, rubric }) => [
+    appendixHeading("Anexo: Evaluación"),
+    ...(quiz ? [
+      subheading("Cuestionario"),
+      labeled("Nombre: ", "_______________________________   Fecha: ____________"),
+      spacer(),
+      labeled("Puntaje total: ", pointsLabel(totalPoints(quiz.questions))),
+      ...quiz.questions.flatMap((q, i) => [
+        new Paragraph({
+          children: [new TextRun({ text: `${i + 1}. ${q.question}`, bold: true }), new TextRun({ text: `  (${pointsLabel(itemPoints(q))})`, color: MUTED })],
+          spacing: { before: 200 },
+        }),
+        ...quizItemParagraphs(q, { ...printedItem(q), options: q.options }, j => `${String.fromCharCode(97 + j)})`),
+      ]),
+      spacer(),
+      subheading("Clave de Respuestas"),
+      ...quiz.questions.map((q, i) => new Paragraph(`${i + 1}. ${q.correctAnswer} (${pointsLabel(itemPoints(q))})`)),
+    ] : []),
+    ...(rubric ? [
+      spacer(),
+      subheading("Rúbrica de Evaluación"),
+      table(
+        ["Criterio", "Excelente", "Bueno", "Necesita Mejorar"],
+        rubric.rows.map(row => [row.criteria, row.excellent, row.good, row.needsImprovement]),
+      ),
+    ] : []),
+  ],
+
+  worksheet: (worksheet) => [
+    appendixHeading(`Anexo: ${worksheet.title}`),
+    labeled("Nombre: ", "_______________________________   Fecha: ____________"),
+    spacer(),
+    new Paragraph({ children: [new TextRun({ text: worksheet.instructions, italics: true })] }),
+    ...worksheet.sections.flatMap((section, i) => [
+      spacer(),
+      subheading(`${i + 1}. ${section.title}`),
+      ...(section.type === 'matching'
+        ? section.content.map(item => new Paragraph({ text: `( ___ ) ${item}`, indent: { left: 720 } }))
+        : section.content.flatMap(item => [
+            new Paragraph({ text: `• ${item}`, indent: { left: 720 } }),
+            ...(section.type === 'lines' ? writingLines(2) : []),
+          ])),
+      ...(section.type === 'box' ? writingLines(6) : []),
+    ]),
+  ],
+
+  slides: ({ slides }) => [
+    appendixHeading("Anexo: Diapositivas"),
+    ...slides.flatMap(slide => [
+      subheading(`Diapositiva ${slide.slideNumber}: ${slide.title}`),
+      ...bullets(slide.bullets),
+      labeled("Notas del orador: ", slide.speakerNotes),
+      new Paragraph({ children: [new TextRun({ text: `Imagen sugerida: ${slide.visualSuggestion}`, italics: true, color: MUTED })] }),
+      spacer(),
+    ]),
+  ],
+
+  vocabulary: ({ cards }) => [
+    appendixHeading("Anexo: Tarjetas de Vocabulario"),
+    table(
+      ["", "Término", "Definición"],
+      cards.map(card => [card.icon, card.term, card.definition]),
+      [800, 2600, 6000],
+    ),
+  ],
+
+  whiteboard: ({ leftPanel, centerPanel, rightPanel }) => [
+    appendixHeading("Anexo: Diseño de Pizarra"),
+    table(
+      ["Izquierda", centerPanel.title, "Derecha"],
+      [[cellList(leftPanel), cellList(centerPanel.keyPoints), cellList(rightPanel)]],
+    ),
+    labeled("Organizador sugerido: ", centerPanel.diagramType),
+  ],
+
+  adaptation: ({ strategies, modifiedActivity, evaluationAdjustment }) => [
+    appendixHeading("Anexo: Adaptación Curricular"),
+    subheading("Estrategias"),
+    ...bullets(strategies),
+    spacer(),
+    subheading("Actividad Modificada"),
+    new Paragraph(modifiedActivity),
+    spacer(),
+    subheading("Ajuste en la Evaluación"),
+    new Paragraph(evaluationAdjustment),
+  ],
+
+  dynamics: ({ games }) => [
+    appendixHeading("Anexo: Dinámicas y Juegos"),
+    ...games.flatMap(game => [
+      subheading(`${game.title} (${game.type})`),
+      new Paragraph(game.instructions),
+      labeled("Materiales: ", game.materials),
+      spacer(),
+    ]),
+  ],
+};
+
+const appendixBody = <K extends DocxAppendix>(kind: K, resource: PlanResources[K]) =>
+  resource ? APPENDIX_BUILDERS[kind](resource as NonNullable<PlanResources[K]>) : [];
+
+// --- DOCUMENTS ---
+
+export const generateDocx = async (plan: GeneratedLessonPlan, { school, resources = {}, appendices }: DocxExportOptions) => {
   const currentDate = new Date().toLocaleDateString('es-NI');
+  const selected = (Object.keys(DOCX_APPENDIX_LABELS) as DocxAppendix[])
+    .filter(kind => resources[kind] && (!appendices || appendices.includes(kind)));
 
   const doc = new Document({
     sections: [
       {
         properties: {},
-        headers: {
-          default: new Header({
-            children: [
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: "Colegio Adventista Porteño",
-                    bold: true,
-                    size: 28, // 14pt
-                  }),
-                ],
-                alignment: AlignmentType.CENTER,
-              }),
-              new Paragraph({
-                children: [
-                  new TextRun({
-                    text: "Plan de Clase Integral - Modelo Adventista",
-                    italics: true,
-                    size: 20, // 10pt
-                  }),
-                ],
-                alignment: AlignmentType.CENTER,
-              }),
-            ],
-          }),
-        },
+        headers: { default: schoolHeader(school, "Plan de Clase Integral - Modelo Adventista") },
+        footers: { default: pageFooter() },
         children: [
-          // SPACER
-          new Paragraph({ text: "" }),
-
-          // GENERAL DATA TABLE
-          new Table({
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            rows: [
-              new TableRow({
-                children: [
-                  new TableCell({ children: [new Paragraph({ text: "Grado:", bold: true })] }),
-                  new TableCell({ children: [new Paragraph(plan.generalData.grade)] }),
-                  new TableCell({ children: [new Paragraph({ text: "Asignatura:", bold: true })] }),
-                  new TableCell({ children: [new Paragraph(plan.generalData.subject)] }),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  new TableCell({ children: [new Paragraph({ text: "Fecha:", bold: true })] }),
-                  new TableCell({ children: [new Paragraph(currentDate)] }),
-                  new TableCell({ children: [new Paragraph({ text: "Unidad:", bold: true })] }),
-                  new TableCell({ children: [new Paragraph(plan.generalData.unit)] }),
-                ],
-              }),
-            ],
-          }),
-
-          new Paragraph({ text: "" }),
-
-          // CONTENT & INDICATOR
-          new Paragraph({
-            text: "Contenido Conceptual:",
-            heading: HeadingLevel.HEADING_3,
-          }),
-          new Paragraph({
-            text: plan.generalData.contentConceptual,
-          }),
-
-          new Paragraph({ text: "" }),
-
-          new Paragraph({
-            text: "Indicador de Logro:",
-            heading: HeadingLevel.HEADING_3,
-          }),
-          new Paragraph({
-            text: plan.generalData.achievementIndicator,
-            italics: true,
-          }),
-
-          new Paragraph({ text: "" }),
-
-          // FAITH INTEGRATION
-          new Paragraph({
-            text: "Integración de la Fe:",
-            heading: HeadingLevel.HEADING_2,
-            border: { bottom: { color: "DBA858", space: 1, style: BorderStyle.SINGLE, size: 6 } }
-          }),
-          new Paragraph({ text: "" }),
-          new Paragraph({
-            children: [
-                new TextRun({ text: "Concepto: ", bold: true }),
-                new TextRun(plan.faithIntegration.spiritualConcept),
-            ]
-          }),
-          new Paragraph({
-            children: [
-                new TextRun({ text: "Versículo: ", bold: true }),
-                new TextRun({ text: `"${plan.faithIntegration.bibleVerse}"`, italics: true }),
-            ]
-          }),
-
-          new Paragraph({ text: "" }),
-
-          // SEQUENCE
-          new Paragraph({
-            text: "Secuencia Didáctica (ACES):",
-            heading: HeadingLevel.HEADING_2,
-            border: { bottom: { color: "004369", space: 1, style: BorderStyle.SINGLE, size: 6 } }
-          }),
-          new Paragraph({ text: "" }),
-
-          ...plan.sequence.flatMap(step => [
-            new Paragraph({
-                children: [
-                    new TextRun({ text: `${step.phase}: ${step.title}`, bold: true, color: "004369" }),
-                    new TextRun({ text: ` (${step.time})`, size: 20, color: "666666" })
-                ]
-            }),
-            ...step.activities.map(act => new Paragraph({
-                text: `• ${act}`,
-                indent: { left: 720 } // 0.5 inch
-            })),
-            new Paragraph({ text: "" })
-          ]),
-
-          // EVALUATION
-          new Paragraph({
-            text: "Evaluación:",
-            heading: HeadingLevel.HEADING_2,
-          }),
-          new Paragraph({ text: "Cualitativa:", bold: true }),
-          ...plan.evaluation.qualitative.map(item => new Paragraph({ text: `- ${item}`, indent: { left: 720 } })),
-          
-          new Paragraph({ text: "" }),
-          
-          new Paragraph({ text: "Cuantitativa:", bold: true }),
-          ...plan.evaluation.quantitative.map(item => new Paragraph({ text: `- ${item}`, indent: { left: 720 } })),
-
-          new Paragraph({ text: "" }),
-
-          // TEACHER GUIDE
-          ...(plan.teacherGuide ? [
-            new Paragraph({
-                text: "Guía Docente:",
-                heading: HeadingLevel.HEADING_2,
-            }),
-            new Paragraph({ text: "Vocabulario Clave:", bold: true }),
-            new Paragraph({ text: plan.teacherGuide.keyVocabulary.join(", ") }),
-            new Paragraph({ text: "" }),
-            new Paragraph({ text: "Estrategias de Diferenciación:", bold: true }),
-            ...plan.teacherGuide.differentiation.map(d => new Paragraph({ text: `• ${d}`, indent: { left: 720 } }))
-          ] : []),
+          spacer(),
+          ...planBody(plan, school, currentDate),
+          ...selected.flatMap(kind => appendixBody(kind, resources[kind])),
         ],
       },
     ],
@@ -164,4 +406,202 @@ export const generateDocx = async (plan: GeneratedLessonPlan) => {
 
   const blob = await Packer.toBlob(doc);
   FileSaver.saveAs(blob, `Plan_${plan.generalData.subject.replace(/\s/g, '_')}_${currentDate}.docx`);
-};
\ No newline at end of file
+};
+
+// Unit overview: objective, faith thread and one row per session. `plans` are the generated
+// session plans (index = sessionNumber - 1); sessions not generated yet show the outline only.
+export const generateUnitDocx = async (unit: UnitPlan, plans: (GeneratedLessonPlan | undefined)[], school: SchoolProfile) => {
+  const { request, overview } = unit;
+  const currentDate = new Date().toLocaleDateString('es-NI');
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {},
+        headers: { default: schoolHeader(school, "Plan de Unidad - Modelo Adventista") },
+        footers: { default: pageFooter() },
+        children: [
+          new Paragraph({ text: overview.unitTitle, heading: HeadingLevel.HEADING_1 }),
+          labeled("Asignatura: ", `${request.subject} · ${request.grade}`),
+          labeled("Sesiones: ", `${overview.sessions.length} de ${request.duration}`),
+          labeled("Fecha: ", currentDate),
+
+          spacer(),
+          subheading("Objetivo General:"),
+          new Paragraph(overview.generalObjective),
+
+          spacer(),
+          sectionHeading("Hilo de Fe de la Unidad:", ACCENT),
+          new Paragraph(overview.faithThread),
+
+          spacer(),
+          sectionHeading("Secuencia de Sesiones:"),
+          spacer(),
+          table(
+            ["#", "Tema", "Indicador de Logro", "Vocabulario", "Enfoque Bíblico"],
+            overview.sessions.map((session, i) => {
+              // Prefer what was actually generated (and possibly edited) over the outline
+              const plan = plans[i];
+              return [
+                String(session.sessionNumber),
+                plan?.generalData.contentConceptual || session.topic,
+                plan?.generalData.achievementIndicator || session.achievementIndicator,
+                (plan?.teacherGuide?.keyVocabulary.length ? plan.teacherGuide.keyVocabulary : session.keyVocabulary).join(", "),
+                plan?.faithIntegration.bibleVerse || session.bibleFocus,
+              ];
+            }),
+          ),
+
+          spacer(),
+          subheading("Evaluación Final de la Unidad:"),
+          new Paragraph(overview.finalAssessment),
+        ],
+      },
+    ],
+  });
+
+  const blob = await Packer.toBlob(doc);
+  FileSaver.saveAs(blob, `Unidad_${overview.unitTitle.replace(/\s/g, '_')}_${currentDate}.docx`);
+};
+
+// --- SUMMATIVE EXAM ---
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: "FFFFFF" };
+const BOX_BORDER = { style: BorderStyle.SINGLE, size: 8, color: PRIMARY };
+
+const centered = (text: string, options: { bold?: boolean; size?: number; color?: string } = {}) =>
+  new Paragraph({ children: [new TextRun({ text, ...options })], alignment: AlignmentType.CENTER, spacing: { before: 60, after: 60 } });
+
+// Title and student lines on the left, version and score box on the right
+const examHeader = (options: ExamOptions, version: ExamVersion, plan: GeneratedLessonPlan) => new Table({
+  width: { size: 100, type: WidthType.PERCENTAGE },
+  columnWidths: [7200, 2200],
+  rows: [new TableRow({
+    children: [
+      new TableCell({
+        borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER },
+        children: [
+          new Paragraph({ text: options.title, heading: HeadingLevel.HEADING_1 }),
+          new Paragraph({ children: [new TextRun({ text: `${plan.generalData.subject} • ${plan.generalData.grade}`, color: MUTED })] }),
+          new Paragraph({ text: "Nombre: ________________________________________", spacing: { before: 240 } }),
+          new Paragraph({ text: "Fecha: _______________   Grado y sección: ____________", spacing: { before: 200 } }),
+        ],
+      }),
+      new TableCell({
+        borders: { top: BOX_BORDER, bottom: BOX_BORDER, left: BOX_BORDER, right: BOX_BORDER },
+        verticalAlign: VerticalAlign.CENTER,
+        children: [
+          ...(version.label ? [centered(versionTitle(version).toUpperCase(), { bold: true, size: 24, color: PRIMARY })] : []),
+          centered("PUNTAJE", { bold: true, size: 16, color: MUTED }),
+          centered(`_____ / ${version.points}`, { size: 24 }),
+          centered("Nota: _______"),
+        ],
+      }),
+    ],
+  })],
+});
+
+const examBody = (version: ExamVersion) => version.parts.flatMap(part => [
+  spacer(),
+  sectionHeading(`${part.numeral}. ${part.title}`),
+  new Paragraph({ children: [new TextRun({ text: part.instructions, italics: true, color: MUTED })] }),
+  ...part.items.flatMap(item => [
+    new Paragraph({
+      children: [new TextRun({ text: `${item.number}. ${item.question.question}`, bold: true }), new TextRun({ text: `  (${itemPointsLabel(item)})`, color: MUTED })],
+      spacing: { before: 200 },
+      keepNext: true,
+    }),
+    ...quizItemParagraphs(item.question, item, j => `${choiceLabels(item.question, item.options.length)[j]})`),
+  ]),
+]);
+
+// Multiple choice and true/false in separate tables, each with its letters as the header row;
+// with `filled` it is the correction template
+const bubbleTables = (rows: BubbleRow[], filled: boolean) =>
+  [rows.filter(row => row.choices[0] !== 'V'), rows.filter(row => row.choices[0] === 'V')]
+    .filter(block => block.length)
+    .flatMap(block => {
+      const letters = block.reduce((widest, row) => row.choices.length > widest.length ? row.choices : widest, [] as string[]);
+      const bubbleCell = (text: string, bold = false) => new TableCell({
+        children: [new Paragraph({ children: [new TextRun({ text, bold, size: 24 })], alignment: AlignmentType.CENTER })],
+        borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER },
+      });
+      return [
+        new Table({
+          columnWidths: [600, ...letters.map(() => 500)],
+          rows: [
+            new TableRow({ tableHeader: true, children: [bubbleCell(""), ...letters.map(letter => bubbleCell(letter, true))] }),
+            ...block.map(row => new TableRow({
+              children: [
+                bubbleCell(`${row.number}.`),
+                ...letters.map((_, j) => bubbleCell(j >= row.choices.length ? "" : filled && j === row.correct ? "●" : "○")),
+              ],
+            })),
+          ],
+        }),
+        spacer(),
+      ];
+    });
+
+const answerSheet = (options: ExamOptions, version: ExamVersion) => {
+  const rows = bubbleRows(version);
+  if (!rows.length) return [];
+  const writtenCount = examItems(version).length - rows.length;
+  return [
+    new Paragraph({ text: "Hoja de Respuestas", heading: HeadingLevel.HEADING_1, pageBreakBefore: true }),
+    new Paragraph({ children: [new TextRun({ text: [options.title, versionTitle(version)].filter(Boolean).join(" • "), color: MUTED })] }),
+    labeled("Nombre: ", "_______________________________   Fecha: ____________"),
+    new Paragraph({
+      children: [new TextRun({ text: "Rellena por completo el círculo de la respuesta correcta." + (writtenCount ? " Las demás preguntas se responden en el examen." : ""), italics: true })],
+      spacing: { before: 120, after: 120 },
+    }),
+    ...bubbleTables(rows, false),
+  ];
+};
+
+const examDocument = (school: SchoolProfile, subtitle: string, pages: (Paragraph | Table)[][]) => new Document({
+  // One section per version, so each starts on a new page
+  sections: pages.map(children => ({
+    properties: {},
+    headers: { default: schoolHeader(school, subtitle) },
+    footers: { default: pageFooter() },
+    children,
+  })),
+});
+
+export const generateExamDocx = async (versions: ExamVersion[], options: ExamOptions, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  const doc = examDocument(school, "Evaluación Sumativa", versions.map(version => [
+    examHeader(options, version, plan),
+    ...(options.instructions ? [spacer(), new Paragraph(options.instructions)] : []),
+    ...examBody(version),
+    ...(options.includeAnswerSheet ? answerSheet(options, version) : []),
+  ]));
+
+  const blob = await Packer.toBlob(doc);
+  FileSaver.saveAs(blob, `Examen_${plan.generalData.subject.replace(/\s/g, '_')}_${currentDate}.docx`);
+};
+
+export const generateExamKeyDocx = async (versions: ExamVersion[], options: ExamOptions, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  const doc = examDocument(school, "Evaluación Sumativa · Clave", versions.map(version => {
+    const rows = bubbleRows(version);
+    return [
+      new Paragraph({ text: `Clave de Respuestas${version.label ? ` · ${versionTitle(version)}` : ""}`, heading: HeadingLevel.HEADING_1 }),
+      labeled("Puntaje total: ", pointsLabel(version.points)),
+      spacer(),
+      table(
+        ["#", "Tipo", "Respuesta", "Pts"],
+        examItems(version).map(item => [String(item.number), ITEM_TYPE_LABELS[itemType(item.question)], item.key, String(itemPoints(item.question))]),
+      ),
+      ...(options.includeAnswerSheet && rows.length ? [
+        spacer(),
+        subheading("Plantilla de corrección de la hoja de respuestas"),
+        ...bubbleTables(rows, true),
+      ] : []),
+    ];
+  }));
+
+  const blob = await Packer.toBlob(doc);
+  FileSaver.saveAs(blob, `Clave_Examen_${plan.generalData.subject.replace(/\s/g, '_')}_${currentDate}.docx`);
+};
@@ -0,0 +1,200 @@
+import PizZip from "pizzip";
+import Docxtemplater from "docxtemplater";
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType } from "docx";
+import FileSaver from "file-saver";
+import { GeneratedLessonPlan, PlanResources, PlanTemplate, SchoolProfile } from "../types";
+
+// School-defined Word layouts. A template is a .docx with {{placeholders}} that are filled from the
+// plan: {{generalData.subject}} for a field, {{#sequence}}...{{/sequence}} for a repeating block
+// (inside a table row, the whole row repeats) and {{.}} for the current item of a list of texts.
+
+const DELIMITERS = { start: '{{', end: '}}' };
+const TAG_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const TEMPLATED_PARTS = /^word\/(document|header\d*|footer\d*)\.xml$/;
+
+export class DocxTemplateError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+    this.name = 'DocxTemplateError';
+  }
+}
+
+// Placeholders offered in the help text, with a description of each
+export const PLAN_TEMPLATE_FIELDS: { tag: string; description: string }[] = [
+  { tag: 'school.name', description: 'Nombre del colegio' },
+  { tag: 'school.teacherName', description: 'Docente' },
+  { tag: 'school.section', description: 'Sección' },
+  { tag: 'date', description: 'Fecha de exportación' },
+  { tag: 'duration', description: 'Duración de la clase' },
+  { tag: 'generalData.subject', description: 'Asignatura' },
+  { tag: 'generalData.grade', description: 'Grado' },
+  { tag: 'generalData.unit', description: 'Unidad' },
+  { tag: 'generalData.contentConceptual', description: 'Contenido conceptual' },
+  { tag: 'generalData.achievementIndicator', description: 'Indicador de logro' },
+  { tag: 'faithIntegration.objective', description: 'Objetivo de integración de la fe' },
+  { tag: 'faithIntegration.spiritualConcept', description: 'Concepto espiritual' },
+  { tag: 'faithIntegration.bibleVerse', description: 'Versículo' },
+  { tag: '#sequence', description: 'Bloque repetido por momento ACES: {{phase}}, {{title}}, {{time}}, {{#activities}}{{.}}{{/activities}}, {{#resources}}{{.}}{{/resources}}' },
+  { tag: '#evaluation.qualitative', description: 'Criterios cualitativos ({{.}})' },
+  { tag: '#evaluation.quantitative', description: 'Criterios cuantitativos ({{.}})' },
+  { tag: '#teacherGuide', description: 'Guía docente: priorKnowledge, differentiation, keyVocabulary, methodologicalTips' },
+  { tag: '#homework', description: 'Tarea: {{activity}}, {{evaluationCriteria}}' },
+  { tag: '#resources', description: 'Recursos del plan ({{.}})' },
+  { tag: '#toolkit.assessment.quiz.questions', description: 'Preguntas del cuestionario: {{question}}, {{#options}}{{.}}{{/options}}, {{correctAnswer}}, {{points}}; pareo {{#pairs}}{{left}} / {{right}}{{/pairs}}; ordenar {{#sequence}}{{.}}{{/sequence}}' },
+  { tag: '#toolkit.assessment.rubric.rows', description: 'Rúbrica: {{criteria}}, {{excellent}}, {{good}}, {{needsImprovement}}' },
+];
+
+// Dotted paths, resolved against the innermost loop item first ({{.}} is the item itself).
+// docxtemplater retries outer scopes when a path is undefined, so {{school.name}} works in loops.
+const pathParser = (tag: string) => {
+  const path = tag.trim();
+  return {
+    get: (scope: unknown) => path === '.'
+      ? scope
+      : path.split('.').reduce<unknown>((value, key) => isRecord(value) ? value[key] : undefined, scope),
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// docxtemplater reports every problem of a template at once as { properties: { errors: [...] } }
+const isMultiError = (error: unknown): error is { properties: { errors: unknown[] } } =>
+  isRecord(error) && isRecord(error.properties) && Array.isArray(error.properties.errors);
+
+const problemText = (error: unknown): string => {
+  const explanation = isRecord(error) && isRecord(error.properties) ? error.properties.explanation : undefined;
+  if (typeof explanation === 'string' && explanation) return explanation;
+  if (error instanceof Error && error.message) return error.message;
+  return String(error);
+};
+
+const templateProblems = (error: unknown): string[] =>
+  (isMultiError(error) ? error.properties.errors : [error]).map(problemText);
+
+const compile = (data: ArrayBuffer): Docxtemplater => {
+  let zip: PizZip;
+  try {
+    zip = new PizZip(data);
+  } catch (error) {
+    throw new DocxTemplateError('The file is not a .docx document', [String(error)]);
+  }
+  try {
+    return new Docxtemplater(zip, {
+      delimiters: DELIMITERS,
+      parser: pathParser,
+      paragraphLoop: true,
+      linebreaks: true,
+      nullGetter: () => '', // Optional sections (homework, toolkit outputs) may be missing
+      errorLogging: false, // Problems are reported through DocxTemplateError
+    });
+  } catch (error) {
+    throw new DocxTemplateError('The template has syntax errors', templateProblems(error));
+  }
+};
+
+// Placeholders used by a template, in document order (loops as "#name"). Throws DocxTemplateError
+// when the file is not a valid template, so a broken upload is rejected up front.
+export const inspectTemplate = (data: ArrayBuffer): string[] => {
+  const doc = compile(data);
+  const parts = Object.keys(doc.getZip().files).filter(path => TEMPLATED_PARTS.test(path));
+  const tags: string[] = [];
+  for (const path of parts) {
+    for (const [, tag] of doc.getFullText(path).matchAll(TAG_PATTERN)) {
+      if (!tag.startsWith('/') && !tags.includes(tag)) tags.push(tag);
+    }
+  }
+  return tags;
+};
+
+export interface TemplateExportOptions {
+  school: SchoolProfile;
+  resources?: Omit<PlanResources, 'planId'>;
+}
+
+// A loop over a field the item lacks falls back to outer scopes: without lists of their own, the
+// questions that are not matching or ordering would print the plan's `sequence` in {{#sequence}}
+const withQuizLists = (resources: Omit<PlanResources, 'planId'>): Omit<PlanResources, 'planId'> => {
+  const quiz = resources.assessment?.quiz;
+  if (!resources.assessment || !quiz) return resources;
+  const questions = quiz.questions.map(q => ({ ...q, pairs: q.pairs ?? [], sequence: q.sequence ?? [] }));
+  return { ...resources, assessment: { ...resources.assessment, quiz: { ...quiz, questions } } };
+};
+
+const templateData = (plan: GeneratedLessonPlan, { school, resources = {} }: TemplateExportOptions) => ({
+  ...plan,
+  school,
+  date: new Date().toLocaleDateString('es-NI'),
+  toolkit: withQuizLists(resources), // `resources` is already the plan's list of class materials
+});
+
+export const fillTemplate = (template: PlanTemplate, plan: GeneratedLessonPlan, options: TemplateExportOptions): Blob => {
+  const doc = compile(template.data);
+  try {
+    doc.render(templateData(plan, options));
+  } catch (error) {
+    throw new DocxTemplateError('The template could not be filled', templateProblems(error));
+  }
+  return doc.toBlob({ compression: 'DEFLATE' });
+};
+
+export const generateTemplateDocx = async (template: PlanTemplate, plan: GeneratedLessonPlan, options: TemplateExportOptions) => {
+  const blob = fillTemplate(template, plan, options);
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  FileSaver.saveAs(blob, `Plan_${plan.generalData.subject.replace(/\s/g, '_')}_${template.name.replace(/\s/g, '_')}_${currentDate}.docx`);
+};
+
+// Starting point for a school's own layout: every field once and the ACES sequence as a table
+// whose single data row repeats per moment
+export const downloadSampleTemplate = async () => {
+  const line = (label: string, tag: string) => new Paragraph({
+    children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(`{{${tag}}}`)],
+  });
+  const cell = (...lines: string[]) => new TableCell({ children: lines.map(text => new Paragraph(text)) });
+
+  const doc = new Document({
+    sections: [
+      {
+        children: [
+          new Paragraph({ text: "{{school.name}}", heading: HeadingLevel.HEADING_1 }),
+          line("Docente", "school.teacherName"),
+          line("Sección", "school.section"),
+          line("Fecha", "date"),
+          line("Asignatura", "generalData.subject"),
+          line("Grado", "generalData.grade"),
+          line("Unidad", "generalData.unit"),
+          line("Contenido", "generalData.contentConceptual"),
+          line("Indicador de logro", "generalData.achievementIndicator"),
+          new Paragraph({ text: "Integración de la Fe", heading: HeadingLevel.HEADING_2 }),
+          line("Objetivo", "faithIntegration.objective"),
+          line("Versículo", "faithIntegration.bibleVerse"),
+          new Paragraph({ text: "Secuencia Didáctica", heading: HeadingLevel.HEADING_2 }),
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [
+              new TableRow({ tableHeader: true, children: ["Momento", "Actividades", "Recursos", "Tiempo"].map(text => cell(text)) }),
+              new TableRow({
+                children: [
+                  cell("{{#sequence}}{{phase}}: {{title}}"),
+                  cell("{{#activities}}", "• {{.}}", "{{/activities}}"),
+                  cell("{{#resources}}", "• {{.}}", "{{/resources}}"),
+                  cell("{{time}}{{/sequence}}"),
+                ],
+              }),
+            ],
+          }),
+          new Paragraph({ text: "Evaluación", heading: HeadingLevel.HEADING_2 }),
+          new Paragraph("{{#evaluation.qualitative}}"),
+          new Paragraph("• {{.}}"),
+          new Paragraph("{{/evaluation.qualitative}}"),
+          new Paragraph("{{#homework}}"),
+          new Paragraph({ text: "Tarea", heading: HeadingLevel.HEADING_2 }),
+          new Paragraph("{{activity}}"),
+          new Paragraph("{{/homework}}"),
+        ],
+      },
+    ],
+  });
+
+  FileSaver.saveAs(await Packer.toBlob(doc), "Plantilla_Plan_Ejemplo.docx");
+};
@@ -0,0 +1,148 @@
+import { QuizItemType, QuizQuestion } from "../types";
+import { ITEM_TYPE_LABELS, itemPoints, itemType, pointsLabel, totalPoints } from "./assessmentItems";
+import { sameAnswer, scramble, shuffle } from "./quiz";
+
+// Printed summative exam built from a generated quiz: items grouped by type in numbered parts, and
+// up to four versions with the items and options in a different order. Versions come from a seed,
+// so the PDF and the Word file of one exam (and its answer keys) always match.
+
+export const EXAM_VERSION_LABELS = ['A', 'B', 'C', 'D'];
+
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export interface ExamOptions {
+  title: string;
+  instructions: string;
+  versionCount: number;        // 1 to EXAM_VERSION_LABELS.length
+  includeAnswerSheet: boolean; // Bubble sheet after each version, for multiple choice and true/false
+  seed: number;
+}
+
+// An item's choices, matches and elements in the order they are printed
+export interface PrintedItem {
+  options: string[]; // Multiple choice shuffled; true/false as generated
+  matches: string[]; // Matching: the right column, shuffled
+  steps: string[];   // Ordering: the elements, shuffled
+}
+
+export interface ExamItem extends PrintedItem {
+  number: number; // As printed, counted across the whole exam
+  question: QuizQuestion;
+  key: string;    // What the teacher checks: a letter, V/F, the numbers to write, or the expected answer
+}
+
+export interface ExamPart {
+  numeral: string;
+  type: QuizItemType;
+  title: string;
+  instructions: string;
+  points: number;
+  items: ExamItem[];
+}
+
+export interface ExamVersion {
+  label: string; // Empty when the exam has a single version
+  parts: ExamPart[];
+  points: number;
+}
+
+// One row of the bubble sheet
+export interface BubbleRow {
+  number: number;
+  choices: string[];
+  correct: number; // Index in `choices`; -1 if the key is not one of them
+}
+
+const PART_INSTRUCTIONS: Record<QuizItemType, string> = {
+  multipleChoice: 'Encierra la letra de la respuesta correcta.',
+  trueFalse: 'Encierra V si la afirmación es verdadera o F si es falsa.',
+  fillBlank: 'Completa cada oración con la palabra que falta.',
+  matching: 'Escribe en cada paréntesis el número que corresponde.',
+  shortAnswer: 'Responde de forma breve.',
+  ordering: 'Numera los elementos en el orden correcto, empezando por 1.',
+  openResponse: 'Responde de forma completa, clara y ordenada.',
+};
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Mulberry32: small, fast and good enough to shuffle an exam
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const newExamSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+// Matching answers and ordering elements are never printed in the order of the key
+export const printedItem = (question: QuizQuestion, random: () => number = Math.random): PrintedItem => ({
+  options: itemType(question) === 'trueFalse' ? question.options : shuffle(question.options, random),
+  matches: scramble((question.pairs ?? []).map(pair => pair.right), random),
+  steps: scramble(question.sequence ?? [], random),
+});
+
+// How an item's choices are labeled on the exam and on the bubble sheet
+export const choiceLabels = (question: QuizQuestion, count: number): string[] =>
+  itemType(question) === 'trueFalse' ? ['V', 'F'] : OPTION_LETTERS.slice(0, count);
+
+const answerKey = (question: QuizQuestion, { options, matches, steps }: PrintedItem): string => {
+  switch (itemType(question)) {
+    case 'multipleChoice':
+    case 'trueFalse': {
+      const index = options.findIndex(option => sameAnswer(option, question.correctAnswer));
+      return index >= 0 ? choiceLabels(question, options.length)[index] : question.correctAnswer;
+    }
+    case 'matching': {
+      // Each printed match gets the number of its term, which is the pair's position
+      const rights = (question.pairs ?? []).map(pair => pair.right);
+      return matches.map(right => rights.indexOf(right) + 1).join(', ');
+    }
+    case 'ordering':
+      return steps.map(step => (question.sequence ?? []).indexOf(step) + 1).join(', ');
+    default:
+      return question.correctAnswer;
+  }
+};
+
+const buildVersion = (questions: QuizQuestion[], label: string, random: () => number): ExamVersion => {
+  // Parts follow the order in which each type first appears in the quiz
+  const types = [...new Set(questions.map(itemType))];
+  let number = 0;
+  const parts = types.map((type, i): ExamPart => {
+    const items = shuffle(questions.filter(q => itemType(q) === type), random).map((question): ExamItem => {
+      const printed = printedItem(question, random);
+      number += 1;
+      return { number, question, ...printed, key: answerKey(question, printed) };
+    });
+    const points = totalPoints(items.map(item => item.question));
+    return {
+      numeral: NUMERALS[i],
+      type,
+      title: `${ITEM_TYPE_LABELS[type]} (${pointsLabel(points)})`,
+      instructions: PART_INSTRUCTIONS[type],
+      points,
+      items,
+    };
+  });
+  return { label, parts, points: totalPoints(questions) };
+};
+
+export const buildExamVersions = (questions: QuizQuestion[], { versionCount, seed }: Pick<ExamOptions, 'versionCount' | 'seed'>): ExamVersion[] =>
+  EXAM_VERSION_LABELS.slice(0, versionCount).map((label, i) =>
+    buildVersion(questions, versionCount > 1 ? label : '', seededRandom(seed + i)));
+
+export const examItems = (version: ExamVersion): ExamItem[] => version.parts.flatMap(part => part.items);
+
+// Items answered by marking a choice: multiple choice by letter, true/false as V or F
+export const bubbleRows = (version: ExamVersion): BubbleRow[] =>
+  examItems(version)
+    .filter(item => item.options.length > 0)
+    .map(item => {
+      const choices = choiceLabels(item.question, item.options.length);
+      return { number: item.number, choices, correct: choices.indexOf(item.key) };
+    });
+
+export const versionTitle = (version: ExamVersion) => version.label ? `Versión ${version.label}` : '';
+
+export const itemPointsLabel = (item: ExamItem) => pointsLabel(itemPoints(item.question));
@@ -0,0 +1,91 @@
+import FileSaver from "file-saver";
+import { GeneratedLessonPlan, ScheduledLesson } from "../types";
+import { ClassOccurrence, toDateKey } from "./schedule";
+
+// iCalendar (RFC 5545) export of the class schedule, for phone and desktop calendars.
+// Every class is its own event (rather than a weekly RRULE) so holidays and assigned plans
+// come out exactly as shown in the app. Times are floating: the class is at 8:00 wherever
+// the phone happens to be.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatLocal = (date: Date) =>
+  `${toDateKey(date).replace(/-/g, '')}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space
+const fold = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length;
+    if (currentBytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const buildScheduleIcs = (
+  occurrences: ClassOccurrence[],
+  lessons: ScheduledLesson[],
+  plans: GeneratedLessonPlan[]
+): string => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Plan Ultra//Horario de Clases//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Horario de Clases',
+  ];
+
+  for (const occurrence of occurrences) {
+    const lesson = lessons.find(l => l.slotId === occurrence.slot.id && l.date === occurrence.date);
+    const plan = lesson ? plans.find(p => p.id === lesson.planId) : undefined;
+    const description = plan
+      ? [
+          `Tema: ${plan.generalData.contentConceptual}`,
+          `Indicador de logro: ${plan.generalData.achievementIndicator}`,
+          `Versículo: ${plan.faithIntegration.bibleVerse}`,
+        ].join('\n')
+      : 'Sin plan asignado';
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${occurrence.slot.id}-${occurrence.date}@plan-ultra`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatLocal(occurrence.start)}`,
+      `DTEND:${formatLocal(occurrence.end)}`,
+      `SUMMARY:${escapeText(`${occurrence.slot.subject} · ${occurrence.section.name}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+export const downloadScheduleIcs = (
+  occurrences: ClassOccurrence[],
+  lessons: ScheduledLesson[],
+  plans: GeneratedLessonPlan[]
+) => {
+  const blob = new Blob([buildScheduleIcs(occurrences, lessons, plans)], { type: 'text/calendar;charset=utf-8' });
+  FileSaver.saveAs(blob, `Horario_${toDateKey(new Date())}.ics`);
+};
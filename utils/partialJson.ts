@@ -0,0 +1,154 @@
+// Tolerant parser for JSON that is still being streamed.
+// Returns whatever has arrived so far plus the set of paths whose value is fully received
+// (e.g. "generalData", "sequence[0]"), so the UI can render a section only once it is closed.
+// Incomplete strings, numbers and literals are left out; incomplete objects and arrays are kept.
+
+export interface PartialJsonResult {
+  value: unknown;
+  completed: Set<string>;
+}
+
+interface Parsed {
+  value: unknown;
+  done: boolean;
+}
+
+const WHITESPACE = /\s/;
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+class PartialJsonParser {
+  private pos = 0;
+  readonly completed = new Set<string>();
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    return this.parseValue('').value;
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && WHITESPACE.test(this.text[this.pos])) this.pos++;
+  }
+
+  private atEnd() {
+    return this.pos >= this.text.length;
+  }
+
+  private parseValue(path: string): Parsed {
+    this.skipWhitespace();
+    if (this.atEnd()) return { value: undefined, done: false };
+
+    const char = this.text[this.pos];
+    let result: Parsed;
+    if (char === '{') result = this.parseObject(path);
+    else if (char === '[') result = this.parseArray(path);
+    else if (char === '"') result = this.parseString();
+    else result = this.parseScalar();
+
+    if (result.done) this.completed.add(path);
+    return result;
+  }
+
+  private parseObject(path: string): Parsed {
+    this.pos++; // {
+    const result: Record<string, unknown> = {};
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return { value: result, done: false };
+
+      const char = this.text[this.pos];
+      if (char === '}') {
+        this.pos++;
+        return { value: result, done: true };
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const key = this.parseString();
+      if (!key.done) return { value: result, done: false };
+
+      this.skipWhitespace();
+      if (this.atEnd() || this.text[this.pos] !== ':') return { value: result, done: false };
+      this.pos++; // :
+
+      const name = key.value as string;
+      const child = this.parseValue(path ? `${path}.${name}` : name);
+      if (child.done || (child.value !== null && typeof child.value === 'object')) {
+        result[name] = child.value;
+      }
+      if (!child.done) return { value: result, done: false };
+    }
+  }
+
+  private parseArray(path: string): Parsed {
+    this.pos++; // [
+    const result: unknown[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return { value: result, done: false };
+
+      const char = this.text[this.pos];
+      if (char === ']') {
+        this.pos++;
+        return { value: result, done: true };
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const child = this.parseValue(`${path}[${result.length}]`);
+      if (child.done || (child.value !== null && typeof child.value === 'object')) {
+        result.push(child.value);
+      }
+      if (!child.done) return { value: result, done: false };
+    }
+  }
+
+  private parseString(): Parsed {
+    if (this.text[this.pos] !== '"') return { value: undefined, done: false };
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (char === '"') {
+        this.pos++;
+        try {
+          return { value: JSON.parse(this.text.slice(start, this.pos)), done: true };
+        } catch {
+          return { value: undefined, done: false };
+        }
+      }
+      this.pos++;
+    }
+    return { value: undefined, done: false };
+  }
+
+  private parseScalar(): Parsed {
+    const match = this.text.slice(this.pos).match(/^[^,}\]\s]+/);
+    if (!match) return { value: undefined, done: false };
+    this.pos += match[0].length;
+    // A token touching the end of the buffer may still grow ("12" -> "125", "tr" -> "true")
+    if (this.atEnd()) return { value: undefined, done: false };
+
+    const token = match[0];
+    if (token in LITERALS) return { value: LITERALS[token], done: true };
+    const num = Number(token);
+    return Number.isFinite(num) ? { value: num, done: true } : { value: undefined, done: false };
+  }
+}
+
+export const parsePartialJson = (text: string): PartialJsonResult => {
+  const start = text.indexOf('{');
+  if (start === -1) return { value: undefined, completed: new Set() };
+  const parser = new PartialJsonParser(text.slice(start));
+  return { value: parser.parse(), completed: parser.completed };
+};
@@ -0,0 +1,471 @@
+import * as pdfMake from "pdfmake/build/pdfmake";
+import vfs from "pdfmake/build/vfs_fonts";
+import type { Column, Content, ContentColumns, ContentTable, CustomTableLayout, TDocumentDefinitions, TableCell } from "pdfmake/interfaces";
+import FileSaver from "file-saver";
+import { GeneratedAssessment, GeneratedLessonPlan, GeneratedVocabulary, GeneratedWorksheet, QuizQuestion, SchoolProfile } from "../types";
+import { ANSWER_LINES, ITEM_TYPE_LABELS, itemPoints, itemType, pointsLabel, totalPoints } from "./assessmentItems";
+import { ExamOptions, ExamVersion, PrintedItem, BubbleRow, bubbleRows, choiceLabels, examItems, itemPointsLabel, printedItem, versionTitle } from "./exam";
+
+// Vector PDFs built in the browser: selectable text, Roboto embedded from the bundle (works offline)
+// and real page breaks, headers and footers. Mirrors the Word export.
+pdfMake.addVirtualFileSystem(vfs);
+
+const PRIMARY = "#004369";
+const ACCENT = "#DBA858";
+const MUTED = "#64748B";
+const LINE = "#CBD5E1";
+const LOGO_HEIGHT = 40; // pt
+
+type Quiz = NonNullable<GeneratedAssessment['quiz']>;
+type Rubric = NonNullable<GeneratedAssessment['rubric']>;
+
+// --- BUILDING BLOCKS ---
+
+const sectionHeading = (text: string, color: string = PRIMARY): Content => ({
+  stack: [
+    { text, style: 'h2', color },
+    { canvas: [{ type: 'line', x1: 0, y1: 0, x2: 532, y2: 0, lineWidth: 1, lineColor: color }] },
+  ],
+  margin: [0, 14, 0, 6],
+});
+
+const labeled = (label: string, text: string): Content => ({ text: [{ text: label, bold: true }, text], margin: [0, 0, 0, 3] });
+
+const bulletList = (items: string[]): Content => ({ ul: items, margin: [12, 0, 0, 6] });
+
+// Navy header row repeated on every page the table spans
+const headedTableLayout: CustomTableLayout = {
+  fillColor: (rowIndex) => rowIndex === 0 ? PRIMARY : null,
+  hLineColor: () => LINE,
+  vLineColor: () => LINE,
+  paddingTop: () => 4,
+  paddingBottom: () => 4,
+};
+
+const headerRow = (titles: string[]): TableCell[] => titles.map(text => ({ text, bold: true, color: 'white' }));
+
+const table = (titles: string[], rows: TableCell[][], widths: (string | number)[]): ContentTable => ({
+  table: { headerRows: 1, dontBreakRows: true, widths, body: [headerRow(titles), ...rows] },
+  layout: headedTableLayout,
+  margin: [0, 0, 0, 8],
+});
+
+const nameAndDate: Content = {
+  columns: [
+    { text: 'Nombre: ______________________________________' },
+    { text: 'Fecha: __________________', alignment: 'right' },
+  ],
+  margin: [0, 0, 0, 12],
+};
+
+const writingLine = (): Content => ({
+  canvas: [{ type: 'line', x1: 0, y1: 0, x2: 500, y2: 0, lineWidth: 0.5, lineColor: LINE }],
+  margin: [12, 16, 0, 0],
+});
+
+// Emoji are not in Roboto; they are drawn with the system emoji font and embedded as an image
+const emojiImage = (emoji: string): string | undefined => {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 96;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    context.font = '72px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(emoji, 48, 52);
+    return canvas.toDataURL('image/png');
+  } catch {
+    return undefined;
+  }
+};
+
+// --- DOCUMENT SHELL ---
+
+const documentFor = (school: SchoolProfile, subtitle: string, content: Content[]): TDocumentDefinitions => {
+  const details = [
+    school.teacherName && `Docente: ${school.teacherName}`,
+    school.section && `Sección: ${school.section}`,
+  ].filter(Boolean).join('   ·   ');
+
+  return {
+    pageSize: 'LETTER',
+    pageMargins: [40, 90, 40, 50],
+    info: { title: subtitle, author: school.teacherName || school.name },
+    header: () => ({
+      margin: [40, 24, 40, 0],
+      columns: [
+        ...(school.logo ? [{ image: school.logo.dataUrl, height: LOGO_HEIGHT, width: LOGO_HEIGHT * school.logo.width / school.logo.height }] : []),
+        {
+          width: '*',
+          stack: [
+            { text: school.name, bold: true, fontSize: 13, color: PRIMARY },
+            { text: subtitle, italics: true, fontSize: 9, color: MUTED },
+            ...(details ? [{ text: details, fontSize: 8, color: MUTED }] : []),
+          ],
+          alignment: school.logo ? 'left' : 'center',
+          margin: [school.logo ? 10 : 0, 2, 0, 0],
+        },
+      ],
+    } as Content),
+    footer: (currentPage, pageCount) => ({
+      margin: [40, 16, 40, 0],
+      columns: [
+        { text: school.name, fontSize: 8, color: MUTED },
+        { text: `Página ${currentPage} de ${pageCount}`, fontSize: 8, color: MUTED, alignment: 'right' },
+      ],
+    }),
+    content,
+    defaultStyle: { font: 'Roboto', fontSize: 10, lineHeight: 1.2 },
+    styles: {
+      h1: { fontSize: 16, bold: true, color: PRIMARY, margin: [0, 0, 0, 6] },
+      h2: { fontSize: 12, bold: true, margin: [0, 0, 0, 2] },
+      h3: { fontSize: 10.5, bold: true, margin: [0, 8, 0, 3] },
+    },
+  };
+};
+
+const save = async (doc: TDocumentDefinitions, fileName: string) => {
+  const blob = await pdfMake.createPdf(doc).getBlob();
+  FileSaver.saveAs(blob, fileName);
+};
+
+const fileLabel = (plan: GeneratedLessonPlan) => {
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  return `${plan.generalData.subject.replace(/\s/g, '_')}_${currentDate}`;
+};
+
+// --- LESSON PLAN ---
+
+const planContent = (plan: GeneratedLessonPlan, school: SchoolProfile): Content[] => {
+  const { generalData, faithIntegration, evaluation, teacherGuide, homework } = plan;
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  const label = (text: string): TableCell => ({ text, bold: true, fillColor: '#F1F5F9' });
+
+  return [
+    {
+      table: {
+        widths: ['auto', '*', 'auto', '*'],
+        body: [
+          [label('Grado:'), generalData.grade, label('Asignatura:'), generalData.subject],
+          [label('Sección:'), school.section || '—', label('Docente:'), school.teacherName || '—'],
+          [label('Fecha:'), currentDate, label('Duración:'), plan.duration || '—'],
+          [label('Unidad:'), { text: generalData.unit, colSpan: 3 }, {}, {}],
+        ],
+      },
+      layout: { hLineColor: () => LINE, vLineColor: () => LINE },
+    },
+
+    { text: 'Contenido Conceptual:', style: 'h3' },
+    generalData.contentConceptual,
+    { text: 'Indicador de Logro:', style: 'h3' },
+    { text: generalData.achievementIndicator, italics: true },
+
+    sectionHeading('Integración de la Fe:', ACCENT),
+    labeled('Objetivo: ', faithIntegration.objective),
+    labeled('Concepto: ', faithIntegration.spiritualConcept),
+    { text: [{ text: 'Versículo: ', bold: true }, { text: `"${faithIntegration.bibleVerse}"`, italics: true }] },
+
+    sectionHeading('Secuencia Didáctica (ACES):'),
+    table(
+      ['Momento', 'Actividades', 'Recursos', 'Tiempo'],
+      plan.sequence.map((step): TableCell[] => [
+        { stack: [{ text: step.phase, bold: true, color: PRIMARY }, { text: step.title, italics: true }] },
+        { ul: step.activities },
+        step.resources.length ? { ul: step.resources } : '—',
+        step.time,
+      ]),
+      [80, '*', 110, 45],
+    ),
+
+    sectionHeading('Evaluación:'),
+    { text: 'Cualitativa:', bold: true },
+    bulletList(evaluation.qualitative),
+    { text: 'Cuantitativa:', bold: true },
+    bulletList(evaluation.quantitative),
+
+    ...(teacherGuide ? [
+      sectionHeading('Guía Docente:'),
+      { text: 'Conocimientos Previos:', bold: true },
+      bulletList(teacherGuide.priorKnowledge),
+      { text: 'Vocabulario Clave:', bold: true },
+      { text: teacherGuide.keyVocabulary.join(', '), margin: [0, 0, 0, 6] },
+      { text: 'Estrategias de Diferenciación:', bold: true },
+      bulletList(teacherGuide.differentiation),
+      { text: 'Consejos Metodológicos:', bold: true },
+      bulletList(teacherGuide.methodologicalTips),
+    ] as Content[] : []),
+
+    ...(homework ? [
+      sectionHeading('Tarea para la Casa:'),
+      homework.activity,
+      labeled('Criterio de evaluación: ', homework.evaluationCriteria),
+    ] : []),
+
+    ...(plan.resources.length ? [sectionHeading('Recursos:'), bulletList(plan.resources)] : []),
+
+    {
+      unbreakable: true,
+      margin: [0, 48, 0, 0],
+      columns: ['Firma del Docente', 'Vo. Bo. Dirección Académica'].map(text => ({
+        stack: [{ text: '________________________', alignment: 'center' }, { text, alignment: 'center' }],
+      })),
+    } as Content,
+  ];
+};
+
+export const generatePlanPdf = async (plan: GeneratedLessonPlan, school: SchoolProfile) =>
+  save(documentFor(school, 'Plan de Clase Integral - Modelo Adventista', planContent(plan, school)), `Plan_${fileLabel(plan)}.pdf`);
+
+// --- WORKSHEET ---
+
+export const generateWorksheetPdf = async (worksheet: GeneratedWorksheet, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const content: Content[] = [
+    { text: `${plan.generalData.subject} • ${plan.generalData.grade}`, color: MUTED, margin: [0, 0, 0, 4] },
+    nameAndDate,
+    { text: worksheet.title, style: 'h1', alignment: 'center' },
+    { text: worksheet.instructions, italics: true, alignment: 'center', color: MUTED, margin: [0, 0, 0, 12] },
+    ...worksheet.sections.map((section, idx): Content => ({
+      // A short section stays on one page; long ones break between items
+      unbreakable: section.content.length <= 6,
+      margin: [0, 0, 0, 10],
+      stack: [
+        { text: `${idx + 1}. ${section.title}`, style: 'h3' },
+        ...section.content.map((item, i): Content => {
+          if (section.type === 'lines') return { stack: [{ text: item, margin: [12, 0, 0, 0] }, writingLine(), writingLine()], margin: [0, 0, 0, 8] };
+          if (section.type === 'box') {
+            return {
+              unbreakable: true,
+              margin: [12, 2, 0, 8],
+              table: { widths: ['*'], heights: [80], body: [[{ text: item, fontSize: 8, color: MUTED }]] },
+              layout: { hLineColor: () => MUTED, vLineColor: () => MUTED },
+            };
+          }
+          return { text: `${String.fromCharCode(97 + i)})  ${item}`, margin: [12, 0, 0, 4] };
+        }),
+      ],
+    })),
+  ];
+  await save(documentFor(school, 'Hoja de Trabajo', content), `Hoja_Trabajo_${fileLabel(plan)}.pdf`);
+};
+
+// --- VOCABULARY CARDS ---
+
+// Two cards per row with dashed cutting lines; rows never split across pages
+export const generateVocabularyPdf = async (vocabulary: GeneratedVocabulary, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const cards: TableCell[] = vocabulary.cards.map(card => {
+    const icon = emojiImage(card.icon);
+    return {
+      stack: [
+        icon ? { image: icon, width: 44, alignment: 'center' } : { text: card.icon, fontSize: 28, alignment: 'center' },
+        { text: card.term.toUpperCase(), bold: true, fontSize: 16, alignment: 'center', color: PRIMARY, margin: [0, 8, 0, 6] },
+        { text: card.definition, alignment: 'center', color: MUTED },
+      ],
+      margin: [10, 24, 10, 24],
+    } as TableCell;
+  });
+  const rows: TableCell[][] = [];
+  for (let i = 0; i < cards.length; i += 2) rows.push([cards[i], cards[i + 1] ?? { text: '' }]);
+
+  const content: Content[] = [
+    { text: `Tarjetas de Vocabulario · ${plan.generalData.contentConceptual}`, style: 'h1' },
+    {
+      table: { widths: ['*', '*'], heights: 170, dontBreakRows: true, body: rows },
+      layout: {
+        hLineStyle: () => ({ dash: { length: 4, space: 3 } }),
+        vLineStyle: () => ({ dash: { length: 4, space: 3 } }),
+        hLineColor: () => MUTED,
+        vLineColor: () => MUTED,
+      },
+    },
+  ];
+  await save(documentFor(school, 'Material Recortable', content), `Tarjetas_Vocabulario_${fileLabel(plan)}.pdf`);
+};
+
+// --- ASSESSMENT ---
+
+// The student's side of an item: choices to mark, columns to match, elements to number, or lines
+// to write on. `label` names each choice ("(   )" on the quick quiz, letters on exams).
+const quizItemBody = (q: QuizQuestion, { options, matches, steps }: PrintedItem, label: (index: number) => string): Content[] => {
+  switch (itemType(q)) {
+    case 'matching':
+      return [{
+        columns: [
+          { width: '*', stack: (q.pairs ?? []).map((pair, j) => ({ text: `${j + 1}. ${pair.left}`, margin: [0, 0, 0, 3] } as Content)) },
+          { width: '*', stack: matches.map(right => ({ text: `(   )  ${right}`, margin: [0, 0, 0, 3] } as Content)) },
+        ],
+        margin: [14, 0, 0, 0],
+      }];
+    case 'ordering':
+      return steps.map(step => ({ text: `(   )  ${step}`, margin: [14, 0, 0, 2] } as Content));
+    default:
+      return [
+        ...options.map((option, j) => ({ text: `${label(j)}  ${option}`, margin: [14, 0, 0, 2] } as Content)),
+        ...Array.from({ length: ANSWER_LINES[itemType(q)] ?? 0 }, writingLine),
+      ];
+  }
+};
+
+// Student copy first; the answer key starts on its own page so it can be removed before printing
+export const generateQuizPdf = async (quiz: Quiz, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const content: Content[] = [
+    { text: `Evaluación · ${plan.generalData.contentConceptual}`, style: 'h1' },
+    { text: `${plan.generalData.subject} • ${plan.generalData.grade} • Puntaje total: ${pointsLabel(totalPoints(quiz.questions))}`, color: MUTED, margin: [0, 0, 0, 4] },
+    nameAndDate,
+    ...quiz.questions.map((q, i): Content => ({
+      unbreakable: true,
+      margin: [0, 0, 0, 10],
+      stack: [
+        { text: [{ text: `${i + 1}. ${q.question}`, bold: true }, { text: `  (${pointsLabel(itemPoints(q))})`, color: MUTED }], margin: [0, 0, 0, 4] },
+        ...quizItemBody(q, { ...printedItem(q), options: q.options }, () => '(   )'),
+      ],
+    })),
+    { text: 'Clave de Respuestas', style: 'h1', pageBreak: 'before' },
+    table(
+      ['#', 'Tipo', 'Respuesta correcta', 'Pts'],
+      quiz.questions.map((q, i) => [String(i + 1), ITEM_TYPE_LABELS[itemType(q)], q.correctAnswer, String(itemPoints(q))]),
+      [20, 80, '*', 24],
+    ),
+  ];
+  await save(documentFor(school, 'Evaluación', content), `Quiz_${fileLabel(plan)}.pdf`);
+};
+
+export const generateRubricPdf = async (rubric: Rubric, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const content: Content[] = [
+    { text: `Rúbrica · ${plan.generalData.contentConceptual}`, style: 'h1' },
+    { text: plan.generalData.achievementIndicator, italics: true, color: MUTED, margin: [0, 0, 0, 10] },
+    table(
+      ['Criterio', 'Excelente', 'Bueno', 'Necesita Mejorar'],
+      rubric.rows.map(row => [{ text: row.criteria, bold: true }, row.excellent, row.good, row.needsImprovement]),
+      [100, '*', '*', '*'],
+    ),
+  ];
+  await save(documentFor(school, 'Rúbrica de Evaluación', content), `Rubrica_${fileLabel(plan)}.pdf`);
+};
+
+// --- SUMMATIVE EXAM ---
+
+const BUBBLE = 13; // pt
+const BUBBLE_ROWS_PER_COLUMN = 20;
+
+// Title and student lines on the left, version and score box on the right
+const examHeader = (options: ExamOptions, version: ExamVersion, plan: GeneratedLessonPlan): ContentColumns => ({
+  columns: [
+    {
+      width: '*',
+      stack: [
+        { text: options.title, style: 'h1' },
+        { text: `${plan.generalData.subject} • ${plan.generalData.grade}`, color: MUTED, margin: [0, 0, 0, 12] },
+        { text: 'Nombre: ______________________________________________', margin: [0, 0, 0, 10] },
+        { text: 'Fecha: ____________________   Grado y sección: ________________' },
+      ],
+    },
+    {
+      width: 110,
+      table: {
+        widths: ['*'],
+        body: [
+          ...(version.label ? [[{ text: versionTitle(version).toUpperCase(), bold: true, fontSize: 12, color: PRIMARY, alignment: 'center' } as TableCell]] : []),
+          [{ text: 'PUNTAJE', bold: true, fontSize: 8, color: 'white', fillColor: PRIMARY, alignment: 'center' }],
+          [{ text: `______ / ${version.points}`, fontSize: 12, alignment: 'center', margin: [0, 10, 0, 10] }],
+          [{ text: 'Nota: ________', alignment: 'center', margin: [0, 2, 0, 2] }],
+        ],
+      },
+      layout: { hLineColor: () => PRIMARY, vLineColor: () => PRIMARY },
+    },
+  ],
+  columnGap: 16,
+  margin: [0, 0, 0, 12],
+});
+
+const examBody = (version: ExamVersion): Content[] => version.parts.flatMap(part => [
+  sectionHeading(`${part.numeral}. ${part.title}`),
+  { text: part.instructions, italics: true, color: MUTED, margin: [0, 0, 0, 6] },
+  ...part.items.map((item): Content => ({
+    unbreakable: true,
+    margin: [0, 0, 0, 10],
+    stack: [
+      { text: [{ text: `${item.number}. ${item.question.question}`, bold: true }, { text: `  (${itemPointsLabel(item)})`, color: MUTED }], margin: [0, 0, 0, 4] },
+      ...quizItemBody(item.question, item, j => `${choiceLabels(item.question, item.options.length)[j]})`),
+    ],
+  })),
+]);
+
+const bubble = (filled: boolean): Content => ({
+  width: BUBBLE,
+  canvas: [{ type: 'ellipse', x: BUBBLE / 2, y: BUBBLE / 2, r1: BUBBLE / 2 - 1, r2: BUBBLE / 2 - 1, lineWidth: 0.8, lineColor: PRIMARY, ...(filled && { color: PRIMARY }) }],
+});
+
+// Rows share the choice letters printed above each column; with `filled` it is the correction template
+const bubbleGrid = (rows: BubbleRow[], filled: boolean): Content[] => {
+  // Multiple choice and true/false are printed as separate blocks, each with its own letters
+  const blocks = [rows.filter(row => row.choices[0] !== 'V'), rows.filter(row => row.choices[0] === 'V')].filter(block => block.length);
+  return blocks.map((block): Content => {
+    const letters = block.reduce((widest, row) => row.choices.length > widest.length ? row.choices : widest, [] as string[]);
+    const columns: BubbleRow[][] = [];
+    for (let i = 0; i < block.length; i += BUBBLE_ROWS_PER_COLUMN) columns.push(block.slice(i, i + BUBBLE_ROWS_PER_COLUMN));
+    return {
+      columns: columns.map((column): Column => ({
+        width: 'auto',
+        stack: [
+          { columns: [{ text: '', width: 20 }, ...letters.map(letter => ({ text: letter, width: BUBBLE, bold: true, fontSize: 8, alignment: 'center' } as Content))], columnGap: 4, margin: [0, 0, 0, 3] },
+          ...column.map((row): Content => ({
+            columns: [
+              { text: `${row.number}.`, width: 20, alignment: 'right', fontSize: 9 },
+              ...row.choices.map((_, j) => bubble(filled && j === row.correct)),
+            ],
+            columnGap: 4,
+            margin: [0, 0, 0, 4],
+          })),
+        ],
+      })),
+      columnGap: 36,
+      margin: [0, 0, 0, 14],
+    };
+  });
+};
+
+const answerSheet = (options: ExamOptions, version: ExamVersion): Content[] => {
+  const rows = bubbleRows(version);
+  if (!rows.length) return [];
+  const writtenCount = examItems(version).length - rows.length;
+  return [
+    { text: 'Hoja de Respuestas', style: 'h1', pageBreak: 'before' },
+    { text: [options.title, versionTitle(version)].filter(Boolean).join(' • '), color: MUTED, margin: [0, 0, 0, 4] },
+    nameAndDate,
+    { text: 'Rellena por completo el círculo de la respuesta correcta.' + (writtenCount ? ' Las demás preguntas se responden en el examen.' : ''), italics: true, margin: [0, 0, 0, 10] },
+    ...bubbleGrid(rows, false),
+  ];
+};
+
+// One exam per version, each starting on a new page, followed by its answer sheet
+export const generateExamPdf = async (versions: ExamVersion[], options: ExamOptions, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const content = versions.flatMap((version, i): Content[] => [
+    { ...examHeader(options, version, plan), ...(i > 0 && { pageBreak: 'before' as const }) },
+    ...(options.instructions ? [{ text: options.instructions, margin: [0, 0, 0, 4] } as Content] : []),
+    ...examBody(version),
+    ...(options.includeAnswerSheet ? answerSheet(options, version) : []),
+  ]);
+  await save(documentFor(school, 'Evaluación Sumativa', content), `Examen_${fileLabel(plan)}.pdf`);
+};
+
+// Kept apart from the exams so they can be printed (and stored) separately
+export const generateExamKeyPdf = async (versions: ExamVersion[], options: ExamOptions, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const content = versions.flatMap((version, i): Content[] => {
+    const rows = bubbleRows(version);
+    return [
+      { text: `Clave de Respuestas${version.label ? ` · ${versionTitle(version)}` : ''}`, style: 'h1', ...(i > 0 && { pageBreak: 'before' }) } as Content,
+      { text: `${options.title} • Puntaje total: ${pointsLabel(version.points)}`, color: MUTED, margin: [0, 0, 0, 8] },
+      table(
+        ['#', 'Tipo', 'Respuesta', 'Pts'],
+        examItems(version).map(item => [String(item.number), ITEM_TYPE_LABELS[itemType(item.question)], item.key, String(itemPoints(item.question))]),
+        [20, 95, '*', 24],
+      ),
+      ...(options.includeAnswerSheet && rows.length ? [
+        { text: 'Plantilla de corrección de la hoja de respuestas', style: 'h3' } as Content,
+        ...bubbleGrid(rows, true),
+      ] : []),
+    ];
+  });
+  await save(documentFor(school, 'Evaluación Sumativa · Clave', content), `Clave_Examen_${fileLabel(plan)}.pdf`);
+};
@@ -0,0 +1,292 @@
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { PDFDocument } from 'pdf-lib';
+import { LessonPlanRequest, ParsedTextbook, TextbookReference, TextbookSection } from '../types';
+
+// Local parsing of textbook PDFs: a section index from the bookmarks (or from the headings when
+// the book has none), and extraction of the pages or text of the sections a teacher picks.
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Above this a whole book is too large to send inline; sections must be picked
+export const MAX_INLINE_PDF_BYTES = 18 * 1024 * 1024;
+
+export const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Books without bookmarks or recognisable headings are indexed in blocks of this many pages
+const PAGE_BLOCK_SIZE = 10;
+
+// "Unidad 3", "Lección 2: ...", "Tema IV", "Capítulo 1" start a section; "1.2 Las fracciones" too
+const KEYWORD_HEADING = /^(unidad|lecci[oó]n|tema|cap[ií]tulo|bloque|m[oó]dulo)\s+([0-9]+|[ivxlc]+)\b/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+\p{Lu}/u;
+
+// A heading line is set noticeably larger than the body text of its page
+const HEADING_SIZE_RATIO = 1.15;
+
+export type ParseProgress = (page: number, pageCount: number) => void;
+
+// pdf.js transfers the buffer it is given to its worker, so it always gets a copy
+const openPdf = (data: ArrayBuffer): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+interface FlatSection {
+  title: string;
+  level: number;
+  startPage: number;
+}
+
+// Nested sections from a flat list in reading order. A section ends where the next one at the
+// same or a higher level starts; `overlap` keeps the shared page when headings start mid-page.
+const buildTree = (flat: FlatSection[], pageCount: number, overlap: boolean): TextbookSection[] => {
+  const sorted = [...flat].sort((a, b) => a.startPage - b.startPage);
+  const roots: TextbookSection[] = [];
+  const stack: { level: number; section: TextbookSection }[] = []; // Levels as found, before nesting
+
+  sorted.forEach((item, i) => {
+    const next = sorted.slice(i + 1).find(other => other.level <= item.level);
+    const end = next ? (overlap ? next.startPage : next.startPage - 1) : pageCount;
+    const section: TextbookSection = {
+      id: `s${i + 1}`,
+      title: item.title,
+      level: item.level,
+      startPage: item.startPage,
+      endPage: Math.max(item.startPage, end),
+      children: [],
+    };
+
+    while (stack.length && stack[stack.length - 1].level >= item.level) stack.pop();
+    const parent = stack[stack.length - 1]?.section;
+    if (parent) {
+      section.level = parent.level + 1;
+      parent.children.push(section);
+    } else {
+      section.level = 0;
+      roots.push(section);
+    }
+    stack.push({ level: item.level, section });
+  });
+
+  return roots;
+};
+
+// --- BOOKMARKS ---
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+const outlinePage = async (pdf: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | undefined> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const ref = explicit?.[0];
+    if (ref === undefined || ref === null) return undefined;
+    const index = typeof ref === 'number' ? ref : await pdf.getPageIndex(ref);
+    return index + 1;
+  } catch {
+    return undefined; // Broken bookmarks are common in scanned books; skip them
+  }
+};
+
+const sectionsFromOutline = async (pdf: PDFDocumentProxy): Promise<FlatSection[]> => {
+  const outline = await pdf.getOutline();
+  if (!outline?.length) return [];
+
+  const flat: FlatSection[] = [];
+  const walk = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const page = await outlinePage(pdf, node.dest);
+      const title = node.title.trim();
+      if (page && title) flat.push({ title, level, startPage: page });
+      if (node.items?.length) await walk(node.items, level + 1);
+    }
+  };
+  await walk(outline, 0);
+  return flat;
+};
+
+// --- HEADINGS ---
+
+interface TextLine {
+  text: string;
+  size: number;
+}
+
+// Groups the text items of a page into lines (same baseline), top to bottom
+const pageLines = (items: TextItem[]): TextLine[] => {
+  const lines: (TextLine & { y: number })[] = [];
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const y = Math.round(item.transform[5]);
+    const size = Math.hypot(item.transform[2], item.transform[3]) || item.height;
+    const line = lines.find(l => Math.abs(l.y - y) <= 2);
+    if (line) {
+      line.text += (line.text.endsWith(' ') || item.str.startsWith(' ') ? '' : ' ') + item.str;
+      line.size = Math.max(line.size, size);
+    } else {
+      lines.push({ text: item.str, size, y });
+    }
+  }
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ text, size }) => ({ text: text.replace(/\s+/g, ' ').trim(), size }));
+};
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const headingLevel = (text: string): number | undefined => {
+  if (KEYWORD_HEADING.test(text)) return /^(unidad|bloque|m[oó]dulo|cap[ií]tulo)/i.test(text) ? 0 : 1;
+  const numbered = text.match(NUMBERED_HEADING);
+  return numbered ? numbered[1].split('.').length - 1 : undefined;
+};
+
+const sectionsFromHeadings = async (pdf: PDFDocumentProxy, onProgress?: ParseProgress): Promise<FlatSection[]> => {
+  const candidates: (FlatSection & { key: string })[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    onProgress?.(pageNumber, pdf.numPages);
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const lines = pageLines(content.items.filter((item): item is TextItem => 'str' in item));
+    const bodySize = median(lines.map(l => l.size));
+    page.cleanup();
+
+    for (const line of lines) {
+      if (line.text.length > 90 || line.size < bodySize * HEADING_SIZE_RATIO) continue;
+      const level = headingLevel(line.text);
+      if (level === undefined) continue;
+      candidates.push({ title: line.text, level, startPage: pageNumber, key: line.text.toLowerCase() });
+    }
+  }
+
+  // Titles repeated as running headers only start a section where they first appear
+  const seen = new Set<string>();
+  return candidates.filter(({ key }) => {
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const pageBlocks = (pageCount: number): FlatSection[] =>
+  Array.from({ length: Math.ceil(pageCount / PAGE_BLOCK_SIZE) }, (_, i) => {
+    const start = i * PAGE_BLOCK_SIZE + 1;
+    return { title: `Páginas ${start}–${Math.min(start + PAGE_BLOCK_SIZE - 1, pageCount)}`, level: 0, startPage: start };
+  });
+
+// Builds the section index of a textbook. Only the heading scan reads every page, so
+// `onProgress` is not called for books with bookmarks.
+export const parseTextbook = async (data: ArrayBuffer, fileName: string, onProgress?: ParseProgress): Promise<ParsedTextbook> => {
+  const pdf = await openPdf(data);
+  try {
+    const pageCount = pdf.numPages;
+    const sizeBytes = data.byteLength;
+
+    const outline = await sectionsFromOutline(pdf);
+    if (outline.length) {
+      return { fileName, pageCount, sizeBytes, sections: buildTree(outline, pageCount, false), indexSource: 'outline' };
+    }
+
+    const headings = await sectionsFromHeadings(pdf, onProgress);
+    if (headings.length) {
+      return { fileName, pageCount, sizeBytes, sections: buildTree(headings, pageCount, true), indexSource: 'headings' };
+    }
+
+    return { fileName, pageCount, sizeBytes, sections: buildTree(pageBlocks(pageCount), pageCount, false), indexSource: 'pages' };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// --- SELECTION ---
+
+export const flattenSections = (sections: TextbookSection[]): TextbookSection[] =>
+  sections.flatMap(section => [section, ...flattenSections(section.children)]);
+
+export const findSections = (book: ParsedTextbook, ids: string[]): TextbookSection[] =>
+  flattenSections(book.sections).filter(section => ids.includes(section.id));
+
+// Sorted, de-duplicated 1-based page numbers covered by the sections
+export const pagesFor = (sections: TextbookSection[]): number[] => {
+  const pages = new Set<number>();
+  sections.forEach(section => {
+    for (let page = section.startPage; page <= section.endPage; page++) pages.add(page);
+  });
+  return [...pages].sort((a, b) => a - b);
+};
+
+// "Unidad 2 (págs. 30–41); 3.1 Fracciones (pág. 45)"
+export const describeSections = (sections: TextbookSection[]): string =>
+  sections
+    .map(s => `${s.title} (${s.startPage === s.endPage ? `pág. ${s.startPage}` : `págs. ${s.startPage}–${s.endPage}`})`)
+    .join('; ');
+
+// Base64 in chunks: spreading a whole book into String.fromCharCode overflows the call stack
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fileToBase64 = (data: ArrayBuffer): string => toBase64(new Uint8Array(data));
+
+// A new PDF with only `pages`, as base64. No creation date is written, so the same selection
+// always produces the same bytes and the response cache recognises it.
+export const extractPages = async (data: ArrayBuffer, pages: number[]): Promise<string> => {
+  const source = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  const output = await PDFDocument.create({ updateMetadata: false });
+  const copied = await output.copyPages(source, pages.map(page => page - 1));
+  copied.forEach(page => output.addPage(page));
+  return toBase64(await output.save());
+};
+
+// Plain text of `pages`, each one marked so the model can cite page numbers
+export const extractText = async (data: ArrayBuffer, pages: number[]): Promise<string> => {
+  const pdf = await openPdf(data);
+  try {
+    const texts: string[] = [];
+    for (const pageNumber of pages) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lines = pageLines(content.items.filter((item): item is TextItem => 'str' in item));
+      texts.push(`--- Página ${pageNumber} ---\n${lines.map(l => l.text).join('\n')}`);
+      page.cleanup();
+    }
+    return texts.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// --- REQUEST SOURCE ---
+
+// Approximate size of what would be sent inline; text is always small enough
+export const inlineSourceBytes = (book: ParsedTextbook, { sectionIds, mode }: TextbookReference): number => {
+  if (!sectionIds.length) return book.sizeBytes;
+  if (mode === 'text') return 0;
+  return Math.round(book.sizeBytes * pagesFor(findSections(book, sectionIds)).length / book.pageCount);
+};
+
+// The request fields for a reference: the whole book when nothing is picked, otherwise only the
+// picked pages (as a PDF or as text) and a label naming them for the prompt
+export const buildTextbookSource = async (
+  book: ParsedTextbook,
+  data: ArrayBuffer,
+  { sectionIds, mode }: TextbookReference
+): Promise<Pick<LessonPlanRequest, 'pdfData' | 'sourceText' | 'sourceLabel'>> => {
+  if (!sectionIds.length) return { pdfData: fileToBase64(data) };
+
+  const sections = findSections(book, sectionIds);
+  const pages = pagesFor(sections);
+  const sourceLabel = describeSections(sections);
+  if (mode === 'text') {
+    const sourceText = await extractText(data, pages);
+    // Scanned books have no text layer; their pages are sent as images instead
+    if (/\S/.test(sourceText.replace(/--- Página \d+ ---/g, ''))) return { sourceText, sourceLabel };
+  }
+  return { pdfData: await extractPages(data, pages), sourceLabel };
+};
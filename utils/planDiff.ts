@@ -0,0 +1,125 @@
+import { GeneratedLessonPlan, MethodologicalStrategy } from "../types";
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export interface FieldDiff {
+  label: string;
+  kind: DiffKind;
+  before?: string;
+  after?: string;
+  // For list fields: which items appeared or disappeared
+  addedItems?: string[];
+  removedItems?: string[];
+}
+
+export interface SectionDiff {
+  section: string; // Human readable section (e.g. "Integración de la Fe", "Fase 2: Reflexionar")
+  fields: FieldDiff[];
+}
+
+type FieldValue = string | string[] | undefined;
+
+const isEmpty = (value: FieldValue) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const diffField = (label: string, before: FieldValue, after: FieldValue): FieldDiff | null => {
+  if (isEmpty(before) && isEmpty(after)) return null;
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const oldItems = (before as string[] | undefined) || [];
+    const newItems = (after as string[] | undefined) || [];
+    if (oldItems.join('\n') === newItems.join('\n')) return null;
+    return {
+      label,
+      kind: oldItems.length === 0 ? 'added' : newItems.length === 0 ? 'removed' : 'changed',
+      addedItems: newItems.filter(item => !oldItems.includes(item)),
+      removedItems: oldItems.filter(item => !newItems.includes(item)),
+    };
+  }
+
+  if (before === after) return null;
+  return {
+    label,
+    kind: isEmpty(before) ? 'added' : isEmpty(after) ? 'removed' : 'changed',
+    before: before as string | undefined,
+    after: after as string | undefined,
+  };
+};
+
+const collect = (section: string, fields: (FieldDiff | null)[]): SectionDiff | null => {
+  const changed = fields.filter((f): f is FieldDiff => f !== null);
+  return changed.length > 0 ? { section, fields: changed } : null;
+};
+
+const diffPhase = (index: number, before?: MethodologicalStrategy, after?: MethodologicalStrategy): SectionDiff | null => {
+  const phaseName = after?.phase || before?.phase || '';
+  const section = `Fase ${index + 1}: ${phaseName}`;
+
+  if (!before || !after) {
+    const step = (before || after)!;
+    return {
+      section,
+      fields: [{
+        label: 'Fase completa',
+        kind: before ? 'removed' : 'added',
+        before: before ? `${step.title} (${step.time})` : undefined,
+        after: after ? `${step.title} (${step.time})` : undefined,
+      }],
+    };
+  }
+
+  return collect(section, [
+    diffField('Fase', before.phase, after.phase),
+    diffField('Título', before.title, after.title),
+    diffField('Tiempo', before.time, after.time),
+    diffField('Actividades', before.activities, after.activities),
+    diffField('Recursos', before.resources, after.resources),
+  ]);
+};
+
+// Structural, per-field comparison of two plan versions. The sequence is compared phase by phase
+// (by position), so supervisors see "Fase 2 changed its activities" instead of a JSON patch.
+export const diffPlans = (before: GeneratedLessonPlan, after: GeneratedLessonPlan): SectionDiff[] => {
+  const sections: (SectionDiff | null)[] = [
+    collect('Datos Generales', [
+      diffField('Asignatura', before.generalData.subject, after.generalData.subject),
+      diffField('Grado', before.generalData.grade, after.generalData.grade),
+      diffField('Unidad', before.generalData.unit, after.generalData.unit),
+      diffField('Contenido', before.generalData.contentConceptual, after.generalData.contentConceptual),
+      diffField('Indicador de Logro', before.generalData.achievementIndicator, after.generalData.achievementIndicator),
+    ]),
+    collect('Integración de la Fe', [
+      diffField('Objetivo', before.faithIntegration.objective, after.faithIntegration.objective),
+      diffField('Texto Bíblico', before.faithIntegration.bibleVerse, after.faithIntegration.bibleVerse),
+      diffField('Principio Espiritual', before.faithIntegration.spiritualConcept, after.faithIntegration.spiritualConcept),
+    ]),
+  ];
+
+  const phaseCount = Math.max(before.sequence.length, after.sequence.length);
+  for (let i = 0; i < phaseCount; i++) {
+    sections.push(diffPhase(i, before.sequence[i], after.sequence[i]));
+  }
+
+  sections.push(
+    collect('Evaluación', [
+      diffField('Cualitativa', before.evaluation.qualitative, after.evaluation.qualitative),
+      diffField('Cuantitativa', before.evaluation.quantitative, after.evaluation.quantitative),
+    ]),
+    collect('Guía Docente', [
+      diffField('Conocimientos Previos', before.teacherGuide?.priorKnowledge, after.teacherGuide?.priorKnowledge),
+      diffField('Vocabulario Clave', before.teacherGuide?.keyVocabulary, after.teacherGuide?.keyVocabulary),
+      diffField('Diferenciación', before.teacherGuide?.differentiation, after.teacherGuide?.differentiation),
+      diffField('Consejos Metodológicos', before.teacherGuide?.methodologicalTips, after.teacherGuide?.methodologicalTips),
+    ]),
+    collect('Tarea', [
+      diffField('Actividad', before.homework?.activity, after.homework?.activity),
+      diffField('Criterio de Evaluación', before.homework?.evaluationCriteria, after.homework?.evaluationCriteria),
+    ]),
+    collect('Recursos', [
+      diffField('Recursos', before.resources, after.resources),
+      diffField('Prompts de Imágenes', before.flashcardPrompts, after.flashcardPrompts),
+    ]),
+  );
+
+  return sections.filter((s): s is SectionDiff => s !== null);
+};
@@ -0,0 +1,69 @@
+import { GeneratedLessonPlan } from "../types";
+
+export type PlanSortOrder = 'newest' | 'oldest';
+
+export interface PlanFilters {
+  query: string;
+  subject: string; // '' means any
+  grade: string;
+  contentType: string;
+  sort: PlanSortOrder;
+}
+
+export const EMPTY_FILTERS: PlanFilters = {
+  query: '',
+  subject: '',
+  grade: '',
+  contentType: '',
+  sort: 'newest',
+};
+
+// Lowercase and strip accents so "fotosintesis" finds "Fotosíntesis"
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// The fields teachers search by. Kept in one string so a query can span fields.
+const searchableText = (plan: GeneratedLessonPlan): string =>
+  normalizeText([
+    plan.generalData.contentConceptual,
+    plan.generalData.unit,
+    plan.generalData.achievementIndicator,
+    plan.faithIntegration.objective,
+    plan.faithIntegration.bibleVerse,
+    plan.faithIntegration.spiritualConcept,
+  ].filter(Boolean).join(' '));
+
+// Every word of the query must appear somewhere in the plan
+export const matchesQuery = (plan: GeneratedLessonPlan, query: string): boolean => {
+  const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = searchableText(plan);
+  return terms.every(term => haystack.includes(term));
+};
+
+export const filterPlans = (plans: GeneratedLessonPlan[], filters: PlanFilters): GeneratedLessonPlan[] => {
+  const result = plans.filter(plan =>
+    (!filters.subject || plan.generalData.subject === filters.subject) &&
+    (!filters.grade || plan.generalData.grade === filters.grade) &&
+    (!filters.contentType || plan.contentType === filters.contentType) &&
+    matchesQuery(plan, filters.query)
+  );
+
+  const direction = filters.sort === 'newest' ? -1 : 1;
+  return result.sort((a, b) => direction * (a.createdAt || '').localeCompare(b.createdAt || ''));
+};
+
+// Counts per facet value over the plans that match every *other* filter,
+// so the numbers next to each option reflect what selecting it would show.
+export const countFacet = (
+  plans: GeneratedLessonPlan[],
+  filters: PlanFilters,
+  facet: 'subject' | 'grade' | 'contentType'
+): Record<string, number> => {
+  const others = filterPlans(plans, { ...filters, [facet]: '' });
+  return others.reduce((acc, plan) => {
+    const value = facet === 'contentType' ? plan.contentType : plan.generalData[facet];
+    if (value) acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+};
@@ -0,0 +1,158 @@
+import PptxGenJS from "pptxgenjs";
+import FileSaver from "file-saver";
+import { GeneratedLessonPlan, GeneratedSlides, SchoolProfile, Slide } from "../types";
+import { isFaithSlide } from "./slides";
+
+// SDA branding: the same navy and gold as the Word export
+const PRIMARY = "004369";
+const ACCENT = "DBA858";
+const TEXT = "1E293B";
+const MUTED = "64748B";
+const FONT = "Calibri";
+
+const CONTENT_MASTER = "SDA_CONTENT";
+const FAITH_MASTER = "SDA_FAITH";
+
+// 16:9 layout is 13.33 x 7.5 inches; bullets on the left, image box on the right
+const BULLETS_BOX = { x: 0.6, y: 1.7, w: 7.4, h: 4.9 };
+const IMAGE_BOX = { x: 8.4, y: 1.7, w: 4.3, h: 3.6 };
+
+const defineMasters = (pptx: PptxGenJS, school: SchoolProfile) => {
+  const footer = (color: string) => ({
+    text: {
+      text: school.name,
+      options: { x: 0.6, y: 7.0, w: 8, h: 0.3, fontFace: FONT, fontSize: 10, color },
+    },
+  });
+
+  pptx.defineSlideMaster({
+    title: CONTENT_MASTER,
+    background: { color: "FFFFFF" },
+    objects: [
+      { rect: { x: 0, y: 0, w: "100%", h: 1.3, fill: { color: PRIMARY } } },
+      { rect: { x: 0, y: 1.3, w: "100%", h: 0.08, fill: { color: ACCENT } } },
+      {
+        placeholder: {
+          options: { name: "title", type: "title", x: 0.6, y: 0.2, w: 12.1, h: 0.9, fontFace: FONT, fontSize: 30, bold: true, color: "FFFFFF", valign: "middle" },
+          text: "",
+        },
+      },
+      footer(MUTED),
+    ],
+    slideNumber: { x: 12.3, y: 7.0, w: 0.6, h: 0.3, fontFace: FONT, fontSize: 10, color: MUTED },
+  });
+
+  // Faith integration stands apart: navy background, gold title and a verse band
+  pptx.defineSlideMaster({
+    title: FAITH_MASTER,
+    background: { color: PRIMARY },
+    objects: [
+      { rect: { x: 0, y: 0, w: 0.25, h: "100%", fill: { color: ACCENT } } },
+      {
+        placeholder: {
+          options: { name: "title", type: "title", x: 0.6, y: 0.3, w: 12.1, h: 1.0, fontFace: FONT, fontSize: 32, bold: true, color: ACCENT, valign: "middle" },
+          text: "",
+        },
+      },
+      footer("CBD5E1"),
+    ],
+    slideNumber: { x: 12.3, y: 7.0, w: 0.6, h: 0.3, fontFace: FONT, fontSize: 10, color: "CBD5E1" },
+  });
+};
+
+// Dashed frame where the teacher drops the picture, captioned with what it should show
+const addImagePlaceholder = (slide: PptxGenJS.Slide, pptx: PptxGenJS, visualSuggestion: string, dark: boolean) => {
+  slide.addShape(pptx.ShapeType.rect, {
+    ...IMAGE_BOX,
+    fill: { color: dark ? "0B5A85" : "F1F5F9" },
+    line: { color: dark ? ACCENT : "94A3B8", width: 1.5, dashType: "dash" },
+  });
+  slide.addText("Insertar imagen", {
+    ...IMAGE_BOX,
+    align: "center",
+    valign: "middle",
+    fontFace: FONT,
+    fontSize: 14,
+    color: dark ? "CBD5E1" : "94A3B8",
+  });
+  slide.addText(visualSuggestion, {
+    x: IMAGE_BOX.x,
+    y: IMAGE_BOX.y + IMAGE_BOX.h + 0.1,
+    w: IMAGE_BOX.w,
+    h: 0.9,
+    align: "center",
+    valign: "top",
+    fontFace: FONT,
+    fontSize: 12,
+    italic: true,
+    color: dark ? "E2E8F0" : MUTED,
+    fit: "shrink",
+  });
+};
+
+const bulletRuns = (bullets: string[], color: string) => bullets.map(text => ({
+  text,
+  options: { bullet: { indent: 18 }, color, breakLine: true, paraSpaceAfter: 10 },
+}));
+
+const addContentSlide = (pptx: PptxGenJS, slide: Slide) => {
+  const page = pptx.addSlide({ masterName: CONTENT_MASTER });
+  page.addText(slide.title, { placeholder: "title" });
+  page.addText(bulletRuns(slide.bullets, TEXT), { ...BULLETS_BOX, fontFace: FONT, fontSize: 22, valign: "top", fit: "shrink" });
+  addImagePlaceholder(page, pptx, slide.visualSuggestion, false);
+  if (slide.speakerNotes) page.addNotes(slide.speakerNotes);
+};
+
+const addFaithSlide = (pptx: PptxGenJS, slide: Slide, plan: GeneratedLessonPlan) => {
+  const page = pptx.addSlide({ masterName: FAITH_MASTER });
+  const { bibleVerse, spiritualConcept } = plan.faithIntegration;
+  page.addText(slide.title, { placeholder: "title" });
+  page.addText(bulletRuns(slide.bullets, "FFFFFF"), { x: 0.6, y: 1.5, w: 7.4, h: 3.4, fontFace: FONT, fontSize: 22, valign: "top", fit: "shrink" });
+  page.addText([
+    { text: `"${bibleVerse}"`, options: { italic: true, fontSize: 20, color: PRIMARY, breakLine: true } },
+    { text: spiritualConcept, options: { bold: true, fontSize: 14, color: PRIMARY } },
+  ], { x: 0.6, y: 5.1, w: 7.4, h: 1.5, fontFace: FONT, fill: { color: ACCENT }, margin: 12, valign: "middle", fit: "shrink" });
+  addImagePlaceholder(page, pptx, slide.visualSuggestion, true);
+  if (slide.speakerNotes) page.addNotes(slide.speakerNotes);
+};
+
+const addTitleSlide = (pptx: PptxGenJS, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const page = pptx.addSlide();
+  page.background = { color: PRIMARY };
+  page.addShape(pptx.ShapeType.rect, { x: 0, y: 4.6, w: "100%", h: 0.08, fill: { color: ACCENT } });
+  page.addText(plan.generalData.contentConceptual, {
+    x: 0.8, y: 1.6, w: 11.7, h: 2.2, fontFace: FONT, fontSize: 40, bold: true, color: "FFFFFF", valign: "bottom", fit: "shrink",
+  });
+  page.addText(`${plan.generalData.subject} · ${plan.generalData.grade}${school.section ? ` · ${school.section}` : ""}`, {
+    x: 0.8, y: 3.8, w: 11.7, h: 0.6, fontFace: FONT, fontSize: 20, color: ACCENT,
+  });
+  page.addText([
+    { text: school.name, options: { bold: true, breakLine: true } },
+    { text: school.teacherName },
+  ], { x: 0.8, y: 5.0, w: 11.7, h: 1.0, fontFace: FONT, fontSize: 16, color: "E2E8F0" });
+  if (school.logo) {
+    const h = 1.0;
+    const w = h * school.logo.width / school.logo.height;
+    page.addImage({ data: school.logo.dataUrl, x: 12.7 - w, y: 0.4, w, h });
+  }
+};
+
+// Title slide, then every generated slide with its speaker notes in the notes pane
+export const generatePptx = async (slides: GeneratedSlides, plan: GeneratedLessonPlan, school: SchoolProfile) => {
+  const pptx = new PptxGenJS();
+  pptx.layout = "LAYOUT_WIDE";
+  pptx.author = school.teacherName || school.name;
+  pptx.company = school.name;
+  pptx.title = plan.generalData.contentConceptual;
+  defineMasters(pptx, school);
+
+  addTitleSlide(pptx, plan, school);
+  for (const slide of slides.slides) {
+    if (isFaithSlide(slide)) addFaithSlide(pptx, slide, plan);
+    else addContentSlide(pptx, slide);
+  }
+
+  const blob = await pptx.write({ outputType: "blob" }) as Blob;
+  const currentDate = new Date().toLocaleDateString('es-NI');
+  FileSaver.saveAs(blob, `Presentacion_${plan.generalData.subject.replace(/\s/g, '_')}_${currentDate}.pptx`);
+};
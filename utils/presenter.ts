@@ -0,0 +1,96 @@
+import { GeneratedLessonPlan, GeneratedSlides, PresenterDeck, PresenterState } from "../types";
+
+// Presenter mode runs in two windows of the same app: the fullscreen audience view (which owns
+// the state) and a speaker window opened with ?presenter=<id>. They talk over a BroadcastChannel.
+
+export const PRESENTER_PARAM = 'presenter';
+
+export type PresenterCommand = 'next' | 'prev' | 'first' | 'last' | 'blackout' | 'nextPhase' | 'prevPhase' | 'end';
+
+export type PresenterMessage =
+  | { type: 'hello' }                                          // Speaker window asks for the deck
+  | { type: 'deck'; deck: PresenterDeck; state: PresenterState }
+  | { type: 'state'; state: PresenterState }
+  | { type: 'command'; command: PresenterCommand }             // Speaker window -> audience view
+  | { type: 'end' };
+
+export const openPresenterChannel = (id: string): BroadcastChannel => new BroadcastChannel(`plan-ultra:presenter:${id}`);
+
+export const speakerWindowUrl = (id: string): string => {
+  const url = new URL(window.location.href);
+  url.search = `?${PRESENTER_PARAM}=${encodeURIComponent(id)}`;
+  url.hash = '';
+  return url.toString();
+};
+
+// Reuses the same window name, so pressing "Presentar" again does not pile up popups
+export const openSpeakerWindow = (id: string): Window | null =>
+  window.open(speakerWindowUrl(id), 'plan-ultra-speaker', 'popup,width=1100,height=720');
+
+// "10 min", "1 hora", "1h 15min", "45'" -> minutes (0 when the text has no number)
+export const parsePhaseMinutes = (time: string): number => {
+  const hours = time.match(/(\d+(?:[.,]\d+)?)\s*h/i);
+  const minutes = time.match(/(\d+)\s*(?:min|m\b|')/i);
+  if (hours || minutes) {
+    return Math.round((hours ? parseFloat(hours[1].replace(',', '.')) * 60 : 0) + (minutes ? Number(minutes[1]) : 0));
+  }
+  const bare = time.match(/\d+/);
+  return bare ? Number(bare[0]) : 0;
+};
+
+export const presenterDeck = (slides: GeneratedSlides, plan: GeneratedLessonPlan): PresenterDeck => ({
+  title: plan.generalData.contentConceptual,
+  bibleVerse: plan.faithIntegration.bibleVerse,
+  slides: slides.slides,
+  phases: plan.sequence.map(step => ({ phase: step.phase, title: step.title, minutes: parsePhaseMinutes(step.time) })),
+});
+
+export const initialPresenterState = (now: number = Date.now()): PresenterState => ({
+  slideIndex: 0,
+  blackout: false,
+  phaseIndex: 0,
+  startedAt: now,
+  phaseStartedAt: now,
+});
+
+export const applyPresenterCommand = (state: PresenterState, command: PresenterCommand, deck: PresenterDeck, now: number = Date.now()): PresenterState => {
+  const lastSlide = deck.slides.length - 1;
+  const goToPhase = (phaseIndex: number) => phaseIndex === state.phaseIndex
+    ? state
+    : { ...state, phaseIndex, phaseStartedAt: now };
+
+  switch (command) {
+    case 'next': return { ...state, blackout: false, slideIndex: Math.min(lastSlide, state.slideIndex + 1) };
+    case 'prev': return { ...state, blackout: false, slideIndex: Math.max(0, state.slideIndex - 1) };
+    case 'first': return { ...state, blackout: false, slideIndex: 0 };
+    case 'last': return { ...state, blackout: false, slideIndex: lastSlide };
+    case 'blackout': return { ...state, blackout: !state.blackout };
+    case 'nextPhase': return goToPhase(Math.min(deck.phases.length - 1, state.phaseIndex + 1));
+    case 'prevPhase': return goToPhase(Math.max(0, state.phaseIndex - 1));
+    default: return state;
+  }
+};
+
+// Presentation clickers send PageDown/PageUp (some arrows), "." or "b" to blank the screen and
+// F5/Escape from the "play" button
+export const presenterCommandForKey = (e: KeyboardEvent): PresenterCommand | null => {
+  switch (e.key) {
+    case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter': case 'n': case 'N':
+      return 'next';
+    case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace': case 'p': case 'P':
+      return 'prev';
+    case 'Home': return 'first';
+    case 'End': return 'last';
+    case 'b': case 'B': case '.': case 'w': case 'W':
+      return 'blackout';
+    case 'Escape': return 'end';
+    default: return null;
+  }
+};
+
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${ms < 0 ? '-' : ''}${minutes}:${String(seconds).padStart(2, '0')}`;
+};
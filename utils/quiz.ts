@@ -0,0 +1,95 @@
+import { QuizAnswer, QuizAttempt, QuizQuestion } from "../types";
+import { itemType } from "./assessmentItems";
+
+// Classroom quiz runner: every student gets the questions and options in a new order, answers are
+// stored in the quiz's own order and graded against `correctAnswer`.
+
+export type DifficultyLevel = 'Fácil' | 'Media' | 'Difícil';
+
+// One question as a student sees it
+export interface QuizItem {
+  questionIndex: number; // Position in the generated quiz
+  options: string[];     // Shuffled
+}
+
+export interface QuestionStats {
+  question: string;
+  correctAnswer: string;
+  answered: number;
+  correct: number;
+  difficulty: number | null; // Share of students who got it right (0-1); null before any attempt
+  level: DifficultyLevel | null;
+  commonWrongAnswer?: { answer: string; count: number }; // Most chosen distractor
+}
+
+// Fisher-Yates; `random` is injectable so an order can be reproduced
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// A shuffle that never gives back the original order, for printed matching columns and ordering
+// items whose original order is the answer
+export const scramble = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = shuffle(items, random);
+  return items.length > 1 && result.every((item, i) => item === items[i]) ? [...items].reverse() : result;
+};
+
+export const shuffleQuiz = (questions: QuizQuestion[], random: () => number = Math.random): QuizItem[] =>
+  shuffle(questions.map((_, i) => i), random).map(questionIndex => ({
+    questionIndex,
+    // "Verdadero, Falso" reads wrong in any other order
+    options: itemType(questions[questionIndex]) === 'trueFalse' ? questions[questionIndex].options : shuffle(questions[questionIndex].options, random),
+  }));
+
+// Answers are compared as text, ignoring case, accents and surrounding spaces: models sometimes
+// repeat the correct option with different capitalization, and students type fill-in answers
+// without accents
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+export const sameAnswer = (a: string, b: string) => normalize(a) === normalize(b);
+
+export const isCorrect = (answer: QuizAnswer): boolean =>
+  answer.answer !== null && sameAnswer(answer.answer, answer.correctAnswer);
+
+// `answers` is indexed like `questions`
+export const gradeQuiz = (questions: QuizQuestion[], answers: (string | null)[]): { answers: QuizAnswer[]; score: number } => {
+  const graded = questions.map((q, i) => ({ question: q.question, correctAnswer: q.correctAnswer, answer: answers[i] ?? null }));
+  return { answers: graded, score: graded.filter(isCorrect).length };
+};
+
+// Attempts made on an earlier version of the quiz are kept but left out of the statistics
+export const attemptMatchesQuiz = (attempt: QuizAttempt, questions: QuizQuestion[]): boolean =>
+  attempt.answers.length === questions.length
+  && attempt.answers.every((a, i) => a.question === questions[i].question);
+
+// Classical difficulty index: 70% or more right is easy, under 40% is hard
+export const difficultyLevel = (difficulty: number): DifficultyLevel =>
+  difficulty >= 0.7 ? 'Fácil' : difficulty >= 0.4 ? 'Media' : 'Difícil';
+
+export const quizStatistics = (questions: QuizQuestion[], attempts: QuizAttempt[]): QuestionStats[] =>
+  questions.map((q, i) => {
+    const answers = attempts.map(a => a.answers[i]).filter(a => a?.answer != null);
+    const correct = answers.filter(isCorrect).length;
+    const wrongCounts = new Map<string, number>();
+    for (const a of answers) {
+      if (!isCorrect(a)) wrongCounts.set(a.answer!, (wrongCounts.get(a.answer!) ?? 0) + 1);
+    }
+    const [commonWrong] = [...wrongCounts.entries()].sort((a, b) => b[1] - a[1]);
+    // Blank answers count as wrong: the question was in front of every student
+    const difficulty = attempts.length ? correct / attempts.length : null;
+    return {
+      question: q.question,
+      correctAnswer: q.correctAnswer,
+      answered: answers.length,
+      correct,
+      difficulty,
+      level: difficulty === null ? null : difficultyLevel(difficulty),
+      commonWrongAnswer: commonWrong ? { answer: commonWrong[0], count: commonWrong[1] } : undefined,
+    };
+  });
+
+export const percentage = (part: number, total: number): number => total ? Math.round(part / total * 100) : 0;
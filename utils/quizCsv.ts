@@ -0,0 +1,55 @@
+import FileSaver from "file-saver";
+import { QuizAttempt, QuizQuestion } from "../types";
+import { isCorrect, percentage, quizStatistics } from "./quiz";
+
+// CSV export of a quiz's results: one row per student (their answer to every question and the
+// score), then the per-question statistics. A UTF-8 BOM makes Excel read the accents correctly.
+
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Names are typed by students and answers written by the model: a leading =, +, -, @, tab or
+// carriage return would make Excel run the cell as a formula, so it gets a quote in front
+const plainText = (text: string): string => /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+
+// Excel turns answers like "5/8" or "3-4" into dates or numbers; as a formula they stay text
+const asText = (text: string): string => /^[\d\s/.,:+-]+$/.test(text) ? `="${text}"` : plainText(text);
+
+const row = (cells: (string | number)[]) => cells.map(escapeCell).join(',');
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('es-NI', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+export const buildQuizResultsCsv = (questions: QuizQuestion[], attempts: QuizAttempt[]): string => {
+  const total = questions.length;
+  const lines = [
+    row(['Estudiante', 'Fecha', ...questions.map((_, i) => `P${i + 1}`), 'Correctas', 'Total', 'Porcentaje']),
+    ...attempts.map(attempt => row([
+      plainText(attempt.studentName),
+      formatDate(attempt.finishedAt),
+      ...attempt.answers.map(a => a.answer === null ? '' : plainText(`${isCorrect(a) ? '✓' : '✗'} ${a.answer}`)),
+      attempt.score,
+      total,
+      `${percentage(attempt.score, total)}%`,
+    ])),
+    '',
+    row(['Pregunta', 'Enunciado', 'Respuesta correcta', 'Aciertos', '% de aciertos', 'Dificultad', 'Distractor más elegido']),
+    ...quizStatistics(questions, attempts).map((stats, i) => row([
+      `P${i + 1}`,
+      plainText(stats.question),
+      asText(stats.correctAnswer),
+      `${stats.correct} de ${attempts.length}`,
+      stats.difficulty === null ? '' : `${Math.round(stats.difficulty * 100)}%`,
+      stats.level ?? '',
+      stats.commonWrongAnswer ? plainText(`${stats.commonWrongAnswer.answer} (${stats.commonWrongAnswer.count})`) : '',
+    ])),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const downloadQuizResultsCsv = (questions: QuizQuestion[], attempts: QuizAttempt[], topic: string) => {
+  const blob = new Blob(['\uFEFF' + buildQuizResultsCsv(questions, attempts)], { type: 'text/csv;charset=utf-8' });
+  FileSaver.saveAs(blob, `Resultados_Quiz_${topic.replace(/\s/g, '_')}.csv`);
+};
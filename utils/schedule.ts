@@ -0,0 +1,126 @@
+import { ClassSchedule, ClassPeriod, ClassSection, TimetableSlot, SchoolHoliday } from "../types";
+
+// Calendar arithmetic for the class schedule. Dates are handled as local "YYYY-MM-DD" keys
+// so a class never shifts day because of time zones.
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Lunes',
+  2: 'Martes',
+  3: 'Miércoles',
+  4: 'Jueves',
+  5: 'Viernes',
+  6: 'Sábado',
+};
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Monday of the week containing `date`
+export const startOfWeek = (date: Date): Date =>
+  addDays(date, -((date.getDay() + 6) % 7));
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const periodMinutes = (period: ClassPeriod): number =>
+  timeToMinutes(period.end) - timeToMinutes(period.start);
+
+// Reads the free-text plan duration ("45 minutos", "1 hora", "1h 30 min", "90").
+// Returns null when no amount can be found.
+export const parseDurationMinutes = (duration: string | undefined): number | null => {
+  if (!duration) return null;
+  const text = duration.toLowerCase().replace(',', '.');
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h\b|hr|hora)/);
+  const minutes = text.match(/(\d+)\s*(?:m\b|min)/);
+  if (hours || minutes) {
+    return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+  }
+  const bare = text.match(/^\s*(\d+)\s*$/);
+  return bare ? parseInt(bare[1], 10) : null;
+};
+
+// A plan longer than its period; null when it fits or the duration cannot be read
+export const durationOverflow = (duration: string | undefined, period: ClassPeriod): { planMinutes: number; periodMinutes: number } | null => {
+  const planMinutes = parseDurationMinutes(duration);
+  const available = periodMinutes(period);
+  return planMinutes !== null && planMinutes > available ? { planMinutes, periodMinutes: available } : null;
+};
+
+export const holidayOn = (dateKey: string, holidays: SchoolHoliday[]): SchoolHoliday | undefined =>
+  holidays.find(h => h.start <= dateKey && dateKey <= (h.end || h.start));
+
+export const isInTerm = (dateKey: string, schedule: ClassSchedule): boolean =>
+  (!schedule.termStart || dateKey >= schedule.termStart) && (!schedule.termEnd || dateKey <= schedule.termEnd);
+
+// One concrete class: a timetable slot on a given date
+export interface ClassOccurrence {
+  date: string;
+  slot: TimetableSlot;
+  period: ClassPeriod;
+  section: ClassSection;
+  start: Date;
+  end: Date;
+}
+
+const atTime = (date: Date, time: string): Date => {
+  const minutes = timeToMinutes(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(minutes / 60), minutes % 60);
+};
+
+// Classes held on `date`, by start time. Holidays and days outside the term have none.
+export const classesOn = (schedule: ClassSchedule, date: Date): ClassOccurrence[] => {
+  const dateKey = toDateKey(date);
+  if (!isInTerm(dateKey, schedule) || holidayOn(dateKey, schedule.holidays)) return [];
+
+  const occurrences: ClassOccurrence[] = [];
+  for (const slot of schedule.slots) {
+    if (slot.weekday !== date.getDay()) continue;
+    const period = schedule.periods.find(p => p.id === slot.periodId);
+    const section = schedule.sections.find(s => s.id === slot.sectionId);
+    if (!period || !section) continue;
+    occurrences.push({ date: dateKey, slot, period, section, start: atTime(date, period.start), end: atTime(date, period.end) });
+  }
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// Both bounds inclusive
+export const classesBetween = (schedule: ClassSchedule, from: Date, to: Date): ClassOccurrence[] => {
+  const occurrences: ClassOccurrence[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    occurrences.push(...classesOn(schedule, day));
+  }
+  return occurrences;
+};
+
+// Stops looking after `horizonDays` (e.g. a timetable with no slots, or the term is over)
+const NEXT_CLASS_HORIZON_DAYS = 60;
+
+// The class in progress or the next one to start
+export const nextClass = (schedule: ClassSchedule, now: Date = new Date()): ClassOccurrence | undefined => {
+  for (let offset = 0; offset <= NEXT_CLASS_HORIZON_DAYS; offset++) {
+    const found = classesOn(schedule, addDays(now, offset)).find(c => c.end > now);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// "Hoy", "Mañana" or the weekday and date
+export const relativeDayLabel = (date: Date, now: Date = new Date()): string => {
+  const key = toDateKey(date);
+  if (key === toDateKey(now)) return 'Hoy';
+  if (key === toDateKey(addDays(now, 1))) return 'Mañana';
+  return date.toLocaleDateString('es-NI', { weekday: 'long', day: 'numeric', month: 'short' });
+};
+
+export const formatClassTime = (date: Date): string =>
+  date.toLocaleTimeString('es-NI', { hour: 'numeric', minute: '2-digit' });
@@ -0,0 +1,7 @@
+import { Slide } from "../types";
+
+// Slides generated before the model flagged the faith slide are recognized by their title
+const FAITH_TITLE = /\b(fe|espiritual|b[ií]blic[oa]|vers[ií]culo|reflexi[oó]n|jes[uú]s|dios)\b/i;
+
+export const isFaithSlide = (slide: Slide): boolean =>
+  slide.isFaithIntegration ?? FAITH_TITLE.test(slide.title);
@@ -0,0 +1,145 @@
+import mammoth from 'mammoth';
+import { SourceAttachment, SourceKind } from '../types';
+import { fileToBase64 } from './pdfTextbook';
+
+// Conversion of teacher files into attachments the model accepts. Everything runs in the browser.
+
+// Photos are scaled down to this longest side: enough to read a textbook page, far below the
+// resolution of a phone camera
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.85;
+const THUMBNAIL_DIMENSION = 160;
+const EXCERPT_LENGTH = 240;
+
+export const SOURCE_FILE_ACCEPT = 'image/jpeg,image/png,application/pdf,text/plain,.docx,.txt,.md';
+
+export class UnsupportedSourceError extends Error {
+  constructor(readonly fileName: string) {
+    super(`Unsupported source file: ${fileName}`);
+    this.name = 'UnsupportedSourceError';
+  }
+}
+
+export const sourceKindOf = (file: File): SourceKind | undefined => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'image/jpeg' || file.type === 'image/png' || /\.(jpe?g|png)$/.test(name)) return 'image';
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (name.endsWith('.docx')) return 'docx';
+  if (file.type.startsWith('text/') || /\.(txt|md)$/.test(name)) return 'text';
+  return undefined;
+};
+
+// --- IMAGES ---
+
+// Crop rectangle as fractions (0–1) of the image after rotation
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdit {
+  rotation: 0 | 90 | 180 | 270; // Clockwise, on top of the EXIF orientation
+  crop?: CropRect;
+}
+
+export const NO_IMAGE_EDIT: ImageEdit = { rotation: 0 };
+
+// Phone photos store their orientation in EXIF; decoding with 'from-image' applies it, so a
+// page photographed in portrait is not sent sideways
+export const loadOrientedImage = (file: Blob): Promise<ImageBitmap> =>
+  createImageBitmap(file, { imageOrientation: 'from-image' });
+
+// Draws the bitmap rotated, then cropped, scaled so its longest side fits `maxDimension`
+export const renderImage = (bitmap: ImageBitmap, { rotation, crop }: ImageEdit, maxDimension: number): HTMLCanvasElement => {
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const rotatedWidth = quarterTurn ? bitmap.height : bitmap.width;
+  const rotatedHeight = quarterTurn ? bitmap.width : bitmap.height;
+  const area = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  const sourceWidth = area.width * rotatedWidth;
+  const sourceHeight = area.height * rotatedHeight;
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  // Map the crop to the origin, then rotate around the rotated image's center
+  context.scale(scale, scale);
+  context.translate(-area.x * rotatedWidth, -area.y * rotatedHeight);
+  context.translate(rotatedWidth / 2, rotatedHeight / 2);
+  context.rotate((rotation * Math.PI) / 180);
+  context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  return canvas;
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement, mimeType: string): string =>
+  canvas.toDataURL(mimeType, JPEG_QUALITY).split(',')[1];
+
+// Photos become JPEG; PNGs (usually screenshots or scans with text) stay lossless
+export const imageAttachment = async (file: File, edit: ImageEdit, id: string = crypto.randomUUID()): Promise<SourceAttachment> => {
+  const bitmap = await loadOrientedImage(file);
+  try {
+    const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const thumbnail = renderImage(bitmap, edit, THUMBNAIL_DIMENSION).toDataURL('image/jpeg', 0.7);
+    return {
+      id,
+      kind: 'image',
+      fileName: file.name,
+      mimeType,
+      data: canvasToBase64(renderImage(bitmap, edit, MAX_IMAGE_DIMENSION), mimeType),
+      thumbnail,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// --- DOCUMENTS ---
+
+const textToBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  // TextEncoder output is never backed by a SharedArrayBuffer
+  return fileToBase64(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+};
+
+const textSource = (file: File, kind: SourceKind, text: string, id: string): SourceAttachment => {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  return {
+    id,
+    kind,
+    fileName: file.name,
+    mimeType: 'text/plain',
+    data: textToBase64(normalized),
+    excerpt: normalized.slice(0, EXCERPT_LENGTH),
+  };
+};
+
+// Word files are not accepted by the model; their text is sent instead
+const docxAttachment = async (file: File, id: string): Promise<SourceAttachment> => {
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return textSource(file, 'docx', value, id);
+};
+
+// Images get the default edit; use imageAttachment to re-encode one after cropping or rotating
+export const fileToAttachment = async (file: File, id: string = crypto.randomUUID()): Promise<SourceAttachment> => {
+  switch (sourceKindOf(file)) {
+    case 'image':
+      return imageAttachment(file, NO_IMAGE_EDIT, id);
+    case 'pdf':
+      return { id, kind: 'pdf', fileName: file.name, mimeType: 'application/pdf', data: fileToBase64(await file.arrayBuffer()) };
+    case 'docx':
+      return docxAttachment(file, id);
+    case 'text':
+      return textSource(file, 'text', await file.text(), id);
+    default:
+      throw new UnsupportedSourceError(file.name);
+  }
+};
+
+// Bytes an attachment adds to the request (base64 is 4/3 of the content)
+export const attachmentBytes = (attachment: SourceAttachment): number => Math.round(attachment.data.length * 3 / 4);
@@ -0,0 +1,25 @@
+import { GeneratedLessonPlan, Textbook, TextbookSection } from "../types";
+import { flattenSections } from "./pdfTextbook";
+
+// Which chapters (top-level sections) of a library book have plans generated from them
+
+export interface ChapterCoverage {
+  chapter: TextbookSection;
+  plans: GeneratedLessonPlan[];
+}
+
+export interface TextbookCoverage {
+  book: Textbook;
+  chapters: ChapterCoverage[];
+  covered: number;
+}
+
+// A plan covers a chapter when it used the chapter itself or any section inside it
+export const computeTextbookCoverage = (book: Textbook, plans: GeneratedLessonPlan[]): TextbookCoverage => {
+  const fromBook = plans.filter(p => p.textbook?.textbookId === book.id && p.textbook.sectionIds.length > 0);
+  const chapters = book.sections.map(chapter => {
+    const ids = new Set(flattenSections([chapter]).map(s => s.id));
+    return { chapter, plans: fromBook.filter(p => p.textbook!.sectionIds.some(id => ids.has(id))) };
+  });
+  return { book, chapters, covered: chapters.filter(c => c.plans.length > 0).length };
+};
@@ -0,0 +1,164 @@
+// Minimal runtime validation for model output.
+// Each validator returns a value of the expected type no matter what it receives, filling safe
+// defaults, and records what it had to fix. Fields marked `required` have no meaningful default
+// (an empty lesson sequence, a quiz without questions): they are reported as unrepaired so the
+// caller can ask the model again for just those parts.
+
+export type IssueProblem = 'missing' | 'wrong_type' | 'invalid_value' | 'too_few_items';
+
+export interface ValidationIssue {
+  path: string; // e.g. "sequence[2].activities"
+  problem: IssueProblem;
+  expected: string;
+  repaired: boolean;
+}
+
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+interface FieldOptions {
+  required?: boolean;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const report = (issues: ValidationIssue[], path: string, problem: IssueProblem, expected: string, repaired: boolean) => {
+  issues.push({ path, problem, expected, repaired });
+};
+
+export const string = (options: FieldOptions & { fallback?: string } = {}): Validator<string> =>
+  (value, path, issues) => {
+    if (typeof value === 'string') {
+      if (options.required && value.trim() === '') report(issues, path, 'missing', 'non-empty string', false);
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      report(issues, path, 'wrong_type', 'string', true);
+      return String(value);
+    }
+    report(issues, path, isMissing(value) ? 'missing' : 'wrong_type', 'string', !options.required);
+    return options.fallback ?? '';
+  };
+
+export const number = (options: FieldOptions & { fallback?: number } = {}): Validator<number> =>
+  (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      report(issues, path, 'wrong_type', 'number', true);
+      return Number(value);
+    }
+    report(issues, path, isMissing(value) ? 'missing' : 'wrong_type', 'number', !options.required);
+    return options.fallback ?? 0;
+  };
+
+export const boolean = (options: { fallback?: boolean } = {}): Validator<boolean> =>
+  (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      report(issues, path, 'wrong_type', 'boolean', true);
+      return value === 'true';
+    }
+    report(issues, path, isMissing(value) ? 'missing' : 'wrong_type', 'boolean', true);
+    return options.fallback ?? false;
+  };
+
+// String restricted to a set of values. Matching ignores case and accents, since models often
+// return "aplicar" or "Activo " instead of the canonical value.
+export const oneOf = <T extends string>(values: readonly T[], fallback: T): Validator<T> =>
+  (value, path, issues) => {
+    if (typeof value === 'string') {
+      if ((values as readonly string[]).includes(value)) return value as T;
+      const normalize = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+      const match = values.find(v => normalize(v) === normalize(value));
+      if (match) return match;
+    }
+    report(issues, path, isMissing(value) ? 'missing' : 'invalid_value', values.join(' | '), true);
+    return fallback;
+  };
+
+export const array = <T>(item: Validator<T>, options: { min?: number } = {}): Validator<T[]> =>
+  (value, path, issues) => {
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else if (isMissing(value)) {
+      items = [];
+      // An empty list is a fine default unless a minimum is required (reported below)
+      if (!options.min) report(issues, path, 'missing', 'array', true);
+    } else {
+      // A single element where a list was expected: wrap it
+      report(issues, path, 'wrong_type', 'array', true);
+      items = [value];
+    }
+
+    const result = items.map((element, i) => item(element, `${path}[${i}]`, issues));
+    if (options.min && result.length < options.min) {
+      report(issues, path, 'too_few_items', `at least ${options.min} items`, false);
+    }
+    return result;
+  };
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+export const object = <T>(shape: Shape<T>): Validator<T> =>
+  (value, path, issues) => {
+    let source: Record<string, unknown> = {};
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      source = value as Record<string, unknown>;
+    } else {
+      report(issues, path, isMissing(value) ? 'missing' : 'wrong_type', 'object', true);
+    }
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldValue = shape[key](source[key], path ? `${path}.${key}` : key, issues);
+      if (fieldValue !== undefined) result[key] = fieldValue;
+    }
+    return result;
+  };
+
+// Optional fields stay undefined when absent; when present they are validated normally
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path, issues) => (isMissing(value) ? undefined : validator(value, path, issues));
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+  unrepaired: ValidationIssue[];
+}
+
+export const validate = <T>(validator: Validator<T>, data: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const value = validator(data, '', issues);
+  return { value, issues, unrepaired: issues.filter(issue => !issue.repaired) };
+};
+
+// --- Path helpers (used to merge a targeted follow-up answer into the original one) ---
+
+const parsePath = (path: string): (string | number)[] =>
+  path.split('.').flatMap(part => {
+    const segments: (string | number)[] = [];
+    const match = part.match(/^([^[]*)((?:\[\d+\])*)$/);
+    if (!match) return [part];
+    if (match[1]) segments.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) segments.push(Number(index[1]));
+    return segments;
+  });
+
+export const getAtPath = (data: unknown, path: string): unknown =>
+  parsePath(path).reduce<unknown>((current, key) =>
+    current && typeof current === 'object' ? (current as Record<string | number, unknown>)[key] : undefined, data);
+
+export const setAtPath = (data: Record<string, unknown>, path: string, value: unknown): void => {
+  const segments = parsePath(path);
+  let current: Record<string | number, unknown> = data;
+  segments.forEach((key, i) => {
+    if (i === segments.length - 1) {
+      current[key] = value;
+      return;
+    }
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = typeof segments[i + 1] === 'number' ? [] : {};
+    }
+    current = current[key] as Record<string | number, unknown>;
+  });
+};
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,39 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Installable app that works offline: every built asset (Tailwind, Inter, the PDF/Word/
+        // PowerPoint engines, the pdf.js worker) is precached by the service worker
+        VitePWA({
+          registerType: 'prompt',
+          includeAssets: ['icon.svg'],
+          manifest: {
+            name: 'Plan de Clase Ultra',
+            short_name: 'Plan Ultra',
+            description: 'Sistema de Planificación Educativa Adventista de Nicaragua',
+            lang: 'es',
+            start_url: '/',
+            display: 'standalone',
+            theme_color: '#004369',
+            background_color: '#F5F7FA',
+            icons: [
+              { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+              { src: 'icon.svg', sizes: 'any', type: 'image/svg+xml' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,mjs,css,html,woff2,png,svg}'],
+            maximumFileSizeToCacheInBytes: 12 * 1024 * 1024, // pdf.js and the embedded PDF fonts are large
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {